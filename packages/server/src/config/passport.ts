@@ -6,20 +6,20 @@ import { nanoid } from 'nanoid';
 import { userQueries, User } from '../db/schema.js';
 
 // Helper to find or create user
-function findOrCreateUser(
+async function findOrCreateUser(
   provider: 'google' | 'github' | 'discord',
   providerId: string,
   email: string | null,
   name: string | null,
   avatarUrl: string | null
-): User {
-  let user = userQueries.findByProviderId(provider, providerId);
+): Promise<User> {
+  let user = await userQueries.findByProviderId(provider, providerId);
 
   if (!user) {
     const id = nanoid();
     const now = Date.now();
-    userQueries.create(id, email, name, avatarUrl, provider, providerId, now);
-    user = userQueries.findById(id)!;
+    await userQueries.create(id, email, name, avatarUrl, provider, providerId, now);
+    user = (await userQueries.findById(id))!;
   }
 
   return user;
@@ -34,9 +34,9 @@ export function configurePassport() {
   });
 
   // Deserialize user from session
-  passport.deserializeUser((id: string, done) => {
+  passport.deserializeUser(async (id: string, done) => {
     try {
-      const user = userQueries.findById(id);
+      const user = await userQueries.findById(id);
       done(null, user || null);
     } catch (err) {
       done(err, null);
@@ -52,9 +52,9 @@ export function configurePassport() {
           clientSecret: process.env.GOOGLE_CLIENT_SECRET,
           callbackURL: `${PUBLIC_URL}/auth/google/callback`,
         },
-        (_accessToken, _refreshToken, profile, done) => {
+        async (_accessToken, _refreshToken, profile, done) => {
           try {
-            const user = findOrCreateUser(
+            const user = await findOrCreateUser(
               'google',
               profile.id,
               profile.emails?.[0]?.value || null,
@@ -83,14 +83,14 @@ export function configurePassport() {
           clientSecret: process.env.GITHUB_CLIENT_SECRET,
           callbackURL: `${PUBLIC_URL}/auth/github/callback`,
         },
-        (
+        async (
           _accessToken: string,
           _refreshToken: string,
           profile: { id: string; displayName?: string; username?: string; emails?: Array<{ value: string }>; photos?: Array<{ value: string }> },
           done: (error: Error | null, user?: User) => void
         ) => {
           try {
-            const user = findOrCreateUser(
+            const user = await findOrCreateUser(
               'github',
               profile.id,
               profile.emails?.[0]?.value || null,
@@ -117,12 +117,12 @@ export function configurePassport() {
           callbackURL: `${PUBLIC_URL}/auth/discord/callback`,
           scope: ['identify', 'email'],
         },
-        (_accessToken, _refreshToken, profile, done) => {
+        async (_accessToken, _refreshToken, profile, done) => {
           try {
             const avatarUrl = profile.avatar
               ? `https://cdn.discordapp.com/avatars/${profile.id}/${profile.avatar}.png`
               : null;
-            const user = findOrCreateUser(
+            const user = await findOrCreateUser(
               'discord',
               profile.id,
               profile.email || null,
@@ -0,0 +1,45 @@
+export type SqlValue = string | number | null;
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+/**
+ * Minimal database interface shared by every storage backend.
+ * Query helpers in schema.ts only talk to the database through this.
+ *
+ * SQL is written with `?` placeholders; drivers translate them as needed.
+ * Where the dialects differ, branch on `dialect`.
+ */
+export interface DatabaseDriver {
+  readonly name: 'sqljs' | 'sqlite' | 'postgres';
+  readonly dialect: SqlDialect;
+  /** Run a query and return every row */
+  all<T>(sql: string, params?: SqlValue[]): Promise<T[]>;
+  /** Run a query and return the first row, if any */
+  get<T>(sql: string, params?: SqlValue[]): Promise<T | undefined>;
+  /** Run a single statement that modifies data */
+  run(sql: string, params?: SqlValue[]): Promise<void>;
+  /** Run one or more statements without parameters (schema changes) */
+  exec(sql: string): Promise<void>;
+  /**
+   * Run fn inside a transaction, rolling back if it throws.
+   * Queries inside the transaction must go through the `tx` handle.
+   */
+  transaction<T>(fn: (tx: DatabaseDriver) => Promise<T>): Promise<T>;
+  /** Make sure everything written so far is on disk */
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type DatabaseDriverName = DatabaseDriver['name'];
+
+const DRIVER_NAMES: DatabaseDriverName[] = ['sqljs', 'sqlite', 'postgres'];
+
+export function getDriverName(): DatabaseDriverName {
+  const name = (process.env.DATABASE_DRIVER || 'sqljs').toLowerCase() as DatabaseDriverName;
+  if (!DRIVER_NAMES.includes(name)) {
+    throw new Error(
+      `Unknown DATABASE_DRIVER "${name}". Must be one of: ${DRIVER_NAMES.join(', ')}.`
+    );
+  }
+  return name;
+}
@@ -0,0 +1,108 @@
+import pg from 'pg';
+import { DatabaseDriver, SqlValue } from '../driver.js';
+
+// Timestamps are stored as BIGINT milliseconds and counts come back as BIGINT;
+// both fit comfortably in a JS number, so parse them instead of returning strings
+pg.types.setTypeParser(pg.types.builtins.INT8, (value) => parseInt(value, 10));
+pg.types.setTypeParser(pg.types.builtins.NUMERIC, (value) => parseFloat(value));
+
+type Queryable = Pick<pg.Pool, 'query'>;
+
+/**
+ * Convert `?` placeholders to Postgres `$1, $2, ...`, leaving quoted text alone
+ */
+function toPositionalParams(sql: string): string {
+  let index = 0;
+  let inString = false;
+  let result = '';
+
+  for (const char of sql) {
+    if (char === "'") {
+      inString = !inString;
+    }
+    result += char === '?' && !inString ? `$${++index}` : char;
+  }
+
+  return result;
+}
+
+/**
+ * Driver over a node-postgres pool (or anything with the same `query` API,
+ * such as pg-mem's adapter)
+ */
+class PostgresDriver implements DatabaseDriver {
+  readonly name = 'postgres' as const;
+  readonly dialect = 'postgres' as const;
+
+  constructor(
+    private client: Queryable,
+    private pool: pg.Pool | null
+  ) {}
+
+  async all<T>(sql: string, params: SqlValue[] = []): Promise<T[]> {
+    const result = await this.client.query(toPositionalParams(sql), params);
+    return result.rows as T[];
+  }
+
+  async get<T>(sql: string, params: SqlValue[] = []): Promise<T | undefined> {
+    return (await this.all<T>(sql, params))[0];
+  }
+
+  async run(sql: string, params: SqlValue[] = []) {
+    await this.client.query(toPositionalParams(sql), params);
+  }
+
+  async exec(sql: string) {
+    await this.client.query(sql);
+  }
+
+  async transaction<T>(fn: (tx: DatabaseDriver) => Promise<T>): Promise<T> {
+    // Already inside a transaction: join it
+    if (!this.pool) {
+      return fn(this);
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(new PostgresDriver(client, null));
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async flush() {
+    // Postgres commits are durable on their own
+  }
+
+  async close() {
+    await this.pool?.end();
+  }
+}
+
+export function createPostgresDriver(pool: pg.Pool): DatabaseDriver {
+  return new PostgresDriver(pool, pool);
+}
+
+export async function connectPostgres(
+  connectionString: string | undefined
+): Promise<DatabaseDriver> {
+  if (!connectionString) {
+    throw new Error('DATABASE_DRIVER=postgres requires DATABASE_URL to be set');
+  }
+
+  const pool = new pg.Pool({
+    connectionString,
+    max: parseInt(process.env.DATABASE_POOL_SIZE || '', 10) || 10,
+  });
+
+  // Fail fast on bad credentials instead of on the first request
+  await pool.query('SELECT 1');
+
+  return createPostgresDriver(pool);
+}
@@ -0,0 +1,131 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseDriver } from '../driver.js';
+import { createSqlJsDriver } from './sqljs.js';
+import { createSqliteDriver } from './sqlite.js';
+
+// better-sqlite3 is optional; its tests are skipped where it isn't installed
+const hasBetterSqlite = await import('better-sqlite3').then(
+  () => true,
+  () => false
+);
+
+const drivers: [string, (filePath: string) => Promise<DatabaseDriver>, boolean][] = [
+  ['sqljs', createSqlJsDriver, true],
+  ['sqlite', createSqliteDriver, hasBetterSqlite],
+];
+
+for (const [name, createDriver, available] of drivers) {
+  describe(`${name} driver`, { skip: !available && 'better-sqlite3 is not installed' }, () => {
+    let dir: string;
+    let filePath: string;
+    let db: DatabaseDriver;
+
+    before(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), `possumbly-${name}-`));
+    });
+
+    after(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(async (t) => {
+      filePath = path.join(dir, `${t.name.replace(/\W+/g, '-')}.db`);
+      db = await createDriver(filePath);
+      await db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, label TEXT NOT NULL)');
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    async function labels(handle: DatabaseDriver = db) {
+      const rows = await handle.all<{ label: string }>('SELECT label FROM items ORDER BY id');
+      return rows.map(({ label }) => label);
+    }
+
+    it('commits a transaction and returns its result', async () => {
+      const result = await db.transaction(async (tx) => {
+        await tx.run('INSERT INTO items (label) VALUES (?)', ['a']);
+        // Inner transactions join the outer one
+        await tx.transaction((inner) => inner.run('INSERT INTO items (label) VALUES (?)', ['b']));
+        return (await tx.get<{ count: number }>('SELECT COUNT(*) AS count FROM items'))!.count;
+      });
+
+      assert.equal(result, 2);
+      assert.deepEqual(await labels(), ['a', 'b']);
+    });
+
+    it('rolls back a transaction that throws', async () => {
+      await db.run('INSERT INTO items (label) VALUES (?)', ['kept']);
+
+      await assert.rejects(
+        db.transaction(async (tx) => {
+          await tx.run('INSERT INTO items (label) VALUES (?)', ['dropped']);
+          throw new Error('boom');
+        }),
+        /boom/
+      );
+      await assert.rejects(
+        db.transaction((tx) => tx.run('INSERT INTO items (label) VALUES (NULL)')),
+        /NOT NULL/
+      );
+
+      assert.deepEqual(await labels(), ['kept']);
+      // The connection is usable again
+      await db.transaction((tx) => tx.run('INSERT INTO items (label) VALUES (?)', ['after']));
+      assert.deepEqual(await labels(), ['kept', 'after']);
+    });
+
+    it('queues other statements until a transaction finishes', async () => {
+      let release!: () => void;
+      const waiting = new Promise<void>((resolve) => (release = resolve));
+
+      const transaction = db.transaction(async (tx) => {
+        await tx.run('INSERT INTO items (label) VALUES (?)', ['in transaction']);
+        await waiting;
+        throw new Error('rolled back');
+      });
+      // Issued while the transaction is waiting; must not join it
+      const outside = db.run('INSERT INTO items (label) VALUES (?)', ['outside']);
+      const read = labels();
+
+      release();
+      await assert.rejects(transaction, /rolled back/);
+      await outside;
+      assert.deepEqual(await read, ['outside']);
+    });
+
+    it('keeps going after a failed statement', async () => {
+      await assert.rejects(db.run('INSERT INTO missing (label) VALUES (?)', ['x']));
+      await db.run('INSERT INTO items (label) VALUES (?)', ['next']);
+      assert.deepEqual(await labels(), ['next']);
+    });
+
+    it('flushes everything written to the database file', async () => {
+      await db.run('INSERT INTO items (label) VALUES (?)', ['a']);
+      await db.transaction((tx) => tx.run('INSERT INTO items (label) VALUES (?)', ['b']));
+      await db.flush();
+
+      // A plain copy of the main file is complete, without any side files
+      const copyPath = path.join(dir, `${name}-copy.db`);
+      fs.copyFileSync(filePath, copyPath);
+      const copy = await createDriver(copyPath);
+      try {
+        assert.deepEqual(await labels(copy), ['a', 'b']);
+      } finally {
+        await copy.close();
+      }
+    });
+
+    it('refuses to close from inside a transaction', async () => {
+      await assert.rejects(
+        db.transaction((tx) => tx.close()),
+        /Cannot close the database from inside a transaction/
+      );
+    });
+  });
+}
@@ -0,0 +1,92 @@
+import { DatabaseDriver, SqlValue } from '../driver.js';
+
+/**
+ * Base for SQLite backends that expose a single synchronous connection.
+ *
+ * Statements are queued so that while a transaction is awaiting something,
+ * statements from other requests wait instead of slipping into it.
+ */
+export abstract class SerializedSqliteDriver implements DatabaseDriver {
+  abstract readonly name: 'sqljs' | 'sqlite';
+  readonly dialect = 'sqlite' as const;
+
+  private queue: Promise<unknown> = Promise.resolve();
+  protected inTransaction = false;
+
+  protected abstract allSync<T>(sql: string, params: SqlValue[]): T[];
+  protected abstract runSync(sql: string, params: SqlValue[]): void;
+  protected abstract execSync(sql: string): void;
+  abstract flush(): Promise<void>;
+  abstract close(): Promise<void>;
+
+  /** Called after every committed write */
+  protected afterWrite(): void {}
+
+  all<T>(sql: string, params: SqlValue[] = []): Promise<T[]> {
+    return this.enqueue(async () => this.allSync<T>(sql, params));
+  }
+
+  async get<T>(sql: string, params: SqlValue[] = []): Promise<T | undefined> {
+    return (await this.all<T>(sql, params))[0];
+  }
+
+  run(sql: string, params: SqlValue[] = []): Promise<void> {
+    return this.enqueue(async () => {
+      this.runSync(sql, params);
+      this.afterWrite();
+    });
+  }
+
+  exec(sql: string): Promise<void> {
+    return this.enqueue(async () => {
+      this.execSync(sql);
+      this.afterWrite();
+    });
+  }
+
+  transaction<T>(fn: (tx: DatabaseDriver) => Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      this.runSync('BEGIN TRANSACTION', []);
+      this.inTransaction = true;
+      try {
+        const result = await fn(this.transactionHandle());
+        this.runSync('COMMIT', []);
+        return result;
+      } catch (err) {
+        this.runSync('ROLLBACK', []);
+        throw err;
+      } finally {
+        this.inTransaction = false;
+        this.afterWrite();
+      }
+    });
+  }
+
+  private enqueue<T>(op: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(op);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Handle that runs statements directly on the connection, bypassing the
+   * queue the surrounding transaction is holding
+   */
+  private transactionHandle(): DatabaseDriver {
+    const handle: DatabaseDriver = {
+      name: this.name,
+      dialect: this.dialect,
+      all: async <T>(sql: string, params: SqlValue[] = []) => this.allSync<T>(sql, params),
+      get: async <T>(sql: string, params: SqlValue[] = []) => this.allSync<T>(sql, params)[0],
+      run: async (sql: string, params: SqlValue[] = []) => this.runSync(sql, params),
+      exec: async (sql: string) => this.execSync(sql),
+      // SQLite has no nested transactions; inner calls join the outer one
+      transaction: <T>(fn: (tx: DatabaseDriver) => Promise<T>) => fn(handle),
+      flush: async () => {},
+      close: async () => {
+        throw new Error('Cannot close the database from inside a transaction');
+      },
+    };
+    return handle;
+  }
+}
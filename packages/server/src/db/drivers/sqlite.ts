@@ -0,0 +1,57 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { DatabaseDriver, SqlValue } from '../driver.js';
+import { SerializedSqliteDriver } from './serialized.js';
+
+/**
+ * Native file-backed SQLite via better-sqlite3. Every committed write is
+ * durable on its own, so there is nothing to export or schedule.
+ */
+class SqliteDriver extends SerializedSqliteDriver {
+  readonly name = 'sqlite' as const;
+
+  constructor(private db: BetterSqlite3.Database) {
+    super();
+  }
+
+  protected allSync<T>(sql: string, params: SqlValue[]): T[] {
+    return this.db.prepare(sql).all(...params) as T[];
+  }
+
+  protected runSync(sql: string, params: SqlValue[]) {
+    this.db.prepare(sql).run(...params);
+  }
+
+  protected execSync(sql: string) {
+    this.db.exec(sql);
+  }
+
+  async flush() {
+    // Fold the WAL back into the main file so plain file copies are complete
+    this.db.pragma('wal_checkpoint(PASSIVE)');
+  }
+
+  async close() {
+    this.db.close();
+  }
+}
+
+export async function createSqliteDriver(filePath: string): Promise<DatabaseDriver> {
+  let Database: typeof BetterSqlite3;
+  try {
+    Database = (await import('better-sqlite3')).default;
+  } catch {
+    throw new Error(
+      'DATABASE_DRIVER=sqlite requires the optional better-sqlite3 package. ' +
+        'Install it with: npm install better-sqlite3 --workspace=@possumbly/server'
+    );
+  }
+
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.pragma('busy_timeout = 5000');
+  // Match sql.js, which leaves foreign keys unenforced (e.g. memes outlive their template)
+  db.pragma('foreign_keys = OFF');
+
+  return new SqliteDriver(db);
+}
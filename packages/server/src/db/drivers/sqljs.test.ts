@@ -0,0 +1,140 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseDriver } from '../driver.js';
+import { createSqlJsDriver } from './sqljs.js';
+
+// Default DATABASE_SAVE_DELAY_MS
+const SAVE_DELAY_MS = 1000;
+
+describe('sqljs saves', () => {
+  let dir: string;
+  let filePath: string;
+  let db: DatabaseDriver;
+  let renames: ReturnType<typeof mock.method<typeof fs, 'renameSync'>>;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'possumbly-sqljs-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(async (t) => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    filePath = path.join(dir, `${t.name.replace(/\W+/g, '-')}.db`);
+    db = await createSqlJsDriver(filePath);
+    await db.exec('CREATE TABLE items (id INTEGER PRIMARY KEY, label TEXT NOT NULL)');
+    await db.flush();
+    renames = mock.method(fs, 'renameSync');
+  });
+
+  afterEach(async () => {
+    await db.close();
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  function tempFiles() {
+    return fs.readdirSync(dir).filter((name) => name.endsWith('.tmp'));
+  }
+
+  // Labels in the file on disk, read through a separate connection
+  async function savedLabels() {
+    const saved = await createSqlJsDriver(filePath);
+    try {
+      const rows = await saved.all<{ label: string }>('SELECT label FROM items ORDER BY id');
+      return rows.map(({ label }) => label);
+    } finally {
+      await saved.close();
+    }
+  }
+
+  it('coalesces writes made within the save delay', async () => {
+    await db.run('INSERT INTO items (label) VALUES (?)', ['a']);
+    await db.run('INSERT INTO items (label) VALUES (?)', ['b']);
+    await db.transaction((tx) => tx.run('INSERT INTO items (label) VALUES (?)', ['c']));
+
+    mock.timers.tick(SAVE_DELAY_MS - 1);
+    assert.equal(renames.mock.callCount(), 0);
+    assert.deepEqual(await savedLabels(), []);
+
+    mock.timers.tick(1);
+    assert.equal(renames.mock.callCount(), 1);
+    assert.deepEqual(await savedLabels(), ['a', 'b', 'c']);
+
+    // Nothing more to save until the next write
+    mock.timers.tick(SAVE_DELAY_MS);
+    assert.equal(renames.mock.callCount(), 1);
+    await db.run('INSERT INTO items (label) VALUES (?)', ['d']);
+    mock.timers.tick(SAVE_DELAY_MS);
+    assert.equal(renames.mock.callCount(), 2);
+  });
+
+  it('flushes through a temp file renamed over the database', async () => {
+    await db.run('INSERT INTO items (label) VALUES (?)', ['a']);
+    await db.flush();
+
+    assert.equal(renames.mock.callCount(), 1);
+    const [from, to] = renames.mock.calls[0].arguments;
+    assert.equal(to, filePath);
+    assert.match(String(from), /\.tmp$/);
+    assert.deepEqual(tempFiles(), []);
+    assert.deepEqual(await savedLabels(), ['a']);
+
+    // The scheduled save was cancelled along with the flush
+    mock.timers.tick(SAVE_DELAY_MS);
+    assert.equal(renames.mock.callCount(), 1);
+  });
+
+  it('leaves the old file in place when a save fails', async () => {
+    await db.run('INSERT INTO items (label) VALUES (?)', ['a']);
+    await db.flush();
+
+    renames.mock.mockImplementation(() => {
+      throw new Error('disk full');
+    });
+    await db.run('INSERT INTO items (label) VALUES (?)', ['b']);
+    await assert.rejects(db.flush(), /disk full/);
+    assert.deepEqual(await savedLabels(), ['a']);
+    assert.deepEqual(tempFiles(), []);
+
+    // Saved once the disk recovers
+    renames.mock.restore();
+    await db.flush();
+    assert.deepEqual(await savedLabels(), ['a', 'b']);
+  });
+
+  it('does not save a transaction that is still open', async () => {
+    let release!: () => void;
+    const waiting = new Promise<void>((resolve) => (release = resolve));
+
+    await db.run('INSERT INTO items (label) VALUES (?)', ['before']);
+    const transaction = db.transaction(async (tx) => {
+      await tx.run('INSERT INTO items (label) VALUES (?)', ['during']);
+      await waiting;
+    });
+    // Let the transaction start
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await db.flush();
+    assert.equal(renames.mock.callCount(), 0);
+
+    release();
+    await transaction;
+    mock.timers.tick(SAVE_DELAY_MS);
+    assert.deepEqual(await savedLabels(), ['before', 'during']);
+  });
+
+  it('flushes pending writes on close', async () => {
+    await db.run('INSERT INTO items (label) VALUES (?)', ['a']);
+    await db.close();
+    assert.deepEqual(await savedLabels(), ['a']);
+
+    // Reopen so afterEach has something to close
+    db = await createSqlJsDriver(filePath);
+  });
+});
@@ -0,0 +1,128 @@
+// @ts-expect-error sql.js types are incomplete
+import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import fs from 'fs';
+import { DatabaseDriver, SqlValue } from '../driver.js';
+import { SerializedSqliteDriver } from './serialized.js';
+
+// How long writes are collected before the database image is written out
+const SAVE_DELAY_MS = parseInt(process.env.DATABASE_SAVE_DELAY_MS || '', 10) || 1000;
+
+/**
+ * Write a file so that readers only ever see the old or the new contents:
+ * write to a temp file, fsync it, then rename over the target. A failed write
+ * removes the temp file and leaves the target untouched.
+ */
+function writeFileAtomic(filePath: string, data: Buffer) {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (err) {
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * In-memory sql.js database persisted by exporting the whole image to disk.
+ * Writes are coalesced: the first change schedules a save and every change
+ * made before it fires is written out together.
+ */
+class SqlJsDriver extends SerializedSqliteDriver {
+  readonly name = 'sqljs' as const;
+  private dirty = false;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private db: SqlJsDatabase,
+    private filePath: string
+  ) {
+    super();
+  }
+
+  protected allSync<T>(sql: string, params: SqlValue[]): T[] {
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: T[] = [];
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  protected runSync(sql: string, params: SqlValue[]) {
+    this.db.run(sql, params);
+  }
+
+  protected execSync(sql: string) {
+    this.db.run(sql);
+  }
+
+  protected afterWrite() {
+    this.scheduleSave();
+  }
+
+  async flush() {
+    this.flushSync();
+  }
+
+  async close() {
+    // Runs synchronously so it also works from a process 'exit' handler
+    this.flushSync();
+    this.db.close();
+  }
+
+  private flushSync() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.dirty) return;
+
+    // Never export a half-applied transaction
+    if (this.inTransaction) {
+      this.scheduleSave();
+      return;
+    }
+
+    writeFileAtomic(this.filePath, Buffer.from(this.db.export()));
+    this.dirty = false;
+  }
+
+  private scheduleSave() {
+    this.dirty = true;
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      try {
+        this.flushSync();
+      } catch (err) {
+        console.error('Failed to save database:', err);
+        // Try again on the next write or timer
+        this.scheduleSave();
+      }
+    }, SAVE_DELAY_MS);
+  }
+}
+
+export async function createSqlJsDriver(filePath: string): Promise<DatabaseDriver> {
+  const SQL = await initSqlJs();
+
+  // Load existing database or create new one
+  const db = fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+
+  return new SqlJsDriver(db, filePath);
+}
@@ -0,0 +1,198 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { DatabaseDriver } from './driver.js';
+import { createSqlJsDriver } from './drivers/sqljs.js';
+import { runMigrations } from './migrate.js';
+import { Migration, migrations } from './migrations/index.js';
+
+// A GIF with two 1x1 frames: header and two-color table, then per frame a
+// graphic control extension and an image block
+const GIF_FRAME = '21f9040400640000' + '2c000000000100010000';
+const ANIMATED_GIF = Buffer.from(
+  '474946383961010001008000' +
+    '00ffffff000000' +
+    `${GIF_FRAME}0202440100` +
+    `${GIF_FRAME}02024c0100` +
+    '3b',
+  'hex'
+);
+
+describe('runMigrations', () => {
+  let dir: string;
+  let db: DatabaseDriver;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'possumbly-migrate-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(async (t) => {
+    db = await createSqlJsDriver(path.join(dir, `${t.name.replace(/\W+/g, '-')}.db`));
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  async function versions() {
+    const rows = await db.all<{ version: number }>(
+      'SELECT version FROM schema_migrations ORDER BY version'
+    );
+    return rows.map(({ version }) => version);
+  }
+
+  async function tableExists(name: string) {
+    const row = await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [
+      name,
+    ]);
+    return row !== undefined;
+  }
+
+  // Migrations that record the order they ran in
+  function recording(applied: number[], count: number): Migration[] {
+    return Array.from({ length: count }, (_, index) => ({
+      version: index + 1,
+      name: `step_${index + 1}`,
+      up: async (tx) => {
+        applied.push(index + 1);
+        await tx.exec(`CREATE TABLE step_${index + 1} (id INTEGER)`);
+      },
+    }));
+  }
+
+  it('applies every migration on a fresh database', async () => {
+    await runMigrations(db);
+    assert.deepEqual(
+      await versions(),
+      migrations.map(({ version }) => version)
+    );
+    assert.ok(await tableExists('memes'));
+  });
+
+  it('applies migrations in order, once each', async () => {
+    const applied: number[] = [];
+    const list = recording(applied, 3);
+
+    await runMigrations(db, list.slice(0, 2));
+    assert.deepEqual(applied, [1, 2]);
+
+    // Restarting applies only what's new, and nothing when up to date
+    await runMigrations(db, list);
+    await runMigrations(db, list);
+    assert.deepEqual(applied, [1, 2, 3]);
+    assert.deepEqual(await versions(), [1, 2, 3]);
+  });
+
+  it('rolls back a failed migration and stops', async () => {
+    const applied: number[] = [];
+    const [first, , third] = recording(applied, 3);
+    const failing: Migration = {
+      version: 2,
+      name: 'broken',
+      up: async (tx) => {
+        await tx.exec('CREATE TABLE half_done (id INTEGER)');
+        await tx.run('INSERT INTO missing_table VALUES (1)');
+      },
+    };
+
+    await assert.rejects(
+      runMigrations(db, [first, failing, third]),
+      /Migration 2 \(broken\) failed/
+    );
+    assert.deepEqual(await versions(), [1]);
+    assert.equal(await tableExists('half_done'), false);
+    assert.deepEqual(applied, [1]);
+
+    // A fixed build picks up where the failed one stopped
+    await runMigrations(db, recording(applied, 3));
+    assert.deepEqual(applied, [1, 2, 3]);
+    assert.deepEqual(await versions(), [1, 2, 3]);
+  });
+
+  it('refuses a database newer than this build', async () => {
+    const list = recording([], 2);
+    await runMigrations(db, list);
+
+    await assert.rejects(runMigrations(db, list.slice(0, 1)), /newer than this build supports/);
+    assert.equal(await tableExists('step_2'), true);
+  });
+
+  it('indexes existing templates and memes for search', async () => {
+    await runMigrations(db, migrations.slice(0, 2));
+    await db.run(
+      "INSERT INTO users (id, name, provider, provider_id, created_at) VALUES ('alice', 'Alice', 'github', '1', 0)"
+    );
+    await db.run(
+      "INSERT INTO templates (id, name, filename, width, height, uploaded_by, created_at) VALUES ('drake', 'Drake', 'drake.png', 10, 10, 'alice', 0)"
+    );
+    await db.run(
+      'INSERT INTO memes (id, template_id, created_by, editor_state, is_public, created_at) VALUES (?, ?, ?, ?, 1, 0)',
+      ['meme1', 'drake', 'alice', JSON.stringify({ textBoxes: [{ text: 'Hotline bling' }] })]
+    );
+
+    await runMigrations(db, migrations.slice(0, 3));
+    const hits = await db.all<{ kind: string; ref_id: string }>(
+      `SELECT e.kind, e.ref_id FROM search_fts
+       JOIN search_entries e ON e.id = search_fts.docid
+       WHERE search_fts MATCH ? ORDER BY e.kind`,
+      ['alice']
+    );
+    assert.deepEqual(
+      hits.map(({ kind, ref_id }) => `${kind}:${ref_id}`),
+      ['meme:meme1', 'template:drake']
+    );
+    const text = await db.all('SELECT docid FROM search_fts WHERE search_fts MATCH ?', ['bling']);
+    assert.equal(text.length, 1);
+  });
+
+  it('counts the frames of animated templates', async (t) => {
+    const uploads = path.join(dir, 'uploads');
+    const templates = path.join(uploads, 'templates');
+    fs.mkdirSync(templates, { recursive: true });
+    fs.writeFileSync(path.join(templates, 'anim.gif'), ANIMATED_GIF);
+    // Re-encoded by sharp, with a looping extension
+    fs.writeFileSync(
+      path.join(templates, 'encoded.gif'),
+      await sharp(ANIMATED_GIF, { pages: -1 }).gif({ loop: 0 }).toBuffer()
+    );
+    fs.writeFileSync(
+      path.join(templates, 'anim.webp'),
+      await sharp(ANIMATED_GIF, { pages: -1 }).webp().toBuffer()
+    );
+    fs.writeFileSync(
+      path.join(templates, 'still.webp'),
+      await sharp(ANIMATED_GIF).webp().toBuffer()
+    );
+
+    const previous = process.env.UPLOADS_PATH;
+    process.env.UPLOADS_PATH = uploads;
+    t.after(() => {
+      if (previous === undefined) delete process.env.UPLOADS_PATH;
+      else process.env.UPLOADS_PATH = previous;
+    });
+
+    await runMigrations(db, migrations.slice(0, 6));
+    for (const filename of ['anim.gif', 'encoded.gif', 'anim.webp', 'still.webp', 'gone.gif']) {
+      await db.run(
+        'INSERT INTO templates (id, name, filename, width, height, created_at) VALUES (?, ?, ?, 1, 1, 0)',
+        [filename.replace('.', '-'), filename, filename]
+      );
+    }
+
+    await runMigrations(db, migrations.slice(0, 7));
+    const rows = await db.all<{ filename: string; frame_count: number }>(
+      'SELECT filename, frame_count FROM templates ORDER BY filename'
+    );
+    assert.deepEqual(
+      Object.fromEntries(rows.map(({ filename, frame_count }) => [filename, frame_count])),
+      { 'anim.gif': 2, 'anim.webp': 2, 'encoded.gif': 2, 'gone.gif': 1, 'still.webp': 1 }
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { DatabaseDriver } from './driver.js';
+import { Migration, migrations } from './migrations/index.js';
+
+/**
+ * Highest schema version recorded in the database (0 for a fresh database)
+ */
+async function getCurrentVersion(db: DatabaseDriver): Promise<number> {
+  const row = await db.get<{ version: number | null }>(
+    'SELECT MAX(version) as version FROM schema_migrations'
+  );
+  return row?.version ?? 0;
+}
+
+/**
+ * Apply all pending migrations in order, each inside its own transaction.
+ * Refuses to run against a database whose schema is newer than this build knows about.
+ */
+export async function runMigrations(db: DatabaseDriver, list: Migration[] = migrations) {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at BIGINT NOT NULL
+    )
+  `);
+
+  const currentVersion = await getCurrentVersion(db);
+  const latestVersion = list.length ? list[list.length - 1].version : 0;
+
+  // SECURITY: Never let an older build write to a schema it doesn't understand
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this build supports (${latestVersion}). ` +
+        'Upgrade Possumbly or restore a compatible database backup.'
+    );
+  }
+
+  for (const migration of list) {
+    if (migration.version <= currentVersion) continue;
+
+    try {
+      await db.transaction(async (tx) => {
+        await migration.up(tx);
+        await tx.run('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)', [
+          migration.version,
+          migration.name,
+          Date.now(),
+        ]);
+      });
+    } catch (err) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${(err as Error).message}`
+      );
+    }
+
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
+}
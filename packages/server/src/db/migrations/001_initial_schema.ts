@@ -0,0 +1,187 @@
+import { DatabaseDriver } from '../driver.js';
+import { Migration } from './index.js';
+
+const INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+  CREATE INDEX IF NOT EXISTS idx_users_provider ON users(provider, provider_id);
+  CREATE INDEX IF NOT EXISTS idx_invite_codes_code ON invite_codes(code);
+  CREATE INDEX IF NOT EXISTS idx_templates_uploaded_by ON templates(uploaded_by);
+  CREATE INDEX IF NOT EXISTS idx_memes_created_by ON memes(created_by);
+  CREATE INDEX IF NOT EXISTS idx_memes_template_id ON memes(template_id);
+  CREATE INDEX IF NOT EXISTS idx_memes_is_public ON memes(is_public);
+  CREATE INDEX IF NOT EXISTS idx_votes_meme_id ON votes(meme_id);
+  CREATE INDEX IF NOT EXISTS idx_votes_user_id ON votes(user_id);
+  CREATE INDEX IF NOT EXISTS idx_votes_created_at ON votes(created_at);
+  CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
+  CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
+  CREATE INDEX IF NOT EXISTS idx_audit_logs_resource ON audit_logs(resource_type, resource_id);
+`;
+
+async function createSqliteSchema(db: DatabaseDriver) {
+  await db.exec(`
+    -- Users from OAuth providers
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT UNIQUE,
+      name TEXT,
+      avatar_url TEXT,
+      provider TEXT NOT NULL,
+      provider_id TEXT NOT NULL,
+      role TEXT DEFAULT 'user',
+      invite_redeemed INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      UNIQUE(provider, provider_id)
+    );
+
+    -- Invite codes for access control
+    CREATE TABLE IF NOT EXISTS invite_codes (
+      id TEXT PRIMARY KEY,
+      code TEXT UNIQUE NOT NULL,
+      created_by TEXT REFERENCES users(id),
+      used_by TEXT REFERENCES users(id),
+      created_at INTEGER NOT NULL,
+      used_at INTEGER
+    );
+
+    -- Meme templates (uploaded images)
+    CREATE TABLE IF NOT EXISTS templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      filename TEXT NOT NULL,
+      width INTEGER NOT NULL,
+      height INTEGER NOT NULL,
+      uploaded_by TEXT REFERENCES users(id),
+      created_at INTEGER NOT NULL
+    );
+
+    -- Generated memes (metadata + editor state)
+    CREATE TABLE IF NOT EXISTS memes (
+      id TEXT PRIMARY KEY,
+      template_id TEXT REFERENCES templates(id),
+      created_by TEXT REFERENCES users(id),
+      editor_state TEXT NOT NULL,
+      output_filename TEXT,
+      is_public INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL
+    );
+
+    -- Votes for memes
+    CREATE TABLE IF NOT EXISTS votes (
+      id TEXT PRIMARY KEY,
+      meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      vote_type INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      UNIQUE(meme_id, user_id)
+    );
+
+    -- Audit logs for security events
+    CREATE TABLE IF NOT EXISTS audit_logs (
+      id TEXT PRIMARY KEY,
+      timestamp INTEGER NOT NULL,
+      user_id TEXT,
+      action TEXT NOT NULL,
+      resource_type TEXT,
+      resource_id TEXT,
+      details TEXT,
+      ip_address TEXT,
+      user_agent TEXT,
+      success INTEGER NOT NULL DEFAULT 1
+    );
+  `);
+
+  // Databases from before public memes existed lack is_public (must run before indexes)
+  const memeColumns = await db.all<{ name: string }>('PRAGMA table_info(memes)');
+  if (!memeColumns.some((column) => column.name === 'is_public')) {
+    await db.exec('ALTER TABLE memes ADD COLUMN is_public INTEGER DEFAULT 0');
+  }
+}
+
+// Postgres needs BIGINT for millisecond timestamps. SQLite doesn't enforce foreign
+// keys here, so memes.template_id is left unconstrained to keep deletes behaving the same.
+async function createPostgresSchema(db: DatabaseDriver) {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT UNIQUE,
+      name TEXT,
+      avatar_url TEXT,
+      provider TEXT NOT NULL,
+      provider_id TEXT NOT NULL,
+      role TEXT DEFAULT 'user',
+      invite_redeemed INTEGER DEFAULT 0,
+      created_at BIGINT NOT NULL,
+      UNIQUE(provider, provider_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS invite_codes (
+      id TEXT PRIMARY KEY,
+      code TEXT UNIQUE NOT NULL,
+      created_by TEXT REFERENCES users(id),
+      used_by TEXT REFERENCES users(id),
+      created_at BIGINT NOT NULL,
+      used_at BIGINT
+    );
+
+    CREATE TABLE IF NOT EXISTS templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      filename TEXT NOT NULL,
+      width INTEGER NOT NULL,
+      height INTEGER NOT NULL,
+      uploaded_by TEXT REFERENCES users(id),
+      created_at BIGINT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS memes (
+      id TEXT PRIMARY KEY,
+      template_id TEXT,
+      created_by TEXT REFERENCES users(id),
+      editor_state TEXT NOT NULL,
+      output_filename TEXT,
+      is_public INTEGER DEFAULT 0,
+      created_at BIGINT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS votes (
+      id TEXT PRIMARY KEY,
+      meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      vote_type INTEGER NOT NULL,
+      created_at BIGINT NOT NULL,
+      UNIQUE(meme_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS audit_logs (
+      id TEXT PRIMARY KEY,
+      timestamp BIGINT NOT NULL,
+      user_id TEXT,
+      action TEXT NOT NULL,
+      resource_type TEXT,
+      resource_id TEXT,
+      details TEXT,
+      ip_address TEXT,
+      user_agent TEXT,
+      success INTEGER NOT NULL DEFAULT 1
+    );
+  `);
+}
+
+// Baseline schema. Uses IF NOT EXISTS so databases created before the migration
+// runner existed are adopted as version 1 without being rebuilt.
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: async (db) => {
+    if (db.dialect === 'postgres') {
+      await createPostgresSchema(db);
+    } else {
+      await createSqliteSchema(db);
+    }
+
+    await db.exec(INDEXES);
+  },
+};
+
+export default migration;
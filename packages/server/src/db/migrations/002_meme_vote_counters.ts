@@ -0,0 +1,65 @@
+import { Migration } from './index.js';
+
+// Hot score as lib/ranking.ts computed it when this migration shipped, copied so
+// later changes there don't change what the migration writes
+function hotScore(upvotes: number, downvotes: number, createdAt: number): number {
+  const score = upvotes - downvotes;
+  const order = Math.log10(Math.max(Math.abs(score), 1));
+  const sign = score > 0 ? 1 : score < 0 ? -1 : 0;
+  const seconds = createdAt / 1000 - 1704067200;
+  return sign * order + seconds / 45000;
+}
+
+// Vote totals and hot score stored on each meme so listings can filter, sort
+// and paginate in SQL instead of counting votes per meme
+const migration: Migration = {
+  version: 2,
+  name: 'meme_vote_counters',
+  up: async (db) => {
+    const floatType = db.dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+
+    await db.exec(`
+      ALTER TABLE memes ADD COLUMN upvotes INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memes ADD COLUMN downvotes INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memes ADD COLUMN score INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memes ADD COLUMN hot_score ${floatType} NOT NULL DEFAULT 0;
+    `);
+
+    // Backfill from existing votes. Hot score is computed here rather than in SQL
+    // because not every SQLite build has log10().
+    const memes = await db.all<{
+      id: string;
+      created_at: number;
+      upvotes: number;
+      downvotes: number;
+    }>(`
+      SELECT m.id, m.created_at,
+        COALESCE(SUM(CASE WHEN v.vote_type = 1 THEN 1 ELSE 0 END), 0) AS upvotes,
+        COALESCE(SUM(CASE WHEN v.vote_type = -1 THEN 1 ELSE 0 END), 0) AS downvotes
+      FROM memes m
+      LEFT JOIN votes v ON v.meme_id = m.id
+      GROUP BY m.id, m.created_at
+    `);
+
+    for (const meme of memes) {
+      await db.run(
+        'UPDATE memes SET upvotes = ?, downvotes = ?, score = ?, hot_score = ? WHERE id = ?',
+        [
+          meme.upvotes,
+          meme.downvotes,
+          meme.upvotes - meme.downvotes,
+          hotScore(meme.upvotes, meme.downvotes, meme.created_at),
+          meme.id,
+        ]
+      );
+    }
+
+    await db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_memes_public_created ON memes(is_public, created_at);
+      CREATE INDEX IF NOT EXISTS idx_memes_public_score ON memes(is_public, score);
+      CREATE INDEX IF NOT EXISTS idx_memes_public_hot ON memes(is_public, hot_score);
+    `);
+  },
+};
+
+export default migration;
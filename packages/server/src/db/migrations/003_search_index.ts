@@ -0,0 +1,149 @@
+import { DatabaseDriver } from '../driver.js';
+import { Migration } from './index.js';
+
+// Everything this migration needs is written out here rather than imported
+// from db/search.ts, so it keeps doing what it did when it shipped
+
+interface Entry {
+  kind: 'template' | 'meme';
+  refId: string;
+  ownerId: string | null;
+  isPublic: number;
+  title: string;
+  creator: string;
+  body: string;
+}
+
+// Text of every text box in a stored editor state
+function memeText(editorState: string): string {
+  try {
+    const state = JSON.parse(editorState);
+    if (!Array.isArray(state?.textBoxes)) return '';
+
+    return state.textBoxes
+      .map((box: { text?: unknown }) => (typeof box?.text === 'string' ? box.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  } catch {
+    return '';
+  }
+}
+
+async function insertEntry(db: DatabaseDriver, entry: Entry) {
+  if (db.dialect === 'postgres') {
+    await db.run(
+      `INSERT INTO search_entries (kind, ref_id, owner_id, is_public, document)
+       VALUES (?, ?, ?, ?,
+         setweight(to_tsvector('simple', ?), 'A') ||
+         setweight(to_tsvector('simple', ?), 'B') ||
+         setweight(to_tsvector('simple', ?), 'C'))`,
+      [
+        entry.kind,
+        entry.refId,
+        entry.ownerId,
+        entry.isPublic,
+        entry.title,
+        entry.creator,
+        entry.body,
+      ]
+    );
+    return;
+  }
+
+  await db.run(
+    'INSERT INTO search_entries (kind, ref_id, owner_id, is_public) VALUES (?, ?, ?, ?)',
+    [entry.kind, entry.refId, entry.ownerId, entry.isPublic]
+  );
+  const created = await db.get<{ id: number }>(
+    'SELECT id FROM search_entries WHERE kind = ? AND ref_id = ?',
+    [entry.kind, entry.refId]
+  );
+  await db.run('INSERT INTO search_fts (docid, title, creator, body) VALUES (?, ?, ?, ?)', [
+    created!.id,
+    entry.title,
+    entry.creator,
+    entry.body,
+  ]);
+}
+
+// Full-text index over template names, meme text and creator names. SQLite uses
+// an FTS4 table (sql.js is not built with FTS5) whose docid points at
+// search_entries; Postgres keeps a weighted tsvector on search_entries itself.
+const migration: Migration = {
+  version: 3,
+  name: 'search_index',
+  up: async (db) => {
+    if (db.dialect === 'postgres') {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS search_entries (
+          id BIGSERIAL PRIMARY KEY,
+          kind TEXT NOT NULL,
+          ref_id TEXT NOT NULL,
+          owner_id TEXT,
+          is_public INTEGER NOT NULL DEFAULT 0,
+          document TSVECTOR NOT NULL,
+          UNIQUE(kind, ref_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_search_entries_document ON search_entries USING GIN(document);
+      `);
+    } else {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS search_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          kind TEXT NOT NULL,
+          ref_id TEXT NOT NULL,
+          owner_id TEXT,
+          is_public INTEGER NOT NULL DEFAULT 0,
+          UNIQUE(kind, ref_id)
+        );
+        CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts4(title, creator, body, tokenize=unicode61);
+      `);
+    }
+
+    await db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_search_entries_owner ON search_entries(owner_id);
+    `);
+
+    const users = await db.all<{ id: string; name: string | null }>('SELECT id, name FROM users');
+    const userNames = new Map(users.map((user) => [user.id, user.name]));
+
+    const templates = await db.all<{ id: string; name: string; uploaded_by: string | null }>(
+      'SELECT id, name, uploaded_by FROM templates'
+    );
+    const templateNames = new Map(templates.map((template) => [template.id, template.name]));
+
+    for (const template of templates) {
+      await insertEntry(db, {
+        kind: 'template',
+        refId: template.id,
+        ownerId: template.uploaded_by,
+        isPublic: 1,
+        title: template.name,
+        creator: (template.uploaded_by && userNames.get(template.uploaded_by)) || '',
+        body: '',
+      });
+    }
+
+    const memes = await db.all<{
+      id: string;
+      template_id: string;
+      created_by: string | null;
+      editor_state: string;
+      is_public: number;
+    }>('SELECT id, template_id, created_by, editor_state, is_public FROM memes');
+
+    for (const meme of memes) {
+      await insertEntry(db, {
+        kind: 'meme',
+        refId: meme.id,
+        ownerId: meme.created_by,
+        isPublic: meme.is_public ? 1 : 0,
+        title: templateNames.get(meme.template_id) || '',
+        creator: (meme.created_by && userNames.get(meme.created_by)) || '',
+        body: memeText(meme.editor_state),
+      });
+    }
+  },
+};
+
+export default migration;
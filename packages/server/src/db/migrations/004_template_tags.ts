@@ -0,0 +1,28 @@
+import { Migration } from './index.js';
+
+// Free-form tags on templates (many-to-many). Tag names are stored normalized
+// (lowercase, hyphenated) and double as the identifier used in URLs.
+const migration: Migration = {
+  version: 4,
+  name: 'template_tags',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tags (
+        id TEXT PRIMARY KEY,
+        name TEXT UNIQUE NOT NULL,
+        created_by TEXT,
+        created_at BIGINT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS template_tags (
+        template_id TEXT NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+        tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        PRIMARY KEY (template_id, tag_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_template_tags_tag_id ON template_tags(tag_id);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import { Migration } from './index.js';
+
+// Default text slots for new memes, stored as a JSON array on the template.
+// NULL means the uploader hasn't set any up and the standard top/bottom
+// slots are used.
+const migration: Migration = {
+  version: 5,
+  name: 'template_text_zones',
+  up: async (db) => {
+    await db.exec(`
+      ALTER TABLE templates ADD COLUMN text_zones TEXT;
+    `);
+  },
+};
+
+export default migration;
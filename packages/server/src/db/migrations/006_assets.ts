@@ -0,0 +1,26 @@
+import { Migration } from './index.js';
+
+// Uploaded images that memes reference as image layers: shared stickers and
+// images private to the user who uploaded them
+const migration: Migration = {
+  version: 6,
+  name: 'assets',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS assets (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        name TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        uploaded_by TEXT REFERENCES users(id),
+        created_at BIGINT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_assets_uploaded_by ON assets(uploaded_by);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,99 @@
+import path from 'path';
+import fs from 'fs';
+import { Migration } from './index.js';
+
+// Frame counts are parsed from the file structure directly: an upgrade of sharp
+// must not change what this migration records
+
+// Size in bytes of a GIF color table, from the flags byte that describes it
+function colorTableSize(flags: number): number {
+  return flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0;
+}
+
+/**
+ * Number of image descriptors in a GIF: header and screen descriptor, then
+ * extension and image blocks, each followed by length-prefixed sub-blocks
+ */
+function countGifFrames(data: Buffer): number {
+  if (data.toString('ascii', 0, 3) !== 'GIF') return 1;
+
+  let frames = 0;
+  let offset = 13 + colorTableSize(data[10]);
+  while (offset < data.length) {
+    const block = data[offset];
+    if (block === 0x21) {
+      // Extension introducer and label
+      offset += 2;
+    } else if (block === 0x2c) {
+      frames++;
+      // Image descriptor, local color table, LZW minimum code size
+      offset += 10 + colorTableSize(data[offset + 9]) + 1;
+    } else {
+      // Trailer, or something this doesn't understand
+      break;
+    }
+
+    while (offset < data.length && data[offset] !== 0) {
+      offset += data[offset] + 1;
+    }
+    offset++;
+  }
+
+  return Math.max(1, frames);
+}
+
+/**
+ * Number of ANMF (animation frame) chunks in a WebP's RIFF container
+ */
+function countWebpFrames(data: Buffer): number {
+  if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WEBP') {
+    return 1;
+  }
+
+  let frames = 0;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    if (data.toString('ascii', offset, offset + 4) === 'ANMF') frames++;
+    const size = data.readUInt32LE(offset + 4);
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+
+  return Math.max(1, frames);
+}
+
+// Number of animation frames in each template image (1 for still images) so
+// animated GIF/WebP templates can be rendered as animated memes
+const migration: Migration = {
+  version: 7,
+  name: 'template_frames',
+  up: async (db) => {
+    const templatesPath = path.join(process.env.UPLOADS_PATH || './data/uploads', 'templates');
+
+    await db.exec(`
+      ALTER TABLE templates ADD COLUMN frame_count INTEGER NOT NULL DEFAULT 1;
+    `);
+
+    // Only GIF and WebP can be animated; read the frame count from the file
+    const templates = await db.all<{ id: string; filename: string }>(
+      "SELECT id, filename FROM templates WHERE filename LIKE '%.gif' OR filename LIKE '%.webp'"
+    );
+
+    for (const template of templates) {
+      const filePath = path.join(templatesPath, path.basename(template.filename));
+      if (!fs.existsSync(filePath)) continue;
+
+      try {
+        const data = fs.readFileSync(filePath);
+        const frames = filePath.endsWith('.gif') ? countGifFrames(data) : countWebpFrames(data);
+        if (frames > 1) {
+          await db.run('UPDATE templates SET frame_count = ? WHERE id = ?', [frames, template.id]);
+        }
+      } catch (err) {
+        console.error(`Could not read frames of template ${template.id}:`, err);
+      }
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { Migration } from './index.js';
+
+// Admin-uploaded font files, used by both the editor and the server renderer so
+// memes look the same regardless of which fonts a viewer has installed
+const migration: Migration = {
+  version: 8,
+  name: 'fonts',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS fonts (
+        id TEXT PRIMARY KEY,
+        family TEXT NOT NULL UNIQUE,
+        filename TEXT NOT NULL,
+        format TEXT NOT NULL,
+        uploaded_by TEXT REFERENCES users(id),
+        created_at BIGINT NOT NULL
+      );
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+import { nanoid } from 'nanoid';
+import { Migration } from './index.js';
+
+// Every saved editor state of a meme, so earlier versions can be listed and
+// restored. Existing memes start with their current state as the first revision.
+const migration: Migration = {
+  version: 9,
+  name: 'meme_revisions',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS meme_revisions (
+        id TEXT PRIMARY KEY,
+        meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
+        editor_state TEXT NOT NULL,
+        output_filename TEXT,
+        created_by TEXT REFERENCES users(id),
+        restored_from TEXT,
+        created_at BIGINT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_meme_revisions_meme_id ON meme_revisions(meme_id, created_at);
+    `);
+
+    const memes = await db.all<{
+      id: string;
+      editor_state: string;
+      created_by: string | null;
+      created_at: number;
+    }>('SELECT id, editor_state, created_by, created_at FROM memes');
+
+    for (const meme of memes) {
+      await db.run(
+        'INSERT INTO meme_revisions (id, meme_id, editor_state, created_by, created_at) VALUES (?, ?, ?, ?, ?)',
+        [nanoid(), meme.id, meme.editor_state, meme.created_by, meme.created_at]
+      );
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,17 @@
+import { Migration } from './index.js';
+
+// The public meme a meme was remixed from, so remixes can credit their source
+// and a meme's remixes can be listed
+const migration: Migration = {
+  version: 10,
+  name: 'meme_remixes',
+  up: async (db) => {
+    await db.exec(`
+      ALTER TABLE memes ADD COLUMN remixed_from TEXT;
+
+      CREATE INDEX IF NOT EXISTS idx_memes_remixed_from ON memes(remixed_from);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import { Migration } from './index.js';
+
+// Threaded comments on memes. A reply points at its parent comment; a deleted
+// comment that has replies is kept with its body cleared so the thread stays intact.
+const migration: Migration = {
+  version: 11,
+  name: 'comments',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS comments (
+        id TEXT PRIMARY KEY,
+        meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
+        user_id TEXT REFERENCES users(id),
+        parent_id TEXT REFERENCES comments(id),
+        body TEXT NOT NULL,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT,
+        deleted_at BIGINT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_comments_meme_id ON comments(meme_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import { Migration } from './index.js';
+
+// Emoji reactions on memes, kept apart from votes so score-based sorting is
+// unaffected. Each user can react once with each emoji.
+const migration: Migration = {
+  version: 12,
+  name: 'reactions',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS reactions (
+        id TEXT PRIMARY KEY,
+        meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        emoji TEXT NOT NULL,
+        created_at BIGINT NOT NULL,
+        UNIQUE(meme_id, user_id, emoji)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_reactions_meme_id ON reactions(meme_id);
+    `);
+  },
+};
+
+export default migration;
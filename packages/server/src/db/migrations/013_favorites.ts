@@ -0,0 +1,27 @@
+import { Migration } from './index.js';
+
+// Memes users have saved, with a per-meme counter so the gallery can sort by
+// favorites in SQL like it does by votes
+const migration: Migration = {
+  version: 13,
+  name: 'favorites',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS favorites (
+        id TEXT PRIMARY KEY,
+        meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        created_at BIGINT NOT NULL,
+        UNIQUE(meme_id, user_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_favorites_user_id ON favorites(user_id, created_at);
+
+      ALTER TABLE memes ADD COLUMN favorite_count INTEGER NOT NULL DEFAULT 0;
+
+      CREATE INDEX IF NOT EXISTS idx_memes_public_favorites ON memes(is_public, favorite_count);
+    `);
+  },
+};
+
+export default migration;
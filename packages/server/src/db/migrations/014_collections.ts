@@ -0,0 +1,35 @@
+import { Migration } from './index.js';
+
+// Named, ordered collections of memes. A collection is private to its owner or
+// public to everyone on the instance; the memes in it keep their own visibility.
+const migration: Migration = {
+  version: 14,
+  name: 'collections',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS collections (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL REFERENCES users(id),
+        name TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        is_public INTEGER NOT NULL DEFAULT 0,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS collection_memes (
+        collection_id TEXT NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+        meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        added_at BIGINT NOT NULL,
+        PRIMARY KEY (collection_id, meme_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_collections_owner_id ON collections(owner_id, updated_at);
+      CREATE INDEX IF NOT EXISTS idx_collections_public ON collections(is_public, updated_at);
+      CREATE INDEX IF NOT EXISTS idx_collection_memes_meme_id ON collection_memes(meme_id);
+    `);
+  },
+};
+
+export default migration;
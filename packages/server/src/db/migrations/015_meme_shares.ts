@@ -0,0 +1,24 @@
+import { Migration } from './index.js';
+
+// Revocable links that show a meme to people without an account
+const migration: Migration = {
+  version: 15,
+  name: 'meme_shares',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS meme_shares (
+        id TEXT PRIMARY KEY,
+        meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
+        token TEXT NOT NULL UNIQUE,
+        created_by TEXT REFERENCES users(id),
+        created_at BIGINT NOT NULL,
+        expires_at BIGINT,
+        revoked_at BIGINT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_meme_shares_meme_id ON meme_shares(meme_id);
+    `);
+  },
+};
+
+export default migration;
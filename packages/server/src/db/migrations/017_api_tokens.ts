@@ -0,0 +1,26 @@
+import { Migration } from './index.js';
+
+// Personal access tokens for scripts and bots, stored as SHA-256 hashes
+const migration: Migration = {
+  version: 17,
+  name: 'api_tokens',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at BIGINT NOT NULL,
+        last_used_at BIGINT,
+        expires_at BIGINT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import { DatabaseDriver } from '../driver.js';
+import initialSchema from './001_initial_schema.js';
+import memeVoteCounters from './002_meme_vote_counters.js';
+import searchIndex from './003_search_index.js';
+import templateTags from './004_template_tags.js';
+import templateTextZones from './005_template_text_zones.js';
+import assets from './006_assets.js';
+import templateFrames from './007_template_frames.js';
+import fonts from './008_fonts.js';
+import memeRevisions from './009_meme_revisions.js';
+import memeRemixes from './010_meme_remixes.js';
+import comments from './011_comments.js';
+import reactions from './012_reactions.js';
+import favorites from './013_favorites.js';
+import collections from './014_collections.js';
+import memeShares from './015_meme_shares.js';
+import webhooks from './016_webhooks.js';
+import apiTokens from './017_api_tokens.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: DatabaseDriver) => Promise<void>;
+}
+
+// Ordered list of all migrations. Append new ones at the end with the next
+// version number; never edit or reorder a migration that has shipped.
+export const migrations: Migration[] = [
+  initialSchema,
+  memeVoteCounters,
+  searchIndex,
+  templateTags,
+  templateTextZones,
+  assets,
+  templateFrames,
+  fonts,
+  memeRevisions,
+  memeRemixes,
+  comments,
+  reactions,
+  favorites,
+  collections,
+  memeShares,
+  webhooks,
+  apiTokens,
+];
@@ -0,0 +1,195 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { initializeTestDatabase } from '../test/database.js';
+import {
+  favoriteQueries,
+  getDb,
+  memeQueries,
+  templateQueries,
+  userQueries,
+  voteQueries,
+} from './schema.js';
+import { searchEntries } from './search.js';
+import { indexMeme, indexTemplate, removeFromSearchIndex } from '../lib/search.js';
+
+// The Postgres driver and the dialect-specific SQL, run against pg-mem
+describe('postgres driver', () => {
+  const now = Date.now();
+  const queries: string[] = [];
+
+  before(async () => {
+    const db = await initializeTestDatabase({ onQuery: (sql) => queries.push(sql) });
+    assert.equal(db.dialect, 'postgres');
+
+    await userQueries.create('alice', 'alice@example.com', 'Alice', null, 'github', '1', now);
+    await userQueries.create('bob', 'bob@example.com', 'Bob', null, 'github', '2', now);
+    await templateQueries.create(
+      'drake',
+      'Drake Hotline Bling',
+      'drake.png',
+      600,
+      600,
+      'alice',
+      now
+    );
+  });
+
+  it('applies every migration', async () => {
+    const versions = await getDb().all<{ version: number }>(
+      'SELECT version FROM schema_migrations ORDER BY version'
+    );
+    assert.ok(versions.length > 0);
+    assert.deepEqual(
+      versions.map(({ version }) => version),
+      versions.map((_, index) => index + 1)
+    );
+  });
+
+  it('rewrites ? placeholders outside quoted text', async () => {
+    const row = await getDb().get<{ mark: string; name: string }>(
+      "SELECT '?' AS mark, name FROM users WHERE id = ?",
+      ['alice']
+    );
+    assert.deepEqual(row, { mark: '?', name: 'Alice' });
+  });
+
+  it('creates and finds users', async () => {
+    const user = await userQueries.findByProviderId('github', '1');
+    assert.equal(user?.id, 'alice');
+    assert.equal(user?.role, 'user');
+    assert.equal(user?.created_at, now);
+    assert.equal((await userQueries.findByEmail('bob@example.com'))?.name, 'Bob');
+    assert.equal(await userQueries.findById('nobody'), undefined);
+
+    await userQueries.setRole('admin', 'bob');
+    assert.equal((await userQueries.findById('bob'))?.role, 'admin');
+  });
+
+  it('rejects duplicate users', async () => {
+    await assert.rejects(
+      userQueries.create('carol', 'alice@example.com', 'Carol', null, 'github', '3', now)
+    );
+  });
+
+  it('creates and finds memes', async () => {
+    const state = JSON.stringify({ textBoxes: [{ id: 'a', text: "Question marks? Don't" }] });
+    await memeQueries.create('meme1', 'drake', 'alice', state, null, now);
+
+    const meme = await memeQueries.findById('meme1');
+    assert.equal(meme?.editor_state, state);
+    assert.equal(meme?.is_public, 0);
+    assert.equal(meme?.upvotes, 0);
+    assert.equal(typeof meme?.hot_score, 'number');
+    assert.deepEqual(
+      (await memeQueries.findByUser('alice')).map(({ id }) => id),
+      ['meme1']
+    );
+
+    await memeQueries.setPublic('meme1', true);
+    assert.equal((await memeQueries.findById('meme1'))?.is_public, 1);
+  });
+
+  it('casts, flips and removes a vote', async () => {
+    const cast = await voteQueries.cast('vote1', 'meme1', 'bob', 1, now);
+    assert.deepEqual(cast, { counts: { upvotes: 1, downvotes: 0, score: 1 }, changed: true });
+
+    const again = await voteQueries.cast('vote2', 'meme1', 'bob', 1, now);
+    assert.equal(again.changed, false);
+
+    const flipped = await voteQueries.cast('vote3', 'meme1', 'bob', -1, now);
+    assert.deepEqual(flipped.counts, { upvotes: 0, downvotes: 1, score: -1 });
+    assert.equal((await voteQueries.findByMemeAndUser('meme1', 'bob'))?.vote_type, -1);
+
+    assert.deepEqual(await voteQueries.remove('meme1', 'bob'), {
+      upvotes: 0,
+      downvotes: 0,
+      score: 0,
+    });
+    assert.equal(await voteQueries.findByMemeAndUser('meme1', 'bob'), undefined);
+    assert.deepEqual(await voteQueries.recountAll(), { checked: 1, corrected: 0 });
+  });
+
+  it('applies flip and remove deltas to the counters', async () => {
+    await userQueries.create('dave', null, 'Dave', null, 'github', '4', now);
+    await memeQueries.create('meme2', 'drake', 'alice', '{"textBoxes":[]}', null, now);
+
+    await voteQueries.cast('v1', 'meme2', 'alice', 1, now);
+    await voteQueries.cast('v2', 'meme2', 'bob', 1, now);
+    const cast = await voteQueries.cast('v3', 'meme2', 'dave', -1, now);
+    assert.deepEqual(cast.counts, { upvotes: 2, downvotes: 1, score: 1 });
+
+    // Flipping moves the vote between columns without touching the others
+    const up = await voteQueries.cast('v4', 'meme2', 'dave', 1, now);
+    assert.deepEqual(up.counts, { upvotes: 3, downvotes: 0, score: 3 });
+    const down = await voteQueries.cast('v5', 'meme2', 'bob', -1, now);
+    assert.deepEqual(down.counts, { upvotes: 2, downvotes: 1, score: 1 });
+
+    assert.deepEqual(await voteQueries.remove('meme2', 'bob'), {
+      upvotes: 2,
+      downvotes: 0,
+      score: 2,
+    });
+    assert.deepEqual(await voteQueries.remove('meme2', 'alice'), {
+      upvotes: 1,
+      downvotes: 0,
+      score: 1,
+    });
+    // Removing a vote that isn't there changes nothing
+    assert.deepEqual(await voteQueries.remove('meme2', 'alice'), {
+      upvotes: 1,
+      downvotes: 0,
+      score: 1,
+    });
+    assert.equal((await voteQueries.recountAll()).corrected, 0);
+  });
+
+  // pg-mem doesn't block on row locks, so check each change locks the meme
+  // before reading the user's current vote or favorite
+  it('locks the meme before reading the current vote', async () => {
+    const start = queries.length;
+    await voteQueries.cast('v6', 'meme2', 'bob', 1, now);
+    await voteQueries.remove('meme2', 'bob');
+    await favoriteQueries.add('f1', 'meme2', 'bob', now);
+    await favoriteQueries.remove('meme2', 'bob');
+
+    const statements = queries
+      .slice(start)
+      .filter((sql) => /FOR UPDATE|FROM (votes|favorites) WHERE meme_id/.test(sql))
+      .map((sql) => (sql.includes('FOR UPDATE') ? 'lock' : 'read'));
+    assert.deepEqual(statements, ['lock', 'read', 'lock', 'read', 'lock', 'read', 'lock', 'read']);
+  });
+
+  it('searches templates and memes', async () => {
+    await indexTemplate((await templateQueries.findById('drake'))!);
+    await indexMeme((await memeQueries.findById('meme1'))!);
+    // Upserts replace the existing entry
+    await indexMeme((await memeQueries.findById('meme1'))!);
+
+    const hits = await searchEntries(getDb(), ['drake'], 'all', 'bob', 10);
+    assert.deepEqual(hits.map(({ kind, ref_id }) => `${kind}:${ref_id}`).sort(), [
+      'meme:meme1',
+      'template:drake',
+    ]);
+
+    // Meme text is indexed, matching terms as prefixes
+    const text = await searchEntries(getDb(), ['quest', 'don'], 'all', 'bob', 10);
+    assert.deepEqual(
+      text.map(({ ref_id }) => ref_id),
+      ['meme1']
+    );
+
+    const templates = await searchEntries(getDb(), ['drake'], 'templates', 'bob', 10);
+    assert.deepEqual(
+      templates.map(({ ref_id }) => ref_id),
+      ['drake']
+    );
+
+    await memeQueries.setPublic('meme1', false);
+    await indexMeme((await memeQueries.findById('meme1'))!);
+    assert.deepEqual(await searchEntries(getDb(), ['quest'], 'all', 'bob', 10), []);
+    assert.equal((await searchEntries(getDb(), ['quest'], 'mine', 'alice', 10)).length, 1);
+
+    await removeFromSearchIndex('meme', 'meme1');
+    assert.deepEqual(await searchEntries(getDb(), ['quest'], 'mine', 'alice', 10), []);
+  });
+});
@@ -1,11 +1,15 @@
-// @ts-expect-error sql.js types are incomplete
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 import path from 'path';
 import fs from 'fs';
+import { DatabaseDriver, DatabaseDriverName, getDriverName } from './driver.js';
+import { connectPostgres } from './drivers/postgres.js';
+import { createSqlJsDriver } from './drivers/sqljs.js';
+import { createSqliteDriver } from './drivers/sqlite.js';
+import { runMigrations } from './migrate.js';
+import { getHotScore } from '../lib/ranking.js';
 
 const DB_PATH = process.env.DATABASE_PATH || './data/possumbly.db';
 
-let db: SqlJsDatabase;
+let db: DatabaseDriver;
 
 // Ensure directory exists
 const dbDir = path.dirname(DB_PATH);
@@ -13,152 +17,61 @@ if (!fs.existsSync(dbDir)) {
   fs.mkdirSync(dbDir, { recursive: true });
 }
 
-// Save database to file
-function saveDatabase() {
+// Flush pending writes and release connections
+async function closeDatabase() {
   if (db) {
-    const data = db.export();
-    const buffer = Buffer.from(data);
-    fs.writeFileSync(DB_PATH, buffer);
+    try {
+      await db.close();
+    } catch (err) {
+      console.error('Failed to close database:', err);
+    }
   }
 }
 
-// Auto-save every 30 seconds
-setInterval(saveDatabase, 30000);
-
-// Save on process exit
-process.on('exit', saveDatabase);
+// The sql.js driver flushes synchronously, so this still saves on a plain exit
+process.on('exit', () => {
+  closeDatabase();
+});
 process.on('SIGINT', () => {
-  saveDatabase();
-  process.exit();
+  closeDatabase().finally(() => process.exit());
 });
 process.on('SIGTERM', () => {
-  saveDatabase();
-  process.exit();
+  closeDatabase().finally(() => process.exit());
 });
 
-export async function initializeDatabase(): Promise<SqlJsDatabase> {
-  const SQL = await initSqlJs();
-
-  // Load existing database or create new one
-  if (fs.existsSync(DB_PATH)) {
-    const fileBuffer = fs.readFileSync(DB_PATH);
-    db = new SQL.Database(fileBuffer);
-  } else {
-    db = new SQL.Database();
+function createDriver(driverName: DatabaseDriverName): Promise<DatabaseDriver> {
+  switch (driverName) {
+    case 'postgres':
+      return connectPostgres(process.env.DATABASE_URL);
+    case 'sqlite':
+      return createSqliteDriver(DB_PATH);
+    case 'sqljs':
+    default:
+      return createSqlJsDriver(DB_PATH);
   }
+}
 
-  db.run(`
-    -- Users from OAuth providers
-    CREATE TABLE IF NOT EXISTS users (
-      id TEXT PRIMARY KEY,
-      email TEXT UNIQUE,
-      name TEXT,
-      avatar_url TEXT,
-      provider TEXT NOT NULL,
-      provider_id TEXT NOT NULL,
-      role TEXT DEFAULT 'user',
-      invite_redeemed INTEGER DEFAULT 0,
-      created_at INTEGER NOT NULL,
-      UNIQUE(provider, provider_id)
-    );
-
-    -- Invite codes for access control
-    CREATE TABLE IF NOT EXISTS invite_codes (
-      id TEXT PRIMARY KEY,
-      code TEXT UNIQUE NOT NULL,
-      created_by TEXT REFERENCES users(id),
-      used_by TEXT REFERENCES users(id),
-      created_at INTEGER NOT NULL,
-      used_at INTEGER
-    );
-
-    -- Meme templates (uploaded images)
-    CREATE TABLE IF NOT EXISTS templates (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      filename TEXT NOT NULL,
-      width INTEGER NOT NULL,
-      height INTEGER NOT NULL,
-      uploaded_by TEXT REFERENCES users(id),
-      created_at INTEGER NOT NULL
-    );
-
-    -- Generated memes (metadata + editor state)
-    CREATE TABLE IF NOT EXISTS memes (
-      id TEXT PRIMARY KEY,
-      template_id TEXT REFERENCES templates(id),
-      created_by TEXT REFERENCES users(id),
-      editor_state TEXT NOT NULL,
-      output_filename TEXT,
-      is_public INTEGER DEFAULT 0,
-      created_at INTEGER NOT NULL
-    );
-
-    -- Votes for memes
-    CREATE TABLE IF NOT EXISTS votes (
-      id TEXT PRIMARY KEY,
-      meme_id TEXT NOT NULL REFERENCES memes(id) ON DELETE CASCADE,
-      user_id TEXT NOT NULL REFERENCES users(id),
-      vote_type INTEGER NOT NULL,
-      created_at INTEGER NOT NULL,
-      UNIQUE(meme_id, user_id)
-    );
-
-    -- Audit logs for security events
-    CREATE TABLE IF NOT EXISTS audit_logs (
-      id TEXT PRIMARY KEY,
-      timestamp INTEGER NOT NULL,
-      user_id TEXT,
-      action TEXT NOT NULL,
-      resource_type TEXT,
-      resource_id TEXT,
-      details TEXT,
-      ip_address TEXT,
-      user_agent TEXT,
-      success INTEGER NOT NULL DEFAULT 1
-    );
-  `);
-
-  // Migration: Add is_public column if it doesn't exist (must run before indexes)
-  try {
-    db.exec('SELECT is_public FROM memes LIMIT 1');
-  } catch {
-    db.run('ALTER TABLE memes ADD COLUMN is_public INTEGER DEFAULT 0');
-  }
+// Pass a driver to use it instead of the configured one (tests use pg-mem)
+export async function initializeDatabase(driver?: DatabaseDriver): Promise<DatabaseDriver> {
+  const driverName = driver ? driver.name : getDriverName();
+  db = driver || (await createDriver(driverName));
+
+  // Bring the schema up to date
+  await runMigrations(db);
 
-  // Create indexes
-  db.run(`CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_users_provider ON users(provider, provider_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_invite_codes_code ON invite_codes(code)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_templates_uploaded_by ON templates(uploaded_by)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_memes_created_by ON memes(created_by)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_memes_template_id ON memes(template_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_memes_is_public ON memes(is_public)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_votes_meme_id ON votes(meme_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_votes_user_id ON votes(user_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_votes_created_at ON votes(created_at)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_audit_logs_resource ON audit_logs(resource_type, resource_id)`)
-
-  saveDatabase();
-  console.log('Database initialized');
+  await db.flush();
+  console.log(`Database initialized (${driverName})`);
 
   return db;
 }
 
-export function getDb(): SqlJsDatabase {
+export function getDb(): DatabaseDriver {
   if (!db) {
     throw new Error('Database not initialized. Call initializeDatabase() first.');
   }
   return db;
 }
 
-export function save() {
-  saveDatabase();
-}
-
 export interface User {
   id: string;
   email: string | null;
@@ -188,6 +101,59 @@ export interface Template {
   height: number;
   uploaded_by: string | null;
   created_at: number;
+  /** JSON-encoded TextZone[], or null for the default top/bottom slots */
+  text_zones: string | null;
+  /** Animation frames in the image; 1 for still images */
+  frame_count: number;
+}
+
+// Default text slot on a template, used to pre-fill new memes. Coordinates are
+// in template pixels, like editor text boxes.
+export interface TextZone {
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  fontFamily: string;
+  align: 'left' | 'center' | 'right';
+  sampleText: string;
+}
+
+// Stickers are shared with everyone; images are only usable by their uploader
+export type AssetKind = 'sticker' | 'image';
+
+export interface Asset {
+  id: string;
+  kind: AssetKind;
+  name: string;
+  filename: string;
+  width: number;
+  height: number;
+  uploaded_by: string | null;
+  created_at: number;
+}
+
+export type FontFormat = 'ttf' | 'otf' | 'woff2';
+
+export interface Font {
+  id: string;
+  /** CSS font-family name text boxes refer to the font by */
+  family: string;
+  filename: string;
+  format: FontFormat;
+  uploaded_by: string | null;
+  created_at: number;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: number;
+}
+
+export interface TagWithCount extends Tag {
+  template_count: number;
 }
 
 export interface Meme {
@@ -198,6 +164,91 @@ export interface Meme {
   output_filename: string | null;
   is_public: number;
   created_at: number;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+  hot_score: number;
+  favorite_count: number;
+  /** Public meme this one was remixed from */
+  remixed_from: string | null;
+}
+
+// A saved editor state of a meme. The newest revision matches the meme itself.
+export interface MemeRevision {
+  id: string;
+  meme_id: string;
+  editor_state: string;
+  /** Copy of the image rendered from this state, if it was rendered */
+  output_filename: string | null;
+  created_by: string | null;
+  /** Revision this one was restored from */
+  restored_from: string | null;
+  created_at: number;
+}
+
+export interface MemeRevisionWithCreator extends MemeRevision {
+  creator_name: string | null;
+}
+
+// Link that shows a meme without signing in until it expires or is revoked
+export interface MemeShare {
+  id: string;
+  meme_id: string;
+  token: string;
+  created_by: string | null;
+  created_at: number;
+  expires_at: number | null;
+  revoked_at: number | null;
+}
+
+// Public meme joined with its template, creator and the viewer's vote
+export interface GalleryMeme {
+  id: string;
+  template_id: string;
+  created_by: string | null;
+  output_filename: string | null;
+  is_public: number;
+  created_at: number;
+  template_name: string | null;
+  template_filename: string | null;
+  creator_name: string | null;
+  creator_avatar: string | null;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+  user_vote: number | null;
+  favorite_count: number;
+  /** 1 if the viewer saved this meme */
+  favorited: number;
+  remixed_from: string | null;
+  remixed_from_creator: string | null;
+}
+
+export type GallerySort = 'hot' | 'top' | 'new' | 'favorites';
+
+export interface Favorite {
+  id: string;
+  meme_id: string;
+  user_id: string;
+  created_at: number;
+}
+
+export interface Comment {
+  id: string;
+  meme_id: string;
+  /** Null once the comment is deleted */
+  user_id: string | null;
+  parent_id: string | null;
+  body: string;
+  created_at: number;
+  updated_at: number | null;
+  /** Set when a comment with replies is deleted; its body is cleared */
+  deleted_at: number | null;
+}
+
+export interface CommentWithAuthor extends Comment {
+  author_name: string | null;
+  author_avatar: string | null;
 }
 
 export interface Vote {
@@ -208,6 +259,96 @@ export interface Vote {
   created_at: number;
 }
 
+export interface VoteCounts {
+  upvotes: number;
+  downvotes: number;
+  score: number;
+}
+
+export interface Collection {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string;
+  is_public: number;
+  created_at: number;
+  updated_at: number;
+}
+
+// Collection with its owner, size and its first public meme as a cover
+export interface CollectionSummary extends Collection {
+  owner_name: string | null;
+  meme_count: number;
+  cover_filename: string | null;
+}
+
+export interface Reaction {
+  id: string;
+  meme_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: number;
+}
+
+// Reactions on a meme grouped by emoji
+export interface ReactionCount {
+  meme_id: string;
+  emoji: string;
+  count: number;
+  /** 1 if the viewer reacted with this emoji */
+  reacted: number;
+}
+
+// Admin-configured endpoint that receives signed audit events
+export interface Webhook {
+  id: string;
+  url: string;
+  /** Key for the HMAC signature on each delivery */
+  secret: string;
+  /** JSON array of subscribed audit actions */
+  events: string;
+  is_active: number;
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+// One event sent to a webhook, with the outcome of its latest attempt
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: string;
+  /** JSON body sent on every attempt */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: number;
+  /** When a pending delivery is next tried */
+  next_attempt_at: number | null;
+  delivered_at: number | null;
+}
+
+// Personal access token, accepted as `Authorization: Bearer` on the API
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  /** SHA-256 of the token; the token itself is only shown when created */
+  token_hash: string;
+  /** Start of the token, so users can tell their tokens apart */
+  token_prefix: string;
+  /** JSON array of granted scopes */
+  scopes: string;
+  created_at: number;
+  last_used_at: number | null;
+  expires_at: number | null;
+}
+
 export interface AuditLog {
   id: string;
   timestamp: number;
@@ -221,64 +362,75 @@ export interface AuditLog {
   success: number;
 }
 
-// Audit action types
-export type AuditAction =
-  | 'auth.login'
-  | 'auth.logout'
-  | 'auth.login_failed'
-  | 'user.created'
-  | 'user.role_changed'
-  | 'user.invite_redeemed'
-  | 'invite.created'
-  | 'invite.deleted'
-  | 'invite.redeem_failed'
-  | 'template.created'
-  | 'template.deleted'
-  | 'meme.created'
-  | 'meme.updated'
-  | 'meme.deleted'
-  | 'meme.visibility_changed'
-  | 'vote.cast'
-  | 'vote.removed'
-  | 'admin.bootstrap'
-  | 'access.denied';
-
-// Helper to convert sql.js result to typed array
-function resultToArray<T>(result: initSqlJs.QueryExecResult[]): T[] {
-  if (!result.length || !result[0].values.length) return [];
-  const columns = result[0].columns;
-  return result[0].values.map((row: unknown[]) => {
-    const obj: Record<string, unknown> = {};
-    columns.forEach((col: string, i: number) => {
-      obj[col] = row[i];
-    });
-    return obj as T;
-  });
-}
+// Audit action types. Webhooks can subscribe to any of these.
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.logout',
+  'auth.login_failed',
+  'user.created',
+  'user.role_changed',
+  'user.invite_redeemed',
+  'invite.created',
+  'invite.deleted',
+  'invite.redeem_failed',
+  'template.created',
+  'template.deleted',
+  'template.tags_updated',
+  'template.text_zones_updated',
+  'tag.renamed',
+  'tag.deleted',
+  'asset.created',
+  'asset.deleted',
+  'font.created',
+  'font.deleted',
+  'meme.created',
+  'meme.updated',
+  'meme.deleted',
+  'meme.visibility_changed',
+  'meme.restored',
+  'meme.remixed',
+  'meme.share_created',
+  'meme.share_revoked',
+  'comment.created',
+  'comment.updated',
+  'comment.deleted',
+  'vote.cast',
+  'vote.removed',
+  'reaction.added',
+  'reaction.removed',
+  'favorite.added',
+  'favorite.removed',
+  'collection.created',
+  'collection.updated',
+  'collection.deleted',
+  'collection.meme_added',
+  'collection.meme_removed',
+  'webhook.created',
+  'webhook.updated',
+  'webhook.deleted',
+  'api_token.created',
+  'api_token.revoked',
+  'admin.bootstrap',
+  'access.denied',
+] as const;
 
-function resultToSingle<T>(result: initSqlJs.QueryExecResult[]): T | undefined {
-  const arr = resultToArray<T>(result);
-  return arr[0];
-}
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
 
 // User queries
 export const userQueries = {
-  findById: (id: string): User | undefined => {
-    const result = getDb().exec('SELECT * FROM users WHERE id = ?', [id]);
-    return resultToSingle<User>(result);
+  findById: async (id: string): Promise<User | undefined> => {
+    return getDb().get<User>('SELECT * FROM users WHERE id = ?', [id]);
   },
-  findByProviderId: (provider: string, providerId: string): User | undefined => {
-    const result = getDb().exec('SELECT * FROM users WHERE provider = ? AND provider_id = ?', [
+  findByProviderId: async (provider: string, providerId: string): Promise<User | undefined> => {
+    return getDb().get<User>('SELECT * FROM users WHERE provider = ? AND provider_id = ?', [
       provider,
       providerId,
     ]);
-    return resultToSingle<User>(result);
   },
-  findByEmail: (email: string): User | undefined => {
-    const result = getDb().exec('SELECT * FROM users WHERE email = ?', [email]);
-    return resultToSingle<User>(result);
+  findByEmail: async (email: string): Promise<User | undefined> => {
+    return getDb().get<User>('SELECT * FROM users WHERE email = ?', [email]);
   },
-  create: (
+  create: async (
     id: string,
     email: string | null,
     name: string | null,
@@ -287,69 +439,122 @@ export const userQueries = {
     providerId: string,
     createdAt: number
   ) => {
-    getDb().run(
+    await getDb().run(
       'INSERT INTO users (id, email, name, avatar_url, provider, provider_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
       [id, email, name, avatarUrl, provider, providerId, createdAt]
     );
-    save();
   },
-  updateInviteRedeemed: (id: string) => {
-    getDb().run('UPDATE users SET invite_redeemed = 1 WHERE id = ?', [id]);
-    save();
+  updateInviteRedeemed: async (id: string) => {
+    await getDb().run('UPDATE users SET invite_redeemed = 1 WHERE id = ?', [id]);
   },
-  setRole: (role: string, id: string) => {
-    getDb().run('UPDATE users SET role = ? WHERE id = ?', [role, id]);
-    save();
+  setRole: async (role: string, id: string) => {
+    await getDb().run('UPDATE users SET role = ? WHERE id = ?', [role, id]);
   },
-  getAll: (): User[] => {
-    const result = getDb().exec('SELECT * FROM users ORDER BY created_at DESC');
-    return resultToArray<User>(result);
+  getAll: async (): Promise<User[]> => {
+    return getDb().all<User>('SELECT * FROM users ORDER BY created_at DESC');
   },
 };
 
 // Invite code queries
 export const inviteQueries = {
-  findByCode: (code: string): InviteCode | undefined => {
-    const result = getDb().exec('SELECT * FROM invite_codes WHERE code = ?', [code]);
-    return resultToSingle<InviteCode>(result);
+  findByCode: async (code: string): Promise<InviteCode | undefined> => {
+    return getDb().get<InviteCode>('SELECT * FROM invite_codes WHERE code = ?', [code]);
   },
-  findById: (id: string): InviteCode | undefined => {
-    const result = getDb().exec('SELECT * FROM invite_codes WHERE id = ?', [id]);
-    return resultToSingle<InviteCode>(result);
+  findById: async (id: string): Promise<InviteCode | undefined> => {
+    return getDb().get<InviteCode>('SELECT * FROM invite_codes WHERE id = ?', [id]);
   },
-  create: (id: string, code: string, createdBy: string, createdAt: number) => {
-    getDb().run(
-      'INSERT INTO invite_codes (id, code, created_by, created_at) VALUES (?, ?, ?, ?)',
-      [id, code, createdBy, createdAt]
-    );
-    save();
+  create: async (id: string, code: string, createdBy: string, createdAt: number) => {
+    await getDb().run('INSERT INTO invite_codes (id, code, created_by, created_at) VALUES (?, ?, ?, ?)', [
+      id,
+      code,
+      createdBy,
+      createdAt,
+    ]);
   },
-  redeem: (usedBy: string, usedAt: number, code: string) => {
-    getDb().run('UPDATE invite_codes SET used_by = ?, used_at = ? WHERE code = ?', [
+  redeem: async (usedBy: string, usedAt: number, code: string) => {
+    await getDb().run('UPDATE invite_codes SET used_by = ?, used_at = ? WHERE code = ?', [
       usedBy,
       usedAt,
       code,
     ]);
-    save();
   },
-  getAll: (): InviteCode[] => {
-    const result = getDb().exec('SELECT * FROM invite_codes ORDER BY created_at DESC');
-    return resultToArray<InviteCode>(result);
+  getAll: async (): Promise<InviteCode[]> => {
+    return getDb().all<InviteCode>('SELECT * FROM invite_codes ORDER BY created_at DESC');
   },
-  delete: (id: string) => {
-    getDb().run('DELETE FROM invite_codes WHERE id = ?', [id]);
-    save();
+  delete: async (id: string) => {
+    await getDb().run('DELETE FROM invite_codes WHERE id = ?', [id]);
   },
 };
 
 // Template queries
 export const templateQueries = {
-  findById: (id: string): Template | undefined => {
-    const result = getDb().exec('SELECT * FROM templates WHERE id = ?', [id]);
-    return resultToSingle<Template>(result);
+  findById: async (id: string): Promise<Template | undefined> => {
+    return getDb().get<Template>('SELECT * FROM templates WHERE id = ?', [id]);
+  },
+  // Names aren't unique; the newest template with the name wins
+  findByName: async (name: string): Promise<Template | undefined> => {
+    return getDb().get<Template>(
+      'SELECT * FROM templates WHERE LOWER(name) = LOWER(?) ORDER BY created_at DESC LIMIT 1',
+      [name]
+    );
+  },
+  create: async (
+    id: string,
+    name: string,
+    filename: string,
+    width: number,
+    height: number,
+    uploadedBy: string,
+    createdAt: number,
+    frameCount = 1
+  ) => {
+    await getDb().run(
+      'INSERT INTO templates (id, name, filename, width, height, uploaded_by, created_at, frame_count) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [id, name, filename, width, height, uploadedBy, createdAt, frameCount]
+    );
+  },
+  getAll: async (): Promise<Template[]> => {
+    return getDb().all<Template>('SELECT * FROM templates ORDER BY created_at DESC');
+  },
+  updateTextZones: async (id: string, textZones: string | null) => {
+    await getDb().run('UPDATE templates SET text_zones = ? WHERE id = ?', [textZones, id]);
   },
-  create: (
+  getByTag: async (tagName: string): Promise<Template[]> => {
+    return getDb().all<Template>(
+      `SELECT t.* FROM templates t
+       JOIN template_tags tt ON tt.template_id = t.id
+       JOIN tags g ON g.id = tt.tag_id
+       WHERE g.name = ?
+       ORDER BY t.created_at DESC`,
+      [tagName]
+    );
+  },
+  delete: async (id: string) => {
+    await getDb().transaction(async (tx) => {
+      // SQLite doesn't enforce the cascade, so clear tag links explicitly
+      await tx.run('DELETE FROM template_tags WHERE template_id = ?', [id]);
+      await tx.run('DELETE FROM templates WHERE id = ?', [id]);
+    });
+  },
+};
+
+// Asset queries
+export const assetQueries = {
+  findById: async (id: string): Promise<Asset | undefined> => {
+    return getDb().get<Asset>('SELECT * FROM assets WHERE id = ?', [id]);
+  },
+  // All stickers plus the user's own images
+  getVisible: async (userId: string): Promise<Asset[]> => {
+    return getDb().all<Asset>(
+      `SELECT * FROM assets
+       WHERE kind = 'sticker' OR uploaded_by = ?
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+  },
+  create: async (
     id: string,
+    kind: AssetKind,
     name: string,
     filename: string,
     width: number,
@@ -357,133 +562,1056 @@ export const templateQueries = {
     uploadedBy: string,
     createdAt: number
   ) => {
-    getDb().run(
-      'INSERT INTO templates (id, name, filename, width, height, uploaded_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [id, name, filename, width, height, uploadedBy, createdAt]
+    await getDb().run(
+      'INSERT INTO assets (id, kind, name, filename, width, height, uploaded_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [id, kind, name, filename, width, height, uploadedBy, createdAt]
+    );
+  },
+  delete: async (id: string) => {
+    await getDb().run('DELETE FROM assets WHERE id = ?', [id]);
+  },
+};
+
+// Font queries
+export const fontQueries = {
+  findById: async (id: string): Promise<Font | undefined> => {
+    return getDb().get<Font>('SELECT * FROM fonts WHERE id = ?', [id]);
+  },
+  findByFamily: async (family: string): Promise<Font | undefined> => {
+    return getDb().get<Font>('SELECT * FROM fonts WHERE family = ?', [family]);
+  },
+  getAll: async (): Promise<Font[]> => {
+    return getDb().all<Font>('SELECT * FROM fonts ORDER BY family');
+  },
+  create: async (
+    id: string,
+    family: string,
+    filename: string,
+    format: FontFormat,
+    uploadedBy: string,
+    createdAt: number
+  ) => {
+    await getDb().run(
+      'INSERT INTO fonts (id, family, filename, format, uploaded_by, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, family, filename, format, uploadedBy, createdAt]
+    );
+  },
+  delete: async (id: string) => {
+    await getDb().run('DELETE FROM fonts WHERE id = ?', [id]);
+  },
+};
+
+// Tag queries
+export const tagQueries = {
+  findById: async (id: string): Promise<Tag | undefined> => {
+    return getDb().get<Tag>('SELECT * FROM tags WHERE id = ?', [id]);
+  },
+  findByName: async (name: string): Promise<Tag | undefined> => {
+    return getDb().get<Tag>('SELECT * FROM tags WHERE name = ?', [name]);
+  },
+  getAll: async (): Promise<TagWithCount[]> => {
+    return getDb().all<TagWithCount>(
+      `SELECT g.*, COUNT(tt.template_id) AS template_count
+       FROM tags g
+       LEFT JOIN template_tags tt ON tt.tag_id = g.id
+       GROUP BY g.id, g.name, g.created_by, g.created_at
+       ORDER BY g.name`
     );
-    save();
   },
-  getAll: (): Template[] => {
-    const result = getDb().exec('SELECT * FROM templates ORDER BY created_at DESC');
-    return resultToArray<Template>(result);
+  getForTemplate: async (templateId: string): Promise<Tag[]> => {
+    return getDb().all<Tag>(
+      `SELECT g.* FROM tags g
+       JOIN template_tags tt ON tt.tag_id = g.id
+       WHERE tt.template_id = ?
+       ORDER BY g.name`,
+      [templateId]
+    );
+  },
+  // Every template/tag pair, for attaching tags to template listings in one query
+  getAllAssignments: async (): Promise<{ template_id: string; name: string }[]> => {
+    return getDb().all<{ template_id: string; name: string }>(
+      `SELECT tt.template_id, g.name FROM template_tags tt
+       JOIN tags g ON g.id = tt.tag_id
+       ORDER BY g.name`
+    );
+  },
+  // Does nothing if a tag with this name already exists
+  create: async (id: string, name: string, createdBy: string, createdAt: number) => {
+    await getDb().run(
+      'INSERT INTO tags (id, name, created_by, created_at) VALUES (?, ?, ?, ?) ON CONFLICT (name) DO NOTHING',
+      [id, name, createdBy, createdAt]
+    );
+  },
+  // Replace a template's tags with the named (existing) tags
+  setForTemplate: async (templateId: string, names: string[]): Promise<Tag[]> => {
+    return getDb().transaction(async (tx) => {
+      await tx.run('DELETE FROM template_tags WHERE template_id = ?', [templateId]);
+
+      for (const name of names) {
+        await tx.run(
+          'INSERT INTO template_tags (template_id, tag_id) SELECT ?, id FROM tags WHERE name = ?',
+          [templateId, name]
+        );
+      }
+
+      return tx.all<Tag>(
+        `SELECT g.* FROM tags g
+         JOIN template_tags tt ON tt.tag_id = g.id
+         WHERE tt.template_id = ?
+         ORDER BY g.name`,
+        [templateId]
+      );
+    });
+  },
+  rename: async (id: string, name: string) => {
+    await getDb().run('UPDATE tags SET name = ? WHERE id = ?', [name, id]);
   },
-  delete: (id: string) => {
-    getDb().run('DELETE FROM templates WHERE id = ?', [id]);
-    save();
+  delete: async (id: string) => {
+    await getDb().transaction(async (tx) => {
+      await tx.run('DELETE FROM template_tags WHERE tag_id = ?', [id]);
+      await tx.run('DELETE FROM tags WHERE id = ?', [id]);
+    });
   },
 };
 
+// SECURITY: ORDER BY clauses are picked from this map, never built from user input.
+// The trailing id keeps page boundaries stable when sort keys tie.
+const GALLERY_ORDER: Record<GallerySort, string> = {
+  hot: 'm.hot_score DESC, m.id DESC',
+  top: 'm.score DESC, m.created_at DESC, m.id DESC',
+  new: 'm.created_at DESC, m.id DESC',
+  favorites: 'm.favorite_count DESC, m.score DESC, m.created_at DESC, m.id DESC',
+};
+
+// Gallery memes with their template, creator, the viewer's vote and favorite,
+// and the meme they were remixed from and its creator. Takes the viewer's ID as
+// the first three parameters. The remix source is left out (null) unless the
+// viewer can see it, so a source made private doesn't leak its ID or creator.
+const GALLERY_SELECT = `SELECT m.id, m.template_id, m.created_by, m.output_filename, m.is_public, m.created_at,
+    t.name AS template_name, t.filename AS template_filename,
+    u.name AS creator_name, u.avatar_url AS creator_avatar,
+    m.upvotes, m.downvotes, m.score, v.vote_type AS user_vote,
+    m.favorite_count, CASE WHEN f.id IS NULL THEN 0 ELSE 1 END AS favorited,
+    om.id AS remixed_from, ou.name AS remixed_from_creator
+  FROM memes m
+  LEFT JOIN templates t ON t.id = m.template_id
+  LEFT JOIN users u ON u.id = m.created_by
+  LEFT JOIN votes v ON v.meme_id = m.id AND v.user_id = ?
+  LEFT JOIN favorites f ON f.meme_id = m.id AND f.user_id = ?
+  LEFT JOIN memes om ON om.id = m.remixed_from AND (om.is_public = 1 OR om.created_by = ?)
+  LEFT JOIN users ou ON ou.id = om.created_by`;
+
 // Meme queries
 export const memeQueries = {
-  findById: (id: string): Meme | undefined => {
-    const result = getDb().exec('SELECT * FROM memes WHERE id = ?', [id]);
-    return resultToSingle<Meme>(result);
+  findById: async (id: string): Promise<Meme | undefined> => {
+    return getDb().get<Meme>('SELECT * FROM memes WHERE id = ?', [id]);
   },
-  findByUser: (userId: string): Meme[] => {
-    const result = getDb().exec(
-      'SELECT * FROM memes WHERE created_by = ? ORDER BY created_at DESC',
-      [userId]
-    );
-    return resultToArray<Meme>(result);
+  findByUser: async (userId: string): Promise<Meme[]> => {
+    return getDb().all<Meme>('SELECT * FROM memes WHERE created_by = ? ORDER BY created_at DESC', [
+      userId,
+    ]);
   },
-  create: (
+  create: async (
     id: string,
     templateId: string,
     createdBy: string,
     editorState: string,
     outputFilename: string | null,
-    createdAt: number
+    createdAt: number,
+    remixedFrom: string | null = null
   ) => {
-    getDb().run(
-      'INSERT INTO memes (id, template_id, created_by, editor_state, output_filename, created_at) VALUES (?, ?, ?, ?, ?, ?)',
-      [id, templateId, createdBy, editorState, outputFilename, createdAt]
+    await getDb().run(
+      'INSERT INTO memes (id, template_id, created_by, editor_state, output_filename, created_at, hot_score, remixed_from) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        id,
+        templateId,
+        createdBy,
+        editorState,
+        outputFilename,
+        createdAt,
+        getHotScore(0, 0, createdAt),
+        remixedFrom,
+      ]
     );
-    save();
   },
-  update: (editorState: string, outputFilename: string | null, id: string) => {
-    getDb().run('UPDATE memes SET editor_state = ?, output_filename = ? WHERE id = ?', [
+  update: async (editorState: string, outputFilename: string | null, id: string) => {
+    await getDb().run('UPDATE memes SET editor_state = ?, output_filename = ? WHERE id = ?', [
       editorState,
       outputFilename,
       id,
     ]);
-    save();
   },
-  setPublic: (id: string, isPublic: boolean) => {
-    getDb().run('UPDATE memes SET is_public = ? WHERE id = ?', [isPublic ? 1 : 0, id]);
-    save();
+  setPublic: async (id: string, isPublic: boolean) => {
+    await getDb().run('UPDATE memes SET is_public = ? WHERE id = ?', [isPublic ? 1 : 0, id]);
   },
-  delete: (id: string) => {
-    getDb().run('DELETE FROM memes WHERE id = ?', [id]);
-    save();
+  delete: async (id: string) => {
+    await getDb().run('DELETE FROM memes WHERE id = ?', [id]);
   },
-  getAll: (): Meme[] => {
-    const result = getDb().exec('SELECT * FROM memes ORDER BY created_at DESC');
-    return resultToArray<Meme>(result);
+  getAll: async (): Promise<Meme[]> => {
+    return getDb().all<Meme>('SELECT * FROM memes ORDER BY created_at DESC');
   },
-  getPublic: (): Meme[] => {
-    const result = getDb().exec('SELECT * FROM memes WHERE is_public = 1 ORDER BY created_at DESC');
-    return resultToArray<Meme>(result);
+  getPublic: async (): Promise<Meme[]> => {
+    return getDb().all<Meme>('SELECT * FROM memes WHERE is_public = 1 ORDER BY created_at DESC');
+  },
+  getGalleryPage: async (options: {
+    since: number;
+    sort: GallerySort;
+    limit: number;
+    offset: number;
+    viewerId: string | null;
+  }): Promise<GalleryMeme[]> => {
+    return getDb().all<GalleryMeme>(
+      `${GALLERY_SELECT}
+       WHERE m.is_public = 1 AND m.created_at >= ?
+       ORDER BY ${GALLERY_ORDER[options.sort]}
+       LIMIT ? OFFSET ?`,
+      [
+        options.viewerId,
+        options.viewerId,
+        options.viewerId,
+        options.since,
+        options.limit,
+        options.offset,
+      ]
+    );
+  },
+  // Remixes of a meme that are public or the viewer's own, newest first
+  getRemixes: async (memeId: string, viewerId: string): Promise<GalleryMeme[]> => {
+    return getDb().all<GalleryMeme>(
+      `${GALLERY_SELECT}
+       WHERE m.remixed_from = ? AND (m.is_public = 1 OR m.created_by = ?)
+       ORDER BY m.created_at DESC, m.id DESC`,
+      [viewerId, viewerId, viewerId, memeId, viewerId]
+    );
+  },
+  // Remixes keep existing when their source is deleted, without the lineage
+  clearRemixedFrom: async (memeId: string) => {
+    await getDb().run('UPDATE memes SET remixed_from = NULL WHERE remixed_from = ?', [memeId]);
+  },
+  // Public memes the user saved, most recently saved first
+  getSavedPage: async (options: {
+    userId: string;
+    limit: number;
+    offset: number;
+  }): Promise<GalleryMeme[]> => {
+    return getDb().all<GalleryMeme>(
+      `${GALLERY_SELECT}
+       WHERE m.is_public = 1 AND f.id IS NOT NULL
+       ORDER BY f.created_at DESC, m.id DESC
+       LIMIT ? OFFSET ?`,
+      [options.userId, options.userId, options.userId, options.limit, options.offset]
+    );
+  },
+  countSaved: async (userId: string): Promise<number> => {
+    const row = await getDb().get<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM favorites f
+       JOIN memes m ON m.id = f.meme_id
+       WHERE f.user_id = ? AND m.is_public = 1`,
+      [userId]
+    );
+    return row?.total ?? 0;
+  },
+  // Memes in a collection in their collection order, visible or not; callers
+  // filter by the viewer's access
+  getCollectionPage: async (collectionId: string, viewerId: string): Promise<GalleryMeme[]> => {
+    return getDb().all<GalleryMeme>(
+      `${GALLERY_SELECT}
+       JOIN collection_memes cm ON cm.meme_id = m.id
+       WHERE cm.collection_id = ?
+       ORDER BY cm.position ASC`,
+      [viewerId, viewerId, viewerId, collectionId]
+    );
+  },
+  countPublic: async (since: number): Promise<number> => {
+    const row = await getDb().get<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM memes WHERE is_public = 1 AND created_at >= ?',
+      [since]
+    );
+    return row?.total ?? 0;
   },
 };
 
-// Vote queries
-export const voteQueries = {
-  findById: (id: string): Vote | undefined => {
-    const result = getDb().exec('SELECT * FROM votes WHERE id = ?', [id]);
-    return resultToSingle<Vote>(result);
+// Meme revision queries
+export const memeRevisionQueries = {
+  findById: async (id: string): Promise<MemeRevision | undefined> => {
+    return getDb().get<MemeRevision>('SELECT * FROM meme_revisions WHERE id = ?', [id]);
   },
-  findByMemeAndUser: (memeId: string, userId: string): Vote | undefined => {
-    const result = getDb().exec('SELECT * FROM votes WHERE meme_id = ? AND user_id = ?', [
-      memeId,
-      userId,
+  // Newest first
+  findByMeme: async (memeId: string): Promise<MemeRevisionWithCreator[]> => {
+    return getDb().all<MemeRevisionWithCreator>(
+      `SELECT r.*, u.name AS creator_name
+       FROM meme_revisions r
+       LEFT JOIN users u ON u.id = r.created_by
+       WHERE r.meme_id = ?
+       ORDER BY r.created_at DESC, r.id DESC`,
+      [memeId]
+    );
+  },
+  getLatest: async (memeId: string): Promise<MemeRevision | undefined> => {
+    return getDb().get<MemeRevision>(
+      'SELECT * FROM meme_revisions WHERE meme_id = ? ORDER BY created_at DESC, id DESC LIMIT 1',
+      [memeId]
+    );
+  },
+  create: async (
+    id: string,
+    memeId: string,
+    editorState: string,
+    createdBy: string,
+    restoredFrom: string | null,
+    createdAt: number
+  ) => {
+    await getDb().run(
+      'INSERT INTO meme_revisions (id, meme_id, editor_state, created_by, restored_from, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, memeId, editorState, createdBy, restoredFrom, createdAt]
+    );
+  },
+  setOutputFilename: async (id: string, outputFilename: string) => {
+    await getDb().run('UPDATE meme_revisions SET output_filename = ? WHERE id = ?', [
+      outputFilename,
+      id,
     ]);
-    return resultToSingle<Vote>(result);
   },
-  findByMeme: (memeId: string): Vote[] => {
-    const result = getDb().exec('SELECT * FROM votes WHERE meme_id = ?', [memeId]);
-    return resultToArray<Vote>(result);
+  delete: async (id: string) => {
+    await getDb().run('DELETE FROM meme_revisions WHERE id = ?', [id]);
+  },
+  deleteByMeme: async (memeId: string) => {
+    await getDb().run('DELETE FROM meme_revisions WHERE meme_id = ?', [memeId]);
+  },
+};
+
+// Comment queries
+export const commentQueries = {
+  findById: async (id: string): Promise<Comment | undefined> => {
+    return getDb().get<Comment>('SELECT * FROM comments WHERE id = ?', [id]);
   },
-  getVoteCounts: (memeId: string): { upvotes: number; downvotes: number; score: number } => {
-    const upResult = getDb().exec(
-      'SELECT COUNT(*) as count FROM votes WHERE meme_id = ? AND vote_type = 1',
+  // Oldest first, so replies come after the comments they answer
+  findByMeme: async (memeId: string): Promise<CommentWithAuthor[]> => {
+    return getDb().all<CommentWithAuthor>(
+      `SELECT c.*, u.name AS author_name, u.avatar_url AS author_avatar
+       FROM comments c
+       LEFT JOIN users u ON u.id = c.user_id
+       WHERE c.meme_id = ?
+       ORDER BY c.created_at ASC, c.id ASC`,
       [memeId]
     );
-    const downResult = getDb().exec(
-      'SELECT COUNT(*) as count FROM votes WHERE meme_id = ? AND vote_type = -1',
+  },
+  countByMeme: async (memeId: string): Promise<number> => {
+    const row = await getDb().get<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM comments WHERE meme_id = ?',
       [memeId]
     );
-    const upvotes = upResult.length && upResult[0].values.length ? (upResult[0].values[0][0] as number) : 0;
-    const downvotes = downResult.length && downResult[0].values.length ? (downResult[0].values[0][0] as number) : 0;
-    return { upvotes, downvotes, score: upvotes - downvotes };
+    return row?.total ?? 0;
+  },
+  hasReplies: async (id: string): Promise<boolean> => {
+    const row = await getDb().get<{ id: string }>(
+      'SELECT id FROM comments WHERE parent_id = ? LIMIT 1',
+      [id]
+    );
+    return !!row;
+  },
+  create: async (
+    id: string,
+    memeId: string,
+    userId: string,
+    parentId: string | null,
+    body: string,
+    createdAt: number
+  ) => {
+    await getDb().run(
+      'INSERT INTO comments (id, meme_id, user_id, parent_id, body, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, memeId, userId, parentId, body, createdAt]
+    );
+  },
+  updateBody: async (id: string, body: string, updatedAt: number) => {
+    await getDb().run('UPDATE comments SET body = ?, updated_at = ? WHERE id = ?', [
+      body,
+      updatedAt,
+      id,
+    ]);
+  },
+  // Keep the comment as a placeholder so its replies stay in the thread
+  markDeleted: async (id: string, deletedAt: number) => {
+    await getDb().run(
+      "UPDATE comments SET body = '', user_id = NULL, deleted_at = ? WHERE id = ?",
+      [deletedAt, id]
+    );
   },
-  create: (id: string, memeId: string, userId: string, voteType: number, createdAt: number) => {
-    getDb().run(
-      'INSERT INTO votes (id, meme_id, user_id, vote_type, created_at) VALUES (?, ?, ?, ?, ?)',
-      [id, memeId, userId, voteType, createdAt]
+  delete: async (id: string) => {
+    await getDb().run('DELETE FROM comments WHERE id = ?', [id]);
+  },
+  deleteByMeme: async (memeId: string) => {
+    await getDb().run('DELETE FROM comments WHERE meme_id = ?', [memeId]);
+  },
+};
+
+// Meme share queries
+export const memeShareQueries = {
+  findById: async (id: string): Promise<MemeShare | undefined> => {
+    return getDb().get<MemeShare>('SELECT * FROM meme_shares WHERE id = ?', [id]);
+  },
+  // Only links that are neither revoked nor expired
+  findActiveByToken: async (token: string, now: number): Promise<MemeShare | undefined> => {
+    return getDb().get<MemeShare>(
+      `SELECT * FROM meme_shares
+       WHERE token = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)`,
+      [token, now]
+    );
+  },
+  // Newest first, leaving out revoked and expired links
+  findActiveByMeme: async (memeId: string, now: number): Promise<MemeShare[]> => {
+    return getDb().all<MemeShare>(
+      `SELECT * FROM meme_shares
+       WHERE meme_id = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+       ORDER BY created_at DESC, id DESC`,
+      [memeId, now]
+    );
+  },
+  countActiveByMeme: async (memeId: string, now: number): Promise<number> => {
+    const row = await getDb().get<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM meme_shares
+       WHERE meme_id = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)`,
+      [memeId, now]
+    );
+    return row?.total ?? 0;
+  },
+  create: async (
+    id: string,
+    memeId: string,
+    token: string,
+    createdBy: string,
+    createdAt: number,
+    expiresAt: number | null
+  ) => {
+    await getDb().run(
+      'INSERT INTO meme_shares (id, meme_id, token, created_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, memeId, token, createdBy, createdAt, expiresAt]
     );
-    save();
   },
-  update: (voteType: number, memeId: string, userId: string) => {
-    getDb().run('UPDATE votes SET vote_type = ? WHERE meme_id = ? AND user_id = ?', [
-      voteType,
+  revoke: async (id: string, revokedAt: number) => {
+    await getDb().run('UPDATE meme_shares SET revoked_at = ? WHERE id = ?', [revokedAt, id]);
+  },
+  deleteByMeme: async (memeId: string) => {
+    await getDb().run('DELETE FROM meme_shares WHERE meme_id = ?', [memeId]);
+  },
+};
+
+// Favorite queries
+export const favoriteQueries = {
+  findByMemeAndUser: async (memeId: string, userId: string): Promise<Favorite | undefined> => {
+    return getDb().get<Favorite>('SELECT * FROM favorites WHERE meme_id = ? AND user_id = ?', [
       memeId,
       userId,
     ]);
-    save();
   },
-  delete: (memeId: string, userId: string) => {
-    getDb().run('DELETE FROM votes WHERE meme_id = ? AND user_id = ?', [memeId, userId]);
-    save();
+  // Save a meme for the user and bump its counter in one transaction. Returns
+  // the meme's favorite count and whether anything changed.
+  add: async (
+    id: string,
+    memeId: string,
+    userId: string,
+    createdAt: number
+  ): Promise<{ favoriteCount: number; changed: boolean }> => {
+    return getDb().transaction(async (tx) => {
+      await lockMeme(tx, memeId);
+      const existing = await tx.get<Favorite>(
+        'SELECT * FROM favorites WHERE meme_id = ? AND user_id = ?',
+        [memeId, userId]
+      );
+
+      if (!existing) {
+        await tx.run(
+          'INSERT INTO favorites (id, meme_id, user_id, created_at) VALUES (?, ?, ?, ?)',
+          [id, memeId, userId, createdAt]
+        );
+        await tx.run('UPDATE memes SET favorite_count = favorite_count + 1 WHERE id = ?', [
+          memeId,
+        ]);
+      }
+
+      const row = await tx.get<{ favorite_count: number }>(
+        'SELECT favorite_count FROM memes WHERE id = ?',
+        [memeId]
+      );
+      return { favoriteCount: row?.favorite_count ?? 0, changed: !existing };
+    });
+  },
+  // Remove the user's saved meme (if any) and update its counter in one transaction
+  remove: async (
+    memeId: string,
+    userId: string
+  ): Promise<{ favoriteCount: number; changed: boolean }> => {
+    return getDb().transaction(async (tx) => {
+      await lockMeme(tx, memeId);
+      const existing = await tx.get<Favorite>(
+        'SELECT * FROM favorites WHERE meme_id = ? AND user_id = ?',
+        [memeId, userId]
+      );
+
+      if (existing) {
+        await tx.run('DELETE FROM favorites WHERE id = ?', [existing.id]);
+        await tx.run('UPDATE memes SET favorite_count = favorite_count - 1 WHERE id = ?', [
+          memeId,
+        ]);
+      }
+
+      const row = await tx.get<{ favorite_count: number }>(
+        'SELECT favorite_count FROM memes WHERE id = ?',
+        [memeId]
+      );
+      return { favoriteCount: row?.favorite_count ?? 0, changed: !!existing };
+    });
+  },
+  deleteByMeme: async (memeId: string) => {
+    await getDb().run('DELETE FROM favorites WHERE meme_id = ?', [memeId]);
+  },
+};
+
+// Counts only the memes the viewer can see (public ones and their own), so a
+// shared collection doesn't reveal how many private memes it holds. Takes the
+// viewer's ID as the first parameter.
+const COLLECTION_SUMMARY_SELECT = `SELECT c.*, u.name AS owner_name,
+    (SELECT COUNT(*) FROM collection_memes cm
+      JOIN memes m ON m.id = cm.meme_id
+      WHERE cm.collection_id = c.id AND (m.is_public = 1 OR m.created_by = ?)) AS meme_count,
+    (SELECT m.output_filename FROM collection_memes cm
+      JOIN memes m ON m.id = cm.meme_id
+      WHERE cm.collection_id = c.id AND m.is_public = 1 AND m.output_filename IS NOT NULL
+      ORDER BY cm.position ASC LIMIT 1) AS cover_filename
+  FROM collections c
+  LEFT JOIN users u ON u.id = c.owner_id`;
+
+// Collection queries
+export const collectionQueries = {
+  findById: async (id: string): Promise<Collection | undefined> => {
+    return getDb().get<Collection>('SELECT * FROM collections WHERE id = ?', [id]);
+  },
+  getSummary: async (id: string, viewerId: string): Promise<CollectionSummary | undefined> => {
+    return getDb().get<CollectionSummary>(`${COLLECTION_SUMMARY_SELECT} WHERE c.id = ?`, [
+      viewerId,
+      id,
+    ]);
+  },
+  // Most recently updated first
+  findByOwner: async (ownerId: string): Promise<CollectionSummary[]> => {
+    return getDb().all<CollectionSummary>(
+      `${COLLECTION_SUMMARY_SELECT} WHERE c.owner_id = ? ORDER BY c.updated_at DESC, c.id DESC`,
+      [ownerId, ownerId]
+    );
+  },
+  getPublic: async (
+    viewerId: string,
+    limit: number,
+    offset: number
+  ): Promise<CollectionSummary[]> => {
+    return getDb().all<CollectionSummary>(
+      `${COLLECTION_SUMMARY_SELECT}
+       WHERE c.is_public = 1
+       ORDER BY c.updated_at DESC, c.id DESC
+       LIMIT ? OFFSET ?`,
+      [viewerId, limit, offset]
+    );
+  },
+  countPublic: async (): Promise<number> => {
+    const row = await getDb().get<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM collections WHERE is_public = 1'
+    );
+    return row?.total ?? 0;
+  },
+  countByOwner: async (ownerId: string): Promise<number> => {
+    const row = await getDb().get<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM collections WHERE owner_id = ?',
+      [ownerId]
+    );
+    return row?.total ?? 0;
+  },
+  create: async (
+    id: string,
+    ownerId: string,
+    name: string,
+    description: string,
+    isPublic: boolean,
+    createdAt: number
+  ) => {
+    await getDb().run(
+      'INSERT INTO collections (id, owner_id, name, description, is_public, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [id, ownerId, name, description, isPublic ? 1 : 0, createdAt, createdAt]
+    );
+  },
+  update: async (
+    id: string,
+    name: string,
+    description: string,
+    isPublic: boolean,
+    updatedAt: number
+  ) => {
+    await getDb().run(
+      'UPDATE collections SET name = ?, description = ?, is_public = ?, updated_at = ? WHERE id = ?',
+      [name, description, isPublic ? 1 : 0, updatedAt, id]
+    );
+  },
+  delete: async (id: string) => {
+    await getDb().transaction(async (tx) => {
+      await tx.run('DELETE FROM collection_memes WHERE collection_id = ?', [id]);
+      await tx.run('DELETE FROM collections WHERE id = ?', [id]);
+    });
+  },
+  getMemeIds: async (id: string): Promise<string[]> => {
+    const rows = await getDb().all<{ meme_id: string }>(
+      'SELECT meme_id FROM collection_memes WHERE collection_id = ? ORDER BY position ASC',
+      [id]
+    );
+    return rows.map((row) => row.meme_id);
+  },
+  // Append a meme to the end of a collection. Returns false if it was already there.
+  addMeme: async (id: string, memeId: string, addedAt: number): Promise<boolean> => {
+    return getDb().transaction(async (tx) => {
+      const existing = await tx.get<{ meme_id: string }>(
+        'SELECT meme_id FROM collection_memes WHERE collection_id = ? AND meme_id = ?',
+        [id, memeId]
+      );
+      if (existing) return false;
+
+      const last = await tx.get<{ position: number | null }>(
+        'SELECT MAX(position) AS position FROM collection_memes WHERE collection_id = ?',
+        [id]
+      );
+      await tx.run(
+        'INSERT INTO collection_memes (collection_id, meme_id, position, added_at) VALUES (?, ?, ?, ?)',
+        [id, memeId, (last?.position ?? -1) + 1, addedAt]
+      );
+      await tx.run('UPDATE collections SET updated_at = ? WHERE id = ?', [addedAt, id]);
+      return true;
+    });
+  },
+  removeMeme: async (id: string, memeId: string, updatedAt: number) => {
+    await getDb().transaction(async (tx) => {
+      await tx.run('DELETE FROM collection_memes WHERE collection_id = ? AND meme_id = ?', [
+        id,
+        memeId,
+      ]);
+      await tx.run('UPDATE collections SET updated_at = ? WHERE id = ?', [updatedAt, id]);
+    });
+  },
+  // Renumber a collection's memes in the given order
+  reorder: async (id: string, memeIds: string[], updatedAt: number) => {
+    await getDb().transaction(async (tx) => {
+      for (const [position, memeId] of memeIds.entries()) {
+        await tx.run(
+          'UPDATE collection_memes SET position = ? WHERE collection_id = ? AND meme_id = ?',
+          [position, id, memeId]
+        );
+      }
+      await tx.run('UPDATE collections SET updated_at = ? WHERE id = ?', [updatedAt, id]);
+    });
+  },
+  // Take a deleted meme out of every collection
+  removeMemeEverywhere: async (memeId: string) => {
+    await getDb().run('DELETE FROM collection_memes WHERE meme_id = ?', [memeId]);
+  },
+};
+
+// Reaction queries
+export const reactionQueries = {
+  // Per-emoji counts for each of the memes, flagging the viewer's own reactions
+  countByMemes: async (memeIds: string[], viewerId: string | null): Promise<ReactionCount[]> => {
+    if (memeIds.length === 0) return [];
+
+    return getDb().all<ReactionCount>(
+      `SELECT meme_id, emoji, COUNT(*) AS count,
+         MAX(CASE WHEN user_id = ? THEN 1 ELSE 0 END) AS reacted
+       FROM reactions
+       WHERE meme_id IN (${memeIds.map(() => '?').join(', ')})
+       GROUP BY meme_id, emoji`,
+      [viewerId, ...memeIds]
+    );
+  },
+  // Add the user's reaction, or remove it if they already reacted with the emoji.
+  // Returns whether the reaction is now present.
+  toggle: async (
+    id: string,
+    memeId: string,
+    userId: string,
+    emoji: string,
+    createdAt: number
+  ): Promise<boolean> => {
+    return getDb().transaction(async (tx) => {
+      const existing = await tx.get<Reaction>(
+        'SELECT * FROM reactions WHERE meme_id = ? AND user_id = ? AND emoji = ?',
+        [memeId, userId, emoji]
+      );
+
+      if (existing) {
+        await tx.run('DELETE FROM reactions WHERE id = ?', [existing.id]);
+        return false;
+      }
+
+      await tx.run(
+        'INSERT INTO reactions (id, meme_id, user_id, emoji, created_at) VALUES (?, ?, ?, ?, ?)',
+        [id, memeId, userId, emoji, createdAt]
+      );
+      return true;
+    });
   },
-  deleteByMeme: (memeId: string) => {
-    getDb().run('DELETE FROM votes WHERE meme_id = ?', [memeId]);
-    save();
+  deleteByMeme: async (memeId: string) => {
+    await getDb().run('DELETE FROM reactions WHERE meme_id = ?', [memeId]);
+  },
+};
+
+// Vote queries
+export const voteQueries = {
+  findById: async (id: string): Promise<Vote | undefined> => {
+    return getDb().get<Vote>('SELECT * FROM votes WHERE id = ?', [id]);
+  },
+  findByMemeAndUser: async (memeId: string, userId: string): Promise<Vote | undefined> => {
+    return getDb().get<Vote>('SELECT * FROM votes WHERE meme_id = ? AND user_id = ?', [
+      memeId,
+      userId,
+    ]);
+  },
+  findByMeme: async (memeId: string): Promise<Vote[]> => {
+    return getDb().all<Vote>('SELECT * FROM votes WHERE meme_id = ?', [memeId]);
+  },
+  getVoteCounts: async (memeId: string): Promise<VoteCounts> => {
+    const counts = await getDb().get<VoteCounts>(
+      'SELECT upvotes, downvotes, score FROM memes WHERE id = ?',
+      [memeId]
+    );
+    return counts ?? { upvotes: 0, downvotes: 0, score: 0 };
+  },
+  // Create or flip a user's vote and update the meme's counters in one transaction
+  cast: async (
+    id: string,
+    memeId: string,
+    userId: string,
+    voteType: number,
+    createdAt: number
+  ): Promise<{ counts: VoteCounts; changed: boolean }> => {
+    return getDb().transaction(async (tx) => {
+      await lockMeme(tx, memeId);
+      const existing = await tx.get<Vote>(
+        'SELECT * FROM votes WHERE meme_id = ? AND user_id = ?',
+        [memeId, userId]
+      );
+
+      if (existing?.vote_type === voteType) {
+        return { counts: await adjustMemeCounters(tx, memeId, 0, 0), changed: false };
+      }
+
+      if (existing) {
+        await tx.run('UPDATE votes SET vote_type = ? WHERE id = ?', [voteType, existing.id]);
+      } else {
+        await tx.run(
+          'INSERT INTO votes (id, meme_id, user_id, vote_type, created_at) VALUES (?, ?, ?, ?, ?)',
+          [id, memeId, userId, voteType, createdAt]
+        );
+      }
+
+      // A flip moves one vote from one column to the other
+      const upDelta = (voteType === 1 ? 1 : 0) - (existing?.vote_type === 1 ? 1 : 0);
+      const downDelta = (voteType === -1 ? 1 : 0) - (existing?.vote_type === -1 ? 1 : 0);
+      return { counts: await adjustMemeCounters(tx, memeId, upDelta, downDelta), changed: true };
+    });
+  },
+  // Remove a user's vote (if any) and update the meme's counters in one transaction
+  remove: async (memeId: string, userId: string): Promise<VoteCounts> => {
+    return getDb().transaction(async (tx) => {
+      await lockMeme(tx, memeId);
+      const existing = await tx.get<Vote>(
+        'SELECT * FROM votes WHERE meme_id = ? AND user_id = ?',
+        [memeId, userId]
+      );
+      if (!existing) {
+        return adjustMemeCounters(tx, memeId, 0, 0);
+      }
+
+      await tx.run('DELETE FROM votes WHERE id = ?', [existing.id]);
+      return adjustMemeCounters(
+        tx,
+        memeId,
+        existing.vote_type === 1 ? -1 : 0,
+        existing.vote_type === -1 ? -1 : 0
+      );
+    });
+  },
+  deleteByMeme: async (memeId: string) => {
+    await getDb().run('DELETE FROM votes WHERE meme_id = ?', [memeId]);
+  },
+  // Rebuild every meme's counters from the votes table, repairing any drift
+  recountAll: async (): Promise<{ checked: number; corrected: number }> => {
+    return getDb().transaction(async (tx) => {
+      const memes = await tx.all<{
+        id: string;
+        created_at: number;
+        upvotes: number;
+        downvotes: number;
+        hot_score: number;
+        actual_upvotes: number;
+        actual_downvotes: number;
+      }>(`
+        SELECT m.id, m.created_at, m.upvotes, m.downvotes, m.hot_score,
+          COALESCE(SUM(CASE WHEN v.vote_type = 1 THEN 1 ELSE 0 END), 0) AS actual_upvotes,
+          COALESCE(SUM(CASE WHEN v.vote_type = -1 THEN 1 ELSE 0 END), 0) AS actual_downvotes
+        FROM memes m
+        LEFT JOIN votes v ON v.meme_id = m.id
+        GROUP BY m.id, m.created_at, m.upvotes, m.downvotes, m.hot_score
+      `);
+
+      let corrected = 0;
+      for (const meme of memes) {
+        const hotScore = getHotScore(meme.actual_upvotes, meme.actual_downvotes, meme.created_at);
+        if (
+          meme.upvotes === meme.actual_upvotes &&
+          meme.downvotes === meme.actual_downvotes &&
+          Math.abs(meme.hot_score - hotScore) < 1e-9
+        ) {
+          continue;
+        }
+
+        await tx.run(
+          'UPDATE memes SET upvotes = ?, downvotes = ?, score = ?, hot_score = ? WHERE id = ?',
+          [
+            meme.actual_upvotes,
+            meme.actual_downvotes,
+            meme.actual_upvotes - meme.actual_downvotes,
+            hotScore,
+            meme.id,
+          ]
+        );
+        corrected++;
+      }
+
+      return { checked: memes.length, corrected };
+    });
+  },
+};
+
+/**
+ * Lock a meme's row until the transaction ends, so vote and favorite changes on
+ * it run one at a time. Without it, two Postgres transactions at READ COMMITTED
+ * can both read the user's old vote (or none) and apply the same delta. The
+ * SQLite drivers already run one transaction at a time.
+ */
+async function lockMeme(tx: DatabaseDriver, memeId: string) {
+  if (tx.dialect === 'postgres') {
+    await tx.get('SELECT id FROM memes WHERE id = ? FOR UPDATE', [memeId]);
+  }
+}
+
+/**
+ * Apply vote deltas to a meme's counters and recompute its hot score.
+ * Must be called with the transaction handle that changed the votes.
+ */
+async function adjustMemeCounters(
+  tx: DatabaseDriver,
+  memeId: string,
+  upDelta: number,
+  downDelta: number
+): Promise<VoteCounts> {
+  if (upDelta !== 0 || downDelta !== 0) {
+    await tx.run(
+      'UPDATE memes SET upvotes = upvotes + ?, downvotes = downvotes + ?, score = score + ? WHERE id = ?',
+      [upDelta, downDelta, upDelta - downDelta, memeId]
+    );
+  }
+
+  const meme = await tx.get<VoteCounts & { created_at: number }>(
+    'SELECT upvotes, downvotes, score, created_at FROM memes WHERE id = ?',
+    [memeId]
+  );
+  if (!meme) {
+    return { upvotes: 0, downvotes: 0, score: 0 };
+  }
+
+  if (upDelta !== 0 || downDelta !== 0) {
+    await tx.run('UPDATE memes SET hot_score = ? WHERE id = ?', [
+      getHotScore(meme.upvotes, meme.downvotes, meme.created_at),
+      memeId,
+    ]);
+  }
+
+  return { upvotes: meme.upvotes, downvotes: meme.downvotes, score: meme.score };
+}
+
+// Webhook queries
+export const webhookQueries = {
+  findById: async (id: string): Promise<Webhook | undefined> => {
+    return getDb().get<Webhook>('SELECT * FROM webhooks WHERE id = ?', [id]);
+  },
+  getAll: async (): Promise<Webhook[]> => {
+    return getDb().all<Webhook>('SELECT * FROM webhooks ORDER BY created_at DESC');
+  },
+  getActive: async (): Promise<Webhook[]> => {
+    return getDb().all<Webhook>('SELECT * FROM webhooks WHERE is_active = 1');
+  },
+  count: async (): Promise<number> => {
+    const row = await getDb().get<{ total: number }>('SELECT COUNT(*) AS total FROM webhooks');
+    return row?.total ?? 0;
+  },
+  create: async (
+    id: string,
+    url: string,
+    secret: string,
+    events: string[],
+    createdBy: string,
+    createdAt: number
+  ) => {
+    await getDb().run(
+      'INSERT INTO webhooks (id, url, secret, events, is_active, created_by, created_at, updated_at) VALUES (?, ?, ?, ?, 1, ?, ?, ?)',
+      [id, url, secret, JSON.stringify(events), createdBy, createdAt, createdAt]
+    );
+  },
+  update: async (
+    id: string,
+    url: string,
+    secret: string,
+    events: string[],
+    isActive: boolean,
+    updatedAt: number
+  ) => {
+    await getDb().run(
+      'UPDATE webhooks SET url = ?, secret = ?, events = ?, is_active = ?, updated_at = ? WHERE id = ?',
+      [url, secret, JSON.stringify(events), isActive ? 1 : 0, updatedAt, id]
+    );
+  },
+  delete: async (id: string) => {
+    await getDb().transaction(async (tx) => {
+      await tx.run('DELETE FROM webhook_deliveries WHERE webhook_id = ?', [id]);
+      await tx.run('DELETE FROM webhooks WHERE id = ?', [id]);
+    });
+  },
+};
+
+// Webhook delivery queries
+export const webhookDeliveryQueries = {
+  findById: async (id: string): Promise<WebhookDelivery | undefined> => {
+    return getDb().get<WebhookDelivery>('SELECT * FROM webhook_deliveries WHERE id = ?', [id]);
+  },
+  // Newest first
+  findByWebhook: async (webhookId: string, limit: number): Promise<WebhookDelivery[]> => {
+    return getDb().all<WebhookDelivery>(
+      `SELECT * FROM webhook_deliveries WHERE webhook_id = ?
+       ORDER BY created_at DESC, id DESC LIMIT ?`,
+      [webhookId, limit]
+    );
+  },
+  // Pending deliveries to active webhooks whose next attempt is due, oldest first.
+  // Deliveries to disabled webhooks wait until it's turned back on.
+  findDue: async (now: number, limit: number): Promise<WebhookDelivery[]> => {
+    return getDb().all<WebhookDelivery>(
+      `SELECT d.* FROM webhook_deliveries d
+       JOIN webhooks w ON w.id = d.webhook_id
+       WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.is_active = 1
+       ORDER BY d.next_attempt_at ASC LIMIT ?`,
+      [now, limit]
+    );
+  },
+  create: async (
+    id: string,
+    webhookId: string,
+    event: string,
+    payload: string,
+    maxAttempts: number,
+    createdAt: number
+  ) => {
+    await getDb().run(
+      `INSERT INTO webhook_deliveries (id, webhook_id, event, payload, status, attempts, max_attempts, created_at, next_attempt_at)
+       VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?)`,
+      [id, webhookId, event, payload, maxAttempts, createdAt, createdAt]
+    );
+  },
+  recordAttempt: async (
+    id: string,
+    result: {
+      status: WebhookDeliveryStatus;
+      attempts: number;
+      responseStatus: number | null;
+      error: string | null;
+      nextAttemptAt: number | null;
+      deliveredAt: number | null;
+    }
+  ) => {
+    await getDb().run(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = ?, response_status = ?, error = ?, next_attempt_at = ?, delivered_at = ?
+       WHERE id = ?`,
+      [
+        result.status,
+        result.attempts,
+        result.responseStatus,
+        result.error,
+        result.nextAttemptAt,
+        result.deliveredAt,
+        id,
+      ]
+    );
+  },
+  // Keep only a webhook's newest deliveries
+  prune: async (webhookId: string, keep: number) => {
+    await getDb().run(
+      `DELETE FROM webhook_deliveries WHERE webhook_id = ? AND id NOT IN (
+         SELECT id FROM webhook_deliveries WHERE webhook_id = ?
+         ORDER BY created_at DESC, id DESC LIMIT ?
+       )`,
+      [webhookId, webhookId, keep]
+    );
+  },
+};
+
+// API token queries
+export const apiTokenQueries = {
+  findById: async (id: string): Promise<ApiToken | undefined> => {
+    return getDb().get<ApiToken>('SELECT * FROM api_tokens WHERE id = ?', [id]);
+  },
+  // Only tokens that haven't expired
+  findActiveByHash: async (tokenHash: string, now: number): Promise<ApiToken | undefined> => {
+    return getDb().get<ApiToken>(
+      'SELECT * FROM api_tokens WHERE token_hash = ? AND (expires_at IS NULL OR expires_at > ?)',
+      [tokenHash, now]
+    );
+  },
+  // Newest first, including expired tokens so they can be cleaned up
+  findByUser: async (userId: string): Promise<ApiToken[]> => {
+    return getDb().all<ApiToken>(
+      'SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC, id DESC',
+      [userId]
+    );
+  },
+  countByUser: async (userId: string): Promise<number> => {
+    const row = await getDb().get<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM api_tokens WHERE user_id = ?',
+      [userId]
+    );
+    return row?.total ?? 0;
+  },
+  create: async (
+    id: string,
+    userId: string,
+    name: string,
+    tokenHash: string,
+    tokenPrefix: string,
+    scopes: string[],
+    createdAt: number,
+    expiresAt: number | null
+  ) => {
+    await getDb().run(
+      `INSERT INTO api_tokens
+        (id, user_id, name, token_hash, token_prefix, scopes, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, userId, name, tokenHash, tokenPrefix, JSON.stringify(scopes), createdAt, expiresAt]
+    );
+  },
+  touch: async (id: string, lastUsedAt: number) => {
+    await getDb().run('UPDATE api_tokens SET last_used_at = ? WHERE id = ?', [lastUsedAt, id]);
+  },
+  delete: async (id: string) => {
+    await getDb().run('DELETE FROM api_tokens WHERE id = ?', [id]);
   },
 };
 
 // Audit log queries
 export const auditQueries = {
-  create: (
+  create: async (
     id: string,
     action: AuditAction,
     options: {
@@ -506,7 +1634,7 @@ export const auditQueries = {
       success = true,
     } = options;
 
-    getDb().run(
+    await getDb().run(
       `INSERT INTO audit_logs (id, timestamp, user_id, action, resource_type, resource_id, details, ip_address, user_agent, success)
        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
@@ -522,55 +1650,47 @@ export const auditQueries = {
         success ? 1 : 0,
       ]
     );
-    // Don't save immediately - let the periodic save handle it for performance
   },
 
-  findByUser: (userId: string, limit = 100): AuditLog[] => {
-    const result = getDb().exec(
+  findByUser: async (userId: string, limit = 100): Promise<AuditLog[]> => {
+    return getDb().all<AuditLog>(
       'SELECT * FROM audit_logs WHERE user_id = ? ORDER BY timestamp DESC LIMIT ?',
       [userId, limit]
     );
-    return resultToArray<AuditLog>(result);
   },
 
-  findByAction: (action: string, limit = 100): AuditLog[] => {
-    const result = getDb().exec(
+  findByAction: async (action: string, limit = 100): Promise<AuditLog[]> => {
+    return getDb().all<AuditLog>(
       'SELECT * FROM audit_logs WHERE action = ? ORDER BY timestamp DESC LIMIT ?',
       [action, limit]
     );
-    return resultToArray<AuditLog>(result);
   },
 
-  findByResource: (resourceType: string, resourceId: string, limit = 100): AuditLog[] => {
-    const result = getDb().exec(
+  findByResource: async (resourceType: string, resourceId: string, limit = 100): Promise<AuditLog[]> => {
+    return getDb().all<AuditLog>(
       'SELECT * FROM audit_logs WHERE resource_type = ? AND resource_id = ? ORDER BY timestamp DESC LIMIT ?',
       [resourceType, resourceId, limit]
     );
-    return resultToArray<AuditLog>(result);
   },
 
-  getRecent: (limit = 100): AuditLog[] => {
-    const result = getDb().exec(
-      'SELECT * FROM audit_logs ORDER BY timestamp DESC LIMIT ?',
-      [limit]
-    );
-    return resultToArray<AuditLog>(result);
+  getRecent: async (limit = 100): Promise<AuditLog[]> => {
+    return getDb().all<AuditLog>('SELECT * FROM audit_logs ORDER BY timestamp DESC LIMIT ?', [
+      limit,
+    ]);
   },
 
-  getSecurityEvents: (limit = 100): AuditLog[] => {
-    const result = getDb().exec(
+  getSecurityEvents: async (limit = 100): Promise<AuditLog[]> => {
+    return getDb().all<AuditLog>(
       `SELECT * FROM audit_logs
        WHERE action IN ('auth.login', 'auth.logout', 'auth.login_failed', 'user.role_changed', 'admin.bootstrap', 'access.denied')
        ORDER BY timestamp DESC LIMIT ?`,
       [limit]
     );
-    return resultToArray<AuditLog>(result);
   },
 
   // Cleanup old logs (keep last 30 days by default)
-  cleanup: (olderThanMs = 30 * 24 * 60 * 60 * 1000) => {
+  cleanup: async (olderThanMs = 30 * 24 * 60 * 60 * 1000) => {
     const cutoff = Date.now() - olderThanMs;
-    getDb().run('DELETE FROM audit_logs WHERE timestamp < ?', [cutoff]);
-    save();
+    await getDb().run('DELETE FROM audit_logs WHERE timestamp < ?', [cutoff]);
   },
 };
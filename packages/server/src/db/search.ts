@@ -0,0 +1,295 @@
+import { DatabaseDriver } from './driver.js';
+import { Meme, Template } from './schema.js';
+
+export type SearchKind = 'template' | 'meme';
+
+export type SearchScope = 'all' | 'templates' | 'mine' | 'public';
+
+export interface SearchEntry {
+  kind: SearchKind;
+  refId: string;
+  ownerId: string | null;
+  isPublic: boolean;
+  /** Template name (for memes, the name of the template they were made from) */
+  title: string;
+  creator: string;
+  /** Meme text */
+  body: string;
+}
+
+export interface SearchHit {
+  kind: SearchKind;
+  ref_id: string;
+  rank: number;
+}
+
+/**
+ * All text a meme displays, from its stored editor state
+ */
+export function extractMemeText(editorState: string): string {
+  try {
+    const state = JSON.parse(editorState);
+    if (!Array.isArray(state?.textBoxes)) return '';
+
+    return state.textBoxes
+      .map((box: { text?: unknown }) => (typeof box?.text === 'string' ? box.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  } catch {
+    return '';
+  }
+}
+
+export function buildTemplateEntry(
+  template: Template,
+  creatorName: string | null,
+  tags: string[] = []
+): SearchEntry {
+  return {
+    kind: 'template',
+    refId: template.id,
+    ownerId: template.uploaded_by,
+    isPublic: true,
+    title: template.name,
+    creator: creatorName || '',
+    // Tags are hyphenated; index their words separately
+    body: tags.map((tag) => tag.replace(/-/g, ' ')).join('\n'),
+  };
+}
+
+export function buildMemeEntry(
+  meme: Meme,
+  templateName: string | null,
+  creatorName: string | null
+): SearchEntry {
+  return {
+    kind: 'meme',
+    refId: meme.id,
+    ownerId: meme.created_by,
+    isPublic: !!meme.is_public,
+    title: templateName || '',
+    creator: creatorName || '',
+    body: extractMemeText(meme.editor_state),
+  };
+}
+
+// Relative weight of a match in each searchable column, in table column order
+const COLUMN_WEIGHTS = [3, 2, 1]; // title, creator, body
+
+// SQLite ranks in JS, so cap how many matches are pulled back to rank
+const MAX_SQLITE_CANDIDATES = 500;
+
+/**
+ * Create the search tables. SQLite uses an FTS4 table (sql.js is not built with
+ * FTS5) whose docid points at search_entries; Postgres keeps a weighted tsvector
+ * on search_entries itself.
+ */
+export async function createSearchTables(db: DatabaseDriver) {
+  if (db.dialect === 'postgres') {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS search_entries (
+        id BIGSERIAL PRIMARY KEY,
+        kind TEXT NOT NULL,
+        ref_id TEXT NOT NULL,
+        owner_id TEXT,
+        is_public INTEGER NOT NULL DEFAULT 0,
+        document TSVECTOR NOT NULL,
+        UNIQUE(kind, ref_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_search_entries_document ON search_entries USING GIN(document);
+    `);
+  } else {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS search_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        ref_id TEXT NOT NULL,
+        owner_id TEXT,
+        is_public INTEGER NOT NULL DEFAULT 0,
+        UNIQUE(kind, ref_id)
+      );
+      CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts4(title, creator, body, tokenize=unicode61);
+    `);
+  }
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_search_entries_owner ON search_entries(owner_id);
+  `);
+}
+
+/**
+ * Add or replace the index entry for a template or meme
+ */
+export async function upsertSearchEntry(db: DatabaseDriver, entry: SearchEntry) {
+  const isPublic = entry.isPublic ? 1 : 0;
+
+  if (db.dialect === 'postgres') {
+    await db.run(
+      `INSERT INTO search_entries (kind, ref_id, owner_id, is_public, document)
+       VALUES (?, ?, ?, ?,
+         setweight(to_tsvector('simple', ?), 'A') ||
+         setweight(to_tsvector('simple', ?), 'B') ||
+         setweight(to_tsvector('simple', ?), 'C'))
+       ON CONFLICT (kind, ref_id) DO UPDATE SET
+         owner_id = excluded.owner_id,
+         is_public = excluded.is_public,
+         document = excluded.document`,
+      [entry.kind, entry.refId, entry.ownerId, isPublic, entry.title, entry.creator, entry.body]
+    );
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    const existing = await tx.get<{ id: number }>(
+      'SELECT id FROM search_entries WHERE kind = ? AND ref_id = ?',
+      [entry.kind, entry.refId]
+    );
+
+    if (existing) {
+      await tx.run('UPDATE search_entries SET owner_id = ?, is_public = ? WHERE id = ?', [
+        entry.ownerId,
+        isPublic,
+        existing.id,
+      ]);
+      await tx.run('UPDATE search_fts SET title = ?, creator = ?, body = ? WHERE docid = ?', [
+        entry.title,
+        entry.creator,
+        entry.body,
+        existing.id,
+      ]);
+      return;
+    }
+
+    await tx.run(
+      'INSERT INTO search_entries (kind, ref_id, owner_id, is_public) VALUES (?, ?, ?, ?)',
+      [entry.kind, entry.refId, entry.ownerId, isPublic]
+    );
+    const created = await tx.get<{ id: number }>(
+      'SELECT id FROM search_entries WHERE kind = ? AND ref_id = ?',
+      [entry.kind, entry.refId]
+    );
+    await tx.run('INSERT INTO search_fts (docid, title, creator, body) VALUES (?, ?, ?, ?)', [
+      created!.id,
+      entry.title,
+      entry.creator,
+      entry.body,
+    ]);
+  });
+}
+
+export async function deleteSearchEntry(db: DatabaseDriver, kind: SearchKind, refId: string) {
+  if (db.dialect === 'postgres') {
+    await db.run('DELETE FROM search_entries WHERE kind = ? AND ref_id = ?', [kind, refId]);
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    const existing = await tx.get<{ id: number }>(
+      'SELECT id FROM search_entries WHERE kind = ? AND ref_id = ?',
+      [kind, refId]
+    );
+    if (!existing) return;
+
+    await tx.run('DELETE FROM search_fts WHERE docid = ?', [existing.id]);
+    await tx.run('DELETE FROM search_entries WHERE id = ?', [existing.id]);
+  });
+}
+
+/**
+ * Remove every entry from the index
+ */
+export async function clearSearchEntries(db: DatabaseDriver) {
+  if (db.dialect !== 'postgres') {
+    await db.run('DELETE FROM search_fts');
+  }
+  await db.run('DELETE FROM search_entries');
+}
+
+/**
+ * Find entries matching every term (each treated as a prefix), best match first.
+ * Terms must already be reduced to letters and digits.
+ */
+export async function searchEntries(
+  db: DatabaseDriver,
+  terms: string[],
+  scope: SearchScope,
+  viewerId: string,
+  limit: number
+): Promise<SearchHit[]> {
+  if (terms.length === 0) return [];
+
+  const scopeFilter = buildScopeFilter(scope, viewerId);
+
+  if (db.dialect === 'postgres') {
+    return db.all<SearchHit>(
+      `SELECT e.kind, e.ref_id, ts_rank(e.document, query) AS rank
+       FROM search_entries e, to_tsquery('simple', ?) query
+       WHERE e.document @@ query AND (${scopeFilter.sql})
+       ORDER BY rank DESC, e.id DESC
+       LIMIT ?`,
+      [terms.map((term) => `${term}:*`).join(' & '), ...scopeFilter.params, limit]
+    );
+  }
+
+  const rows = await db.all<{ kind: SearchKind; ref_id: string; info: Uint8Array }>(
+    `SELECT e.kind, e.ref_id, matchinfo(search_fts, 'pcnx') AS info
+     FROM search_fts
+     JOIN search_entries e ON e.id = search_fts.docid
+     WHERE search_fts MATCH ? AND (${scopeFilter.sql})
+     LIMIT ?`,
+    [terms.map((term) => `${term}*`).join(' '), ...scopeFilter.params, MAX_SQLITE_CANDIDATES]
+  );
+
+  return rows
+    .map((row) => ({ kind: row.kind, ref_id: row.ref_id, rank: rankMatchInfo(row.info) }))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit);
+}
+
+// SECURITY: Scope SQL is fixed per scope; only the viewer id is a parameter
+function buildScopeFilter(scope: SearchScope, viewerId: string): { sql: string; params: string[] } {
+  const templates = "e.kind = 'template'";
+  const mine = "(e.kind = 'meme' AND e.owner_id = ?)";
+  const publicMemes = "(e.kind = 'meme' AND e.is_public = 1)";
+
+  switch (scope) {
+    case 'templates':
+      return { sql: templates, params: [] };
+    case 'mine':
+      return { sql: mine, params: [viewerId] };
+    case 'public':
+      return { sql: publicMemes, params: [] };
+    case 'all':
+    default:
+      return { sql: `${templates} OR ${mine} OR ${publicMemes}`, params: [viewerId] };
+  }
+}
+
+/**
+ * Weighted TF-IDF score from an FTS4 matchinfo 'pcnx' blob: phrase count,
+ * column count, row count, then per phrase and column the hits in this row,
+ * hits in all rows and rows with a hit
+ */
+function rankMatchInfo(info: Uint8Array): number {
+  const values = Buffer.from(info.buffer, info.byteOffset, info.byteLength);
+  const read = (index: number) => values.readUInt32LE(index * 4);
+
+  const phrases = read(0);
+  const columns = read(1);
+  const rows = read(2);
+
+  let rank = 0;
+  for (let phrase = 0; phrase < phrases; phrase++) {
+    for (let column = 0; column < columns; column++) {
+      const offset = 3 + (phrase * columns + column) * 3;
+      const hitsInRow = read(offset);
+      const rowsWithHits = read(offset + 2);
+      if (hitsInRow === 0) continue;
+
+      const idf = Math.log(1 + rows / Math.max(rowsWithHits, 1));
+      rank += (COLUMN_WEIGHTS[column] ?? 1) * hitsInRow * idf;
+    }
+  }
+
+  return rank;
+}
@@ -17,14 +17,10 @@ import rateLimit from 'express-rate-limit';
 import fs from 'fs';
 import passport, { configurePassport } from './config/passport.js';
 import { initializeDatabase } from './db/schema.js';
-import authRoutes from './routes/auth.js';
-import inviteRoutes from './routes/invites.js';
-import templateRoutes from './routes/templates.js';
-import memeRoutes from './routes/memes.js';
-import adminRoutes from './routes/admin.js';
-import voteRoutes from './routes/votes.js';
-import galleryRoutes from './routes/gallery.js';
-import { isAuthenticated, csrfProtection } from './middleware/auth.js';
+import { buildOpenApiDocument } from './lib/openapi.js';
+import { startWebhookWorker } from './lib/webhooks.js';
+import { routes } from './routes/index.js';
+import { isAuthenticated, csrfProtection, apiTokenAuth } from './middleware/auth.js';
 
 const PORT = process.env.PORT || 3000;
 const SESSION_SECRET = process.env.SESSION_SECRET;
@@ -52,6 +48,9 @@ async function main() {
   // Configure passport after database is ready
   configurePassport();
 
+  // Retry failed webhook deliveries in the background
+  startWebhookWorker();
+
   const app = express();
 
   // Trust proxy for secure cookies behind reverse proxy
@@ -144,6 +143,9 @@ async function main() {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // API tokens for scripts, in place of the session cookie
+  app.use(['/api', '/uploads'], apiTokenAuth);
+
   // SECURITY: Protect uploads with authentication
   app.use('/uploads', isAuthenticated, (req, res, next) => {
     // Set security headers for uploaded files
@@ -152,15 +154,19 @@ async function main() {
     next();
   }, express.static(UPLOADS_PATH));
 
-  // API routes with rate limiting
-  app.use('/auth', authLimiter, authRoutes);
-  app.use('/api/invites/redeem', inviteRedeemLimiter); // Extra protection for redeem
-  app.use('/api/invites', inviteRoutes);
-  app.use('/api/templates', templateRoutes);
-  app.use('/api/memes', memeRoutes);
-  app.use('/api/admin', adminRoutes);
-  app.use('/api/votes', voteRoutes);
-  app.use('/api/gallery', galleryRoutes);
+  // Extra rate limits for sign-in and invite redemption
+  app.use('/auth', authLimiter);
+  app.use('/api/invites/redeem', inviteRedeemLimiter);
+
+  // Mount every router, and describe the same ones in the OpenAPI document
+  for (const [prefix, routeGroup] of Object.entries(routes)) {
+    app.use(prefix, routeGroup.router);
+  }
+
+  const openApiDocument = buildOpenApiDocument(routes);
+  app.get('/api/openapi.json', (_req, res) => {
+    res.json(openApiDocument);
+  });
 
   // Health check endpoint
   app.get('/health', (_req, res) => {
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { ApiTokenScope, apiTokenScopeSchema } from '@possumbly/shared';
+import { ApiToken } from '../db/schema.js';
+
+const TOKEN_PREFIX = 'psb_';
+// Characters kept in `token_prefix` for display
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+
+/**
+ * SECURITY: Generate an API token (256 random bits). The `psb_` prefix makes
+ * leaked tokens easy to spot in logs and secret scanners.
+ */
+export function generateApiToken(): string {
+  return TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+}
+
+// SECURITY: Validate token format before hashing and querying
+export function isValidApiToken(token: string): boolean {
+  return /^psb_[A-Za-z0-9_-]{43}$/.test(token);
+}
+
+/**
+ * SECURITY: Tokens are stored as SHA-256 hashes. They are random, so a plain
+ * hash is enough; a slow password hash would only cost time on every request.
+ */
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function displayPrefix(token: string): string {
+  return token.substring(0, DISPLAY_PREFIX_LENGTH);
+}
+
+/**
+ * Token from an `Authorization: Bearer` header, or null if there isn't one
+ */
+export function getBearerToken(req: Request): string | null {
+  const header = req.get('authorization');
+  if (!header) return null;
+
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header);
+  return match ? match[1] : null;
+}
+
+export function parseScopes(token: ApiToken): ApiTokenScope[] {
+  try {
+    const scopes = JSON.parse(token.scopes);
+    return Array.isArray(scopes)
+      ? scopes.filter((scope) => apiTokenScopeSchema.safeParse(scope).success)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function hasScope(token: ApiToken, scope: ApiTokenScope): boolean {
+  return parseScopes(token).includes(scope);
+}
+
+/**
+ * Shape of a token returned to its owner, without the hash
+ */
+export function toApiTokenResponse(token: ApiToken) {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.token_prefix,
+    scopes: parseScopes(token),
+    created_at: token.created_at,
+    last_used_at: token.last_used_at,
+    expires_at: token.expires_at,
+  };
+}
@@ -1,6 +1,7 @@
 import { Request } from 'express';
 import { nanoid } from 'nanoid';
 import { auditQueries, AuditAction, User } from '../db/schema.js';
+import { dispatchWebhookEvent } from './webhooks.js';
 
 /**
  * Get client IP address from request, handling proxies
@@ -44,14 +45,30 @@ export function audit(
     effectiveUserId = (req.user as User).id;
   }
 
-  auditQueries.create(nanoid(), action, {
-    userId: effectiveUserId,
-    resourceType,
-    resourceId,
-    details,
-    ipAddress: req ? getClientIp(req) : null,
-    userAgent: req ? getUserAgent(req) : null,
+  // Audit writes never block or fail the request they describe
+  auditQueries
+    .create(nanoid(), action, {
+      userId: effectiveUserId,
+      resourceType,
+      resourceId,
+      details,
+      ipAddress: req ? getClientIp(req) : null,
+      userAgent: req ? getUserAgent(req) : null,
+      success,
+    })
+    .catch((err) => {
+      console.error(`Failed to write audit log (${action}):`, err);
+    });
+
+  // Webhook deliveries are logged and retried on their own
+  dispatchWebhookEvent(action, {
+    userId: effectiveUserId ?? null,
+    resourceType: resourceType ?? null,
+    resourceId: resourceId ?? null,
+    details: details ?? null,
     success,
+  }).catch((err) => {
+    console.error(`Failed to dispatch webhooks (${action}):`, err);
   });
 }
 
@@ -160,6 +177,92 @@ export const templateAudit = {
       resourceId: templateId,
     });
   },
+
+  tagsUpdated: (req: Request, templateId: string, tags: string[]) => {
+    audit('template.tags_updated', {
+      req,
+      resourceType: 'template',
+      resourceId: templateId,
+      details: { tags },
+    });
+  },
+
+  textZonesUpdated: (req: Request, templateId: string, zoneCount: number) => {
+    audit('template.text_zones_updated', {
+      req,
+      resourceType: 'template',
+      resourceId: templateId,
+      details: { zoneCount },
+    });
+  },
+};
+
+/**
+ * Log tag events
+ */
+export const tagAudit = {
+  renamed: (req: Request, tagId: string, from: string, to: string) => {
+    audit('tag.renamed', {
+      req,
+      resourceType: 'tag',
+      resourceId: tagId,
+      details: { from, to },
+    });
+  },
+
+  deleted: (req: Request, tagId: string, name: string) => {
+    audit('tag.deleted', {
+      req,
+      resourceType: 'tag',
+      resourceId: tagId,
+      details: { name },
+    });
+  },
+};
+
+/**
+ * Log asset events
+ */
+export const assetAudit = {
+  created: (req: Request, assetId: string, kind: string, name: string) => {
+    audit('asset.created', {
+      req,
+      resourceType: 'asset',
+      resourceId: assetId,
+      details: { kind, name },
+    });
+  },
+
+  deleted: (req: Request, assetId: string) => {
+    audit('asset.deleted', {
+      req,
+      resourceType: 'asset',
+      resourceId: assetId,
+    });
+  },
+};
+
+/**
+ * Log font events
+ */
+export const fontAudit = {
+  created: (req: Request, fontId: string, family: string) => {
+    audit('font.created', {
+      req,
+      resourceType: 'font',
+      resourceId: fontId,
+      details: { family },
+    });
+  },
+
+  deleted: (req: Request, fontId: string, family: string) => {
+    audit('font.deleted', {
+      req,
+      resourceType: 'font',
+      resourceId: fontId,
+      details: { family },
+    });
+  },
 };
 
 /**
@@ -199,6 +302,74 @@ export const memeAudit = {
       details: { isPublic },
     });
   },
+
+  restored: (req: Request, memeId: string, revisionId: string) => {
+    audit('meme.restored', {
+      req,
+      resourceType: 'meme',
+      resourceId: memeId,
+      details: { revisionId },
+    });
+  },
+
+  remixed: (req: Request, memeId: string, sourceMemeId: string) => {
+    audit('meme.remixed', {
+      req,
+      resourceType: 'meme',
+      resourceId: memeId,
+      details: { sourceMemeId },
+    });
+  },
+
+  shareCreated: (req: Request, memeId: string, shareId: string, expiresAt: number | null) => {
+    audit('meme.share_created', {
+      req,
+      resourceType: 'meme',
+      resourceId: memeId,
+      details: { shareId, expiresAt },
+    });
+  },
+
+  shareRevoked: (req: Request, memeId: string, shareId: string) => {
+    audit('meme.share_revoked', {
+      req,
+      resourceType: 'meme',
+      resourceId: memeId,
+      details: { shareId },
+    });
+  },
+};
+
+/**
+ * Log comment events
+ */
+export const commentAudit = {
+  created: (req: Request, commentId: string, memeId: string) => {
+    audit('comment.created', {
+      req,
+      resourceType: 'comment',
+      resourceId: commentId,
+      details: { memeId },
+    });
+  },
+
+  updated: (req: Request, commentId: string, memeId: string) => {
+    audit('comment.updated', {
+      req,
+      resourceType: 'comment',
+      resourceId: commentId,
+      details: { memeId },
+    });
+  },
+
+  deleted: (req: Request, commentId: string, memeId: string) => {
+    audit('comment.deleted', {
+      req,
+      resourceType: 'comment',
+      resourceId: commentId,
+      details: { memeId },
+    });
+  },
 };
 
 /**
@@ -223,6 +394,153 @@ export const voteAudit = {
   },
 };
 
+/**
+ * Log reaction events
+ */
+export const reactionAudit = {
+  added: (req: Request, memeId: string, emoji: string) => {
+    audit('reaction.added', {
+      req,
+      resourceType: 'meme',
+      resourceId: memeId,
+      details: { emoji },
+    });
+  },
+
+  removed: (req: Request, memeId: string, emoji: string) => {
+    audit('reaction.removed', {
+      req,
+      resourceType: 'meme',
+      resourceId: memeId,
+      details: { emoji },
+    });
+  },
+};
+
+/**
+ * Log favorite events
+ */
+export const favoriteAudit = {
+  added: (req: Request, memeId: string) => {
+    audit('favorite.added', {
+      req,
+      resourceType: 'meme',
+      resourceId: memeId,
+    });
+  },
+
+  removed: (req: Request, memeId: string) => {
+    audit('favorite.removed', {
+      req,
+      resourceType: 'meme',
+      resourceId: memeId,
+    });
+  },
+};
+
+/**
+ * Log collection events
+ */
+export const collectionAudit = {
+  created: (req: Request, collectionId: string, name: string) => {
+    audit('collection.created', {
+      req,
+      resourceType: 'collection',
+      resourceId: collectionId,
+      details: { name },
+    });
+  },
+
+  updated: (req: Request, collectionId: string, details: Record<string, unknown>) => {
+    audit('collection.updated', {
+      req,
+      resourceType: 'collection',
+      resourceId: collectionId,
+      details,
+    });
+  },
+
+  deleted: (req: Request, collectionId: string) => {
+    audit('collection.deleted', {
+      req,
+      resourceType: 'collection',
+      resourceId: collectionId,
+    });
+  },
+
+  memeAdded: (req: Request, collectionId: string, memeId: string) => {
+    audit('collection.meme_added', {
+      req,
+      resourceType: 'collection',
+      resourceId: collectionId,
+      details: { memeId },
+    });
+  },
+
+  memeRemoved: (req: Request, collectionId: string, memeId: string) => {
+    audit('collection.meme_removed', {
+      req,
+      resourceType: 'collection',
+      resourceId: collectionId,
+      details: { memeId },
+    });
+  },
+};
+
+/**
+ * Log webhook events
+ */
+export const webhookAudit = {
+  created: (req: Request, webhookId: string, url: string) => {
+    audit('webhook.created', {
+      req,
+      resourceType: 'webhook',
+      resourceId: webhookId,
+      details: { url },
+    });
+  },
+
+  updated: (req: Request, webhookId: string, details: Record<string, unknown>) => {
+    audit('webhook.updated', {
+      req,
+      resourceType: 'webhook',
+      resourceId: webhookId,
+      details,
+    });
+  },
+
+  deleted: (req: Request, webhookId: string) => {
+    audit('webhook.deleted', {
+      req,
+      resourceType: 'webhook',
+      resourceId: webhookId,
+    });
+  },
+};
+
+/**
+ * Log API token events
+ */
+export const apiTokenAudit = {
+  created: (req: Request, tokenId: string, name: string, scopes: string[]) => {
+    audit('api_token.created', {
+      req,
+      resourceType: 'api_token',
+      resourceId: tokenId,
+      details: { name, scopes },
+    });
+  },
+
+  revoked: (req: Request, tokenId: string, name: string) => {
+    audit('api_token.revoked', {
+      req,
+      resourceType: 'api_token',
+      resourceId: tokenId,
+      details: { name },
+    });
+  },
+};
+
 /**
  * Log admin events
  */
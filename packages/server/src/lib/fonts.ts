@@ -0,0 +1,133 @@
+import path from 'path';
+import fs from 'fs';
+import * as fontkit from 'fontkit';
+import { fontQueries, FontFormat } from '../db/schema.js';
+
+const UPLOADS_PATH = process.env.UPLOADS_PATH || './data/uploads';
+export const FONTS_PATH = path.join(UPLOADS_PATH, 'fonts');
+
+// Parsed font files, keyed by filename. Filenames are unique per upload, so an
+// entry never goes stale; deleted fonts are dropped with forgetFont().
+const parsedFonts = new Map<string, fontkit.Font>();
+
+/**
+ * Identify a font file from its signature rather than its name or MIME type
+ */
+function detectFontFormat(buffer: Buffer): FontFormat | null {
+  if (buffer.length < 4) return null;
+
+  const signature = buffer.subarray(0, 4);
+  if (signature.equals(Buffer.from([0, 1, 0, 0])) || signature.toString('latin1') === 'true') {
+    return 'ttf';
+  }
+  if (signature.toString('latin1') === 'OTTO') return 'otf';
+  if (signature.toString('latin1') === 'wOF2') return 'woff2';
+  return null;
+}
+
+function parseFont(buffer: Buffer): fontkit.Font | null {
+  try {
+    const font = fontkit.create(buffer);
+    // Collections hold several fonts and can't be used as a single family
+    if ('fonts' in font || font.numGlyphs === 0) return null;
+    return font;
+  } catch {
+    return null;
+  }
+}
+
+// SECURITY: Only accept files that parse as a single TTF, OTF or WOFF2 font
+export function validateFontFile(
+  buffer: Buffer
+): { valid: true; format: FontFormat; familyName: string } | { valid: false; error: string } {
+  const format = detectFontFormat(buffer);
+  if (!format) {
+    return {
+      valid: false,
+      error: 'Invalid file type. Only TTF, OTF, and WOFF2 fonts are allowed.',
+    };
+  }
+
+  const font = parseFont(buffer);
+  if (!font) {
+    return { valid: false, error: 'Invalid font file' };
+  }
+
+  return { valid: true, format, familyName: font.familyName };
+}
+
+/**
+ * Load the library fonts for the given families, keyed by family. Families not in
+ * the library are left out, so callers fall back to system fonts for them.
+ */
+export async function loadFonts(families: unknown[]): Promise<Map<string, fontkit.Font>> {
+  const fonts = new Map<string, fontkit.Font>();
+
+  for (const family of new Set(families)) {
+    if (typeof family !== 'string' || family.length === 0) continue;
+
+    const record = await fontQueries.findByFamily(family);
+    if (!record) continue;
+
+    // SECURITY: Validate filename before path operations
+    if (!/^[a-zA-Z0-9_-]+\.(ttf|otf|woff2)$/.test(record.filename)) continue;
+
+    let font = parsedFonts.get(record.filename);
+    if (!font) {
+      const filePath = path.join(FONTS_PATH, record.filename);
+      if (!fs.existsSync(filePath)) continue;
+
+      const parsed = parseFont(fs.readFileSync(filePath));
+      if (!parsed) {
+        console.error(`Could not parse font file for ${family}`);
+        continue;
+      }
+      font = parsed;
+      parsedFonts.set(record.filename, font);
+    }
+
+    fonts.set(family, font);
+  }
+
+  return fonts;
+}
+
+export function forgetFont(filename: string) {
+  parsedFonts.delete(filename);
+}
+
+/**
+ * Width of a line of text set in a font at the given size
+ */
+export function measureWithFont(font: fontkit.Font, text: string, fontSize: number): number {
+  return (font.layout(text).advanceWidth * fontSize) / font.unitsPerEm;
+}
+
+/**
+ * SVG path data for a line of text starting at x, with the em box centered on y
+ * like the canvas "middle" baseline Konva draws with
+ */
+export function textPathData(
+  font: fontkit.Font,
+  text: string,
+  x: number,
+  y: number,
+  fontSize: number
+): string {
+  const scale = fontSize / font.unitsPerEm;
+  const baseline = y + ((font.ascent + font.descent) / 2) * scale;
+  const run = font.layout(text);
+
+  let penX = x;
+  return run.glyphs
+    .map((glyph, i) => {
+      const position = run.positions[i];
+      const d = glyph.path
+        .scale(scale, -scale)
+        .translate(penX + position.xOffset * scale, baseline - position.yOffset * scale)
+        .toSVG();
+      penX += position.xAdvance * scale;
+      return d;
+    })
+    .join('');
+}
@@ -0,0 +1,154 @@
+import '../test/uploads.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestApp, TestApp } from '../test/app.js';
+import { routes } from '../routes/index.js';
+import { buildOpenApiDocument } from './openapi.js';
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+interface Parameter {
+  name: string;
+  in: string;
+  required: boolean;
+  schema: unknown;
+}
+
+interface Operation {
+  tags: string[];
+  summary: string;
+  security?: unknown[];
+  parameters: Parameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: unknown }> };
+  responses: Record<string, { description: string; content?: Record<string, unknown> }>;
+}
+
+// Every value of `key` anywhere in a JSON value
+function collect(value: unknown, key: string, found: unknown[] = []): unknown[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collect(item, key, found));
+  } else if (value && typeof value === 'object') {
+    for (const [name, child] of Object.entries(value)) {
+      if (name === key) found.push(child);
+      collect(child, key, found);
+    }
+  }
+  return found;
+}
+
+describe('OpenAPI document', () => {
+  let app: TestApp;
+  let document: ReturnType<typeof buildOpenApiDocument>;
+
+  before(async () => {
+    app = await startTestApp(routes);
+    const response = await app.request('/api/openapi.json');
+    assert.equal(response.status, 200);
+    document = await response.json();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  const operations = () =>
+    Object.entries(document.paths).flatMap(([path, item]) =>
+      Object.entries(item).map(([method, operation]) => ({
+        path,
+        method,
+        operation: operation as Operation,
+      }))
+    );
+
+  it('is served as built', () => {
+    assert.deepEqual(document, JSON.parse(JSON.stringify(buildOpenApiDocument(routes))));
+    assert.equal(document.openapi, '3.1.0');
+    assert.equal(typeof document.info.title, 'string');
+    assert.equal(typeof document.info.version, 'string');
+  });
+
+  it('lists every route once', () => {
+    const declared = Object.values(routes).reduce(
+      (total, router) => total + router.operations.length,
+      0
+    );
+    assert.equal(operations().length, declared);
+    for (const { method } of operations()) {
+      assert.ok(METHODS.includes(method), method);
+    }
+  });
+
+  it('describes each operation', () => {
+    const tags = new Set(document.tags.map(({ name }) => name));
+    assert.equal(tags.size, document.tags.length);
+
+    for (const { path, method, operation } of operations()) {
+      const name = `${method.toUpperCase()} ${path}`;
+      assert.ok(operation.summary, name);
+      assert.ok(
+        operation.tags.every((tag) => tags.has(tag)),
+        name
+      );
+
+      const statuses = Object.keys(operation.responses);
+      assert.ok(statuses.includes('default'), name);
+      assert.ok(
+        statuses.some((status) => /^[1-5]\d\d$/.test(status)),
+        name
+      );
+      for (const response of Object.values(operation.responses)) {
+        assert.equal(typeof response.description, 'string', name);
+      }
+
+      if (operation.requestBody) {
+        assert.ok(Object.keys(operation.requestBody.content).length > 0, name);
+        assert.ok(!['get', 'delete'].includes(method), name);
+      }
+    }
+  });
+
+  it('declares exactly the parameters in each path', () => {
+    for (const { path, method, operation } of operations()) {
+      const name = `${method.toUpperCase()} ${path}`;
+      assert.doesNotMatch(path, /:\w/, name);
+
+      const templated = [...path.matchAll(/\{(\w+)\}/g)].map(([, param]) => param).sort();
+      const pathParams = operation.parameters.filter((param) => param.in === 'path');
+      assert.deepEqual(pathParams.map((param) => param.name).sort(), templated, name);
+      assert.ok(
+        pathParams.every((param) => param.required),
+        name
+      );
+
+      const keys = operation.parameters.map((param) => `${param.in}:${param.name}`);
+      assert.equal(new Set(keys).size, keys.length, name);
+      for (const param of operation.parameters) {
+        assert.ok(['path', 'query'].includes(param.in), name);
+        assert.equal(typeof param.schema, 'object', name);
+      }
+    }
+  });
+
+  it('resolves every schema reference', () => {
+    const refs = collect(document, '$ref');
+    assert.ok(refs.length > 0);
+    for (const ref of refs) {
+      assert.match(String(ref), /^#\/components\/schemas\/[\w.-]+$/);
+      const name = String(ref).split('/').pop()!;
+      assert.ok(name in document.components.schemas, String(ref));
+    }
+  });
+
+  it('only uses declared security schemes', () => {
+    const schemes = Object.keys(document.components.securitySchemes);
+    const requirements = [
+      ...document.security,
+      ...operations().flatMap(({ operation }) => operation.security ?? []),
+    ];
+    for (const requirement of requirements) {
+      for (const scheme of Object.keys(requirement as object)) {
+        assert.ok(schemes.includes(scheme), scheme);
+      }
+    }
+  });
+});
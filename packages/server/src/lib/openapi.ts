@@ -0,0 +1,239 @@
+import { Request, RequestHandler, Router } from 'express';
+import { z } from 'zod';
+import { errorSchema } from '@possumbly/shared';
+import { validate } from '../middleware/validate.js';
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+type Schema = z.ZodType | undefined;
+type Parsed<T extends Schema, Fallback> = T extends z.ZodType ? z.output<T> : Fallback;
+
+/**
+ * What a route accepts and returns. Params, query and body are validated before
+ * the handler runs, and everything here goes into the OpenAPI document.
+ */
+export interface RouteSpec<
+  Params extends Schema = Schema,
+  Query extends Schema = Schema,
+  Body extends Schema = Schema,
+> {
+  summary: string;
+  /** Who can call the route; signed-in users unless set */
+  access?: 'public' | 'user' | 'admin';
+  params?: Params;
+  query?: Query;
+  body?: Body;
+  /** Multipart field the uploaded file goes in; `body` describes the other fields */
+  file?: string;
+  /** Status of a successful response, 200 unless set */
+  status?: number;
+  /** JSON body of a successful response */
+  response?: z.ZodType;
+  /** Content type of a successful response that isn't JSON */
+  produces?: string;
+}
+
+// Handler with req.params, req.query and req.body typed from the route's schemas
+type ApiHandler<Params extends Schema, Query extends Schema, Body extends Schema> = RequestHandler<
+  Parsed<Params, Request['params']>,
+  unknown,
+  Parsed<Body, unknown>,
+  Parsed<Query, Request['query']>
+>;
+
+type AddRoute = <
+  Params extends Schema = undefined,
+  Query extends Schema = undefined,
+  Body extends Schema = undefined,
+>(
+  path: string,
+  spec: RouteSpec<Params, Query, Body>,
+  ...handlers: [...RequestHandler[], ApiHandler<Params, Query, Body>]
+) => void;
+
+interface Operation {
+  method: Method;
+  path: string;
+  spec: RouteSpec;
+}
+
+export interface ApiRouter {
+  /** Express router to mount */
+  router: Router;
+  /** OpenAPI tag the routes are grouped under */
+  tag: string;
+  operations: Operation[];
+  use: (...handlers: RequestHandler[]) => void;
+  get: AddRoute;
+  post: AddRoute;
+  put: AddRoute;
+  patch: AddRoute;
+  delete: AddRoute;
+}
+
+/**
+ * Router whose routes are declared with a RouteSpec. The last handler runs
+ * after the request is validated against the spec; middleware before it (auth,
+ * rate limits, uploads) runs first.
+ */
+export function createApiRouter(tag: string): ApiRouter {
+  const router = Router();
+  const operations: Operation[] = [];
+
+  const add =
+    (method: Method): AddRoute =>
+    (path, spec, ...handlers) => {
+      operations.push({ method, path, spec: spec as RouteSpec });
+      const handler = handlers.pop() as RequestHandler;
+      router[method](path, ...(handlers as RequestHandler[]), validate(spec), handler);
+    };
+
+  return {
+    router,
+    tag,
+    operations,
+    use: (...handlers) => {
+      router.use(...handlers);
+    },
+    get: add('get'),
+    post: add('post'),
+    put: add('put'),
+    patch: add('patch'),
+    delete: add('delete'),
+  };
+}
+
+// JSON Schema for part of a request or response. Named schemas are collected
+// into `components` and referenced from there.
+function toJsonSchema(
+  schema: z.ZodType,
+  io: 'input' | 'output',
+  components: Record<string, unknown>
+): Record<string, unknown> {
+  const json: Record<string, unknown> = z.toJSONSchema(schema, { io, unrepresentable: 'any' });
+  const $defs = json.$defs as Record<string, unknown> | undefined;
+  delete json.$schema;
+  delete json.$defs;
+
+  const rewrite = (value: unknown) =>
+    JSON.parse(JSON.stringify(value).replaceAll('"#/$defs/', '"#/components/schemas/'));
+
+  for (const [name, definition] of Object.entries($defs || {})) {
+    components[name] = rewrite(definition);
+  }
+  return rewrite(json);
+}
+
+// Each property of an object schema as a path or query parameter
+function toParameters(
+  schema: z.ZodType | undefined,
+  location: 'path' | 'query',
+  components: Record<string, unknown>
+) {
+  if (!(schema instanceof z.ZodObject)) return [];
+
+  const { properties = {}, required = [] } = toJsonSchema(schema, 'input', components) as {
+    properties?: Record<string, { description?: string }>;
+    required?: string[];
+  };
+  return Object.entries(properties).map(([name, { description, ...property }]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    ...(description ? { description } : {}),
+    schema: property,
+  }));
+}
+
+/**
+ * OpenAPI 3.1 document for routers mounted at the given paths
+ */
+export function buildOpenApiDocument(mounts: Record<string, ApiRouter>) {
+  const components: Record<string, unknown> = {};
+  const paths: Record<string, Record<string, unknown>> = {};
+  const errorResponse = {
+    description: 'Error',
+    content: { 'application/json': { schema: toJsonSchema(errorSchema, 'output', components) } },
+  };
+
+  for (const [prefix, { tag, operations }] of Object.entries(mounts)) {
+    for (const { method, path, spec } of operations) {
+      const route = `${prefix}${path === '/' ? '' : path}`.replace(/:(\w+)/g, '{$1}');
+      const status = spec.status || 200;
+      const description = status === 201 ? 'Created' : status === 302 ? 'Redirect' : 'OK';
+
+      let requestBody;
+      if (spec.body && spec.file) {
+        const schema = toJsonSchema(spec.body, 'input', components);
+        requestBody = {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                ...schema,
+                properties: {
+                  [spec.file]: { type: 'string', format: 'binary' },
+                  ...(schema.properties as object),
+                },
+                required: [spec.file, ...((schema.required as string[]) || [])],
+              },
+            },
+          },
+        };
+      } else if (spec.body) {
+        requestBody = {
+          required: true,
+          content: { 'application/json': { schema: toJsonSchema(spec.body, 'input', components) } },
+        };
+      }
+
+      let content;
+      if (spec.produces) {
+        content = { [spec.produces]: {} };
+      } else if (spec.response) {
+        content = {
+          'application/json': { schema: toJsonSchema(spec.response, 'output', components) },
+        };
+      }
+
+      paths[route] = {
+        ...paths[route],
+        [method]: {
+          tags: [tag],
+          summary: spec.summary,
+          ...(spec.access === 'admin' ? { description: 'Admins only.' } : {}),
+          ...(spec.access === 'public' ? { security: [] } : {}),
+          parameters: [
+            ...toParameters(spec.params, 'path', components),
+            ...toParameters(spec.query, 'query', components),
+          ],
+          ...(requestBody ? { requestBody } : {}),
+          responses: {
+            [status]: { description, content },
+            default: errorResponse,
+          },
+        },
+      };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Possumbly API',
+      version: '1.0.0',
+      description:
+        'Requests are signed in with the session cookie, or with a personal API token ' +
+        'sent as `Authorization: Bearer <token>`.',
+    },
+    security: [{ session: [] }, { bearerToken: [] }],
+    tags: Object.values(mounts).map(({ tag }) => ({ name: tag })),
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: 'possumbly.sid' },
+        bearerToken: { type: 'http', scheme: 'bearer' },
+      },
+    },
+  };
+}
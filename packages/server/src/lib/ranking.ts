@@ -0,0 +1,12 @@
+/**
+ * Reddit-style hot score. Newer memes get a steadily growing time bonus, so
+ * the score only needs recomputing when the meme's votes change.
+ */
+export function getHotScore(upvotes: number, downvotes: number, createdAt: number): number {
+  const score = upvotes - downvotes;
+  const order = Math.log10(Math.max(Math.abs(score), 1));
+  const sign = score > 0 ? 1 : score < 0 ? -1 : 0;
+  // Using Jan 1, 2024 as epoch for hot score calculation
+  const seconds = createdAt / 1000 - 1704067200;
+  return sign * order + seconds / 45000;
+}
@@ -0,0 +1,51 @@
+import { reactionQueries } from '../db/schema.js';
+
+const DEFAULT_REACTIONS = ['👍', '😂', '🔥', '😮', '😢', '❤️'];
+const MAX_REACTIONS = 20;
+const MAX_EMOJI_LENGTH = 16;
+
+/**
+ * The emoji this instance offers as reactions, from the comma-separated
+ * REACTION_EMOJI setting. Reactions with emoji later removed from the set are
+ * kept but no longer shown.
+ */
+export const REACTION_EMOJI: string[] = (() => {
+  const configured = (process.env.REACTION_EMOJI || '')
+    .split(',')
+    .map((emoji) => emoji.trim())
+    .filter((emoji) => emoji.length > 0 && emoji.length <= MAX_EMOJI_LENGTH);
+
+  const unique = [...new Set(configured)].slice(0, MAX_REACTIONS);
+  return unique.length > 0 ? unique : DEFAULT_REACTIONS;
+})();
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean;
+}
+
+/**
+ * Reaction counts for each meme in the order of the reaction set, leaving out
+ * emoji nobody has used. Memes without reactions map to an empty list.
+ */
+export async function getReactionSummaries(
+  memeIds: string[],
+  viewerId: string | null
+): Promise<Map<string, ReactionSummary[]>> {
+  const summaries = new Map<string, ReactionSummary[]>(memeIds.map((id) => [id, []]));
+  const rows = await reactionQueries.countByMemes(memeIds, viewerId);
+
+  for (const emoji of REACTION_EMOJI) {
+    for (const row of rows) {
+      if (row.emoji !== emoji) continue;
+      summaries.get(row.meme_id)?.push({
+        emoji,
+        count: row.count,
+        reacted: !!row.reacted,
+      });
+    }
+  }
+
+  return summaries;
+}
@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { EditorState, TextBox } from '@possumbly/shared';
+import { buildTextOverlay, wrapText } from './renderer.js';
+
+// One unit per character, so widths are easy to reason about
+const measure = (line: string) => line.length;
+
+function textBox(fields: Partial<TextBox>): TextBox {
+  return {
+    id: 'box',
+    text: 'Hello',
+    x: 10,
+    y: 20,
+    width: 200,
+    fontSize: 40,
+    fontFamily: 'Impact',
+    fill: '#ffffff',
+    stroke: '#000000',
+    strokeWidth: 2,
+    align: 'center',
+    rotation: 0,
+    ...fields,
+  };
+}
+
+function overlay(...boxes: Partial<TextBox>[]) {
+  const state: EditorState = { textBoxes: boxes.map(textBox) };
+  return buildTextOverlay(state, 400, 300, new Map());
+}
+
+describe('wrapText', () => {
+  it('breaks lines on spaces', () => {
+    assert.deepEqual(wrapText('one two three four', 9, measure), ['one two', 'three', 'four']);
+  });
+
+  it('keeps explicit line breaks', () => {
+    assert.deepEqual(wrapText('top\n\nbottom', 100, measure), ['top', '', 'bottom']);
+  });
+
+  it('breaks words wider than the box', () => {
+    assert.deepEqual(wrapText('ab abcdefghij', 4, measure), ['ab', 'abcd', 'efgh', 'ij']);
+  });
+
+  it('puts at least one character on each line', () => {
+    assert.deepEqual(wrapText('abc', 0.5, measure), ['a', 'b', 'c']);
+  });
+
+  it('measures a long word a logarithmic number of times per line', () => {
+    let calls = 0;
+    const counting = (line: string) => {
+      calls++;
+      return line.length;
+    };
+
+    const lines = wrapText('x'.repeat(1000), 10, counting);
+    assert.equal(lines.length, 100);
+    assert.ok(lines.every((line) => line.length === 10));
+    assert.ok(calls < 100 * 15, `${calls} measurements`);
+  });
+});
+
+describe('buildTextOverlay', () => {
+  it('anchors each alignment at the edge or middle of the box', () => {
+    const svg = overlay(
+      { align: 'left', x: 10, width: 200 },
+      { align: 'center', x: 10, width: 200 },
+      { align: 'right', x: 10, width: 200 }
+    );
+    assert.match(svg, /text-anchor="start"[^>]*><tspan x="10"/);
+    assert.match(svg, /text-anchor="middle"[^>]*><tspan x="110"/);
+    assert.match(svg, /text-anchor="end"[^>]*><tspan x="210"/);
+  });
+
+  it('draws wrapped lines one font size apart', () => {
+    const svg = overlay({ text: 'aaaa bbbb', y: 20, fontSize: 40, width: 100 });
+    const ys = [...svg.matchAll(/<tspan x="[^"]*" y="([^"]*)"/g)].map(([, y]) => Number(y));
+    assert.deepEqual(ys, [40, 80]);
+  });
+
+  it('rotates around the top-left corner of the box', () => {
+    const svg = overlay({ x: 10, y: 20, rotation: 45 });
+    assert.match(svg, /<text transform="rotate\(45 10 20\)"/);
+  });
+
+  it('clamps geometry the schema would reject', () => {
+    const svg = overlay({ fontSize: 1e9, strokeWidth: -5, rotation: 1e6, x: -1e9 });
+    assert.match(svg, /font-size="500"/);
+    assert.match(svg, /stroke-width="0"/);
+    assert.match(svg, /rotate\(360 -10000 20\)/);
+  });
+
+  it('escapes hostile text and drops non-hex colors', async () => {
+    const svg = overlay({
+      text: '</tspan></text><script>alert("x")</script> & \'',
+      width: 10000,
+      fontFamily: 'Impact" onload="alert(1)',
+      fill: 'red" onload="alert(1)',
+    });
+
+    assert.doesNotMatch(svg, /<script/);
+    assert.doesNotMatch(svg, /onload="/);
+    assert.match(svg, /&lt;\/tspan&gt;&lt;\/text&gt;&lt;script&gt;/);
+    assert.match(svg, /&amp; &apos;/);
+    assert.match(svg, /fill="#ffffff"/);
+
+    // Still well-formed enough for sharp to render
+    const { info } = await sharp(Buffer.from(svg)).png().toBuffer({ resolveWithObject: true });
+    assert.deepEqual([info.width, info.height], [400, 300]);
+  });
+});
@@ -0,0 +1,471 @@
+import path from 'path';
+import fs from 'fs';
+import sharp from 'sharp';
+import type { Font } from 'fontkit';
+import {
+  EditorState,
+  ImageLayer,
+  TEXT_BOX_DEFAULTS,
+  TEXT_BOX_LIMITS,
+  TextBox,
+} from '@possumbly/shared';
+import { assetQueries, templateQueries, Meme, Template } from '../db/schema.js';
+import { loadFonts, measureWithFont, textPathData } from './fonts.js';
+
+const UPLOADS_PATH = process.env.UPLOADS_PATH || './data/uploads';
+const TEMPLATES_PATH = path.join(UPLOADS_PATH, 'templates');
+const MEMES_PATH = path.join(UPLOADS_PATH, 'memes');
+export const ASSETS_PATH = path.join(UPLOADS_PATH, 'assets');
+
+export type RenderFormat = 'png' | 'gif' | 'webp';
+
+// Missing fields render the same way as in the web editor
+const DEFAULT_TEXT_BOX: Omit<TextBox, 'id'> = TEXT_BOX_DEFAULTS;
+
+// Average glyph width as a fraction of font size, used for line wrapping with
+// system fonts. Konva measures text with the browser's canvas; we approximate
+// per family. Fonts from the font library are measured exactly.
+const FONT_WIDTH_FACTORS: Record<string, number> = {
+  Impact: 0.5,
+  Arial: 0.55,
+  'Arial Black': 0.66,
+  'Comic Sans MS': 0.56,
+  'Courier New': 0.6,
+  Georgia: 0.56,
+  'Times New Roman': 0.5,
+  Verdana: 0.62,
+};
+const DEFAULT_WIDTH_FACTOR = 0.55;
+
+/**
+ * Escape text for inclusion in SVG markup
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// SECURITY: Only accept hex colors so nothing else can be injected into the SVG
+function safeColor(value: unknown, fallback: string): string {
+  return typeof value === 'string' && /^#[0-9a-fA-F]{3,8}$/.test(value) ? value : fallback;
+}
+
+function safeNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+// States saved before the schema bounded them can hold any number
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+const { coordinate: MAX_COORDINATE, rotation: MAX_ROTATION } = TEXT_BOX_LIMITS;
+
+/**
+ * Whether a text box or image layer shows on a frame. Missing bounds leave the
+ * range open, so items without a frame range show on every frame.
+ */
+function isVisibleInFrame(item: unknown, frame: number): boolean {
+  if (typeof item !== 'object' || item === null) return true;
+  const { startFrame, endFrame } = item as Record<string, unknown>;
+  return safeNumber(startFrame, 0) <= frame && frame <= safeNumber(endFrame, Infinity);
+}
+
+/**
+ * Fill in defaults and discard malformed fields from a stored text box
+ */
+function normalizeTextBox(box: Record<string, unknown>): Omit<TextBox, 'id'> {
+  const align = box.align === 'left' || box.align === 'right' ? box.align : 'center';
+  return {
+    text: typeof box.text === 'string' ? box.text : DEFAULT_TEXT_BOX.text,
+    x: clamp(safeNumber(box.x, DEFAULT_TEXT_BOX.x), -MAX_COORDINATE, MAX_COORDINATE),
+    y: clamp(safeNumber(box.y, DEFAULT_TEXT_BOX.y), -MAX_COORDINATE, MAX_COORDINATE),
+    width: clamp(
+      safeNumber(box.width, DEFAULT_TEXT_BOX.width),
+      TEXT_BOX_LIMITS.width.min,
+      TEXT_BOX_LIMITS.width.max
+    ),
+    fontSize: clamp(
+      safeNumber(box.fontSize, DEFAULT_TEXT_BOX.fontSize),
+      TEXT_BOX_LIMITS.fontSize.min,
+      TEXT_BOX_LIMITS.fontSize.max
+    ),
+    fontFamily:
+      typeof box.fontFamily === 'string' && box.fontFamily.length > 0
+        ? box.fontFamily.slice(0, 100)
+        : DEFAULT_TEXT_BOX.fontFamily,
+    fill: safeColor(box.fill, DEFAULT_TEXT_BOX.fill),
+    stroke: safeColor(box.stroke, DEFAULT_TEXT_BOX.stroke),
+    strokeWidth: clamp(
+      safeNumber(box.strokeWidth, DEFAULT_TEXT_BOX.strokeWidth),
+      TEXT_BOX_LIMITS.strokeWidth.min,
+      TEXT_BOX_LIMITS.strokeWidth.max
+    ),
+    align,
+    rotation: clamp(
+      safeNumber(box.rotation, DEFAULT_TEXT_BOX.rotation),
+      -MAX_ROTATION,
+      MAX_ROTATION
+    ),
+  };
+}
+
+/**
+ * Discard an image layer whose source or geometry is malformed, and clamp the rest
+ */
+function normalizeImageLayer(layer: Record<string, unknown>): Omit<ImageLayer, 'id'> | null {
+  if (layer.source !== 'asset' && layer.source !== 'template') return null;
+  if (typeof layer.refId !== 'string' || !/^[a-zA-Z0-9_-]+$/.test(layer.refId)) return null;
+
+  return {
+    source: layer.source,
+    refId: layer.refId,
+    x: clamp(safeNumber(layer.x, 0), -MAX_COORDINATE, MAX_COORDINATE),
+    y: clamp(safeNumber(layer.y, 0), -MAX_COORDINATE, MAX_COORDINATE),
+    scale: clamp(safeNumber(layer.scale, 1), 0.01, 20),
+    rotation: clamp(safeNumber(layer.rotation, 0), -MAX_ROTATION, MAX_ROTATION),
+    opacity: clamp(safeNumber(layer.opacity, 1), 0, 1),
+  };
+}
+
+/**
+ * Find the file and natural size of an image layer's source, or null if it no
+ * longer exists
+ */
+async function resolveLayerImage(
+  layer: Omit<ImageLayer, 'id'>
+): Promise<{ filePath: string; width: number; height: number } | null> {
+  const source =
+    layer.source === 'asset'
+      ? await assetQueries.findById(layer.refId)
+      : await templateQueries.findById(layer.refId);
+  if (!source) return null;
+
+  // SECURITY: Validate filename before path operations
+  if (!/^[a-zA-Z0-9_-]+\.(jpg|jpeg|png|gif|webp)$/.test(source.filename)) return null;
+
+  const filePath = path.join(
+    layer.source === 'asset' ? ASSETS_PATH : TEMPLATES_PATH,
+    source.filename
+  );
+  if (!fs.existsSync(filePath)) return null;
+
+  return { filePath, width: source.width, height: source.height };
+}
+
+/**
+ * Render one image layer as a composite input, cropped to the part that falls
+ * inside the canvas. Returns null if the layer is missing or entirely off-canvas.
+ */
+async function renderImageLayer(
+  raw: Record<string, unknown>,
+  canvasWidth: number,
+  canvasHeight: number
+): Promise<sharp.OverlayOptions | null> {
+  const layer = normalizeImageLayer(raw);
+  if (!layer || layer.opacity === 0) return null;
+
+  const source = await resolveLayerImage(layer);
+  if (!source) return null;
+
+  // Resize and rotate in separate pipelines: sharp always rotates before resizing
+  const resized = await sharp(source.filePath)
+    .resize(
+      Math.max(1, Math.round(source.width * layer.scale)),
+      Math.max(1, Math.round(source.height * layer.scale)),
+      { fit: 'fill' }
+    )
+    .ensureAlpha()
+    .png()
+    .toBuffer();
+
+  const transformed = sharp(resized).rotate(layer.rotation, {
+    background: { r: 0, g: 0, b: 0, alpha: 0 },
+  });
+  if (layer.opacity < 1) {
+    transformed.composite([
+      {
+        input: Buffer.from([255, 255, 255, Math.round(layer.opacity * 255)]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: 'dest-in',
+      },
+    ]);
+  }
+  const { data, info } = await transformed.png().toBuffer({ resolveWithObject: true });
+
+  // The layer is positioned by its center, like Konva with a centered offset
+  const left = Math.round(layer.x - info.width / 2);
+  const top = Math.round(layer.y - info.height / 2);
+
+  // sharp can't composite an image that overhangs the canvas, so crop it first
+  const visibleLeft = Math.max(0, left);
+  const visibleTop = Math.max(0, top);
+  const visibleWidth = Math.min(canvasWidth, left + info.width) - visibleLeft;
+  const visibleHeight = Math.min(canvasHeight, top + info.height) - visibleTop;
+  if (visibleWidth <= 0 || visibleHeight <= 0) return null;
+
+  const input = await sharp(data)
+    .extract({
+      left: visibleLeft - left,
+      top: visibleTop - top,
+      width: visibleWidth,
+      height: visibleHeight,
+    })
+    .png()
+    .toBuffer();
+
+  return { input, left: visibleLeft, top: visibleTop };
+}
+
+function measureText(text: string, fontSize: number, fontFamily: string): number {
+  const factor = FONT_WIDTH_FACTORS[fontFamily] ?? DEFAULT_WIDTH_FACTOR;
+  return text.length * fontSize * factor;
+}
+
+/**
+ * Split text into lines that fit the box width, breaking on spaces like Konva does
+ * and falling back to breaking mid-word when a single word is too long
+ */
+export function wrapText(text: string, width: number, measure: (line: string) => number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    const words = paragraph.split(' ');
+    let current = '';
+
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measure(candidate) <= width) {
+        current = candidate;
+        continue;
+      }
+
+      if (current) {
+        lines.push(current);
+      }
+
+      // Break words that are wider than the whole box, binary searching for the
+      // longest prefix that fits (at least one character per line)
+      let remaining = word;
+      while (remaining.length > 1 && measure(remaining) > width) {
+        let fit = 1;
+        let tooLong = remaining.length;
+        while (tooLong - fit > 1) {
+          const middle = Math.floor((fit + tooLong) / 2);
+          if (measure(remaining.slice(0, middle)) <= width) {
+            fit = middle;
+          } else {
+            tooLong = middle;
+          }
+        }
+        lines.push(remaining.slice(0, fit));
+        remaining = remaining.slice(fit);
+      }
+      current = remaining;
+    }
+
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Build the SVG overlay containing every text box of an editor state. Text in a
+ * library font is drawn as glyph outlines so it doesn't depend on system fonts.
+ */
+export function buildTextOverlay(
+  state: EditorState,
+  width: number,
+  height: number,
+  fonts: Map<string, Font>
+): string {
+  const elements = (Array.isArray(state.textBoxes) ? state.textBoxes : []).map((raw) => {
+    const box = normalizeTextBox(raw as unknown as Record<string, unknown>);
+    const font = fonts.get(box.fontFamily);
+    const measure = font
+      ? (line: string) => measureWithFont(font, line, box.fontSize)
+      : (line: string) => measureText(line, box.fontSize, box.fontFamily);
+    const lines = wrapText(box.text, box.width, measure);
+
+    const anchor = box.align === 'left' ? 'start' : box.align === 'right' ? 'end' : 'middle';
+    const anchorX =
+      box.align === 'left'
+        ? box.x
+        : box.align === 'right'
+          ? box.x + box.width
+          : box.x + box.width / 2;
+
+    // Konva draws each line with a middle baseline at lineHeight (1.0) spacing
+    if (font) {
+      const d = lines
+        .map((line, i) => {
+          const lineWidth = measure(line);
+          const left =
+            anchor === 'start'
+              ? anchorX
+              : anchor === 'end'
+                ? anchorX - lineWidth
+                : anchorX - lineWidth / 2;
+          return textPathData(font, line, left, box.y + (i + 0.5) * box.fontSize, box.fontSize);
+        })
+        .join('');
+
+      return (
+        `<path transform="rotate(${box.rotation} ${box.x} ${box.y})" d="${d}" ` +
+        `fill="${box.fill}" stroke="${box.stroke}" stroke-width="${box.strokeWidth}"/>`
+      );
+    }
+
+    const tspans = lines
+      .map(
+        (line, i) =>
+          `<tspan x="${anchorX}" y="${box.y + (i + 0.5) * box.fontSize}">${escapeXml(line)}</tspan>`
+      )
+      .join('');
+
+    return (
+      `<text transform="rotate(${box.rotation} ${box.x} ${box.y})" ` +
+      `font-family="${escapeXml(box.fontFamily)}" font-size="${box.fontSize}" ` +
+      `fill="${box.fill}" stroke="${box.stroke}" stroke-width="${box.strokeWidth}" ` +
+      `text-anchor="${anchor}" dominant-baseline="middle" xml:space="preserve">${tspans}</text>`
+    );
+  });
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}">${elements.join('')}</svg>`
+  );
+}
+
+/**
+ * Composite an editor state onto its template image. Still templates render to
+ * PNG; animated templates keep their animation and format, with each text box
+ * and image layer drawn only on the frames in its range.
+ */
+export async function renderEditorState(
+  template: Template,
+  state: EditorState
+): Promise<{ buffer: Buffer; format: RenderFormat }> {
+  // SECURITY: Validate filename before path operations
+  const match = /^[a-zA-Z0-9_-]+\.(jpg|jpeg|png|gif|webp)$/.exec(template.filename);
+  if (!match) {
+    throw new Error(`Invalid template filename: ${template.filename}`);
+  }
+  const extension = match[1];
+
+  const templatePath = path.join(TEMPLATES_PATH, template.filename);
+  const metadata = await sharp(templatePath).metadata();
+  const width = metadata.width || template.width;
+  const height = metadata.height || template.height;
+  const pages = metadata.pages || 1;
+
+  const textBoxes = Array.isArray(state.textBoxes) ? state.textBoxes : [];
+  const fonts = await loadFonts(textBoxes.map((box) => box.fontFamily));
+
+  const layers: { raw: ImageLayer; overlay: sharp.OverlayOptions }[] = [];
+  for (const raw of Array.isArray(state.imageLayers) ? state.imageLayers : []) {
+    const overlay = await renderImageLayer(
+      raw as unknown as Record<string, unknown>,
+      width,
+      height
+    );
+    if (overlay) layers.push({ raw, overlay });
+  }
+
+  if (pages <= 1 || (extension !== 'gif' && extension !== 'webp')) {
+    const overlay = Buffer.from(buildTextOverlay(state, width, height, fonts));
+    const buffer = await sharp(templatePath)
+      .composite([...layers.map((layer) => layer.overlay), { input: overlay, top: 0, left: 0 }])
+      .png()
+      .toBuffer();
+    return { buffer, format: 'png' };
+  }
+
+  // Animated frames are stacked vertically in one tall image, so each frame gets
+  // its own overlay positioned at that frame's offset
+  const frameOverlays = new Map<string, Buffer>();
+  const composites: sharp.OverlayOptions[] = [];
+
+  for (let frame = 0; frame < pages; frame++) {
+    const layerIndexes = layers.flatMap((layer, i) =>
+      isVisibleInFrame(layer.raw, frame) ? [i] : []
+    );
+    const boxIndexes = textBoxes.flatMap((box, i) => (isVisibleInFrame(box, frame) ? [i] : []));
+    if (layerIndexes.length === 0 && boxIndexes.length === 0) continue;
+
+    // Frames showing the same items share one overlay
+    const key = `${layerIndexes.join(',')}|${boxIndexes.join(',')}`;
+    let overlay = frameOverlays.get(key);
+    if (!overlay) {
+      const text = Buffer.from(
+        buildTextOverlay({ textBoxes: boxIndexes.map((i) => textBoxes[i]) }, width, height, fonts)
+      );
+      overlay = await sharp({
+        create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+      })
+        .composite([
+          ...layerIndexes.map((i) => layers[i].overlay),
+          { input: text, top: 0, left: 0 },
+        ])
+        .png()
+        .toBuffer();
+      frameOverlays.set(key, overlay);
+    }
+
+    composites.push({ input: overlay, top: frame * height, left: 0 });
+  }
+
+  const animated = sharp(templatePath, { animated: true }).composite(composites);
+  const buffer =
+    extension === 'gif' ? await animated.gif().toBuffer() : await animated.webp().toBuffer();
+  return { buffer, format: extension };
+}
+
+/**
+ * Render a meme from its stored editor state and write it to the memes directory.
+ * Returns the output filename; any previous output file is replaced.
+ */
+export async function renderMemeToFile(meme: Meme, template: Template): Promise<string> {
+  let state: EditorState;
+  try {
+    state = JSON.parse(meme.editor_state);
+  } catch {
+    state = { textBoxes: [] };
+  }
+
+  const { buffer, format } = await renderEditorState(template, state);
+  const filename = `${meme.id}.${format}`;
+
+  // Delete old file if it used a different format
+  if (
+    meme.output_filename &&
+    meme.output_filename !== filename &&
+    /^[a-zA-Z0-9_-]+\.(png|jpeg|gif|webp)$/.test(meme.output_filename)
+  ) {
+    const oldPath = path.join(MEMES_PATH, meme.output_filename);
+    if (fs.existsSync(oldPath)) {
+      fs.unlinkSync(oldPath);
+    }
+  }
+
+  return writeMemeFile(meme.id, buffer, format);
+}
+
+/**
+ * Save a rendered image as a meme's output file. Returns the filename.
+ */
+export function writeMemeFile(memeId: string, buffer: Buffer, format: RenderFormat): string {
+  if (!fs.existsSync(MEMES_PATH)) {
+    fs.mkdirSync(MEMES_PATH, { recursive: true });
+  }
+
+  const filename = `${memeId}.${format}`;
+  fs.writeFileSync(path.join(MEMES_PATH, filename), buffer);
+  return filename;
+}
@@ -0,0 +1,75 @@
+import path from 'path';
+import fs from 'fs';
+import { nanoid } from 'nanoid';
+import { memeRevisionQueries } from '../db/schema.js';
+
+const UPLOADS_PATH = process.env.UPLOADS_PATH || './data/uploads';
+const MEMES_PATH = path.join(UPLOADS_PATH, 'memes');
+const REVISIONS_PATH = path.join(MEMES_PATH, 'revisions');
+
+// Revisions kept per meme; older ones are pruned as new ones are recorded
+const MAX_REVISIONS = 50;
+
+function deleteRevisionFile(filename: string | null) {
+  // SECURITY: Validate filename before path operations
+  if (!filename || !/^[a-zA-Z0-9_-]+\.(png|jpeg|gif|webp)$/.test(filename)) return;
+
+  const filePath = path.join(REVISIONS_PATH, filename);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+/**
+ * Record a saved editor state as the newest revision of a meme, pruning the
+ * oldest revisions past the limit. Returns the new revision's ID.
+ */
+export async function recordRevision(
+  memeId: string,
+  editorState: string,
+  userId: string,
+  restoredFrom: string | null = null
+): Promise<string> {
+  const id = nanoid();
+  await memeRevisionQueries.create(id, memeId, editorState, userId, restoredFrom, Date.now());
+
+  const revisions = await memeRevisionQueries.findByMeme(memeId);
+  for (const revision of revisions.slice(MAX_REVISIONS)) {
+    deleteRevisionFile(revision.output_filename);
+    await memeRevisionQueries.delete(revision.id);
+  }
+
+  return id;
+}
+
+/**
+ * Keep a copy of a meme's freshly rendered image with its newest revision, since
+ * the next render replaces the meme's own output file
+ */
+export async function snapshotRender(memeId: string, outputFilename: string) {
+  const match = /^[a-zA-Z0-9_-]+\.(png|jpeg|gif|webp)$/.exec(outputFilename);
+  const latest = await memeRevisionQueries.getLatest(memeId);
+  if (!match || !latest) return;
+
+  if (!fs.existsSync(REVISIONS_PATH)) {
+    fs.mkdirSync(REVISIONS_PATH, { recursive: true });
+  }
+
+  const filename = `${latest.id}.${match[1]}`;
+  fs.copyFileSync(path.join(MEMES_PATH, outputFilename), path.join(REVISIONS_PATH, filename));
+  if (latest.output_filename !== filename) {
+    deleteRevisionFile(latest.output_filename);
+  }
+
+  await memeRevisionQueries.setOutputFilename(latest.id, filename);
+}
+
+/**
+ * Delete every revision of a meme along with their rendered images
+ */
+export async function deleteRevisions(memeId: string) {
+  for (const revision of await memeRevisionQueries.findByMeme(memeId)) {
+    deleteRevisionFile(revision.output_filename);
+  }
+  await memeRevisionQueries.deleteByMeme(memeId);
+}
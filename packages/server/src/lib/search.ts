@@ -0,0 +1,111 @@
+import {
+  getDb,
+  memeQueries,
+  tagQueries,
+  templateQueries,
+  userQueries,
+  Meme,
+  Template,
+} from '../db/schema.js';
+import {
+  buildMemeEntry,
+  buildTemplateEntry,
+  clearSearchEntries,
+  deleteSearchEntry,
+  upsertSearchEntry,
+  SearchKind,
+} from '../db/search.js';
+import { groupTagsByTemplate } from './tags.js';
+
+// Keep queries cheap: at most this many terms, each at most this long
+const MAX_TERMS = 8;
+const MAX_TERM_LENGTH = 50;
+
+/**
+ * Split a user query into lowercase letter/digit terms. Everything else,
+ * including FTS operators and quotes, is dropped.
+ */
+export function parseSearchTerms(query: string): string[] {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return [...new Set(terms)].slice(0, MAX_TERMS).map((term) => term.slice(0, MAX_TERM_LENGTH));
+}
+
+async function getUserName(userId: string | null): Promise<string | null> {
+  if (!userId) return null;
+  const user = await userQueries.findById(userId);
+  return user?.name || null;
+}
+
+/**
+ * Add or refresh a template in the search index. Like the other index updates,
+ * failures are logged rather than thrown: a stale entry beats failing the save.
+ */
+export async function indexTemplate(template: Template) {
+  try {
+    const tags = await tagQueries.getForTemplate(template.id);
+    const entry = buildTemplateEntry(
+      template,
+      await getUserName(template.uploaded_by),
+      tags.map((tag) => tag.name)
+    );
+    await upsertSearchEntry(getDb(), entry);
+  } catch (err) {
+    console.error(`Failed to index template ${template.id}:`, err);
+  }
+}
+
+/**
+ * Add or refresh a meme in the search index (text, visibility and names)
+ */
+export async function indexMeme(meme: Meme) {
+  try {
+    const template = await templateQueries.findById(meme.template_id);
+    const entry = buildMemeEntry(meme, template?.name || null, await getUserName(meme.created_by));
+    await upsertSearchEntry(getDb(), entry);
+  } catch (err) {
+    console.error(`Failed to index meme ${meme.id}:`, err);
+  }
+}
+
+export async function removeFromSearchIndex(kind: SearchKind, id: string) {
+  try {
+    await deleteSearchEntry(getDb(), kind, id);
+  } catch (err) {
+    console.error(`Failed to remove ${kind} ${id} from search index:`, err);
+  }
+}
+
+/**
+ * Rebuild the whole index from the current templates and memes, picking up
+ * anything written outside the API (e.g. scripts/import-templates.ts)
+ */
+export async function rebuildSearchIndex(): Promise<number> {
+  const [users, templates, memes, tagAssignments] = await Promise.all([
+    userQueries.getAll(),
+    templateQueries.getAll(),
+    memeQueries.getAll(),
+    tagQueries.getAllAssignments(),
+  ]);
+  const userNames = new Map(users.map((user) => [user.id, user.name]));
+  const templateNames = new Map(templates.map((template) => [template.id, template.name]));
+  const tagsByTemplate = groupTagsByTemplate(tagAssignments);
+  const nameOf = (userId: string | null) => (userId ? userNames.get(userId) || null : null);
+
+  const entries = [
+    ...templates.map((template) =>
+      buildTemplateEntry(template, nameOf(template.uploaded_by), tagsByTemplate.get(template.id))
+    ),
+    ...memes.map((meme) =>
+      buildMemeEntry(meme, templateNames.get(meme.template_id) || null, nameOf(meme.created_by))
+    ),
+  ];
+
+  await getDb().transaction(async (tx) => {
+    await clearSearchEntries(tx);
+    for (const entry of entries) {
+      await upsertSearchEntry(tx, entry);
+    }
+  });
+
+  return entries.length;
+}
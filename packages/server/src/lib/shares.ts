@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { MemeShare } from '../db/schema.js';
+
+/**
+ * SECURITY: Generate an unguessable share token (192 random bits, 32 URL-safe
+ * characters)
+ */
+export function generateShareToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+// SECURITY: Validate share token format before querying
+export function isValidShareToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{32}$/.test(token);
+}
+
+/**
+ * Absolute URL of the public page for a share token
+ */
+export function shareUrl(token: string): string {
+  const publicUrl = process.env.PUBLIC_URL || 'http://localhost:5173';
+  return `${publicUrl.replace(/\/+$/, '')}/s/${token}`;
+}
+
+/**
+ * Shape of a share link returned to the meme's owner
+ */
+export function toShareResponse(share: MemeShare) {
+  return {
+    id: share.id,
+    meme_id: share.meme_id,
+    url: shareUrl(share.token),
+    created_at: share.created_at,
+    expires_at: share.expires_at,
+  };
+}
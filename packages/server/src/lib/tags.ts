@@ -0,0 +1,65 @@
+const MAX_TAG_LENGTH = 32;
+export const MAX_TAGS_PER_TEMPLATE = 10;
+
+/**
+ * Normalize a tag to its stored form: lowercase letters and digits joined by
+ * single hyphens ("Reaction Images" -> "reaction-images"). Returns null if
+ * nothing usable is left or the result is too long.
+ */
+export function normalizeTagName(raw: string): string | null {
+  const name = raw
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^\p{L}\p{N}-]/gu, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return name && name.length <= MAX_TAG_LENGTH ? name : null;
+}
+
+/**
+ * Parse a tag list from a request: an array of strings (JSON) or a
+ * comma-separated string (multipart forms). Duplicates are dropped.
+ */
+export function parseTagList(
+  input: unknown
+): { valid: true; tags: string[] } | { valid: false; error: string } {
+  const rawTags = typeof input === 'string' ? input.split(',').filter((tag) => tag.trim()) : input;
+
+  if (!Array.isArray(rawTags) || !rawTags.every((tag) => typeof tag === 'string')) {
+    return { valid: false, error: 'Tags must be a list of strings' };
+  }
+
+  const tags: string[] = [];
+  for (const rawTag of rawTags) {
+    const name = normalizeTagName(rawTag);
+    if (!name) {
+      return { valid: false, error: `Invalid tag "${rawTag.slice(0, MAX_TAG_LENGTH)}"` };
+    }
+    if (!tags.includes(name)) {
+      tags.push(name);
+    }
+  }
+
+  if (tags.length > MAX_TAGS_PER_TEMPLATE) {
+    return { valid: false, error: `A template can have at most ${MAX_TAGS_PER_TEMPLATE} tags` };
+  }
+
+  return { valid: true, tags };
+}
+
+/**
+ * Group template/tag pairs into tag names per template id
+ */
+export function groupTagsByTemplate(
+  assignments: { template_id: string; name: string }[]
+): Map<string, string[]> {
+  const tagsByTemplate = new Map<string, string[]>();
+  for (const { template_id, name } of assignments) {
+    const tags = tagsByTemplate.get(template_id) || [];
+    tags.push(name);
+    tagsByTemplate.set(template_id, tags);
+  }
+  return tagsByTemplate;
+}
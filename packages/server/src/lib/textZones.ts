@@ -0,0 +1,82 @@
+import type { TextBox } from '@possumbly/shared';
+import { Template, TextZone } from '../db/schema.js';
+
+export type TemplateWithTextZones = Omit<Template, 'text_zones'> & { text_zones: TextZone[] };
+
+/**
+ * Classic top and bottom caption slots sized to the template
+ */
+export function getDefaultTextZones(width: number, height: number): TextZone[] {
+  const margin = Math.round(height * 0.03);
+  const fontSize = Math.min(120, Math.max(16, Math.round(height / 10)));
+  const zone = {
+    x: Math.round(width * 0.05),
+    width: Math.round(width * 0.9),
+    fontSize,
+    fontFamily: 'Impact',
+    align: 'center' as const,
+  };
+
+  return [
+    { ...zone, y: margin, sampleText: 'TOP TEXT' },
+    { ...zone, y: Math.max(margin, height - margin - fontSize), sampleText: 'BOTTOM TEXT' },
+  ];
+}
+
+/**
+ * A template's text zones, falling back to the defaults when none are stored
+ */
+export function getTextZones(template: Template): TextZone[] {
+  if (template.text_zones) {
+    try {
+      const zones = JSON.parse(template.text_zones);
+      if (Array.isArray(zones)) return zones;
+    } catch {
+      console.error(`Invalid text zones stored for template ${template.id}`);
+    }
+  }
+  return getDefaultTextZones(template.width, template.height);
+}
+
+/**
+ * Template as returned by the API, with its text zones decoded
+ */
+export function withTextZones(template: Template): TemplateWithTextZones {
+  return { ...template, text_zones: getTextZones(template) };
+}
+
+// SECURITY: Text zones from a request must sit inside the template. The
+// shape of each zone is checked by the route's schema.
+export function checkTextZoneBounds(zones: TextZone[], template: Template): string | null {
+  for (const { x, y, width } of zones) {
+    if (x < 0 || y < 0 || x >= template.width || y >= template.height) {
+      return 'Text zone must start inside the template';
+    }
+
+    if (width <= 0 || width > template.width) {
+      return `width must be between 1 and ${template.width}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Text boxes for a meme captioned in one call, one per text zone in order and
+ * styled like new boxes in the editor. Zones without a caption are left empty.
+ */
+export function captionTextBoxes(zones: TextZone[], captions: string[]): TextBox[] {
+  return zones.map((zone, index) => ({
+    id: `text-${index}`,
+    text: captions[index] ?? '',
+    x: zone.x,
+    y: zone.y,
+    width: zone.width,
+    fontSize: zone.fontSize,
+    fontFamily: zone.fontFamily,
+    fill: '#ffffff',
+    stroke: '#000000',
+    strokeWidth: 2,
+    align: zone.align,
+    rotation: 0,
+  }));
+}
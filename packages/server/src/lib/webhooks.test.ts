@@ -0,0 +1,265 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { initializeTestDatabase } from '../test/database.js';
+import { getDb, userQueries, webhookDeliveryQueries, webhookQueries } from '../db/schema.js';
+import {
+  dispatchWebhookEvent,
+  invalidateWebhookCache,
+  processDueDeliveries,
+  signPayload,
+  WebhookEvent,
+} from './webhooks.js';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const SECRET = 'test-secret';
+
+const event: WebhookEvent = {
+  userId: 'admin',
+  resourceType: 'meme',
+  resourceId: 'meme1',
+  details: null,
+  success: true,
+};
+
+// Deliveries to a local receiver that records each request and answers with
+// the next queued status (200 once the queue is empty)
+describe('webhook deliveries', () => {
+  const received: ReceivedRequest[] = [];
+  const statuses: number[] = [];
+  let server: http.Server;
+  let webhookCount = 0;
+
+  before(async () => {
+    await initializeTestDatabase();
+    await userQueries.create('admin', null, 'Admin', null, 'github', '1', Date.now());
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() ?? 200).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    // The receiver is on loopback, which deliveries can't reach by default
+    process.env.WEBHOOK_ALLOWED_NETWORKS = '127.0.0.1';
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.WEBHOOK_ALLOWED_NETWORKS;
+  });
+
+  beforeEach(async () => {
+    received.length = 0;
+    statuses.length = 0;
+    // One webhook at a time, so each test sees only its own deliveries
+    await getDb().run('DELETE FROM webhook_deliveries');
+    await getDb().run('DELETE FROM webhooks');
+  });
+
+  async function createWebhook(events: string[] = ['meme.created'], host = '127.0.0.1') {
+    const id = `webhook${++webhookCount}`;
+    const { port } = server.address() as AddressInfo;
+    await webhookQueries.create(id, `http://${host}:${port}/hook`, SECRET, events, 'admin', 0);
+    invalidateWebhookCache();
+    return id;
+  }
+
+  async function latestDelivery(webhookId: string) {
+    const [delivery] = await webhookDeliveryQueries.findByWebhook(webhookId, 1);
+    assert.ok(delivery);
+    return delivery;
+  }
+
+  // Make a pending delivery due now instead of after its backoff
+  async function makeDue(deliveryId: string) {
+    await getDb().run('UPDATE webhook_deliveries SET next_attempt_at = 0 WHERE id = ?', [
+      deliveryId,
+    ]);
+  }
+
+  it('signs the timestamp and body with the secret', async () => {
+    const webhookId = await createWebhook();
+    await dispatchWebhookEvent('meme.created', event);
+
+    assert.equal(received.length, 1);
+    const [{ headers, body }] = received;
+    const expected = crypto
+      .createHmac('sha256', SECRET)
+      .update(`${headers['x-possumbly-timestamp']}.${body}`)
+      .digest('hex');
+    assert.equal(headers['x-possumbly-signature'], `sha256=${expected}`);
+    assert.equal(signPayload(SECRET, Number(headers['x-possumbly-timestamp']), body), expected);
+
+    const payload = JSON.parse(body);
+    assert.equal(payload.event, 'meme.created');
+    assert.equal(payload.data.resource_id, 'meme1');
+    assert.equal(headers['x-possumbly-event'], 'meme.created');
+    assert.equal(headers['x-possumbly-delivery'], payload.id);
+
+    const delivery = await latestDelivery(webhookId);
+    assert.equal(delivery.status, 'success');
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.response_status, 200);
+  });
+
+  it('only sends events a webhook subscribed to', async () => {
+    await createWebhook(['meme.deleted']);
+    await dispatchWebhookEvent('meme.created', event);
+    assert.equal(received.length, 0);
+  });
+
+  it('retries a failed delivery with backoff', async () => {
+    const webhookId = await createWebhook();
+    statuses.push(500);
+
+    const start = Date.now();
+    await dispatchWebhookEvent('meme.created', event);
+    const failed = await latestDelivery(webhookId);
+    assert.equal(failed.status, 'pending');
+    assert.equal(failed.attempts, 1);
+    assert.equal(failed.response_status, 500);
+    assert.equal(failed.error, 'Receiver responded with HTTP 500');
+    assert.ok(failed.next_attempt_at! >= start + 30 * 1000);
+    assert.ok(failed.next_attempt_at! <= Date.now() + 30 * 1000);
+
+    // Not due yet
+    await processDueDeliveries();
+    assert.equal(received.length, 1);
+
+    await makeDue(failed.id);
+    await processDueDeliveries();
+    assert.equal(received.length, 2);
+    // Retries resend the same body
+    assert.equal(received[1].body, received[0].body);
+
+    const retried = await latestDelivery(webhookId);
+    assert.equal(retried.status, 'success');
+    assert.equal(retried.attempts, 2);
+    assert.equal(retried.next_attempt_at, null);
+  });
+
+  it('gives up after the maximum attempts', async () => {
+    const webhookId = await createWebhook();
+    const delays = [30, 2 * 60, 10 * 60, 60 * 60].map((seconds) => seconds * 1000);
+    statuses.push(...Array(10).fill(500));
+
+    await dispatchWebhookEvent('meme.created', event);
+    let delivery = await latestDelivery(webhookId);
+    const maxAttempts = delivery.max_attempts;
+    assert.equal(maxAttempts, delays.length + 1);
+
+    for (let attempt = 1; attempt < maxAttempts; attempt++) {
+      assert.equal(delivery.status, 'pending');
+      assert.equal(delivery.attempts, attempt);
+      const delay = delivery.next_attempt_at! - Date.now();
+      assert.ok(delay > delays[attempt - 1] - 5000 && delay <= delays[attempt - 1]);
+
+      await makeDue(delivery.id);
+      await processDueDeliveries();
+      delivery = await latestDelivery(webhookId);
+    }
+
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, maxAttempts);
+    assert.equal(delivery.next_attempt_at, null);
+    assert.equal(received.length, maxAttempts);
+
+    // Failed deliveries aren't picked up again
+    await makeDue(delivery.id);
+    await processDueDeliveries();
+    assert.equal(received.length, maxAttempts);
+  });
+
+  it('keeps only the newest deliveries', async () => {
+    const webhookId = await createWebhook();
+    for (let index = 0; index < 5; index++) {
+      await webhookDeliveryQueries.create(`d${index}`, webhookId, 'meme.created', '{}', 1, index);
+    }
+
+    await webhookDeliveryQueries.prune(webhookId, 2);
+    const kept = await webhookDeliveryQueries.findByWebhook(webhookId, 10);
+    assert.deepEqual(
+      kept.map(({ id }) => id),
+      ['d4', 'd3']
+    );
+  });
+
+  it('caches active webhooks until they change', async () => {
+    const getActive = mock.method(webhookQueries, 'getActive');
+    try {
+      await createWebhook();
+      await dispatchWebhookEvent('meme.created', event);
+      await dispatchWebhookEvent('meme.created', event);
+      assert.equal(getActive.mock.callCount(), 1);
+      assert.equal(received.length, 2);
+
+      // A webhook added since is picked up once the cache is dropped
+      await createWebhook();
+      await dispatchWebhookEvent('meme.created', event);
+      assert.equal(getActive.mock.callCount(), 2);
+      assert.equal(received.length, 4);
+    } finally {
+      getActive.mock.restore();
+    }
+  });
+
+  describe('private addresses', () => {
+    afterEach(() => {
+      process.env.WEBHOOK_ALLOWED_NETWORKS = '127.0.0.1';
+    });
+
+    async function assertBlocked(host: string) {
+      const webhookId = await createWebhook(['meme.created'], host);
+      await dispatchWebhookEvent('meme.created', event);
+
+      const delivery = await latestDelivery(webhookId);
+      assert.equal(delivery.status, 'pending');
+      assert.equal(delivery.response_status, null);
+      assert.match(delivery.error!, /a private or reserved address/);
+      assert.equal(received.length, 0);
+    }
+
+    it('refuses loopback unless allowed', async () => {
+      delete process.env.WEBHOOK_ALLOWED_NETWORKS;
+      await assertBlocked('127.0.0.1');
+      await assertBlocked('[::1]');
+      await assertBlocked('[::ffff:127.0.0.1]');
+    });
+
+    it('checks the addresses a host name resolves to', async () => {
+      delete process.env.WEBHOOK_ALLOWED_NETWORKS;
+      await assertBlocked('localhost');
+    });
+
+    it('refuses private, link-local and metadata addresses', async () => {
+      for (const host of [
+        '10.0.0.1',
+        '172.16.5.4',
+        '192.168.1.1',
+        '169.254.169.254',
+        '[fd00::1]',
+      ]) {
+        await assertBlocked(host);
+      }
+    });
+
+    it('delivers to allowed ranges', async () => {
+      process.env.WEBHOOK_ALLOWED_NETWORKS = 'not-a-network, 10.0.0.0/, 127.0.0.0/8';
+      const webhookId = await createWebhook();
+      await dispatchWebhookEvent('meme.created', event);
+
+      assert.equal((await latestDelivery(webhookId)).status, 'success');
+      assert.equal(received.length, 1);
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { nanoid } from 'nanoid';
+import {
+  webhookDeliveryQueries,
+  webhookQueries,
+  AuditAction,
+  Webhook,
+  WebhookDelivery,
+} from '../db/schema.js';
+
+// Attempts per delivery, and the wait before each retry
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAYS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 60 * 60 * 1000];
+
+const REQUEST_TIMEOUT = 10 * 1000; // 10 seconds
+const MAX_ERROR_LENGTH = 500;
+// Deliveries kept per webhook; older ones are pruned as new ones are logged
+const MAX_DELIVERIES_KEPT = 200;
+const WORKER_INTERVAL = 15 * 1000; // 15 seconds
+const WORKER_BATCH_SIZE = 20;
+
+// Event name for test deliveries sent from the admin panel
+export const TEST_EVENT = 'webhook.test';
+
+// SECURITY: Networks deliveries may not reach unless WEBHOOK_ALLOWED_NETWORKS
+// lists them: private, loopback, link-local (including the 169.254.169.254
+// metadata service), shared, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges.
+const BLOCKED_NETWORKS = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+// Deliveries being attempted, so the worker doesn't send one twice at once
+const inFlight = new Set<string>();
+let workerRunning = false;
+
+// Active webhooks, loaded on the first audit event after a change rather than
+// on every one
+let activeWebhooks: Promise<Webhook[]> | null = null;
+
+// Parsed WEBHOOK_ALLOWED_NETWORKS, and the value it was parsed from
+let allowedNetworks: { value: string; list: net.BlockList } | null = null;
+
+export interface WebhookEvent {
+  userId: string | null;
+  resourceType: string | null;
+  resourceId: string | null;
+  details: Record<string, unknown> | null;
+  success: boolean;
+}
+
+/**
+ * SECURITY: Generate a random signing secret for a webhook
+ */
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * HMAC-SHA256 signature of a delivery, sent as `X-Possumbly-Signature:
+ * sha256=<hex>`. Receivers recompute it over `<timestamp>.<raw body>` with the
+ * webhook's secret to check the request came from this instance.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function parseEvents(webhook: Webhook): string[] {
+  try {
+    const events = JSON.parse(webhook.events);
+    return Array.isArray(events) ? events : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Networks in WEBHOOK_ALLOWED_NETWORKS, a comma-separated list of IP addresses
+ * and CIDR ranges (e.g. `10.0.0.0/8,192.168.1.20`) that deliveries may reach
+ * even though they're private
+ */
+function getAllowedNetworks(): net.BlockList {
+  const value = process.env.WEBHOOK_ALLOWED_NETWORKS || '';
+  if (allowedNetworks?.value === value) return allowedNetworks.list;
+
+  const list = new net.BlockList();
+  for (const entry of value.split(',').map((part) => part.trim())) {
+    if (!entry) continue;
+
+    const [address, prefix] = entry.split('/');
+    const type = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+    const bits = prefix === undefined ? (type === 'ipv4' ? 32 : 128) : Number(prefix);
+    try {
+      if (!type || !/^\d+$/.test(prefix ?? '0')) throw new Error('not an address or range');
+      list.addSubnet(address, bits, type);
+    } catch {
+      console.warn(`Ignoring invalid WEBHOOK_ALLOWED_NETWORKS entry: ${entry}`);
+    }
+  }
+
+  allowedNetworks = { value, list };
+  return list;
+}
+
+/**
+ * SECURITY: Resolve a webhook's host and check every address it resolves to,
+ * so a URL can't reach internal services or cloud metadata. Requests connect
+ * to the returned address instead of resolving the name again, which would
+ * let DNS answer differently the second time.
+ */
+async function resolveDeliveryAddress(url: URL): Promise<dns.LookupAddress> {
+  // IPv6 hosts keep their brackets in URL.hostname
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = net.isIP(host)
+    ? [{ address: host, family: net.isIP(host) }]
+    : await dns.promises.lookup(host, { all: true });
+
+  for (const { address, family } of addresses) {
+    const type = family === 6 ? 'ipv6' : 'ipv4';
+    if (BLOCKED_NETWORKS.check(address, type) && !getAllowedNetworks().check(address, type)) {
+      throw new Error(
+        `${url.hostname} resolves to ${address}, a private or reserved address (allow it with WEBHOOK_ALLOWED_NETWORKS)`
+      );
+    }
+  }
+
+  return addresses[0];
+}
+
+// POST a delivery to an already checked address and return the response status
+function postDelivery(
+  url: URL,
+  address: dns.LookupAddress,
+  headers: Record<string, string>,
+  body: string
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    // SECURITY: http(s).request never follows redirects away from the
+    // configured URL
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: ((_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [address]);
+          } else {
+            callback(null, address.address, address.family);
+          }
+        }) as net.LookupFunction,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode!);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Send one attempt of a delivery and record the outcome, scheduling a retry
+ * with backoff if it failed and attempts remain
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  webhook: Webhook
+): Promise<WebhookDelivery> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const url = new URL(webhook.url);
+    const address = await resolveDeliveryAddress(url);
+    responseStatus = await postDelivery(
+      url,
+      address,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Possumbly-Webhooks/1.0',
+        'X-Possumbly-Event': delivery.event,
+        'X-Possumbly-Delivery': delivery.id,
+        'X-Possumbly-Timestamp': String(timestamp),
+        'X-Possumbly-Signature': `sha256=${signPayload(webhook.secret, timestamp, delivery.payload)}`,
+      },
+      delivery.payload
+    );
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `Receiver responded with HTTP ${responseStatus}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const now = Date.now();
+  const succeeded = error === null;
+  const retry = !succeeded && attempts < delivery.max_attempts;
+  const result = {
+    status: succeeded ? ('success' as const) : retry ? ('pending' as const) : ('failed' as const),
+    attempts,
+    responseStatus,
+    error: error ? error.substring(0, MAX_ERROR_LENGTH) : null,
+    nextAttemptAt: retry
+      ? now + RETRY_DELAYS[Math.min(attempts - 1, RETRY_DELAYS.length - 1)]
+      : null,
+    deliveredAt: succeeded ? now : null,
+  };
+  await webhookDeliveryQueries.recordAttempt(delivery.id, result);
+
+  return {
+    ...delivery,
+    status: result.status,
+    attempts,
+    response_status: responseStatus,
+    error: result.error,
+    next_attempt_at: result.nextAttemptAt,
+    delivered_at: result.deliveredAt,
+  };
+}
+
+// Attempt a delivery unless it's already being attempted
+async function runDelivery(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery> {
+  if (inFlight.has(delivery.id)) return delivery;
+
+  inFlight.add(delivery.id);
+  try {
+    return await attemptDelivery(delivery, webhook);
+  } finally {
+    inFlight.delete(delivery.id);
+  }
+}
+
+// Log a delivery of an event to a webhook and make its first attempt
+async function deliver(
+  webhook: Webhook,
+  event: string,
+  data: Record<string, unknown>,
+  maxAttempts: number
+): Promise<WebhookDelivery> {
+  const id = nanoid();
+  const now = Date.now();
+  const payload = JSON.stringify({ id, event, created_at: now, data });
+
+  await webhookDeliveryQueries.create(id, webhook.id, event, payload, maxAttempts, now);
+  await webhookDeliveryQueries.prune(webhook.id, MAX_DELIVERIES_KEPT);
+
+  const delivery = await webhookDeliveryQueries.findById(id);
+  return runDelivery(delivery!, webhook);
+}
+
+function getActiveWebhooks(): Promise<Webhook[]> {
+  if (!activeWebhooks) {
+    activeWebhooks = webhookQueries.getActive().catch((err) => {
+      activeWebhooks = null;
+      throw err;
+    });
+  }
+  return activeWebhooks;
+}
+
+/**
+ * Drop the cached list of active webhooks. Call after creating, updating or
+ * deleting a webhook.
+ */
+export function invalidateWebhookCache() {
+  activeWebhooks = null;
+}
+
+/**
+ * Send an audit event to every active webhook subscribed to it. Called for
+ * every audit event; failures are retried by the worker.
+ */
+export async function dispatchWebhookEvent(action: AuditAction, event: WebhookEvent) {
+  const webhooks = (await getActiveWebhooks()).filter((webhook) =>
+    parseEvents(webhook).includes(action)
+  );
+
+  const data = {
+    user_id: event.userId,
+    resource_type: event.resourceType,
+    resource_id: event.resourceId,
+    details: event.details,
+    success: event.success,
+  };
+
+  await Promise.all(
+    webhooks.map((webhook) =>
+      deliver(webhook, action, data, MAX_ATTEMPTS).catch((err) => {
+        console.error(`Failed to deliver webhook ${webhook.id} (${action}):`, err);
+      })
+    )
+  );
+}
+
+/**
+ * Send a test event to a webhook once, without retries, and return the result
+ */
+export async function sendTestEvent(webhook: Webhook, userId: string): Promise<WebhookDelivery> {
+  return deliver(
+    webhook,
+    TEST_EVENT,
+    { user_id: userId, message: 'Test delivery from Possumbly' },
+    1
+  );
+}
+
+/**
+ * Retry pending deliveries that are due
+ */
+export async function processDueDeliveries() {
+  const due = await webhookDeliveryQueries.findDue(Date.now(), WORKER_BATCH_SIZE);
+
+  for (const delivery of due) {
+    const webhook = await webhookQueries.findById(delivery.webhook_id);
+    if (webhook) {
+      await runDelivery(delivery, webhook);
+    }
+  }
+}
+
+/**
+ * Start retrying failed deliveries in the background, including ones left
+ * pending by a restart
+ */
+export function startWebhookWorker() {
+  const timer = setInterval(() => {
+    // A slow batch can outlast the interval; skip ticks until it finishes
+    if (workerRunning) return;
+
+    workerRunning = true;
+    processDueDeliveries()
+      .catch((err) => {
+        console.error('Webhook worker error:', err);
+      })
+      .finally(() => {
+        workerRunning = false;
+      });
+  }, WORKER_INTERVAL);
+  timer.unref();
+}
@@ -0,0 +1,231 @@
+import '../test/uploads.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { nanoid } from 'nanoid';
+import { ApiTokenScope } from '@possumbly/shared';
+import { initializeTestDatabase } from '../test/database.js';
+import { startTestApp, TestApp } from '../test/app.js';
+import { apiTokenQueries, memeQueries, templateQueries, userQueries } from '../db/schema.js';
+import { displayPrefix, generateApiToken, hashApiToken } from '../lib/apiTokens.js';
+import galleryRoutes from '../routes/gallery.js';
+import memeRoutes from '../routes/memes.js';
+import tokenRoutes from '../routes/tokens.js';
+import webhookRoutes from '../routes/webhooks.js';
+
+// PUBLIC_URL isn't set in tests
+const ORIGIN = 'http://localhost:5173';
+
+describe('API tokens and CSRF protection', () => {
+  let app: TestApp;
+
+  before(async () => {
+    await initializeTestDatabase();
+    await userQueries.create('alice', null, 'Alice', null, 'github', '1', Date.now());
+    await userQueries.updateInviteRedeemed('alice');
+    await userQueries.create('root', null, 'Root', null, 'github', '2', Date.now());
+    await userQueries.setRole('admin', 'root');
+
+    await templateQueries.create('plain', 'Plain', 'plain.png', 200, 100, 'root', Date.now());
+    await memeQueries.create('meme1', 'plain', 'root', '{}', null, Date.now());
+    await memeQueries.setPublic('meme1', true);
+
+    app = await startTestApp({
+      '/api/gallery': galleryRoutes,
+      '/api/memes': memeRoutes,
+      '/api/tokens': tokenRoutes,
+      '/api/webhooks': webhookRoutes,
+    });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  async function createToken(
+    userId: string,
+    scopes: ApiTokenScope[],
+    expiresAt: number | null = null
+  ) {
+    const token = generateApiToken();
+    await apiTokenQueries.create(
+      nanoid(),
+      userId,
+      'test',
+      hashApiToken(token),
+      displayPrefix(token),
+      scopes,
+      Date.now(),
+      expiresAt
+    );
+    return token;
+  }
+
+  type Init = Omit<RequestInit, 'headers'> & { user?: string; headers?: Record<string, string> };
+
+  function withToken(token: string, init: Init = {}) {
+    return { ...init, headers: { ...init.headers, authorization: `Bearer ${token}` } };
+  }
+
+  const favorite = { method: 'POST' };
+
+  describe('apiTokenAuth', () => {
+    it('lets a read token read but not write', async () => {
+      const token = await createToken('alice', ['read']);
+
+      const read = await app.request('/api/gallery', withToken(token));
+      assert.equal(read.status, 200);
+
+      const write = await app.request('/api/memes/meme1/favorite', withToken(token, favorite));
+      assert.equal(write.status, 403);
+      assert.equal((await write.json()).code, 'INSUFFICIENT_SCOPE');
+    });
+
+    it('lets a write token write', async () => {
+      const token = await createToken('alice', ['write']);
+      const response = await app.request('/api/memes/meme1/favorite', withToken(token, favorite));
+      assert.equal(response.status, 200);
+    });
+
+    it('rejects expired and unknown tokens', async () => {
+      const expired = await createToken('alice', ['read'], Date.now() - 1);
+      for (const token of [expired, generateApiToken(), 'not-a-token']) {
+        const response = await app.request('/api/gallery', withToken(token));
+        assert.equal(response.status, 401);
+        assert.equal((await response.json()).code, 'INVALID_API_TOKEN');
+      }
+    });
+
+    it('rejects a token once it is revoked', async () => {
+      const created = await app.request('/api/tokens', {
+        method: 'POST',
+        user: 'alice',
+        body: JSON.stringify({ name: 'script', scopes: ['read'] }),
+      });
+      assert.equal(created.status, 201);
+      const { id, token } = await created.json();
+      assert.equal((await app.request('/api/gallery', withToken(token))).status, 200);
+
+      const revoked = await app.request(`/api/tokens/${id}`, { method: 'DELETE', user: 'alice' });
+      assert.equal(revoked.status, 200);
+
+      const response = await app.request('/api/gallery', withToken(token));
+      assert.equal(response.status, 401);
+    });
+
+    it('cannot manage tokens', async () => {
+      const token = await createToken('alice', ['read', 'write']);
+      const response = await app.request('/api/tokens', withToken(token));
+      assert.equal(response.status, 403);
+    });
+
+    it('acts as the token owner rather than the session user', async () => {
+      const token = await createToken('alice', ['read']);
+      const response = await app.request('/api/webhooks', withToken(token, { user: 'root' }));
+      assert.equal(response.status, 403);
+      assert.equal((await response.json()).code, 'ADMIN_REQUIRED');
+    });
+  });
+
+  describe('isAdmin', () => {
+    it('needs the admin scope on an admin token', async () => {
+      const token = await createToken('root', ['read', 'write']);
+      const response = await app.request('/api/webhooks', withToken(token));
+      assert.equal(response.status, 403);
+      assert.deepEqual(await response.json(), {
+        error: 'API token lacks the admin scope',
+        code: 'INSUFFICIENT_SCOPE',
+      });
+    });
+
+    it('lets an admin token with the admin scope through', async () => {
+      const token = await createToken('root', ['read', 'admin']);
+      const response = await app.request('/api/webhooks', withToken(token));
+      assert.equal(response.status, 200);
+    });
+
+    it('does not let members create admin tokens', async () => {
+      const response = await app.request('/api/tokens', {
+        method: 'POST',
+        user: 'alice',
+        body: JSON.stringify({ name: 'sneaky', scopes: ['admin'] }),
+      });
+      assert.equal(response.status, 403);
+    });
+  });
+
+  describe('csrfProtection', () => {
+    it('rejects session requests from another origin', async () => {
+      const rejected: Record<string, string>[] = [
+        { origin: 'https://evil.example' },
+        { referer: 'https://evil.example/page' },
+        { referer: 'not a url' },
+      ];
+      for (const headers of rejected) {
+        const response = await app.request('/api/memes/meme1/favorite', {
+          ...favorite,
+          user: 'alice',
+          headers,
+        });
+        assert.equal(response.status, 403);
+        assert.equal((await response.json()).code, 'FORBIDDEN');
+      }
+    });
+
+    it('accepts session requests from the app', async () => {
+      const accepted: Record<string, string>[] = [
+        { origin: ORIGIN },
+        { referer: `${ORIGIN}/gallery` },
+      ];
+      for (const headers of accepted) {
+        const response = await app.request('/api/memes/meme1/favorite', {
+          ...favorite,
+          user: 'alice',
+          headers,
+        });
+        assert.equal(response.status, 200);
+      }
+    });
+
+    it('requires an Origin or Referer in production', async () => {
+      process.env.NODE_ENV = 'production';
+      try {
+        const response = await app.request('/api/memes/meme1/favorite', {
+          ...favorite,
+          user: 'alice',
+        });
+        assert.equal(response.status, 403);
+      } finally {
+        delete process.env.NODE_ENV;
+      }
+    });
+
+    it('skips reads', async () => {
+      const response = await app.request('/api/gallery', {
+        user: 'alice',
+        headers: { origin: 'https://evil.example' },
+      });
+      assert.equal(response.status, 200);
+    });
+
+    it('skips requests with a valid API token', async () => {
+      const token = await createToken('alice', ['write']);
+      const response = await app.request(
+        '/api/memes/meme1/favorite',
+        withToken(token, { ...favorite, headers: { origin: 'https://evil.example' } })
+      );
+      assert.equal(response.status, 200);
+    });
+
+    it('does not let a bogus token carry a session request past the check', async () => {
+      const response = await app.request(
+        '/api/memes/meme1/favorite',
+        withToken(generateApiToken(), {
+          ...favorite,
+          user: 'alice',
+          headers: { origin: 'https://evil.example' },
+        })
+      );
+      assert.equal(response.status, 401);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
-import { User } from '../db/schema.js';
+import { apiTokenQueries, userQueries, User } from '../db/schema.js';
 import { accessAudit } from '../lib/audit.js';
+import { getBearerToken, hashApiToken, hasScope, isValidApiToken } from '../lib/apiTokens.js';
 
 // Extend Express Request to include user
 declare global {
@@ -9,6 +10,11 @@ declare global {
     interface User extends Omit<import('../db/schema.js').User, 'provider'> {
       provider: 'google' | 'github' | 'discord';
     }
+
+    interface Request {
+      /** Set when the request authenticated with an API token */
+      apiToken?: import('../db/schema.js').ApiToken;
+    }
   }
 }
 
@@ -22,6 +28,13 @@ export function csrfProtection(req: Request, res: Response, next: NextFunction)
     return next();
   }
 
+  // SECURITY: Bearer requests don't use the session cookie, and browsers can't
+  // attach the header cross-site, so they can't be forged. apiTokenAuth
+  // rejects any request whose token doesn't check out.
+  if (getBearerToken(req)) {
+    return next();
+  }
+
   const origin = req.get('origin');
   const referer = req.get('referer');
 
@@ -39,7 +52,7 @@ export function csrfProtection(req: Request, res: Response, next: NextFunction)
   if (origin) {
     if (origin !== expectedOrigin) {
       console.warn(`CSRF: Origin mismatch - got ${origin}, expected ${expectedOrigin}`);
-      return res.status(403).json({ error: 'Forbidden' });
+      return res.status(403).json({ error: 'Forbidden', code: 'FORBIDDEN' });
     }
     return next();
   }
@@ -50,13 +63,13 @@ export function csrfProtection(req: Request, res: Response, next: NextFunction)
       const refererUrl = new URL(referer);
       if (refererUrl.origin !== expectedOrigin) {
         console.warn(`CSRF: Referer mismatch - got ${refererUrl.origin}, expected ${expectedOrigin}`);
-        return res.status(403).json({ error: 'Forbidden' });
+        return res.status(403).json({ error: 'Forbidden', code: 'FORBIDDEN' });
       }
       return next();
     } catch {
       // Invalid referer URL
       console.warn('CSRF: Invalid referer URL');
-      return res.status(403).json({ error: 'Forbidden' });
+      return res.status(403).json({ error: 'Forbidden', code: 'FORBIDDEN' });
     }
   }
 
@@ -64,26 +77,77 @@ export function csrfProtection(req: Request, res: Response, next: NextFunction)
   // In development, allow requests without these headers for easier testing
   if (process.env.NODE_ENV === 'production') {
     console.warn('CSRF: Missing Origin and Referer headers in production');
-    return res.status(403).json({ error: 'Forbidden' });
+    return res.status(403).json({ error: 'Forbidden', code: 'FORBIDDEN' });
   }
 
   next();
 }
 
+// Don't write last_used_at on every request from a busy script
+const TOKEN_TOUCH_INTERVAL = 60 * 1000; // 1 minute
+
+// Authenticate requests carrying `Authorization: Bearer <API token>` as the
+// token's owner. Requests without the header fall through to the session.
+export async function apiTokenAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const now = Date.now();
+    const apiToken = isValidApiToken(token)
+      ? await apiTokenQueries.findActiveByHash(hashApiToken(token), now)
+      : undefined;
+    const user = apiToken && (await userQueries.findById(apiToken.user_id));
+
+    if (!apiToken || !user) {
+      accessAudit.denied(req, req.path, 'invalid_api_token');
+      return res
+        .status(401)
+        .json({ error: 'Invalid or expired API token', code: 'INVALID_API_TOKEN' });
+    }
+
+    // SECURITY: Scope follows the method, so a read token can't change anything
+    const scope = ['GET', 'HEAD', 'OPTIONS'].includes(req.method) ? 'read' : 'write';
+    if (!hasScope(apiToken, scope)) {
+      accessAudit.denied(req, req.path, `api_token_missing_${scope}_scope`);
+      return res
+        .status(403)
+        .json({ error: `API token lacks the ${scope} scope`, code: 'INSUFFICIENT_SCOPE' });
+    }
+
+    // The token's owner replaces any session user for this request
+    req.user = user as Express.User;
+    req.apiToken = apiToken;
+
+    if (!apiToken.last_used_at || now - apiToken.last_used_at > TOKEN_TOUCH_INTERVAL) {
+      apiTokenQueries.touch(apiToken.id, now).catch((err) => {
+        console.error('Failed to record API token use:', err);
+      });
+    }
+
+    next();
+  } catch (err) {
+    console.error('Error authenticating API token:', err);
+    res.status(500).json({ error: 'Failed to authenticate' });
+  }
+}
+
 // Check if user is authenticated
 export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
   if (req.isAuthenticated()) {
     return next();
   }
   accessAudit.denied(req, req.path, 'not_authenticated');
-  res.status(401).json({ error: 'Unauthorized' });
+  res.status(401).json({ error: 'Unauthorized', code: 'UNAUTHORIZED' });
 }
 
 // Check if user has redeemed an invite code
 export function hasInvite(req: Request, res: Response, next: NextFunction) {
   if (!req.isAuthenticated()) {
     accessAudit.denied(req, req.path, 'not_authenticated');
-    return res.status(401).json({ error: 'Unauthorized' });
+    return res.status(401).json({ error: 'Unauthorized', code: 'UNAUTHORIZED' });
   }
 
   const user = req.user as User;
@@ -99,14 +163,21 @@ export function hasInvite(req: Request, res: Response, next: NextFunction) {
 export function isAdmin(req: Request, res: Response, next: NextFunction) {
   if (!req.isAuthenticated()) {
     accessAudit.denied(req, req.path, 'not_authenticated');
-    return res.status(401).json({ error: 'Unauthorized' });
+    return res.status(401).json({ error: 'Unauthorized', code: 'UNAUTHORIZED' });
   }
 
   const user = req.user as User;
   if (user.role === 'admin') {
+    // SECURITY: Admin routes also need a token granted the admin scope
+    if (req.apiToken && !hasScope(req.apiToken, 'admin')) {
+      accessAudit.denied(req, req.path, 'api_token_missing_admin_scope');
+      return res
+        .status(403)
+        .json({ error: 'API token lacks the admin scope', code: 'INSUFFICIENT_SCOPE' });
+    }
     return next();
   }
 
   accessAudit.denied(req, req.path, 'not_admin');
-  res.status(403).json({ error: 'Admin access required' });
+  res.status(403).json({ error: 'Admin access required', code: 'ADMIN_REQUIRED' });
 }
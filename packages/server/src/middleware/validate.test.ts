@@ -0,0 +1,96 @@
+import { UPLOADS_PATH } from '../test/uploads.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { errorSchema } from '@possumbly/shared';
+import { initializeTestDatabase } from '../test/database.js';
+import { startTestApp, TestApp } from '../test/app.js';
+import { userQueries } from '../db/schema.js';
+import galleryRoutes from '../routes/gallery.js';
+import memeRoutes from '../routes/memes.js';
+import templateRoutes from '../routes/templates.js';
+
+describe('request validation', () => {
+  let app: TestApp;
+
+  before(async () => {
+    await initializeTestDatabase();
+    await userQueries.create('alice', null, 'Alice', null, 'github', '1', Date.now());
+    await userQueries.updateInviteRedeemed('alice');
+
+    app = await startTestApp({
+      '/api/gallery': galleryRoutes,
+      '/api/memes': memeRoutes,
+      '/api/templates': templateRoutes,
+    });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  // A 400 with the documented error body and the first problem as its message
+  async function assertRejected(response: Response, error: string) {
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.deepEqual(errorSchema.parse(body), { error, code: 'INVALID_REQUEST' });
+  }
+
+  it('rejects an invalid body', async () => {
+    const createMeme = (body: unknown) =>
+      app.request('/api/memes', { method: 'POST', user: 'alice', body: JSON.stringify(body) });
+
+    await assertRejected(
+      await createMeme({ template_id: 'no spaces', editor_state: { textBoxes: [] } }),
+      'Invalid template ID format'
+    );
+    await assertRejected(
+      await createMeme({ template_id: 'plain' }),
+      'Editor state must be an object'
+    );
+  });
+
+  it('rejects invalid params', async () => {
+    await assertRejected(
+      await app.request('/api/memes/not%20an%20id/remixes', { user: 'alice' }),
+      'Invalid meme ID'
+    );
+  });
+
+  it('rejects an invalid query', async () => {
+    await assertRejected(
+      await app.request('/api/gallery?sort=oldest', { user: 'alice' }),
+      'Invalid sort. Must be hot, top, new, or favorites'
+    );
+  });
+
+  it('hands the handler parsed values', async () => {
+    const response = await app.request('/api/gallery?limit=500', { user: 'alice' });
+    assert.equal(response.status, 200);
+    const { pagination } = await response.json();
+    assert.equal(pagination.page, 1);
+    assert.equal(pagination.limit, 50);
+  });
+
+  it('removes the upload of a rejected request', async () => {
+    const templatesPath = path.join(UPLOADS_PATH, 'templates');
+    const before = fs.readdirSync(templatesPath);
+
+    const image = await sharp({
+      create: { width: 20, height: 10, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+    const form = new FormData();
+    form.append('image', new Blob([new Uint8Array(image)], { type: 'image/png' }), 'plain.png');
+    form.append('name', '   ');
+
+    await assertRejected(
+      await app.request('/api/templates', { method: 'POST', user: 'alice', body: form }),
+      'Template name is required'
+    );
+    assert.deepEqual(fs.readdirSync(templatesPath), before);
+  });
+});
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+
+export interface RequestSchemas {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+}
+
+// Name a field after the last key in its path ("textBoxes.0.x" -> "x")
+function fieldName(path: PropertyKey[] | undefined): string {
+  const key = [...(path || [])].reverse().find((part) => typeof part === 'string');
+  return typeof key === 'string' ? key : 'Value';
+}
+
+// Messages for checks that don't set their own, in the same style as the
+// hand-written ones ("x must be a number")
+z.config({
+  customError: (issue) => {
+    const field = fieldName(issue.path);
+    switch (issue.code) {
+      case 'invalid_type':
+        return issue.input === undefined
+          ? `${field} is required`
+          : `${field} must be ${/^[aeiou]/.test(issue.expected) ? 'an' : 'a'} ${issue.expected}`;
+      case 'invalid_value':
+        return `${field} must be one of ${issue.values.map(String).join(', ')}`;
+      case 'too_small':
+        return issue.origin === 'string'
+          ? `${field} must be at least ${issue.minimum} characters`
+          : issue.origin === 'array'
+            ? `${field} must have at least ${issue.minimum} items`
+            : `${field} must be at least ${issue.minimum}`;
+      case 'too_big':
+        return issue.origin === 'string'
+          ? `${field} must be ${issue.maximum} characters or less`
+          : issue.origin === 'array'
+            ? `${field} must have at most ${issue.maximum} items`
+            : `${field} must be at most ${issue.maximum}`;
+      default:
+        return undefined;
+    }
+  },
+});
+
+/**
+ * Validate a request's params, query and body, replacing each with its parsed
+ * value (trimmed, with defaults filled in). Fails with 400 and the first
+ * problem found.
+ */
+export function validate(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[part]);
+      if (!result.success) {
+        // SECURITY: Don't keep uploads from rejected requests
+        if (req.file?.path && fs.existsSync(req.file.path)) {
+          fs.unlinkSync(req.file.path);
+        }
+        return res
+          .status(400)
+          .json({ error: result.error.issues[0].message, code: 'INVALID_REQUEST' });
+      }
+      (req as unknown as Record<string, unknown>)[part] = result.data;
+    }
+    next();
+  };
+}
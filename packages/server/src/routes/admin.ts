@@ -1,125 +1,231 @@
-import { Router } from 'express';
-import { userQueries, inviteQueries, User } from '../db/schema.js';
+import { z } from 'zod';
+import {
+  messageSchema,
+  recountResponse,
+  reindexResponse,
+  rerenderResponse,
+  roleBody,
+  statsSchema,
+  successSchema,
+  userParams,
+  userSchema,
+} from '@possumbly/shared';
+import {
+  userQueries,
+  inviteQueries,
+  memeQueries,
+  templateQueries,
+  voteQueries,
+  User,
+} from '../db/schema.js';
 import { isAdmin } from '../middleware/auth.js';
 import { userAudit, adminAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { renderMemeToFile } from '../lib/renderer.js';
+import { rebuildSearchIndex } from '../lib/search.js';
 
-const router = Router();
-
-// SECURITY: Validate ID format
-function isValidId(id: string): boolean {
-  return /^[a-zA-Z0-9_-]+$/.test(id);
-}
+const router = createApiRouter('Admin');
 
 // Get all users (admin only)
-router.get('/users', isAdmin, (_req, res) => {
-  try {
-    const users = userQueries.getAll();
-
-    // SECURITY: Remove sensitive info, only return necessary fields
-    const safeUsers = users.map((user) => ({
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      avatar_url: user.avatar_url,
-      provider: user.provider,
-      role: user.role,
-      invite_redeemed: !!user.invite_redeemed,
-      created_at: user.created_at,
-    }));
-
-    res.json(safeUsers);
-  } catch (err) {
-    console.error('Error listing users:', err);
-    res.status(500).json({ error: 'Failed to list users' });
+router.get(
+  '/users',
+  { summary: 'List users', access: 'admin', response: z.array(userSchema) },
+  isAdmin,
+  async (_req, res) => {
+    try {
+      const users = await userQueries.getAll();
+
+      // SECURITY: Remove sensitive info, only return necessary fields
+      const safeUsers = users.map((user) => ({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        avatar_url: user.avatar_url,
+        provider: user.provider,
+        role: user.role,
+        invite_redeemed: !!user.invite_redeemed,
+        created_at: user.created_at,
+      }));
+
+      res.json(safeUsers);
+    } catch (err) {
+      console.error('Error listing users:', err);
+      res.status(500).json({ error: 'Failed to list users' });
+    }
   }
-});
+);
 
 // Update user role (admin only)
-router.patch('/users/:id/role', isAdmin, (req, res) => {
-  try {
-    const { id } = req.params;
-    const { role } = req.body;
-    const currentUser = req.user as User;
-
-    // SECURITY: Validate ID format
-    if (!isValidId(id)) {
-      return res.status(400).json({ error: 'Invalid user ID' });
+router.patch(
+  '/users/:id/role',
+  {
+    summary: "Change a user's role",
+    access: 'admin',
+    params: userParams,
+    body: roleBody,
+    response: successSchema,
+  },
+  isAdmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+      const currentUser = req.user as User;
+
+      const user = await userQueries.findById(id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      // SECURITY: Prevent self-demotion
+      if (currentUser.id === id && role !== 'admin') {
+        return res.status(400).json({ error: 'Cannot demote yourself' });
+      }
+
+      const oldRole = user.role;
+      await userQueries.setRole(role, id);
+      userAudit.roleChanged(req, id, oldRole, role);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error updating user role:', err);
+      res.status(500).json({ error: 'Failed to update user role' });
     }
+  }
+);
 
-    // SECURITY: Strict role validation
-    if (!role || !['admin', 'user'].includes(role)) {
-      return res.status(400).json({ error: 'Invalid role. Must be "admin" or "user"' });
+// Get stats (admin only)
+router.get(
+  '/stats',
+  { summary: 'Count users and invites', access: 'admin', response: statsSchema },
+  isAdmin,
+  async (_req, res) => {
+    try {
+      const users = await userQueries.getAll();
+      const invites = await inviteQueries.getAll();
+
+      const stats = {
+        totalUsers: users.length,
+        adminUsers: users.filter((u) => u.role === 'admin').length,
+        activeUsers: users.filter((u) => u.invite_redeemed || u.role === 'admin').length,
+        pendingUsers: users.filter((u) => !u.invite_redeemed && u.role !== 'admin').length,
+        totalInvites: invites.length,
+        usedInvites: invites.filter((i) => i.used_by).length,
+        availableInvites: invites.filter((i) => !i.used_by).length,
+      };
+
+      res.json(stats);
+    } catch (err) {
+      console.error('Error getting stats:', err);
+      res.status(500).json({ error: 'Failed to get stats' });
     }
-
-    const user = userQueries.findById(id);
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
+  }
+);
+
+// Re-render every meme from its stored editor state (admin only)
+router.post(
+  '/memes/rerender',
+  {
+    summary: 'Re-render every meme from its editor state',
+    access: 'admin',
+    response: rerenderResponse,
+  },
+  isAdmin,
+  async (_req, res) => {
+    try {
+      let rendered = 0;
+      let failed = 0;
+
+      for (const meme of await memeQueries.getAll()) {
+        const template = await templateQueries.findById(meme.template_id);
+        if (!template) {
+          failed++;
+          continue;
+        }
+
+        try {
+          const filename = await renderMemeToFile(meme, template);
+          await memeQueries.update(meme.editor_state, filename, meme.id);
+          rendered++;
+        } catch (err) {
+          console.error(`Error re-rendering meme ${meme.id}:`, err);
+          failed++;
+        }
+      }
+
+      res.json({ success: true, rendered, failed });
+    } catch (err) {
+      console.error('Error re-rendering memes:', err);
+      res.status(500).json({ error: 'Failed to re-render memes' });
     }
-
-    // SECURITY: Prevent self-demotion
-    if (currentUser.id === id && role !== 'admin') {
-      return res.status(400).json({ error: 'Cannot demote yourself' });
+  }
+);
+
+// Rebuild vote counters from the votes table to repair any drift
+router.post(
+  '/votes/recount',
+  {
+    summary: 'Rebuild vote counters from the votes table',
+    access: 'admin',
+    response: recountResponse,
+  },
+  isAdmin,
+  async (_req, res) => {
+    try {
+      const { checked, corrected } = await voteQueries.recountAll();
+      res.json({ success: true, checked, corrected });
+    } catch (err) {
+      console.error('Error recounting votes:', err);
+      res.status(500).json({ error: 'Failed to recount votes' });
     }
-
-    const oldRole = user.role;
-    userQueries.setRole(role, id);
-    userAudit.roleChanged(req, id, oldRole, role);
-
-    res.json({ success: true });
-  } catch (err) {
-    console.error('Error updating user role:', err);
-    res.status(500).json({ error: 'Failed to update user role' });
   }
-});
-
-// Get stats (admin only)
-router.get('/stats', isAdmin, (_req, res) => {
-  try {
-    const users = userQueries.getAll();
-    const invites = inviteQueries.getAll();
-
-    const stats = {
-      totalUsers: users.length,
-      adminUsers: users.filter((u) => u.role === 'admin').length,
-      activeUsers: users.filter((u) => u.invite_redeemed || u.role === 'admin').length,
-      pendingUsers: users.filter((u) => !u.invite_redeemed && u.role !== 'admin').length,
-      totalInvites: invites.length,
-      usedInvites: invites.filter((i) => i.used_by).length,
-      availableInvites: invites.filter((i) => !i.used_by).length,
-    };
-
-    res.json(stats);
-  } catch (err) {
-    console.error('Error getting stats:', err);
-    res.status(500).json({ error: 'Failed to get stats' });
+);
+
+// Rebuild the search index from scratch
+router.post(
+  '/search/reindex',
+  { summary: 'Rebuild the search index', access: 'admin', response: reindexResponse },
+  isAdmin,
+  async (_req, res) => {
+    try {
+      const indexed = await rebuildSearchIndex();
+      res.json({ success: true, indexed });
+    } catch (err) {
+      console.error('Error rebuilding search index:', err);
+      res.status(500).json({ error: 'Failed to rebuild search index' });
+    }
   }
-});
+);
 
 // Create first admin (only works if no admins exist)
-router.post('/bootstrap', (req, res) => {
-  try {
-    const users = userQueries.getAll();
-    const admins = users.filter((u) => u.role === 'admin');
-
-    // SECURITY: Only allow bootstrap if no admins exist
-    if (admins.length > 0) {
-      return res.status(403).json({ error: 'Admin already exists' });
+router.post(
+  '/bootstrap',
+  { summary: 'Make yourself admin when there are no admins yet', response: messageSchema },
+  async (req, res) => {
+    try {
+      const users = await userQueries.getAll();
+      const admins = users.filter((u) => u.role === 'admin');
+
+      // SECURITY: Only allow bootstrap if no admins exist
+      if (admins.length > 0) {
+        return res.status(403).json({ error: 'Admin already exists' });
+      }
+
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: 'Must be authenticated to bootstrap admin' });
+      }
+
+      const user = req.user as User;
+      await userQueries.setRole('admin', user.id);
+      await userQueries.updateInviteRedeemed(user.id);
+      adminAudit.bootstrap(req, user.id);
+
+      res.json({ success: true, message: 'You are now an admin' });
+    } catch (err) {
+      console.error('Error bootstrapping admin:', err);
+      res.status(500).json({ error: 'Failed to bootstrap admin' });
     }
-
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ error: 'Must be authenticated to bootstrap admin' });
-    }
-
-    const user = req.user as User;
-    userQueries.setRole('admin', user.id);
-    userQueries.updateInviteRedeemed(user.id);
-    adminAudit.bootstrap(req, user.id);
-
-    res.json({ success: true, message: 'You are now an admin' });
-  } catch (err) {
-    console.error('Error bootstrapping admin:', err);
-    res.status(500).json({ error: 'Failed to bootstrap admin' });
   }
-});
+);
 
 export default router;
@@ -0,0 +1,227 @@
+import { z } from 'zod';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import sharp from 'sharp';
+import { nanoid } from 'nanoid';
+import rateLimit from 'express-rate-limit';
+import { assetParams, assetSchema, successSchema, uploadAssetBody } from '@possumbly/shared';
+import { assetQueries, User } from '../db/schema.js';
+import { hasInvite } from '../middleware/auth.js';
+import { assetAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { ASSETS_PATH } from '../lib/renderer.js';
+
+const router = createApiRouter('Assets');
+
+// SECURITY: Rate limiting for resource-intensive operations
+const uploadLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 40, // 40 uploads per hour per IP
+  message: { error: 'Too many uploads. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const deleteLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 deletes per 15 minutes per IP
+  message: { error: 'Too many delete requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// SECURITY: Allowed extensions (whitelist)
+const ALLOWED_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp'];
+const MAX_DIMENSION = 2048;
+
+// Ensure assets directory exists
+if (!fs.existsSync(ASSETS_PATH)) {
+  fs.mkdirSync(ASSETS_PATH, { recursive: true });
+}
+
+// SECURITY: Sanitize asset name - escape HTML entities
+function sanitizeName(name: string): string {
+  return name
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
+// Configure multer for asset uploads
+const storage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    cb(null, ASSETS_PATH);
+  },
+  filename: (_req, file, cb) => {
+    // SECURITY: Generate safe filename, ignore user-provided extension
+    const mimeToExt: Record<string, string> = {
+      'image/jpeg': '.jpg',
+      'image/png': '.png',
+      'image/gif': '.gif',
+      'image/webp': '.webp',
+    };
+    const ext = mimeToExt[file.mimetype] || '.jpg';
+    cb(null, `${nanoid()}${ext}`);
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max
+    files: 1, // Only 1 file at a time
+  },
+  fileFilter: (_req, file, cb) => {
+    // SECURITY: Strict MIME type check
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+    if (!allowedTypes.includes(file.mimetype)) {
+      cb(new Error('Invalid file type. Only JPEG, PNG, GIF, and WebP are allowed.'));
+      return;
+    }
+
+    // SECURITY: Also check extension as secondary validation
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (!ALLOWED_EXTENSIONS.includes(ext)) {
+      cb(new Error('Invalid file extension.'));
+      return;
+    }
+
+    cb(null, true);
+  },
+});
+
+// Get all stickers and the current user's images
+router.get(
+  '/',
+  { summary: 'List stickers and your own images', response: z.array(assetSchema) },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const assets = await assetQueries.getVisible(user.id);
+      res.json(assets);
+    } catch (err) {
+      console.error('Error listing assets:', err);
+      res.status(500).json({ error: 'Failed to list assets' });
+    }
+  }
+);
+
+// Upload a sticker or image
+router.post(
+  '/',
+  {
+    summary: 'Upload a sticker or image',
+    body: uploadAssetBody,
+    file: 'image',
+    status: 201,
+    response: assetSchema,
+  },
+  hasInvite,
+  uploadLimiter,
+  upload.single('image'),
+  async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No image file provided' });
+      }
+
+      const user = req.user as User;
+      const { name, kind } = req.body;
+
+      // SECURITY: Verify file is actually an image using sharp
+      let metadata;
+      try {
+        metadata = await sharp(req.file.path).metadata();
+      } catch {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: 'Invalid image file' });
+      }
+
+      if (!metadata.width || !metadata.height) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: 'Could not read image dimensions' });
+      }
+
+      // SECURITY: Reasonable dimension limits
+      if (metadata.width > MAX_DIMENSION || metadata.height > MAX_DIMENSION) {
+        fs.unlinkSync(req.file.path);
+        return res
+          .status(400)
+          .json({ error: `Image dimensions too large (max ${MAX_DIMENSION}x${MAX_DIMENSION})` });
+      }
+
+      const id = nanoid();
+      const sanitizedName = sanitizeName(name);
+
+      await assetQueries.create(
+        id,
+        kind,
+        sanitizedName,
+        req.file.filename,
+        metadata.width,
+        metadata.height,
+        user.id,
+        Date.now()
+      );
+      assetAudit.created(req, id, kind, sanitizedName);
+
+      const asset = await assetQueries.findById(id);
+      res.status(201).json(asset);
+    } catch (err) {
+      console.error('Error uploading asset:', err);
+      if (req.file && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+      res.status(500).json({ error: 'Failed to upload asset' });
+    }
+  }
+);
+
+// Delete asset (admin or uploader). Memes already using it render without it.
+router.delete(
+  '/:id',
+  { summary: 'Delete an asset', params: assetParams, response: successSchema },
+  hasInvite,
+  deleteLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const asset = await assetQueries.findById(id);
+
+      if (!asset) {
+        return res.status(404).json({ error: 'Asset not found' });
+      }
+
+      if (asset.uploaded_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to delete this asset' });
+      }
+
+      // SECURITY: Validate filename before path operations
+      if (!/^[a-zA-Z0-9_-]+\.(jpg|jpeg|png|gif|webp)$/.test(asset.filename)) {
+        console.error('Invalid filename in database:', asset.filename);
+        return res.status(500).json({ error: 'Invalid asset data' });
+      }
+
+      const filePath = path.join(ASSETS_PATH, asset.filename);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+
+      await assetQueries.delete(id);
+      assetAudit.deleted(req, id);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting asset:', err);
+      res.status(500).json({ error: 'Failed to delete asset' });
+    }
+  }
+);
+
+export default router;
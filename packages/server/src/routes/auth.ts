@@ -1,18 +1,24 @@
-import { Router } from 'express';
+import { authStatusSchema, successSchema, userSchema } from '@possumbly/shared';
 import passport from '../config/passport.js';
 import { isAuthenticated } from '../middleware/auth.js';
 import { User } from '../db/schema.js';
 import { authAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
 
-const router = Router();
+const router = createApiRouter('Auth');
 
 const FRONTEND_URL = process.env.PUBLIC_URL || 'http://localhost:5173';
 
 // Google OAuth
-router.get('/google', passport.authenticate('google', { scope: ['profile', 'email'] }));
+router.get(
+  '/google',
+  { summary: 'Sign in with Google', access: 'public', status: 302 },
+  passport.authenticate('google', { scope: ['profile', 'email'] })
+);
 
 router.get(
   '/google/callback',
+  { summary: 'Finish signing in with Google', access: 'public', status: 302 },
   passport.authenticate('google', { failureRedirect: `${FRONTEND_URL}/login?error=google_failed` }),
   (req, res) => {
     const user = req.user as User;
@@ -26,10 +32,15 @@ router.get(
 );
 
 // GitHub OAuth
-router.get('/github', passport.authenticate('github', { scope: ['user:email'] }));
+router.get(
+  '/github',
+  { summary: 'Sign in with GitHub', access: 'public', status: 302 },
+  passport.authenticate('github', { scope: ['user:email'] })
+);
 
 router.get(
   '/github/callback',
+  { summary: 'Finish signing in with GitHub', access: 'public', status: 302 },
   passport.authenticate('github', { failureRedirect: `${FRONTEND_URL}/login?error=github_failed` }),
   (req, res) => {
     const user = req.user as User;
@@ -43,10 +54,15 @@ router.get(
 );
 
 // Discord OAuth
-router.get('/discord', passport.authenticate('discord'));
+router.get(
+  '/discord',
+  { summary: 'Sign in with Discord', access: 'public', status: 302 },
+  passport.authenticate('discord')
+);
 
 router.get(
   '/discord/callback',
+  { summary: 'Finish signing in with Discord', access: 'public', status: 302 },
   passport.authenticate('discord', {
     failureRedirect: `${FRONTEND_URL}/login?error=discord_failed`,
   }),
@@ -62,50 +78,64 @@ router.get(
 );
 
 // Get current user
-router.get('/me', isAuthenticated, (req, res) => {
-  const user = req.user as User;
-  res.json({
-    id: user.id,
-    email: user.email,
-    name: user.name,
-    avatar_url: user.avatar_url,
-    provider: user.provider,
-    role: user.role,
-    invite_redeemed: !!user.invite_redeemed,
-  });
-});
+router.get(
+  '/me',
+  { summary: 'Get the signed-in user', response: userSchema },
+  isAuthenticated,
+  (req, res) => {
+    const user = req.user as User;
+    res.json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar_url: user.avatar_url,
+      provider: user.provider,
+      role: user.role,
+      invite_redeemed: !!user.invite_redeemed,
+      created_at: user.created_at,
+    });
+  }
+);
 
 // Logout
-router.post('/logout', (req, res, next) => {
-  // Log before destroying session (while we still have user info)
-  authAudit.logout(req);
+router.post(
+  '/logout',
+  { summary: 'Sign out', access: 'public', response: successSchema },
+  (req, res, next) => {
+    // Log before destroying session (while we still have user info)
+    authAudit.logout(req);
 
-  req.logout((err) => {
-    if (err) {
-      return next(err);
-    }
-    req.session.destroy((err) => {
+    req.logout((err) => {
       if (err) {
         return next(err);
       }
-      // SECURITY: Clear the correct session cookie
-      res.clearCookie('possumbly.sid');
-      res.json({ success: true });
+      req.session.destroy((err) => {
+        if (err) {
+          return next(err);
+        }
+        // SECURITY: Clear the correct session cookie
+        res.clearCookie('possumbly.sid');
+        res.json({ success: true });
+      });
     });
-  });
-});
+  }
+);
 
 // Check auth status
-router.get('/status', (req, res) => {
-  if (req.isAuthenticated()) {
-    const user = req.user as User;
-    res.json({
-      authenticated: true,
-      inviteRedeemed: !!user.invite_redeemed || user.role === 'admin',
-    });
-  } else {
-    res.json({ authenticated: false, inviteRedeemed: false });
+router.get(
+  '/status',
+  { summary: 'Check whether you are signed in', access: 'public', response: authStatusSchema },
+  (req, res) => {
+    if (req.isAuthenticated()) {
+      const user = req.user as User;
+      res.json({
+        authenticated: true,
+        inviteRedeemed: !!user.invite_redeemed || user.role === 'admin',
+      });
+    } else {
+      res.json({ authenticated: false, inviteRedeemed: false });
+    }
   }
-});
+);
 
 export default router;
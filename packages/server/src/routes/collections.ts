@@ -0,0 +1,372 @@
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import rateLimit from 'express-rate-limit';
+import {
+  addMemeBody,
+  collectionBody,
+  collectionDetailSchema,
+  collectionMemeParams,
+  collectionParams,
+  collectionSchema,
+  collectionsResponse,
+  paginationQuery,
+  reorderBody,
+  successSchema,
+} from '@possumbly/shared';
+import { collectionQueries, memeQueries, Collection, User } from '../db/schema.js';
+import { hasInvite } from '../middleware/auth.js';
+import { collectionAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { getReactionSummaries } from '../lib/reactions.js';
+
+const router = createApiRouter('Collections');
+
+// SECURITY: Rate limiting for changing collections
+const collectionLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 120, // 120 changes per 15 minutes per IP
+  message: { error: 'Too many collection requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// SECURITY: Limits
+const MAX_COLLECTIONS_PER_USER = 100;
+const MAX_MEMES_PER_COLLECTION = 500;
+
+// Public collections are visible to everyone, private ones to their owner
+function canView(collection: Collection, user: User): boolean {
+  return !!collection.is_public || collection.owner_id === user.id || user.role === 'admin';
+}
+
+// List the current user's collections
+router.get(
+  '/',
+  { summary: 'List your collections', response: z.array(collectionSchema) },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      res.json(await collectionQueries.findByOwner(user.id));
+    } catch (err) {
+      console.error('Error listing collections:', err);
+      res.status(500).json({ error: 'Failed to list collections' });
+    }
+  }
+);
+
+// List everyone's public collections, most recently updated first
+router.get(
+  '/public',
+  {
+    summary: "List everyone's public collections",
+    query: paginationQuery,
+    response: collectionsResponse,
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { page: pageNum, limit: limitNum } = req.query;
+
+      const [collections, total] = await Promise.all([
+        collectionQueries.getPublic(user.id, limitNum, (pageNum - 1) * limitNum),
+        collectionQueries.countPublic(),
+      ]);
+      const totalPages = Math.ceil(total / limitNum);
+
+      res.json({
+        collections,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1,
+        },
+      });
+    } catch (err) {
+      console.error('Error listing public collections:', err);
+      res.status(500).json({ error: 'Failed to list public collections' });
+    }
+  }
+);
+
+// Create a collection
+router.post(
+  '/',
+  { summary: 'Create a collection', body: collectionBody, status: 201, response: collectionSchema },
+  hasInvite,
+  collectionLimiter,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { name, description, is_public } = req.body;
+
+      if ((await collectionQueries.countByOwner(user.id)) >= MAX_COLLECTIONS_PER_USER) {
+        return res
+          .status(400)
+          .json({ error: `Maximum ${MAX_COLLECTIONS_PER_USER} collections allowed` });
+      }
+
+      const id = nanoid();
+      await collectionQueries.create(id, user.id, name, description, is_public, Date.now());
+      collectionAudit.created(req, id, name);
+
+      res.status(201).json(await collectionQueries.getSummary(id, user.id));
+    } catch (err) {
+      console.error('Error creating collection:', err);
+      res.status(500).json({ error: 'Failed to create collection' });
+    }
+  }
+);
+
+// Get a collection with the memes in it the user can see, in collection order
+router.get(
+  '/:id',
+  {
+    summary: 'Get a collection with the memes in it you can see',
+    params: collectionParams,
+    response: collectionDetailSchema,
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const collection = await collectionQueries.getSummary(id, user.id);
+
+      // SECURITY: Other users' private collections look the same as missing ones
+      if (!collection || !canView(collection, user)) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+
+      // Users can see public memes or their own memes, as with votes
+      const rows = (await memeQueries.getCollectionPage(id, user.id)).filter(
+        (meme) => meme.is_public || meme.created_by === user.id || user.role === 'admin'
+      );
+      const reactions = await getReactionSummaries(
+        rows.map((row) => row.id),
+        user.id
+      );
+
+      res.json({
+        ...collection,
+        // Admins can see more of the memes than the summary counts
+        meme_count: rows.length,
+        memes: rows.map(({ user_vote, favorited, ...meme }) => ({
+          ...meme,
+          userVote: user_vote || null,
+          favorited: !!favorited,
+          reactions: reactions.get(meme.id),
+        })),
+      });
+    } catch (err) {
+      console.error('Error getting collection:', err);
+      res.status(500).json({ error: 'Failed to get collection' });
+    }
+  }
+);
+
+// Update a collection's name, description and visibility
+router.put(
+  '/:id',
+  {
+    summary: 'Update a collection',
+    params: collectionParams,
+    body: collectionBody,
+    response: collectionSchema,
+  },
+  hasInvite,
+  collectionLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+      const { name, description, is_public } = req.body;
+
+      const collection = await collectionQueries.findById(id);
+      if (!collection || !canView(collection, user)) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+
+      if (collection.owner_id !== user.id) {
+        return res.status(403).json({ error: 'Not authorized to update this collection' });
+      }
+
+      await collectionQueries.update(id, name, description, is_public, Date.now());
+      collectionAudit.updated(req, id, { name, isPublic: is_public });
+
+      res.json(await collectionQueries.getSummary(id, user.id));
+    } catch (err) {
+      console.error('Error updating collection:', err);
+      res.status(500).json({ error: 'Failed to update collection' });
+    }
+  }
+);
+
+// Delete a collection (owner or admin). The memes in it are kept.
+router.delete(
+  '/:id',
+  { summary: 'Delete a collection', params: collectionParams, response: successSchema },
+  hasInvite,
+  collectionLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const collection = await collectionQueries.findById(id);
+      if (!collection || !canView(collection, user)) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+
+      if (collection.owner_id !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to delete this collection' });
+      }
+
+      await collectionQueries.delete(id);
+      collectionAudit.deleted(req, id);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting collection:', err);
+      res.status(500).json({ error: 'Failed to delete collection' });
+    }
+  }
+);
+
+// Add a meme to the end of a collection
+router.post(
+  '/:id/memes',
+  {
+    summary: 'Add a meme to the end of a collection',
+    params: collectionParams,
+    body: addMemeBody,
+    response: collectionSchema,
+  },
+  hasInvite,
+  collectionLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+      const { meme_id } = req.body;
+
+      const collection = await collectionQueries.findById(id);
+      if (!collection || collection.owner_id !== user.id) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+
+      const meme = await memeQueries.findById(meme_id);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
+
+      // Users can collect public memes or their own memes
+      if (!meme.is_public && meme.created_by !== user.id) {
+        return res.status(403).json({ error: 'Not authorized to view this meme' });
+      }
+
+      const memeIds = await collectionQueries.getMemeIds(id);
+      if (!memeIds.includes(meme_id) && memeIds.length >= MAX_MEMES_PER_COLLECTION) {
+        return res
+          .status(400)
+          .json({ error: `Maximum ${MAX_MEMES_PER_COLLECTION} memes per collection` });
+      }
+
+      if (await collectionQueries.addMeme(id, meme_id, Date.now())) {
+        collectionAudit.memeAdded(req, id, meme_id);
+      }
+
+      res.json(await collectionQueries.getSummary(id, user.id));
+    } catch (err) {
+      console.error('Error adding meme to collection:', err);
+      res.status(500).json({ error: 'Failed to add meme to collection' });
+    }
+  }
+);
+
+// Remove a meme from a collection
+router.delete(
+  '/:id/memes/:memeId',
+  {
+    summary: 'Remove a meme from a collection',
+    params: collectionMemeParams,
+    response: collectionSchema,
+  },
+  hasInvite,
+  collectionLimiter,
+  async (req, res) => {
+    try {
+      const { id, memeId } = req.params;
+      const user = req.user as User;
+
+      const collection = await collectionQueries.findById(id);
+      if (!collection || collection.owner_id !== user.id) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+
+      await collectionQueries.removeMeme(id, memeId, Date.now());
+      collectionAudit.memeRemoved(req, id, memeId);
+
+      res.json(await collectionQueries.getSummary(id, user.id));
+    } catch (err) {
+      console.error('Error removing meme from collection:', err);
+      res.status(500).json({ error: 'Failed to remove meme from collection' });
+    }
+  }
+);
+
+// Reorder a collection. Memes left out of meme_ids, such as ones their creator
+// has since made private, keep their relative order after the listed ones.
+router.put(
+  '/:id/order',
+  {
+    summary: 'Reorder a collection',
+    params: collectionParams,
+    body: reorderBody,
+    response: successSchema,
+  },
+  hasInvite,
+  collectionLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+      const { meme_ids } = req.body;
+
+      const collection = await collectionQueries.findById(id);
+      if (!collection || collection.owner_id !== user.id) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+
+      const current = await collectionQueries.getMemeIds(id);
+      const requested = new Set(meme_ids);
+      if (
+        requested.size !== meme_ids.length ||
+        !meme_ids.every((memeId) => current.includes(memeId))
+      ) {
+        return res
+          .status(400)
+          .json({ error: 'meme_ids must list memes in the collection at most once' });
+      }
+
+      await collectionQueries.reorder(
+        id,
+        [...meme_ids, ...current.filter((memeId) => !requested.has(memeId))],
+        Date.now()
+      );
+      collectionAudit.updated(req, id, { reordered: true });
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error reordering collection:', err);
+      res.status(500).json({ error: 'Failed to reorder collection' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import rateLimit from 'express-rate-limit';
+import {
+  commentParams,
+  commentSchema,
+  createCommentBody,
+  memeIdParams,
+  successSchema,
+  updateCommentBody,
+} from '@possumbly/shared';
+import { commentQueries, memeQueries, Meme, User } from '../db/schema.js';
+import { hasInvite } from '../middleware/auth.js';
+import { commentAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+
+const router = createApiRouter('Comments');
+
+// SECURITY: Rate limiting for writing comments
+const commentLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 comments or edits per 15 minutes per IP
+  message: { error: 'Too many comments. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const deleteLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 deletes per 15 minutes per IP
+  message: { error: 'Too many delete requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const MAX_COMMENTS_PER_MEME = 1000;
+
+// Users can see comments on public memes and their own memes
+function canView(meme: Meme, user: User): boolean {
+  return !!meme.is_public || meme.created_by === user.id || user.role === 'admin';
+}
+
+// List a meme's comments, oldest first. Replies carry their parent's ID.
+router.get(
+  '/:memeId',
+  {
+    summary: "List a meme's comments, oldest first",
+    params: memeIdParams,
+    response: z.array(commentSchema),
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { memeId } = req.params;
+      const user = req.user as User;
+
+      const meme = await memeQueries.findById(memeId);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
+
+      if (!canView(meme, user)) {
+        return res.status(403).json({ error: 'Not authorized to view this meme' });
+      }
+
+      res.json(await commentQueries.findByMeme(memeId));
+    } catch (err) {
+      console.error('Error listing comments:', err);
+      res.status(500).json({ error: 'Failed to list comments' });
+    }
+  }
+);
+
+// Comment on a meme, or reply to one of its comments
+router.post(
+  '/:memeId',
+  {
+    summary: 'Comment on a public meme',
+    params: memeIdParams,
+    body: createCommentBody,
+    status: 201,
+    response: commentSchema,
+  },
+  hasInvite,
+  commentLimiter,
+  async (req, res) => {
+    try {
+      const { memeId } = req.params;
+      const user = req.user as User;
+      const { parent_id, body } = req.body;
+
+      const meme = await memeQueries.findById(memeId);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
+
+      // Users can only comment on public memes
+      if (!meme.is_public) {
+        return res.status(403).json({ error: 'Can only comment on public memes' });
+      }
+
+      if (parent_id) {
+        const parent = await commentQueries.findById(parent_id);
+        if (!parent || parent.meme_id !== memeId) {
+          return res.status(404).json({ error: 'Parent comment not found' });
+        }
+      }
+
+      if ((await commentQueries.countByMeme(memeId)) >= MAX_COMMENTS_PER_MEME) {
+        return res.status(400).json({ error: 'This meme has reached the comment limit' });
+      }
+
+      const id = nanoid();
+      await commentQueries.create(id, memeId, user.id, parent_id, body, Date.now());
+      commentAudit.created(req, id, memeId);
+
+      const comment = await commentQueries.findById(id);
+      res.status(201).json({
+        ...comment,
+        author_name: user.name,
+        author_avatar: user.avatar_url,
+      });
+    } catch (err) {
+      console.error('Error creating comment:', err);
+      res.status(500).json({ error: 'Failed to create comment' });
+    }
+  }
+);
+
+// Edit your own comment
+router.put(
+  '/:memeId/:commentId',
+  {
+    summary: 'Edit your comment',
+    params: commentParams,
+    body: updateCommentBody,
+    response: commentSchema,
+  },
+  hasInvite,
+  commentLimiter,
+  async (req, res) => {
+    try {
+      const { memeId, commentId } = req.params;
+      const user = req.user as User;
+
+      const comment = await commentQueries.findById(commentId);
+      if (!comment || comment.meme_id !== memeId || comment.deleted_at) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+
+      if (comment.user_id !== user.id) {
+        return res.status(403).json({ error: 'Not authorized to edit this comment' });
+      }
+
+      await commentQueries.updateBody(commentId, req.body.body, Date.now());
+      commentAudit.updated(req, commentId, memeId);
+
+      const updated = await commentQueries.findById(commentId);
+      res.json({
+        ...updated,
+        author_name: user.name,
+        author_avatar: user.avatar_url,
+      });
+    } catch (err) {
+      console.error('Error updating comment:', err);
+      res.status(500).json({ error: 'Failed to update comment' });
+    }
+  }
+);
+
+// Delete a comment (author or admin). A comment with replies is cleared instead
+// of removed so the replies keep their place in the thread.
+router.delete(
+  '/:memeId/:commentId',
+  { summary: 'Delete a comment', params: commentParams, response: successSchema },
+  hasInvite,
+  deleteLimiter,
+  async (req, res) => {
+    try {
+      const { memeId, commentId } = req.params;
+      const user = req.user as User;
+
+      const comment = await commentQueries.findById(commentId);
+      if (!comment || comment.meme_id !== memeId || comment.deleted_at) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+
+      if (comment.user_id !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to delete this comment' });
+      }
+
+      if (await commentQueries.hasReplies(commentId)) {
+        await commentQueries.markDeleted(commentId, Date.now());
+      } else {
+        await commentQueries.delete(commentId);
+
+        // Remove cleared ancestors that no longer have any replies
+        let parentId = comment.parent_id;
+        while (parentId) {
+          const parent = await commentQueries.findById(parentId);
+          if (!parent?.deleted_at || (await commentQueries.hasReplies(parent.id))) break;
+          await commentQueries.delete(parent.id);
+          parentId = parent.parent_id;
+        }
+      }
+
+      commentAudit.deleted(req, commentId, memeId);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      res.status(500).json({ error: 'Failed to delete comment' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { nanoid } from 'nanoid';
+import rateLimit from 'express-rate-limit';
+import { fontParams, fontSchema, successSchema, uploadFontBody } from '@possumbly/shared';
+import { fontQueries, User } from '../db/schema.js';
+import { hasInvite, isAdmin } from '../middleware/auth.js';
+import { fontAudit } from '../lib/audit.js';
+import { FONTS_PATH, forgetFont, validateFontFile } from '../lib/fonts.js';
+import { createApiRouter } from '../lib/openapi.js';
+
+const router = createApiRouter('Fonts');
+
+// SECURITY: Rate limiting for resource-intensive operations
+const uploadLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 20, // 20 uploads per hour per IP
+  message: { error: 'Too many uploads. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const MAX_FAMILY_LENGTH = 100;
+
+// Ensure fonts directory exists
+if (!fs.existsSync(FONTS_PATH)) {
+  fs.mkdirSync(FONTS_PATH, { recursive: true });
+}
+
+// SECURITY: Family names end up in CSS and SVG, so keep them to plain characters
+function isValidFamily(family: string): boolean {
+  return family.length <= MAX_FAMILY_LENGTH && /^[\p{L}\p{N}][\p{L}\p{N} _-]*$/u.test(family);
+}
+
+// Font files are checked by content before being written, so keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max
+    files: 1, // Only 1 file at a time
+  },
+});
+
+// Get all fonts in the library
+router.get(
+  '/',
+  { summary: 'List fonts in the library', response: z.array(fontSchema) },
+  hasInvite,
+  async (_req, res) => {
+    try {
+      const fonts = await fontQueries.getAll();
+      res.json(fonts);
+    } catch (err) {
+      console.error('Error listing fonts:', err);
+      res.status(500).json({ error: 'Failed to list fonts' });
+    }
+  }
+);
+
+// Upload a font (admin only). The family defaults to the name inside the font file.
+router.post(
+  '/',
+  {
+    summary: 'Upload a font',
+    access: 'admin',
+    body: uploadFontBody,
+    file: 'font',
+    status: 201,
+    response: fontSchema,
+  },
+  isAdmin,
+  uploadLimiter,
+  upload.single('font'),
+  async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No font file provided' });
+      }
+
+      const user = req.user as User;
+
+      const validation = validateFontFile(req.file.buffer);
+      if (!validation.valid) {
+        return res.status(400).json({ error: validation.error });
+      }
+
+      const { family: requestedFamily } = req.body;
+      const family = (requestedFamily || validation.familyName).trim();
+      if (!isValidFamily(family)) {
+        return res.status(400).json({
+          error: `Family name must be ${MAX_FAMILY_LENGTH} characters or less and contain only letters, numbers, spaces, hyphens, and underscores`,
+        });
+      }
+
+      if (await fontQueries.findByFamily(family)) {
+        return res.status(409).json({ error: 'A font with this family name already exists' });
+      }
+
+      const id = nanoid();
+      const filename = `${nanoid()}.${validation.format}`;
+      fs.writeFileSync(path.join(FONTS_PATH, filename), req.file.buffer);
+
+      await fontQueries.create(id, family, filename, validation.format, user.id, Date.now());
+      fontAudit.created(req, id, family);
+
+      const font = await fontQueries.findById(id);
+      res.status(201).json(font);
+    } catch (err) {
+      console.error('Error uploading font:', err);
+      res.status(500).json({ error: 'Failed to upload font' });
+    }
+  }
+);
+
+// Delete a font (admin only). Text using it falls back to system fonts.
+router.delete(
+  '/:id',
+  { summary: 'Delete a font', access: 'admin', params: fontParams, response: successSchema },
+  isAdmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const font = await fontQueries.findById(id);
+
+      if (!font) {
+        return res.status(404).json({ error: 'Font not found' });
+      }
+
+      // SECURITY: Validate filename before path operations
+      if (!/^[a-zA-Z0-9_-]+\.(ttf|otf|woff2)$/.test(font.filename)) {
+        console.error('Invalid filename in database:', font.filename);
+        return res.status(500).json({ error: 'Invalid font data' });
+      }
+
+      const filePath = path.join(FONTS_PATH, font.filename);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+      forgetFont(font.filename);
+
+      await fontQueries.delete(id);
+      fontAudit.deleted(req, id, font.family);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting font:', err);
+      res.status(500).json({ error: 'Failed to delete font' });
+    }
+  }
+);
+
+export default router;
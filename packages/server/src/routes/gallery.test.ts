@@ -0,0 +1,68 @@
+import '../test/uploads.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { initializeTestDatabase } from '../test/database.js';
+import { startTestApp, TestApp } from '../test/app.js';
+import { memeQueries, templateQueries, userQueries } from '../db/schema.js';
+import galleryRoutes from './gallery.js';
+
+describe('gallery remix sources', () => {
+  let app: TestApp;
+
+  before(async () => {
+    await initializeTestDatabase();
+    for (const [id, name] of [
+      ['alice', 'Alice'],
+      ['bob', 'Bob'],
+    ]) {
+      await userQueries.create(id, null, name, null, 'github', id, Date.now());
+      await userQueries.updateInviteRedeemed(id);
+    }
+    await templateQueries.create('plain', 'Plain', 'plain.png', 200, 100, 'alice', Date.now());
+
+    // Alice's source meme, remixed publicly by Bob
+    await memeQueries.create('source', 'plain', 'alice', '{}', null, Date.now());
+    await memeQueries.create('remix', 'plain', 'bob', '{}', null, Date.now(), 'source');
+    await memeQueries.setPublic('remix', true);
+
+    app = await startTestApp({ '/api/gallery': galleryRoutes });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  async function remixAsSeenBy(user: string) {
+    const response = await app.request('/api/gallery', { user });
+    assert.equal(response.status, 200);
+    const { memes } = await response.json();
+    const remix = memes.find((meme: { id: string }) => meme.id === 'remix');
+    return { remixed_from: remix.remixed_from, remixed_from_creator: remix.remixed_from_creator };
+  }
+
+  it('hides a private source from other users', async () => {
+    assert.deepEqual(await remixAsSeenBy('bob'), {
+      remixed_from: null,
+      remixed_from_creator: null,
+    });
+  });
+
+  it('shows a private source to its creator', async () => {
+    assert.deepEqual(await remixAsSeenBy('alice'), {
+      remixed_from: 'source',
+      remixed_from_creator: 'Alice',
+    });
+  });
+
+  it('shows a public source to everyone', async () => {
+    await memeQueries.setPublic('source', true);
+    try {
+      assert.deepEqual(await remixAsSeenBy('bob'), {
+        remixed_from: 'source',
+        remixed_from_creator: 'Alice',
+      });
+    } finally {
+      await memeQueries.setPublic('source', false);
+    }
+  });
+});
@@ -0,0 +1,160 @@
+import { UPLOADS_PATH } from '../test/uploads.js';
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import type { TextBox } from '@possumbly/shared';
+import { initializeTestDatabase } from '../test/database.js';
+import { startTestApp, TestApp } from '../test/app.js';
+import {
+  auditQueries,
+  memeQueries,
+  memeRevisionQueries,
+  templateQueries,
+  userQueries,
+} from '../db/schema.js';
+import generateRoutes from './generate.js';
+
+const zones = [
+  { x: 10, y: 10, width: 80, fontSize: 20, fontFamily: 'Impact', align: 'left' },
+  { x: 110, y: 60, width: 80, fontSize: 24, fontFamily: 'Arial', align: 'right' },
+];
+
+describe('generate', () => {
+  let app: TestApp;
+  let audited: string[];
+
+  before(async () => {
+    await initializeTestDatabase();
+    await userQueries.create('alice', null, 'Alice', null, 'github', '1', Date.now());
+    await userQueries.updateInviteRedeemed('alice');
+
+    const templatePath = path.join(UPLOADS_PATH, 'templates', 'drake.png');
+    fs.mkdirSync(path.dirname(templatePath), { recursive: true });
+    await sharp({
+      create: { width: 200, height: 100, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toFile(templatePath);
+    await templateQueries.create('drake', 'Drake Format', 'drake.png', 200, 100, 'alice', 0);
+    await templateQueries.updateTextZones('drake', JSON.stringify(zones));
+
+    const create = mock.method(auditQueries, 'create');
+    audited = [];
+    create.mock.mockImplementation(async (_id, action) => {
+      audited.push(action);
+    });
+
+    app = await startTestApp({ '/api/generate': generateRoutes });
+  });
+
+  after(async () => {
+    await app.close();
+    mock.restoreAll();
+  });
+
+  afterEach(() => {
+    audited.length = 0;
+  });
+
+  function generate(body: Record<string, unknown>) {
+    return app.request('/api/generate', {
+      method: 'POST',
+      user: 'alice',
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('fills the text zones with the captions in order', async () => {
+    const response = await generate({ template_id: 'drake', captions: ['no', 'yes'] });
+    assert.equal(response.status, 201);
+    const { id, output_filename } = await response.json();
+    assert.ok(fs.existsSync(path.join(UPLOADS_PATH, 'memes', output_filename)));
+
+    const meme = await memeQueries.findById(id);
+    const { textBoxes } = JSON.parse(meme!.editor_state);
+    const slots = textBoxes.map(({ text, x, y, width, fontSize, fontFamily, align }: TextBox) => ({
+      text,
+      x,
+      y,
+      width,
+      fontSize,
+      fontFamily,
+      align,
+    }));
+    assert.deepEqual(slots, [
+      { text: 'no', ...zones[0] },
+      { text: 'yes', ...zones[1] },
+    ]);
+    assert.equal(meme!.is_public, 0);
+    assert.equal((await memeRevisionQueries.findByMeme(id)).length, 1);
+    assert.deepEqual(audited, ['meme.created']);
+  });
+
+  it('leaves zones without a caption empty', async () => {
+    const response = await generate({ template_id: 'drake', captions: ['only'] });
+    assert.equal(response.status, 201);
+    const meme = await memeQueries.findById((await response.json()).id);
+    const { textBoxes } = JSON.parse(meme!.editor_state);
+    assert.deepEqual(
+      textBoxes.map(({ text }: { text: string }) => text),
+      ['only', '']
+    );
+  });
+
+  it('refuses more captions than the template has zones', async () => {
+    const response = await generate({ template_id: 'drake', captions: ['a', 'b', 'c'] });
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'This template has 2 text zones' });
+  });
+
+  it('finds a template by name, ignoring case', async () => {
+    const response = await generate({ template_name: '  drake FORMAT ', captions: ['hi'] });
+    assert.equal(response.status, 201);
+    const body = await response.json();
+    assert.equal(body.template_id, 'drake');
+    assert.equal(body.template_name, 'Drake Format');
+
+    const missing = await generate({ template_name: 'Distracted', captions: ['hi'] });
+    assert.equal(missing.status, 404);
+  });
+
+  it('publishes the meme when asked', async () => {
+    const response = await generate({ template_id: 'drake', captions: ['hi'], is_public: true });
+    assert.equal(response.status, 201);
+    const { id, is_public } = await response.json();
+    assert.equal(is_public, true);
+    assert.equal((await memeQueries.findById(id))!.is_public, 1);
+    assert.deepEqual(audited, ['meme.created', 'meme.visibility_changed']);
+  });
+
+  it('responds with the image itself', async () => {
+    const response = await generate({ template_id: 'drake', captions: ['hi'], output: 'image' });
+    assert.equal(response.status, 201);
+    assert.equal(response.headers.get('content-type'), 'image/png');
+    const id = response.headers.get('x-meme-id');
+    assert.ok(id && (await memeQueries.findById(id)));
+    const { width, height } = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+    assert.deepEqual({ width, height }, { width: 200, height: 100 });
+  });
+
+  it('leaves nothing behind when saving fails', async () => {
+    const memes = await memeQueries.findByUser('alice');
+    const files = fs.readdirSync(path.join(UPLOADS_PATH, 'memes'));
+
+    const setPublic = mock.method(memeQueries, 'setPublic', async () => {
+      throw new Error('database unavailable');
+    });
+    try {
+      const response = await generate({ template_id: 'drake', captions: ['hi'], is_public: true });
+      assert.equal(response.status, 500);
+    } finally {
+      setPublic.mock.restore();
+    }
+
+    assert.deepEqual(await memeQueries.findByUser('alice'), memes);
+    assert.deepEqual(fs.readdirSync(path.join(UPLOADS_PATH, 'memes')), files);
+    assert.deepEqual(audited, []);
+  });
+});
@@ -0,0 +1,128 @@
+import path from 'path';
+import fs from 'fs';
+import { nanoid } from 'nanoid';
+import rateLimit from 'express-rate-limit';
+import { generateBody, generateResponse } from '@possumbly/shared';
+import { memeQueries, templateQueries, Template, User } from '../db/schema.js';
+import { hasInvite } from '../middleware/auth.js';
+import { memeAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { renderEditorState, writeMemeFile } from '../lib/renderer.js';
+import { indexMeme } from '../lib/search.js';
+import { deleteRevisions, recordRevision, snapshotRender } from '../lib/revisions.js';
+import { captionTextBoxes, getTextZones } from '../lib/textZones.js';
+
+// Caption a template, save and render the meme in one call, for bots and
+// scripts (mounted at /api/generate)
+const router = createApiRouter('Generate');
+
+// SECURITY: Rate limiting; every call renders an image
+const generateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 generated memes per 15 minutes per IP
+  message: { error: 'Too many generate requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const UPLOADS_PATH = process.env.UPLOADS_PATH || './data/uploads';
+const MEMES_PATH = path.join(UPLOADS_PATH, 'memes');
+
+/**
+ * Absolute URL of a rendered meme image. Like every upload it needs a session
+ * or API token to fetch.
+ */
+function memeImageUrl(filename: string): string {
+  const publicUrl = process.env.PUBLIC_URL || 'http://localhost:5173';
+  return `${publicUrl.replace(/\/+$/, '')}/uploads/memes/${filename}`;
+}
+
+// Create a meme from a template and captions, render it, and return its image.
+// Captions fill the template's text zones in order. With `output: 'image'` the
+// response is the image itself, with the meme ID in `X-Meme-Id`.
+router.post(
+  '/',
+  {
+    summary: 'Caption a template and render the meme in one call',
+    body: generateBody,
+    status: 201,
+    response: generateResponse,
+  },
+  hasInvite,
+  generateLimiter,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { template_id, template_name, captions, is_public, output } = req.body;
+
+      let template: Template | undefined;
+      if (template_id !== undefined) {
+        template = await templateQueries.findById(template_id);
+      } else if (template_name !== undefined) {
+        template = await templateQueries.findByName(template_name);
+      }
+
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+
+      const zones = getTextZones(template);
+
+      if (captions.length > zones.length) {
+        return res.status(400).json({
+          error: `This template has ${zones.length} text ${zones.length === 1 ? 'zone' : 'zones'}`,
+        });
+      }
+
+      const state = { textBoxes: captionTextBoxes(zones, captions), imageLayers: [] };
+      const stateJson = JSON.stringify(state);
+
+      // Render before saving anything, so a failed render leaves no meme
+      // behind for a retrying bot to pile up
+      const { buffer, format } = await renderEditorState(template, state);
+
+      const id = nanoid();
+      const filename = writeMemeFile(id, buffer, format);
+      try {
+        await memeQueries.create(id, template.id, user.id, stateJson, filename, Date.now());
+        await recordRevision(id, stateJson, user.id);
+        await snapshotRender(id, filename);
+        if (is_public) {
+          await memeQueries.setPublic(id, true);
+        }
+      } catch (err) {
+        await deleteRevisions(id);
+        await memeQueries.delete(id);
+        fs.rmSync(path.join(MEMES_PATH, filename), { force: true });
+        throw err;
+      }
+      // Only audit a meme that was saved in full
+      memeAudit.created(req, id, template.id);
+      if (is_public) {
+        memeAudit.visibilityChanged(req, id, true);
+      }
+
+      await indexMeme((await memeQueries.findById(id))!);
+
+      if (output === 'image') {
+        res.setHeader('X-Meme-Id', id);
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        return res.status(201).sendFile(path.resolve(path.join(MEMES_PATH, filename)));
+      }
+
+      res.status(201).json({
+        id,
+        template_id: template.id,
+        template_name: template.name,
+        output_filename: filename,
+        image_url: memeImageUrl(filename),
+        is_public,
+      });
+    } catch (err) {
+      console.error('Error generating meme:', err);
+      res.status(500).json({ error: 'Failed to generate meme' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,42 @@
+import { ApiRouter } from '../lib/openapi.js';
+import authRoutes from './auth.js';
+import inviteRoutes from './invites.js';
+import templateRoutes from './templates.js';
+import memeRoutes from './memes.js';
+import adminRoutes from './admin.js';
+import voteRoutes from './votes.js';
+import commentRoutes from './comments.js';
+import collectionRoutes from './collections.js';
+import reactionRoutes from './reactions.js';
+import galleryRoutes from './gallery.js';
+import searchRoutes from './search.js';
+import tagRoutes from './tags.js';
+import assetRoutes from './assets.js';
+import fontRoutes from './fonts.js';
+import shareRoutes from './shares.js';
+import webhookRoutes from './webhooks.js';
+import tokenRoutes from './tokens.js';
+import generateRoutes from './generate.js';
+
+// Every router and the path it's mounted at. index.ts mounts them all and builds
+// the OpenAPI document from this map, so the document lists every route.
+export const routes: Record<string, ApiRouter> = {
+  '/s': shareRoutes, // Public share links, viewable without signing in
+  '/auth': authRoutes,
+  '/api/invites': inviteRoutes,
+  '/api/templates': templateRoutes,
+  '/api/memes': memeRoutes,
+  '/api/admin': adminRoutes,
+  '/api/votes': voteRoutes,
+  '/api/comments': commentRoutes,
+  '/api/collections': collectionRoutes,
+  '/api/reactions': reactionRoutes,
+  '/api/gallery': galleryRoutes,
+  '/api/search': searchRoutes,
+  '/api/tags': tagRoutes,
+  '/api/assets': assetRoutes,
+  '/api/fonts': fontRoutes,
+  '/api/webhooks': webhookRoutes,
+  '/api/tokens': tokenRoutes,
+  '/api/generate': generateRoutes,
+};
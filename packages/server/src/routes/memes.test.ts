@@ -0,0 +1,114 @@
+import { UPLOADS_PATH } from '../test/uploads.js';
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { initializeTestDatabase } from '../test/database.js';
+import { startTestApp, TestApp } from '../test/app.js';
+import {
+  auditQueries,
+  memeQueries,
+  memeRevisionQueries,
+  templateQueries,
+  userQueries,
+} from '../db/schema.js';
+import memeRoutes from './memes.js';
+
+describe('meme revisions', () => {
+  const templatePath = path.join(UPLOADS_PATH, 'templates', 'plain.png');
+  let app: TestApp;
+  let audited: string[];
+
+  before(async () => {
+    await initializeTestDatabase();
+    await userQueries.create('alice', null, 'Alice', null, 'github', '1', Date.now());
+    await userQueries.updateInviteRedeemed('alice');
+
+    fs.mkdirSync(path.dirname(templatePath), { recursive: true });
+    await sharp({
+      create: { width: 200, height: 100, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toFile(templatePath);
+    await templateQueries.create('plain', 'Plain', 'plain.png', 200, 100, 'alice', Date.now());
+
+    const create = mock.method(auditQueries, 'create');
+    audited = [];
+    create.mock.mockImplementation(async (_id, action) => {
+      audited.push(action);
+    });
+
+    app = await startTestApp({ '/api/memes': memeRoutes });
+  });
+
+  after(async () => {
+    await app.close();
+    mock.restoreAll();
+  });
+
+  const stateWith = (text: string) => ({ textBoxes: [{ id: 'top', text }] });
+
+  // A meme saved twice, with its revisions oldest first
+  async function createEditedMeme() {
+    const created = await app.request('/api/memes', {
+      method: 'POST',
+      user: 'alice',
+      body: JSON.stringify({ template_id: 'plain', editor_state: stateWith('first') }),
+    });
+    assert.equal(created.status, 201);
+    const { id } = await created.json();
+
+    const updated = await app.request(`/api/memes/${id}`, {
+      method: 'PUT',
+      user: 'alice',
+      body: JSON.stringify({ editor_state: stateWith('second') }),
+    });
+    assert.equal(updated.status, 200);
+
+    const revisions = await memeRevisionQueries.findByMeme(id);
+    return { id, revisions: revisions.reverse() };
+  }
+
+  it('restores and renders an earlier revision', async () => {
+    const { id, revisions } = await createEditedMeme();
+    audited.length = 0;
+
+    const response = await app.request(`/api/memes/${id}/revisions/${revisions[0].id}/restore`, {
+      method: 'POST',
+      user: 'alice',
+    });
+    assert.equal(response.status, 200);
+    const meme = await response.json();
+    assert.equal(meme.editor_state.textBoxes[0].text, 'first');
+    assert.equal(meme.output_filename, `${id}.png`);
+    assert.ok(fs.existsSync(path.join(UPLOADS_PATH, 'memes', meme.output_filename)));
+
+    const [latest] = await memeRevisionQueries.findByMeme(id);
+    assert.equal(latest.restored_from, revisions[0].id);
+    assert.equal(latest.output_filename, `${latest.id}.png`);
+    assert.deepEqual(audited, ['meme.restored']);
+  });
+
+  it('leaves the meme untouched when rendering fails', async () => {
+    const { id, revisions } = await createEditedMeme();
+    const before = await memeQueries.findById(id);
+    audited.length = 0;
+
+    const image = fs.readFileSync(templatePath);
+    fs.rmSync(templatePath);
+    try {
+      const response = await app.request(`/api/memes/${id}/revisions/${revisions[0].id}/restore`, {
+        method: 'POST',
+        user: 'alice',
+      });
+      assert.equal(response.status, 500);
+    } finally {
+      fs.writeFileSync(templatePath, image);
+    }
+
+    assert.deepEqual(await memeQueries.findById(id), before);
+    assert.equal((await memeRevisionQueries.findByMeme(id)).length, revisions.length);
+    assert.deepEqual(audited, []);
+  });
+});
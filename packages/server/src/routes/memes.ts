@@ -1,14 +1,48 @@
-import { Router } from 'express';
+import { z } from 'zod';
 import path from 'path';
 import fs from 'fs';
-import sharp from 'sharp';
 import { nanoid } from 'nanoid';
 import rateLimit from 'express-rate-limit';
-import { memeQueries, templateQueries, voteQueries, User } from '../db/schema.js';
+import {
+  createMemeBody,
+  createShareBody,
+  EditorState,
+  favoriteResponse,
+  galleryMemeSchema,
+  memeParams,
+  memeRevisionSchema,
+  memeSchema,
+  memeShareSchema,
+  renderResponse,
+  revisionParams,
+  shareParams,
+  successSchema,
+  updateMemeBody,
+  visibilityBody,
+} from '@possumbly/shared';
+import {
+  assetQueries,
+  collectionQueries,
+  commentQueries,
+  favoriteQueries,
+  memeQueries,
+  memeRevisionQueries,
+  memeShareQueries,
+  reactionQueries,
+  templateQueries,
+  voteQueries,
+  User,
+} from '../db/schema.js';
 import { hasInvite } from '../middleware/auth.js';
-import { memeAudit } from '../lib/audit.js';
+import { favoriteAudit, memeAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { ASSETS_PATH, renderMemeToFile } from '../lib/renderer.js';
+import { indexMeme, removeFromSearchIndex } from '../lib/search.js';
+import { deleteRevisions, recordRevision, snapshotRender } from '../lib/revisions.js';
+import { getReactionSummaries } from '../lib/reactions.js';
+import { generateShareToken, toShareResponse } from '../lib/shares.js';
 
-const router = Router();
+const router = createApiRouter('Memes');
 
 // SECURITY: Rate limiting for resource-intensive operations
 const renderLimiter = rateLimit({
@@ -19,6 +53,30 @@ const renderLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+const remixLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 remixes per 15 minutes per IP
+  message: { error: 'Too many remix requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const favoriteLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60, // 60 favorites per 15 minutes per IP
+  message: { error: 'Too many favorite requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const shareLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 share link changes per 15 minutes per IP
+  message: { error: 'Too many share requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 const deleteLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 30, // 30 deletes per 15 minutes per IP
@@ -31,63 +89,87 @@ const UPLOADS_PATH = process.env.UPLOADS_PATH || './data/uploads';
 const MEMES_PATH = path.join(UPLOADS_PATH, 'memes');
 
 // SECURITY: Limits
-const MAX_EDITOR_STATE_SIZE = 100 * 1024; // 100KB max for editor state
-const MAX_TEXT_BOXES = 50;
-const MAX_TEXT_LENGTH = 1000;
+const MAX_ACTIVE_SHARES = 20;
 
 // Ensure memes directory exists
 if (!fs.existsSync(MEMES_PATH)) {
   fs.mkdirSync(MEMES_PATH, { recursive: true });
 }
 
-// SECURITY: Validate editor state structure
-function validateEditorState(state: unknown): { valid: boolean; error?: string } {
-  if (!state || typeof state !== 'object') {
-    return { valid: false, error: 'Editor state must be an object' };
-  }
-
-  const editorState = state as Record<string, unknown>;
+// SECURITY: Image layers may only use stickers, existing templates and the
+// meme owner's own images
+async function validateLayerSources(
+  state: EditorState,
+  ownerId: string | null
+): Promise<{ valid: boolean; error?: string }> {
+  for (const layer of state.imageLayers || []) {
+    if (layer.source === 'template') {
+      if (!(await templateQueries.findById(layer.refId))) {
+        return { valid: false, error: 'Image layer template not found' };
+      }
+      continue;
+    }
 
-  if (!Array.isArray(editorState.textBoxes)) {
-    return { valid: false, error: 'Editor state must contain textBoxes array' };
+    const asset = await assetQueries.findById(layer.refId);
+    if (!asset || (asset.kind !== 'sticker' && asset.uploaded_by !== ownerId)) {
+      return { valid: false, error: 'Image layer asset not found' };
+    }
   }
 
-  if (editorState.textBoxes.length > MAX_TEXT_BOXES) {
-    return { valid: false, error: `Maximum ${MAX_TEXT_BOXES} text boxes allowed` };
-  }
+  return { valid: true };
+}
 
-  for (const box of editorState.textBoxes) {
-    if (typeof box !== 'object' || box === null) {
-      return { valid: false, error: 'Invalid text box format' };
+// Uploaded images can only be used by their owner, so a remix gets its own copy
+// of each one the remixer doesn't own. Layers whose image is gone are dropped.
+async function copyLayerAssets(
+  state: Record<string, unknown>,
+  userId: string
+): Promise<Record<string, unknown>> {
+  const layers = (state.imageLayers || []) as { source: string; refId: string }[];
+  const copied = new Map<string, string>();
+  const imageLayers = [];
+
+  for (const layer of layers) {
+    if (layer.source === 'template') {
+      if (await templateQueries.findById(layer.refId)) {
+        imageLayers.push(layer);
+      }
+      continue;
     }
 
-    const textBox = box as Record<string, unknown>;
-
-    if (typeof textBox.text === 'string' && textBox.text.length > MAX_TEXT_LENGTH) {
-      return { valid: false, error: `Text must be ${MAX_TEXT_LENGTH} characters or less` };
+    const asset = await assetQueries.findById(layer.refId);
+    if (!asset) continue;
+    if (asset.kind === 'sticker' || asset.uploaded_by === userId) {
+      imageLayers.push(layer);
+      continue;
     }
 
-    // Validate numeric fields are numbers
-    const numericFields = ['x', 'y', 'width', 'fontSize', 'strokeWidth', 'rotation'];
-    for (const field of numericFields) {
-      if (textBox[field] !== undefined && typeof textBox[field] !== 'number') {
-        return { valid: false, error: `${field} must be a number` };
-      }
+    let copyId = copied.get(asset.id);
+    if (!copyId) {
+      // SECURITY: Validate filename before path operations
+      const match = /^[a-zA-Z0-9_-]+(\.(jpg|jpeg|png|gif|webp))$/.exec(asset.filename);
+      const sourcePath = path.join(ASSETS_PATH, asset.filename);
+      if (!match || !fs.existsSync(sourcePath)) continue;
+
+      copyId = nanoid();
+      const filename = `${nanoid()}${match[1]}`;
+      fs.copyFileSync(sourcePath, path.join(ASSETS_PATH, filename));
+      await assetQueries.create(
+        copyId,
+        'image',
+        asset.name,
+        filename,
+        asset.width,
+        asset.height,
+        userId,
+        Date.now()
+      );
+      copied.set(asset.id, copyId);
     }
+    imageLayers.push({ ...layer, refId: copyId });
   }
 
-  // Check total size
-  const stateJson = JSON.stringify(state);
-  if (stateJson.length > MAX_EDITOR_STATE_SIZE) {
-    return { valid: false, error: 'Editor state too large' };
-  }
-
-  return { valid: true };
-}
-
-// SECURITY: Validate ID format
-function isValidId(id: string): boolean {
-  return /^[a-zA-Z0-9_-]+$/.test(id);
+  return { ...state, imageLayers };
 }
 
 // SECURITY: Safe JSON parsing with fallback
@@ -105,311 +187,685 @@ function safeParseEditorState(jsonString: string): Record<string, unknown> {
 }
 
 // Get all memes for current user
-router.get('/', hasInvite, (req, res) => {
-  try {
-    const user = req.user as User;
-    const memes = memeQueries.findByUser(user.id);
+router.get(
+  '/',
+  { summary: 'List your memes', response: z.array(memeSchema) },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const memes = await memeQueries.findByUser(user.id);
+
+      const enrichedMemes = await Promise.all(
+        memes.map(async (meme) => {
+          const template = await templateQueries.findById(meme.template_id);
+          return {
+            ...meme,
+            editor_state: safeParseEditorState(meme.editor_state),
+            template_name: template?.name || null,
+            template_filename: template?.filename || null,
+          };
+        })
+      );
+
+      res.json(enrichedMemes);
+    } catch (err) {
+      console.error('Error listing memes:', err);
+      res.status(500).json({ error: 'Failed to list memes' });
+    }
+  }
+);
+
+// Get single meme
+router.get(
+  '/:id',
+  { summary: 'Get one of your memes', params: memeParams, response: memeSchema },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const meme = await memeQueries.findById(id);
+
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
+
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to view this meme' });
+      }
 
-    const enrichedMemes = memes.map((meme) => {
-      const template = templateQueries.findById(meme.template_id);
-      const { upvotes, downvotes, score } = voteQueries.getVoteCounts(meme.id);
-      return {
+      const template = await templateQueries.findById(meme.template_id);
+
+      res.json({
         ...meme,
         editor_state: safeParseEditorState(meme.editor_state),
         template_name: template?.name || null,
         template_filename: template?.filename || null,
-        upvotes,
-        downvotes,
-        score,
-      };
-    });
-
-    res.json(enrichedMemes);
-  } catch (err) {
-    console.error('Error listing memes:', err);
-    res.status(500).json({ error: 'Failed to list memes' });
+        template_width: template?.width || null,
+        template_height: template?.height || null,
+      });
+    } catch (err) {
+      console.error('Error getting meme:', err);
+      res.status(500).json({ error: 'Failed to get meme' });
+    }
   }
-});
+);
 
-// Get single meme
-router.get('/:id', hasInvite, (req, res) => {
-  try {
-    const { id } = req.params;
-    const user = req.user as User;
+// Create new meme
+router.post(
+  '/',
+  { summary: 'Create a meme', body: createMemeBody, status: 201, response: memeSchema },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { template_id, editor_state } = req.body;
 
-    if (!isValidId(id)) {
-      return res.status(400).json({ error: 'Invalid meme ID' });
-    }
+      const template = await templateQueries.findById(template_id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
 
-    const meme = memeQueries.findById(id);
+      const sourceValidation = await validateLayerSources(editor_state, user.id);
+      if (!sourceValidation.valid) {
+        return res.status(400).json({ error: sourceValidation.error });
+      }
 
-    if (!meme) {
-      return res.status(404).json({ error: 'Meme not found' });
-    }
+      const id = nanoid();
+      const now = Date.now();
+      const stateJson = JSON.stringify(editor_state);
 
-    if (meme.created_by !== user.id && user.role !== 'admin') {
-      return res.status(403).json({ error: 'Not authorized to view this meme' });
-    }
+      await memeQueries.create(id, template_id, user.id, stateJson, null, now);
+      await recordRevision(id, stateJson, user.id);
+      memeAudit.created(req, id, template_id);
 
-    const template = templateQueries.findById(meme.template_id);
-
-    res.json({
-      ...meme,
-      editor_state: safeParseEditorState(meme.editor_state),
-      template_name: template?.name || null,
-      template_filename: template?.filename || null,
-      template_width: template?.width || null,
-      template_height: template?.height || null,
-    });
-  } catch (err) {
-    console.error('Error getting meme:', err);
-    res.status(500).json({ error: 'Failed to get meme' });
+      const meme = await memeQueries.findById(id);
+      await indexMeme(meme!);
+      res.status(201).json({
+        ...meme,
+        editor_state: safeParseEditorState(meme!.editor_state),
+      });
+    } catch (err) {
+      console.error('Error creating meme:', err);
+      res.status(500).json({ error: 'Failed to create meme' });
+    }
   }
-});
+);
 
-// Create new meme
-router.post('/', hasInvite, (req, res) => {
-  try {
-    const user = req.user as User;
-    const { template_id, editor_state } = req.body;
+// Update meme
+router.put(
+  '/:id',
+  {
+    summary: "Update a meme's editor state",
+    params: memeParams,
+    body: updateMemeBody,
+    response: memeSchema,
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+      const { editor_state } = req.body;
 
-    if (!template_id || typeof template_id !== 'string') {
-      return res.status(400).json({ error: 'Template ID is required' });
-    }
+      const meme = await memeQueries.findById(id);
 
-    if (!isValidId(template_id)) {
-      return res.status(400).json({ error: 'Invalid template ID format' });
-    }
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    // SECURITY: Validate editor state
-    const validation = validateEditorState(editor_state);
-    if (!validation.valid) {
-      return res.status(400).json({ error: validation.error });
-    }
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to update this meme' });
+      }
+
+      const sourceValidation = await validateLayerSources(editor_state, meme.created_by);
+      if (!sourceValidation.valid) {
+        return res.status(400).json({ error: sourceValidation.error });
+      }
 
-    const template = templateQueries.findById(template_id);
-    if (!template) {
-      return res.status(404).json({ error: 'Template not found' });
+      const stateJson = JSON.stringify(editor_state);
+      await memeQueries.update(stateJson, meme.output_filename, id);
+      // Saving without changes doesn't add a revision
+      if (stateJson !== meme.editor_state) {
+        await recordRevision(id, stateJson, user.id);
+      }
+      memeAudit.updated(req, id);
+
+      const updatedMeme = await memeQueries.findById(id);
+      await indexMeme(updatedMeme!);
+      res.json({
+        ...updatedMeme,
+        editor_state: safeParseEditorState(updatedMeme!.editor_state),
+      });
+    } catch (err) {
+      console.error('Error updating meme:', err);
+      res.status(500).json({ error: 'Failed to update meme' });
     }
+  }
+);
+
+// Render meme image server-side from its stored editor state
+router.post(
+  '/:id/render',
+  { summary: 'Render a meme from its editor state', params: memeParams, response: renderResponse },
+  hasInvite,
+  renderLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
 
-    const id = nanoid();
-    const now = Date.now();
+      const meme = await memeQueries.findById(id);
 
-    memeQueries.create(id, template_id, user.id, JSON.stringify(editor_state), null, now);
-    memeAudit.created(req, id, template_id);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    const meme = memeQueries.findById(id);
-    res.status(201).json({
-      ...meme,
-      editor_state: safeParseEditorState(meme!.editor_state),
-    });
-  } catch (err) {
-    console.error('Error creating meme:', err);
-    res.status(500).json({ error: 'Failed to create meme' });
-  }
-});
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to save this meme' });
+      }
 
-// Update meme
-router.put('/:id', hasInvite, (req, res) => {
-  try {
-    const { id } = req.params;
-    const user = req.user as User;
-    const { editor_state } = req.body;
+      const template = await templateQueries.findById(meme.template_id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
 
-    if (!isValidId(id)) {
-      return res.status(400).json({ error: 'Invalid meme ID' });
-    }
+      const filename = await renderMemeToFile(meme, template);
 
-    const meme = memeQueries.findById(id);
+      // Update database
+      await memeQueries.update(meme.editor_state, filename, id);
+      await snapshotRender(id, filename);
 
-    if (!meme) {
-      return res.status(404).json({ error: 'Meme not found' });
+      res.json({ success: true, filename });
+    } catch (err) {
+      console.error('Error rendering meme:', err);
+      res.status(500).json({ error: 'Failed to render meme' });
     }
+  }
+);
+
+// List a meme's saved revisions, newest first
+router.get(
+  '/:id/revisions',
+  {
+    summary: "List a meme's revisions, newest first",
+    params: memeParams,
+    response: z.array(memeRevisionSchema),
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
 
-    if (meme.created_by !== user.id && user.role !== 'admin') {
-      return res.status(403).json({ error: 'Not authorized to update this meme' });
-    }
+      const meme = await memeQueries.findById(id);
 
-    // SECURITY: Validate editor state
-    const validation = validateEditorState(editor_state);
-    if (!validation.valid) {
-      return res.status(400).json({ error: validation.error });
-    }
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    memeQueries.update(JSON.stringify(editor_state), meme.output_filename, id);
-    memeAudit.updated(req, id);
-
-    const updatedMeme = memeQueries.findById(id);
-    res.json({
-      ...updatedMeme,
-      editor_state: safeParseEditorState(updatedMeme!.editor_state),
-    });
-  } catch (err) {
-    console.error('Error updating meme:', err);
-    res.status(500).json({ error: 'Failed to update meme' });
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to view this meme' });
+      }
+
+      const revisions = await memeRevisionQueries.findByMeme(id);
+      res.json(
+        revisions.map((revision) => ({
+          ...revision,
+          editor_state: safeParseEditorState(revision.editor_state),
+        }))
+      );
+    } catch (err) {
+      console.error('Error listing meme revisions:', err);
+      res.status(500).json({ error: 'Failed to list meme revisions' });
+    }
   }
-});
+);
+
+// Restore a meme to an earlier revision. The restore is recorded as a new revision.
+router.post(
+  '/:id/revisions/:revisionId/restore',
+  {
+    summary: 'Restore a meme to an earlier revision',
+    params: revisionParams,
+    response: memeSchema,
+  },
+  hasInvite,
+  renderLimiter,
+  async (req, res) => {
+    try {
+      const { id, revisionId } = req.params;
+      const user = req.user as User;
 
-// Save rendered meme image
-router.post('/:id/render', hasInvite, renderLimiter, async (req, res) => {
-  try {
-    const { id } = req.params;
-    const user = req.user as User;
-    const { imageData } = req.body;
+      const meme = await memeQueries.findById(id);
 
-    if (!isValidId(id)) {
-      return res.status(400).json({ error: 'Invalid meme ID' });
-    }
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    const meme = memeQueries.findById(id);
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to update this meme' });
+      }
 
-    if (!meme) {
-      return res.status(404).json({ error: 'Meme not found' });
-    }
+      const revision = await memeRevisionQueries.findById(revisionId);
+      if (!revision || revision.meme_id !== id) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
 
-    if (meme.created_by !== user.id && user.role !== 'admin') {
-      return res.status(403).json({ error: 'Not authorized to save this meme' });
+      // Render the restored state first, so a failed render leaves the meme,
+      // its history and the audit log as they were
+      const template = await templateQueries.findById(meme.template_id);
+      const filename = template
+        ? await renderMemeToFile({ ...meme, editor_state: revision.editor_state }, template)
+        : meme.output_filename;
+
+      await memeQueries.update(revision.editor_state, filename, id);
+      await recordRevision(id, revision.editor_state, user.id, revision.id);
+      if (template && filename) {
+        await snapshotRender(id, filename);
+      }
+      memeAudit.restored(req, id, revision.id);
+
+      const updatedMeme = await memeQueries.findById(id);
+      await indexMeme(updatedMeme!);
+      res.json({
+        ...updatedMeme,
+        editor_state: safeParseEditorState(updatedMeme!.editor_state),
+      });
+    } catch (err) {
+      console.error('Error restoring meme revision:', err);
+      res.status(500).json({ error: 'Failed to restore meme revision' });
     }
+  }
+);
+
+// Remix a meme: copy its editor state and template into a new meme owned by the
+// current user that records where it came from
+router.post(
+  '/:id/remix',
+  {
+    summary: 'Remix a meme into a new one of your own',
+    params: memeParams,
+    status: 201,
+    response: memeSchema,
+  },
+  hasInvite,
+  remixLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
 
-    if (!imageData || typeof imageData !== 'string') {
-      return res.status(400).json({ error: 'Image data is required' });
-    }
+      const source = await memeQueries.findById(id);
 
-    // SECURITY: Validate base64 image data format
-    const matches = imageData.match(/^data:image\/(png|jpeg|webp);base64,(.+)$/);
-    if (!matches) {
-      return res.status(400).json({ error: 'Invalid image data format' });
-    }
+      // SECURITY: Other users' private memes look the same as missing ones
+      if (!source || (!source.is_public && source.created_by !== user.id)) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    const [, format, base64Data] = matches;
+      const template = await templateQueries.findById(source.template_id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
 
-    // SECURITY: Limit base64 size (roughly 10MB decoded)
-    if (base64Data.length > 15 * 1024 * 1024) {
-      return res.status(400).json({ error: 'Image data too large' });
+      const editorState = await copyLayerAssets(safeParseEditorState(source.editor_state), user.id);
+
+      const remixId = nanoid();
+      const now = Date.now();
+      const stateJson = JSON.stringify(editorState);
+
+      await memeQueries.create(remixId, template.id, user.id, stateJson, null, now, source.id);
+      await recordRevision(remixId, stateJson, user.id);
+      memeAudit.remixed(req, remixId, source.id);
+
+      const meme = await memeQueries.findById(remixId);
+      await indexMeme(meme!);
+      res.status(201).json({
+        ...meme,
+        editor_state: safeParseEditorState(meme!.editor_state),
+      });
+    } catch (err) {
+      console.error('Error remixing meme:', err);
+      res.status(500).json({ error: 'Failed to remix meme' });
     }
+  }
+);
+
+// List remixes of a meme that are public or the current user's own
+router.get(
+  '/:id/remixes',
+  {
+    summary: 'List remixes of a meme you can see',
+    params: memeParams,
+    response: z.array(galleryMemeSchema),
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const meme = await memeQueries.findById(id);
 
-    const buffer = Buffer.from(base64Data, 'base64');
+      if (!meme || (!meme.is_public && meme.created_by !== user.id && user.role !== 'admin')) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    // SECURITY: Verify it's actually an image using sharp
+      const remixes = await memeQueries.getRemixes(id, user.id);
+      const reactions = await getReactionSummaries(
+        remixes.map((remix) => remix.id),
+        user.id
+      );
+      res.json(
+        remixes.map(({ user_vote, favorited, ...remix }) => ({
+          ...remix,
+          userVote: user_vote || null,
+          favorited: !!favorited,
+          reactions: reactions.get(remix.id),
+        }))
+      );
+    } catch (err) {
+      console.error('Error listing meme remixes:', err);
+      res.status(500).json({ error: 'Failed to list meme remixes' });
+    }
+  }
+);
+
+// Save a public meme to the user's favorites
+router.post(
+  '/:id/favorite',
+  {
+    summary: 'Save a public meme to your favorites',
+    params: memeParams,
+    response: favoriteResponse,
+  },
+  hasInvite,
+  favoriteLimiter,
+  async (req, res) => {
     try {
-      const metadata = await sharp(buffer).metadata();
-      if (!metadata.width || !metadata.height) {
-        return res.status(400).json({ error: 'Invalid image data' });
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const meme = await memeQueries.findById(id);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
       }
-      if (metadata.width > 4096 || metadata.height > 4096) {
-        return res.status(400).json({ error: 'Image dimensions too large' });
+
+      // Users can only save public memes
+      if (!meme.is_public) {
+        return res.status(403).json({ error: 'Can only save public memes' });
+      }
+
+      const { favoriteCount, changed } = await favoriteQueries.add(
+        nanoid(),
+        id,
+        user.id,
+        Date.now()
+      );
+      if (changed) {
+        favoriteAudit.added(req, id);
       }
-    } catch {
-      return res.status(400).json({ error: 'Invalid image data' });
+
+      res.json({ favorited: true, favoriteCount });
+    } catch (err) {
+      console.error('Error saving favorite:', err);
+      res.status(500).json({ error: 'Failed to save favorite' });
     }
+  }
+);
+
+// Remove a meme from the user's favorites. Works on memes made private since.
+router.delete(
+  '/:id/favorite',
+  { summary: 'Remove a meme from your favorites', params: memeParams, response: favoriteResponse },
+  hasInvite,
+  favoriteLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
 
-    const filename = `${id}.${format}`;
-    const filePath = path.join(MEMES_PATH, filename);
+      const meme = await memeQueries.findById(id);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    // Delete old file if exists
-    if (meme.output_filename && /^[a-zA-Z0-9_-]+\.(png|jpeg|webp)$/.test(meme.output_filename)) {
-      const oldPath = path.join(MEMES_PATH, meme.output_filename);
-      if (fs.existsSync(oldPath)) {
-        fs.unlinkSync(oldPath);
+      const { favoriteCount, changed } = await favoriteQueries.remove(id, user.id);
+      if (changed) {
+        favoriteAudit.removed(req, id);
       }
+
+      res.json({ favorited: false, favoriteCount });
+    } catch (err) {
+      console.error('Error removing favorite:', err);
+      res.status(500).json({ error: 'Failed to remove favorite' });
     }
+  }
+);
+
+// List a meme's active share links (owner or admin)
+router.get(
+  '/:id/shares',
+  {
+    summary: "List a meme's active share links",
+    params: memeParams,
+    response: z.array(memeShareSchema),
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
 
-    // Write new file
-    fs.writeFileSync(filePath, buffer);
+      const meme = await memeQueries.findById(id);
 
-    // Update database
-    memeQueries.update(meme.editor_state, filename, id);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
+
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to view this meme' });
+      }
 
-    res.json({ success: true, filename });
-  } catch (err) {
-    console.error('Error saving rendered meme:', err);
-    res.status(500).json({ error: 'Failed to save rendered meme' });
+      const shares = await memeShareQueries.findActiveByMeme(id, Date.now());
+      res.json(shares.map(toShareResponse));
+    } catch (err) {
+      console.error('Error listing share links:', err);
+      res.status(500).json({ error: 'Failed to list share links' });
+    }
   }
-});
+);
+
+// Create a link that shows the meme's image without signing in, optionally
+// expiring after a number of days
+router.post(
+  '/:id/share',
+  {
+    summary: 'Create a public share link',
+    params: memeParams,
+    body: createShareBody,
+    status: 201,
+    response: memeShareSchema,
+  },
+  hasInvite,
+  shareLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+      const { expires_in_days } = req.body;
 
-// Toggle meme visibility (public/private)
-router.patch('/:id/visibility', hasInvite, (req, res) => {
-  try {
-    const { id } = req.params;
-    const user = req.user as User;
-    const { is_public } = req.body;
+      const meme = await memeQueries.findById(id);
 
-    if (!isValidId(id)) {
-      return res.status(400).json({ error: 'Invalid meme ID' });
-    }
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    if (typeof is_public !== 'boolean') {
-      return res.status(400).json({ error: 'is_public must be a boolean' });
-    }
+      if (meme.created_by !== user.id) {
+        return res.status(403).json({ error: 'Not authorized to share this meme' });
+      }
 
-    const meme = memeQueries.findById(id);
+      if (!meme.output_filename) {
+        return res.status(400).json({ error: 'Render the meme before sharing it' });
+      }
 
-    if (!meme) {
-      return res.status(404).json({ error: 'Meme not found' });
-    }
+      const now = Date.now();
+      if ((await memeShareQueries.countActiveByMeme(id, now)) >= MAX_ACTIVE_SHARES) {
+        return res
+          .status(400)
+          .json({ error: `Maximum ${MAX_ACTIVE_SHARES} active share links per meme` });
+      }
 
-    if (meme.created_by !== user.id && user.role !== 'admin') {
-      return res.status(403).json({ error: 'Not authorized to update this meme' });
+      const shareId = nanoid();
+      const expiresAt =
+        expires_in_days === null ? null : now + expires_in_days * 24 * 60 * 60 * 1000;
+      await memeShareQueries.create(shareId, id, generateShareToken(), user.id, now, expiresAt);
+      memeAudit.shareCreated(req, id, shareId, expiresAt);
+
+      const share = await memeShareQueries.findById(shareId);
+      res.status(201).json(toShareResponse(share!));
+    } catch (err) {
+      console.error('Error creating share link:', err);
+      res.status(500).json({ error: 'Failed to create share link' });
     }
-
-    memeQueries.setPublic(id, is_public);
-    memeAudit.visibilityChanged(req, id, is_public);
-
-    const updatedMeme = memeQueries.findById(id);
-    const { upvotes, downvotes, score } = voteQueries.getVoteCounts(id);
-
-    res.json({
-      ...updatedMeme,
-      editor_state: safeParseEditorState(updatedMeme!.editor_state),
-      upvotes,
-      downvotes,
-      score,
-    });
-  } catch (err) {
-    console.error('Error updating meme visibility:', err);
-    res.status(500).json({ error: 'Failed to update meme visibility' });
   }
-});
+);
+
+// Revoke a share link (owner or admin)
+router.delete(
+  '/:id/share/:shareId',
+  { summary: 'Revoke a share link', params: shareParams, response: successSchema },
+  hasInvite,
+  shareLimiter,
+  async (req, res) => {
+    try {
+      const { id, shareId } = req.params;
+      const user = req.user as User;
 
-// Delete meme
-router.delete('/:id', hasInvite, deleteLimiter, (req, res) => {
-  try {
-    const { id } = req.params;
-    const user = req.user as User;
+      const meme = await memeQueries.findById(id);
 
-    if (!isValidId(id)) {
-      return res.status(400).json({ error: 'Invalid meme ID' });
-    }
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    const meme = memeQueries.findById(id);
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to update this meme' });
+      }
 
-    if (!meme) {
-      return res.status(404).json({ error: 'Meme not found' });
-    }
+      const share = await memeShareQueries.findById(shareId);
+      if (!share || share.meme_id !== id || share.revoked_at) {
+        return res.status(404).json({ error: 'Share link not found' });
+      }
+
+      await memeShareQueries.revoke(shareId, Date.now());
+      memeAudit.shareRevoked(req, id, shareId);
 
-    if (meme.created_by !== user.id && user.role !== 'admin') {
-      return res.status(403).json({ error: 'Not authorized to delete this meme' });
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error revoking share link:', err);
+      res.status(500).json({ error: 'Failed to revoke share link' });
     }
+  }
+);
+
+// Toggle meme visibility (public/private)
+router.patch(
+  '/:id/visibility',
+  {
+    summary: 'Make a meme public or private',
+    params: memeParams,
+    body: visibilityBody,
+    response: memeSchema,
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+      const { is_public } = req.body;
+
+      const meme = await memeQueries.findById(id);
 
-    // Delete file if exists (with validation)
-    if (meme.output_filename && /^[a-zA-Z0-9_-]+\.(png|jpeg|webp)$/.test(meme.output_filename)) {
-      const filePath = path.join(MEMES_PATH, meme.output_filename);
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
       }
+
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to update this meme' });
+      }
+
+      await memeQueries.setPublic(id, is_public);
+      memeAudit.visibilityChanged(req, id, is_public);
+
+      const updatedMeme = await memeQueries.findById(id);
+      await indexMeme(updatedMeme!);
+
+      res.json({
+        ...updatedMeme,
+        editor_state: safeParseEditorState(updatedMeme!.editor_state),
+      });
+    } catch (err) {
+      console.error('Error updating meme visibility:', err);
+      res.status(500).json({ error: 'Failed to update meme visibility' });
     }
+  }
+);
 
-    // Delete associated votes
-    voteQueries.deleteByMeme(id);
+// Delete meme
+router.delete(
+  '/:id',
+  { summary: 'Delete a meme', params: memeParams, response: successSchema },
+  hasInvite,
+  deleteLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const meme = await memeQueries.findById(id);
+
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    memeQueries.delete(id);
-    memeAudit.deleted(req, id);
+      if (meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to delete this meme' });
+      }
+
+      // Delete file if exists (with validation)
+      if (
+        meme.output_filename &&
+        /^[a-zA-Z0-9_-]+\.(png|jpeg|gif|webp)$/.test(meme.output_filename)
+      ) {
+        const filePath = path.join(MEMES_PATH, meme.output_filename);
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
+      }
 
-    res.json({ success: true });
-  } catch (err) {
-    console.error('Error deleting meme:', err);
-    res.status(500).json({ error: 'Failed to delete meme' });
+      // Delete associated votes, reactions, favorites, comments, share links and
+      // revisions, take it out of collections, and detach remixes
+      await voteQueries.deleteByMeme(id);
+      await reactionQueries.deleteByMeme(id);
+      await favoriteQueries.deleteByMeme(id);
+      await commentQueries.deleteByMeme(id);
+      await memeShareQueries.deleteByMeme(id);
+      await collectionQueries.removeMemeEverywhere(id);
+      await deleteRevisions(id);
+      await memeQueries.clearRemixedFrom(id);
+
+      await memeQueries.delete(id);
+      await removeFromSearchIndex('meme', id);
+      memeAudit.deleted(req, id);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting meme:', err);
+      res.status(500).json({ error: 'Failed to delete meme' });
+    }
   }
-});
+);
 
 export default router;
@@ -0,0 +1,112 @@
+import { nanoid } from 'nanoid';
+import rateLimit from 'express-rate-limit';
+import {
+  memeIdParams,
+  reactionBody,
+  reactionOptionsResponse,
+  reactionsResponse,
+} from '@possumbly/shared';
+import { memeQueries, reactionQueries, User } from '../db/schema.js';
+import { hasInvite } from '../middleware/auth.js';
+import { reactionAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { REACTION_EMOJI, getReactionSummaries } from '../lib/reactions.js';
+
+const router = createApiRouter('Reactions');
+
+// Rate limiting for reacting
+const reactionLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 120, // 120 reactions per 15 minutes per IP
+  message: { error: 'Too many reaction requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// List the emoji available as reactions
+router.get(
+  '/',
+  { summary: 'List the emoji available as reactions', response: reactionOptionsResponse },
+  hasInvite,
+  (_req, res) => {
+    res.json({ emoji: REACTION_EMOJI });
+  }
+);
+
+// Get reaction counts for a meme
+router.get(
+  '/:memeId',
+  { summary: "Get a meme's reaction counts", params: memeIdParams, response: reactionsResponse },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { memeId } = req.params;
+      const user = req.user as User;
+
+      const meme = await memeQueries.findById(memeId);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
+
+      // Users can view reactions on public memes or their own memes
+      if (!meme.is_public && meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to view this meme' });
+      }
+
+      const summaries = await getReactionSummaries([memeId], user.id);
+      res.json({ reactions: summaries.get(memeId) });
+    } catch (err) {
+      console.error('Error getting reactions:', err);
+      res.status(500).json({ error: 'Failed to get reactions' });
+    }
+  }
+);
+
+// Toggle the user's reaction with an emoji
+router.post(
+  '/:memeId',
+  {
+    summary: 'Toggle your reaction with an emoji',
+    params: memeIdParams,
+    body: reactionBody,
+    response: reactionsResponse,
+  },
+  hasInvite,
+  reactionLimiter,
+  async (req, res) => {
+    try {
+      const { memeId } = req.params;
+      const user = req.user as User;
+      const { emoji } = req.body;
+
+      if (!REACTION_EMOJI.includes(emoji)) {
+        return res.status(400).json({ error: 'Unsupported reaction' });
+      }
+
+      const meme = await memeQueries.findById(memeId);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
+
+      // Users can only react to public memes
+      if (!meme.is_public) {
+        return res.status(403).json({ error: 'Can only react to public memes' });
+      }
+
+      const added = await reactionQueries.toggle(nanoid(), memeId, user.id, emoji, Date.now());
+      if (added) {
+        reactionAudit.added(req, memeId, emoji);
+      } else {
+        reactionAudit.removed(req, memeId, emoji);
+      }
+
+      const summaries = await getReactionSummaries([memeId], user.id);
+      res.json({ reactions: summaries.get(memeId) });
+    } catch (err) {
+      console.error('Error toggling reaction:', err);
+      res.status(500).json({ error: 'Failed to toggle reaction' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,121 @@
+import rateLimit from 'express-rate-limit';
+import { GalleryMeme, searchQuery, searchResponse } from '@possumbly/shared';
+import {
+  favoriteQueries,
+  getDb,
+  memeQueries,
+  templateQueries,
+  userQueries,
+  voteQueries,
+  User,
+} from '../db/schema.js';
+import { searchEntries } from '../db/search.js';
+import { hasInvite } from '../middleware/auth.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { parseSearchTerms } from '../lib/search.js';
+import { getReactionSummaries } from '../lib/reactions.js';
+import { TemplateWithTextZones, withTextZones } from '../lib/textZones.js';
+
+const router = createApiRouter('Search');
+
+// Rate limiting for search requests
+const searchLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100, // 100 searches per 15 minutes per IP
+  message: { error: 'Too many search requests. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Search templates and memes the user can see
+router.get(
+  '/',
+  {
+    summary: 'Search templates and memes you can see',
+    query: searchQuery,
+    response: searchResponse,
+  },
+  searchLimiter,
+  hasInvite,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { q, scope, limit: limitNum } = req.query;
+
+      const terms = parseSearchTerms(q);
+      if (terms.length === 0) {
+        return res.status(400).json({ error: 'Search query must contain letters or numbers' });
+      }
+
+      const hits = await searchEntries(getDb(), terms, scope, user.id, limitNum);
+
+      // Load results in rank order, skipping anything deleted since it was indexed
+      const templates: TemplateWithTextZones[] = [];
+      const memes: GalleryMeme[] = [];
+
+      for (const hit of hits) {
+        if (hit.kind === 'template') {
+          const template = await templateQueries.findById(hit.ref_id);
+          if (template) templates.push(withTextZones(template));
+          continue;
+        }
+
+        const meme = await memeQueries.findById(hit.ref_id);
+        // SECURITY: Re-check visibility against the live row, not the index
+        if (!meme || (!meme.is_public && meme.created_by !== user.id)) continue;
+
+        const template = await templateQueries.findById(meme.template_id);
+        const creator = meme.created_by ? await userQueries.findById(meme.created_by) : null;
+        const userVote = await voteQueries.findByMemeAndUser(meme.id, user.id);
+        const favorite = await favoriteQueries.findByMemeAndUser(meme.id, user.id);
+        // SECURITY: Like the gallery, only name a remix source the user can see
+        const remixSource = meme.remixed_from
+          ? await memeQueries.findById(meme.remixed_from)
+          : undefined;
+        const source =
+          remixSource && (remixSource.is_public || remixSource.created_by === user.id)
+            ? remixSource
+            : null;
+        const sourceCreator = source?.created_by
+          ? await userQueries.findById(source.created_by)
+          : null;
+        memes.push({
+          id: meme.id,
+          template_id: meme.template_id,
+          created_by: meme.created_by,
+          output_filename: meme.output_filename,
+          is_public: meme.is_public,
+          created_at: meme.created_at,
+          template_name: template?.name || null,
+          template_filename: template?.filename || null,
+          creator_name: creator?.name || null,
+          creator_avatar: creator?.avatar_url || null,
+          upvotes: meme.upvotes,
+          downvotes: meme.downvotes,
+          score: meme.score,
+          userVote: userVote?.vote_type || null,
+          favorite_count: meme.favorite_count,
+          favorited: !!favorite,
+          remixed_from: source?.id ?? null,
+          remixed_from_creator: sourceCreator?.name || null,
+          reactions: [],
+        });
+      }
+
+      const reactions = await getReactionSummaries(
+        memes.map((meme) => meme.id),
+        user.id
+      );
+      for (const meme of memes) {
+        meme.reactions = reactions.get(meme.id) || [];
+      }
+
+      res.json({ query: q, scope, templates, memes });
+    } catch (err) {
+      console.error('Error searching:', err);
+      res.status(500).json({ error: 'Failed to search' });
+    }
+  }
+);
+
+export default router;
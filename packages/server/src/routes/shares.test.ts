@@ -0,0 +1,131 @@
+import { UPLOADS_PATH } from '../test/uploads.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { initializeTestDatabase } from '../test/database.js';
+import { startTestApp, TestApp } from '../test/app.js';
+import { memeQueries, memeShareQueries, templateQueries, userQueries } from '../db/schema.js';
+import { generateShareToken } from '../lib/shares.js';
+import memeRoutes from './memes.js';
+import shareRoutes from './shares.js';
+
+describe('share links', () => {
+  let app: TestApp;
+  let image: Buffer;
+
+  before(async () => {
+    await initializeTestDatabase();
+    await userQueries.create('alice', null, 'Alice', null, 'github', '1', Date.now());
+    await userQueries.updateInviteRedeemed('alice');
+    await templateQueries.create('plain', 'Plain', 'plain.png', 200, 100, 'alice', Date.now());
+
+    image = await sharp({
+      create: { width: 20, height: 10, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+    fs.mkdirSync(path.join(UPLOADS_PATH, 'memes'), { recursive: true });
+
+    app = await startTestApp({ '/api/memes': memeRoutes, '/s': shareRoutes });
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  // A rendered meme of Alice's
+  async function createMeme(id: string) {
+    fs.writeFileSync(path.join(UPLOADS_PATH, 'memes', `${id}.png`), image);
+    await memeQueries.create(id, 'plain', 'alice', '{}', `${id}.png`, Date.now());
+  }
+
+  async function share(memeId: string) {
+    const response = await app.request(`/api/memes/${memeId}/share`, {
+      method: 'POST',
+      user: 'alice',
+      body: JSON.stringify({ expires_in_days: 7 }),
+    });
+    assert.equal(response.status, 201);
+    const { id, url } = await response.json();
+    return { id: id as string, token: new URL(url).pathname.split('/').pop()! };
+  }
+
+  async function assertShared(token: string) {
+    const page = await fetch(`${app.url}/s/${token}`);
+    assert.equal(page.status, 200);
+    assert.match(await page.text(), new RegExp(`/s/${token}/image`));
+
+    const response = await fetch(`${app.url}/s/${token}/image`);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('cache-control'), 'no-store');
+    assert.deepEqual(Buffer.from(await response.arrayBuffer()), image);
+  }
+
+  async function assertNotShared(token: string) {
+    const page = await fetch(`${app.url}/s/${token}`);
+    assert.equal(page.status, 404);
+    assert.match(await page.text(), /expired, or was revoked/);
+
+    const response = await fetch(`${app.url}/s/${token}/image`);
+    assert.equal(response.status, 404);
+    assert.deepEqual(await response.json(), { error: 'Share link not found' });
+  }
+
+  it('shows the meme without signing in', async () => {
+    await createMeme('shared');
+    const { token } = await share('shared');
+    await assertShared(token);
+  });
+
+  it('stops showing the meme once the link expires', async () => {
+    await createMeme('expired');
+    const token = generateShareToken();
+    const now = Date.now();
+    await memeShareQueries.create('expired-share', 'expired', token, 'alice', now - 2000, now - 1);
+    await assertNotShared(token);
+  });
+
+  it('stops showing the meme once the link is revoked', async () => {
+    await createMeme('revoked');
+    const { id, token } = await share('revoked');
+    await assertShared(token);
+
+    const response = await app.request(`/api/memes/revoked/share/${id}`, {
+      method: 'DELETE',
+      user: 'alice',
+    });
+    assert.equal(response.status, 200);
+    await assertNotShared(token);
+  });
+
+  // Share links are a separate opt-in from gallery visibility (a private meme can
+  // be shared too), so only revoking the link stops it
+  it('keeps showing a meme made private after sharing', async () => {
+    await createMeme('private');
+    await memeQueries.setPublic('private', true);
+    const { token } = await share('private');
+
+    const response = await app.request('/api/memes/private/visibility', {
+      method: 'PATCH',
+      user: 'alice',
+      body: JSON.stringify({ is_public: false }),
+    });
+    assert.equal(response.status, 200);
+    await assertShared(token);
+  });
+
+  it('stops showing a deleted meme', async () => {
+    await createMeme('deleted');
+    const { token } = await share('deleted');
+
+    const response = await app.request('/api/memes/deleted', { method: 'DELETE', user: 'alice' });
+    assert.equal(response.status, 200);
+    await assertNotShared(token);
+  });
+
+  it('rejects malformed tokens', async () => {
+    await assertNotShared('not-a-token');
+  });
+});
@@ -0,0 +1,158 @@
+import path from 'path';
+import fs from 'fs';
+import rateLimit from 'express-rate-limit';
+import { shareTokenParams } from '@possumbly/shared';
+import { memeQueries, memeShareQueries, Meme } from '../db/schema.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { isValidShareToken, shareUrl } from '../lib/shares.js';
+
+// Public, unauthenticated pages for meme share links (mounted at /s)
+const router = createApiRouter('Share links');
+
+// SECURITY: Rate limiting for unauthenticated share lookups
+const shareLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 300, // 300 share views per 15 minutes per IP
+  message: 'Too many requests. Please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+router.use(shareLimiter);
+
+const UPLOADS_PATH = process.env.UPLOADS_PATH || './data/uploads';
+const MEMES_PATH = path.join(UPLOADS_PATH, 'memes');
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Meme behind an active share token, if it has a rendered image
+async function findSharedMeme(token: string): Promise<Meme | undefined> {
+  if (!isValidShareToken(token)) return undefined;
+
+  const share = await memeShareQueries.findActiveByToken(token, Date.now());
+  if (!share) return undefined;
+
+  const meme = await memeQueries.findById(share.meme_id);
+  if (!meme?.output_filename) return undefined;
+
+  return meme;
+}
+
+function renderPage(title: string, body: string, meta = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+${meta}
+</head>
+<body style="margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:#1f2937;color:#e5e7eb;font-family:system-ui,sans-serif">
+${body}
+</body>
+</html>`;
+}
+
+function notFoundPage(): string {
+  return renderPage(
+    'Link not found - Possumbly',
+    '<p>This share link does not exist, has expired, or was revoked.</p>'
+  );
+}
+
+// Page showing a shared meme
+router.get(
+  '/:token',
+  {
+    summary: 'Page showing a shared meme',
+    access: 'public',
+    params: shareTokenParams,
+    produces: 'text/html',
+  },
+  async (req, res) => {
+    try {
+      const { token } = req.params;
+      const meme = await findSharedMeme(token);
+
+      res.setHeader('Cache-Control', 'no-store');
+
+      if (!meme) {
+        return res.status(404).type('html').send(notFoundPage());
+      }
+
+      const imageUrl = `${shareUrl(token)}/image`;
+      const meta = [
+        '<meta property="og:type" content="website">',
+        '<meta property="og:title" content="A meme shared from Possumbly">',
+        `<meta property="og:image" content="${escapeHtml(imageUrl)}">`,
+        '<meta name="twitter:card" content="summary_large_image">',
+      ].join('\n');
+
+      res
+        .type('html')
+        .send(
+          renderPage(
+            'Shared meme - Possumbly',
+            `<img src="${escapeHtml(imageUrl)}" alt="Shared meme" style="max-width:100vw;max-height:100vh;object-fit:contain">`,
+            meta
+          )
+        );
+    } catch (err) {
+      console.error('Error showing shared meme:', err);
+      res
+        .status(500)
+        .type('html')
+        .send(renderPage('Error - Possumbly', '<p>Something went wrong.</p>'));
+    }
+  }
+);
+
+// Image of a shared meme
+router.get(
+  '/:token/image',
+  {
+    summary: 'Image of a shared meme',
+    access: 'public',
+    params: shareTokenParams,
+    produces: 'image/*',
+  },
+  async (req, res) => {
+    try {
+      const meme = await findSharedMeme(req.params.token);
+
+      if (!meme) {
+        return res.status(404).json({ error: 'Share link not found' });
+      }
+
+      // SECURITY: Validate filename before path operations
+      if (!/^[a-zA-Z0-9_-]+\.(png|jpeg|gif|webp)$/.test(meme.output_filename!)) {
+        return res.status(404).json({ error: 'Share link not found' });
+      }
+
+      const filePath = path.join(MEMES_PATH, meme.output_filename!);
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ error: 'Share link not found' });
+      }
+
+      // SECURITY: Same headers as authenticated uploads; don't let caches keep
+      // the image past a revocation
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Disposition', 'inline');
+      res.setHeader('Cache-Control', 'no-store');
+      res.sendFile(path.resolve(filePath));
+    } catch (err) {
+      console.error('Error serving shared meme image:', err);
+      res.status(500).json({ error: 'Failed to load shared meme' });
+    }
+  }
+);
+
+export default router;
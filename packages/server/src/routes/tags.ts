@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import {
+  renameTagBody,
+  successSchema,
+  tagParams,
+  tagSchema,
+  tagWithCountSchema,
+} from '@possumbly/shared';
+import { tagQueries, templateQueries } from '../db/schema.js';
+import { hasInvite, isAdmin } from '../middleware/auth.js';
+import { tagAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { indexTemplate } from '../lib/search.js';
+import { normalizeTagName } from '../lib/tags.js';
+
+const router = createApiRouter('Tags');
+
+// Get all tags with how many templates use each
+router.get(
+  '/',
+  { summary: 'List tags with how many templates use each', response: z.array(tagWithCountSchema) },
+  hasInvite,
+  async (_req, res) => {
+    try {
+      const tags = await tagQueries.getAll();
+      res.json(tags);
+    } catch (err) {
+      console.error('Error listing tags:', err);
+      res.status(500).json({ error: 'Failed to list tags' });
+    }
+  }
+);
+
+// Rename a tag (admin only)
+router.patch(
+  '/:id',
+  {
+    summary: 'Rename a tag',
+    access: 'admin',
+    params: tagParams,
+    body: renameTagBody,
+    response: tagSchema,
+  },
+  isAdmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const name = normalizeTagName(req.body.name);
+      if (!name) {
+        return res.status(400).json({ error: 'Invalid tag name' });
+      }
+
+      const tag = await tagQueries.findById(id);
+      if (!tag) {
+        return res.status(404).json({ error: 'Tag not found' });
+      }
+
+      const existing = await tagQueries.findByName(name);
+      if (existing && existing.id !== id) {
+        return res.status(409).json({ error: 'A tag with that name already exists' });
+      }
+
+      await tagQueries.rename(id, name);
+      tagAudit.renamed(req, id, tag.name, name);
+
+      // Templates are indexed with their tag names
+      for (const template of await templateQueries.getByTag(name)) {
+        await indexTemplate(template);
+      }
+
+      res.json(await tagQueries.findById(id));
+    } catch (err) {
+      console.error('Error renaming tag:', err);
+      res.status(500).json({ error: 'Failed to rename tag' });
+    }
+  }
+);
+
+// Delete a tag and remove it from all templates (admin only)
+router.delete(
+  '/:id',
+  { summary: 'Delete a tag', access: 'admin', params: tagParams, response: successSchema },
+  isAdmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const tag = await tagQueries.findById(id);
+      if (!tag) {
+        return res.status(404).json({ error: 'Tag not found' });
+      }
+
+      const templates = await templateQueries.getByTag(tag.name);
+
+      await tagQueries.delete(id);
+      tagAudit.deleted(req, id, tag.name);
+
+      for (const template of templates) {
+        await indexTemplate(template);
+      }
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting tag:', err);
+      res.status(500).json({ error: 'Failed to delete tag' });
+    }
+  }
+);
+
+export default router;
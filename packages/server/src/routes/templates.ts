@@ -1,15 +1,29 @@
-import { Router } from 'express';
+import { z } from 'zod';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import sharp from 'sharp';
 import { nanoid } from 'nanoid';
 import rateLimit from 'express-rate-limit';
-import { templateQueries, User } from '../db/schema.js';
+import {
+  frameParams,
+  successSchema,
+  templateListQuery,
+  templateParams,
+  templateSchema,
+  templateTagsBody,
+  textZonesBody,
+  uploadTemplateBody,
+} from '@possumbly/shared';
+import { tagQueries, templateQueries, User } from '../db/schema.js';
 import { hasInvite } from '../middleware/auth.js';
 import { templateAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import { indexTemplate, removeFromSearchIndex } from '../lib/search.js';
+import { groupTagsByTemplate, normalizeTagName, parseTagList } from '../lib/tags.js';
+import { checkTextZoneBounds, withTextZones } from '../lib/textZones.js';
 
-const router = Router();
+const router = createApiRouter('Templates');
 
 // SECURITY: Rate limiting for resource-intensive operations
 const uploadLimiter = rateLimit({
@@ -33,7 +47,7 @@ const TEMPLATES_PATH = path.join(UPLOADS_PATH, 'templates');
 
 // SECURITY: Allowed extensions (whitelist)
 const ALLOWED_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp'];
-const MAX_NAME_LENGTH = 100;
+const MAX_FRAMES = 300;
 
 // Ensure templates directory exists
 if (!fs.existsSync(TEMPLATES_PATH)) {
@@ -43,8 +57,6 @@ if (!fs.existsSync(TEMPLATES_PATH)) {
 // SECURITY: Sanitize template name - escape HTML entities
 function sanitizeName(name: string): string {
   return name
-    .trim()
-    .slice(0, MAX_NAME_LENGTH)
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
     .replace(/>/g, '&gt;')
@@ -97,151 +109,340 @@ const upload = multer({
   },
 });
 
-// Get all templates
-router.get('/', hasInvite, (_req, res) => {
-  try {
-    const templates = templateQueries.getAll();
-    res.json(templates);
-  } catch (err) {
-    console.error('Error listing templates:', err);
-    res.status(500).json({ error: 'Failed to list templates' });
+// Get all templates, optionally only those with a given tag
+router.get(
+  '/',
+  { summary: 'List templates', query: templateListQuery, response: z.array(templateSchema) },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { tag } = req.query;
+
+      let templates;
+      if (tag !== undefined) {
+        const tagName = normalizeTagName(tag);
+        if (!tagName) {
+          return res.status(400).json({ error: 'Invalid tag' });
+        }
+        templates = await templateQueries.getByTag(tagName);
+      } else {
+        templates = await templateQueries.getAll();
+      }
+
+      const tagsByTemplate = groupTagsByTemplate(await tagQueries.getAllAssignments());
+      res.json(
+        templates.map((template) => ({
+          ...withTextZones(template),
+          tags: tagsByTemplate.get(template.id) || [],
+        }))
+      );
+    } catch (err) {
+      console.error('Error listing templates:', err);
+      res.status(500).json({ error: 'Failed to list templates' });
+    }
   }
-});
+);
 
 // Get single template
-router.get('/:id', hasInvite, (req, res) => {
-  try {
-    const { id } = req.params;
+router.get(
+  '/:id',
+  { summary: 'Get a template', params: templateParams, response: templateSchema },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
 
-    // SECURITY: Validate ID format (nanoid is alphanumeric)
-    if (!/^[a-zA-Z0-9_-]+$/.test(id)) {
-      return res.status(400).json({ error: 'Invalid template ID' });
-    }
+      const template = await templateQueries.findById(id);
 
-    const template = templateQueries.findById(id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
 
-    if (!template) {
-      return res.status(404).json({ error: 'Template not found' });
+      const tags = await tagQueries.getForTemplate(id);
+      res.json({ ...withTextZones(template), tags: tags.map((tag) => tag.name) });
+    } catch (err) {
+      console.error('Error getting template:', err);
+      res.status(500).json({ error: 'Failed to get template' });
     }
-
-    res.json(template);
-  } catch (err) {
-    console.error('Error getting template:', err);
-    res.status(500).json({ error: 'Failed to get template' });
   }
-});
-
-// Upload new template
-router.post('/', hasInvite, uploadLimiter, upload.single('image'), async (req, res) => {
-  try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No image file provided' });
-    }
-
-    const user = req.user as User;
-    const { name } = req.body;
+);
+
+// Get one frame of an animated template as a PNG, for previewing in the editor
+router.get(
+  '/:id/frames/:frame',
+  {
+    summary: 'Get one frame of an animated template as a PNG',
+    params: frameParams,
+    produces: 'image/png',
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id, frame } = req.params;
 
-    if (!name || typeof name !== 'string' || name.trim().length === 0) {
-      fs.unlinkSync(req.file.path);
-      return res.status(400).json({ error: 'Template name is required' });
-    }
+      const template = await templateQueries.findById(id);
 
-    if (name.length > MAX_NAME_LENGTH) {
-      fs.unlinkSync(req.file.path);
-      return res.status(400).json({ error: `Template name must be ${MAX_NAME_LENGTH} characters or less` });
-    }
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
 
-    // SECURITY: Verify file is actually an image using sharp
-    let metadata;
-    try {
-      metadata = await sharp(req.file.path).metadata();
-    } catch {
-      fs.unlinkSync(req.file.path);
-      return res.status(400).json({ error: 'Invalid image file' });
-    }
+      if (frame >= template.frame_count) {
+        return res.status(404).json({ error: 'Frame not found' });
+      }
 
-    if (!metadata.width || !metadata.height) {
-      fs.unlinkSync(req.file.path);
-      return res.status(400).json({ error: 'Could not read image dimensions' });
-    }
+      // SECURITY: Validate filename before path operations
+      if (!/^[a-zA-Z0-9_-]+\.(jpg|jpeg|png|gif|webp)$/.test(template.filename)) {
+        console.error('Invalid filename in database:', template.filename);
+        return res.status(500).json({ error: 'Invalid template data' });
+      }
 
-    // SECURITY: Reasonable dimension limits
-    if (metadata.width > 4096 || metadata.height > 4096) {
-      fs.unlinkSync(req.file.path);
-      return res.status(400).json({ error: 'Image dimensions too large (max 4096x4096)' });
-    }
+      const image = await sharp(path.join(TEMPLATES_PATH, template.filename), { page: frame })
+        .png()
+        .toBuffer();
 
-    const id = nanoid();
-    const now = Date.now();
-
-    // SECURITY: Sanitize the name before storing
-    const sanitizedName = sanitizeName(name);
-
-    templateQueries.create(
-      id,
-      sanitizedName,
-      req.file.filename,
-      metadata.width,
-      metadata.height,
-      user.id,
-      now
-    );
-    templateAudit.created(req, id, sanitizedName);
-
-    const template = templateQueries.findById(id);
-    res.status(201).json(template);
-  } catch (err) {
-    console.error('Error uploading template:', err);
-    if (req.file && fs.existsSync(req.file.path)) {
-      fs.unlinkSync(req.file.path);
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.type('png').send(image);
+    } catch (err) {
+      console.error('Error getting template frame:', err);
+      res.status(500).json({ error: 'Failed to get template frame' });
     }
-    res.status(500).json({ error: 'Failed to upload template' });
   }
-});
+);
 
-// Delete template (admin or uploader)
-router.delete('/:id', hasInvite, deleteLimiter, (req, res) => {
-  try {
-    const { id } = req.params;
-    const user = req.user as User;
-
-    // SECURITY: Validate ID format
-    if (!/^[a-zA-Z0-9_-]+$/.test(id)) {
-      return res.status(400).json({ error: 'Invalid template ID' });
-    }
-
-    const template = templateQueries.findById(id);
-
-    if (!template) {
-      return res.status(404).json({ error: 'Template not found' });
+// Upload new template
+router.post(
+  '/',
+  {
+    summary: 'Upload a template',
+    body: uploadTemplateBody,
+    file: 'image',
+    status: 201,
+    response: templateSchema,
+  },
+  hasInvite,
+  uploadLimiter,
+  upload.single('image'),
+  async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No image file provided' });
+      }
+
+      const user = req.user as User;
+      const { name } = req.body;
+      const parsedTags = parseTagList(req.body.tags ?? []);
+
+      if (!parsedTags.valid) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: parsedTags.error });
+      }
+
+      // SECURITY: Verify file is actually an image using sharp
+      let metadata;
+      try {
+        metadata = await sharp(req.file.path).metadata();
+      } catch {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: 'Invalid image file' });
+      }
+
+      if (!metadata.width || !metadata.height) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: 'Could not read image dimensions' });
+      }
+
+      // SECURITY: Reasonable dimension limits
+      if (metadata.width > 4096 || metadata.height > 4096) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: 'Image dimensions too large (max 4096x4096)' });
+      }
+
+      // SECURITY: Every frame is composited when rendering, so cap animations
+      const frameCount = metadata.pages || 1;
+      if (frameCount > MAX_FRAMES) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: `Animations can have at most ${MAX_FRAMES} frames` });
+      }
+
+      const id = nanoid();
+      const now = Date.now();
+
+      // SECURITY: Sanitize the name before storing
+      const sanitizedName = sanitizeName(name);
+
+      await templateQueries.create(
+        id,
+        sanitizedName,
+        req.file.filename,
+        metadata.width,
+        metadata.height,
+        user.id,
+        now,
+        frameCount
+      );
+      templateAudit.created(req, id, sanitizedName);
+
+      for (const tagName of parsedTags.tags) {
+        await tagQueries.create(nanoid(), tagName, user.id, now);
+      }
+      const tags = await tagQueries.setForTemplate(id, parsedTags.tags);
+
+      const template = await templateQueries.findById(id);
+      await indexTemplate(template!);
+      res.status(201).json({ ...withTextZones(template!), tags: tags.map((tag) => tag.name) });
+    } catch (err) {
+      console.error('Error uploading template:', err);
+      if (req.file && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+      res.status(500).json({ error: 'Failed to upload template' });
     }
-
-    // Check permission
-    if (template.uploaded_by !== user.id && user.role !== 'admin') {
-      return res.status(403).json({ error: 'Not authorized to delete this template' });
+  }
+);
+
+// Replace a template's tags (admin or uploader)
+router.put(
+  '/:id/tags',
+  {
+    summary: "Replace a template's tags",
+    params: templateParams,
+    body: templateTagsBody,
+    response: templateSchema,
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const template = await templateQueries.findById(id);
+
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+
+      // Check permission
+      if (template.uploaded_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to edit this template' });
+      }
+
+      const parsedTags = parseTagList(req.body.tags);
+      if (!parsedTags.valid) {
+        return res.status(400).json({ error: parsedTags.error });
+      }
+
+      const now = Date.now();
+      for (const tagName of parsedTags.tags) {
+        await tagQueries.create(nanoid(), tagName, user.id, now);
+      }
+      const tags = await tagQueries.setForTemplate(id, parsedTags.tags);
+      const tagNames = tags.map((tag) => tag.name);
+      templateAudit.tagsUpdated(req, id, tagNames);
+
+      await indexTemplate(template);
+      res.json({ ...withTextZones(template), tags: tagNames });
+    } catch (err) {
+      console.error('Error updating template tags:', err);
+      res.status(500).json({ error: 'Failed to update template tags' });
     }
-
-    // SECURITY: Validate filename before path operations
-    if (!/^[a-zA-Z0-9_-]+\.(jpg|jpeg|png|gif|webp)$/.test(template.filename)) {
-      console.error('Invalid filename in database:', template.filename);
-      return res.status(500).json({ error: 'Invalid template data' });
+  }
+);
+
+// Replace a template's default text zones (admin or uploader). Null restores
+// the standard top/bottom zones.
+router.put(
+  '/:id/text-zones',
+  {
+    summary: "Replace a template's default text zones",
+    params: templateParams,
+    body: textZonesBody,
+    response: templateSchema,
+  },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const template = await templateQueries.findById(id);
+
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+
+      // Check permission
+      if (template.uploaded_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to edit this template' });
+      }
+
+      const zones = req.body.text_zones;
+      if (zones) {
+        const boundsError = checkTextZoneBounds(zones, template);
+        if (boundsError) {
+          return res.status(400).json({ error: boundsError });
+        }
+      }
+      const textZones = zones ? JSON.stringify(zones) : null;
+      const zoneCount = zones ? zones.length : 0;
+
+      await templateQueries.updateTextZones(id, textZones);
+      templateAudit.textZonesUpdated(req, id, zoneCount);
+
+      const updated = await templateQueries.findById(id);
+      const tags = await tagQueries.getForTemplate(id);
+      res.json({ ...withTextZones(updated!), tags: tags.map((tag) => tag.name) });
+    } catch (err) {
+      console.error('Error updating template text zones:', err);
+      res.status(500).json({ error: 'Failed to update template text zones' });
     }
+  }
+);
 
-    // Delete file
-    const filePath = path.join(TEMPLATES_PATH, template.filename);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+// Delete template (admin or uploader)
+router.delete(
+  '/:id',
+  { summary: 'Delete a template', params: templateParams, response: successSchema },
+  hasInvite,
+  deleteLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const template = await templateQueries.findById(id);
+
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+
+      // Check permission
+      if (template.uploaded_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to delete this template' });
+      }
+
+      // SECURITY: Validate filename before path operations
+      if (!/^[a-zA-Z0-9_-]+\.(jpg|jpeg|png|gif|webp)$/.test(template.filename)) {
+        console.error('Invalid filename in database:', template.filename);
+        return res.status(500).json({ error: 'Invalid template data' });
+      }
+
+      // Delete file
+      const filePath = path.join(TEMPLATES_PATH, template.filename);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+
+      // Delete from database
+      await templateQueries.delete(id);
+      await removeFromSearchIndex('template', id);
+      templateAudit.deleted(req, id);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting template:', err);
+      res.status(500).json({ error: 'Failed to delete template' });
     }
-
-    // Delete from database
-    templateQueries.delete(id);
-    templateAudit.deleted(req, id);
-
-    res.json({ success: true });
-  } catch (err) {
-    console.error('Error deleting template:', err);
-    res.status(500).json({ error: 'Failed to delete template' });
   }
-});
+);
 
 export default router;
@@ -0,0 +1,147 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import rateLimit from 'express-rate-limit';
+import {
+  apiTokenParams,
+  apiTokenSchema,
+  createApiTokenBody,
+  successSchema,
+} from '@possumbly/shared';
+import { apiTokenQueries, User } from '../db/schema.js';
+import { isAuthenticated } from '../middleware/auth.js';
+import { apiTokenAudit } from '../lib/audit.js';
+import {
+  displayPrefix,
+  generateApiToken,
+  hashApiToken,
+  toApiTokenResponse,
+} from '../lib/apiTokens.js';
+import { createApiRouter } from '../lib/openapi.js';
+
+const router = createApiRouter('API tokens');
+
+// SECURITY: Rate limiting for token creation and revocation
+const tokenLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 token changes per 15 minutes per IP
+  message: { error: 'Too many token changes. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// SECURITY: Limits
+const MAX_TOKENS = 20;
+
+// SECURITY: Tokens are managed from a signed-in session only, so a leaked
+// token can't be used to mint more tokens or outlive its own revocation
+function sessionOnly(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    return res.status(403).json({ error: 'API tokens cannot manage API tokens' });
+  }
+  next();
+}
+
+// List your API tokens
+router.get(
+  '/',
+  { summary: 'List your API tokens', response: z.array(apiTokenSchema) },
+  isAuthenticated,
+  sessionOnly,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const tokens = await apiTokenQueries.findByUser(user.id);
+      res.json(tokens.map(toApiTokenResponse));
+    } catch (err) {
+      console.error('Error listing API tokens:', err);
+      res.status(500).json({ error: 'Failed to list API tokens' });
+    }
+  }
+);
+
+// Create an API token. The token itself is only returned here.
+router.post(
+  '/',
+  {
+    summary: 'Create an API token',
+    body: createApiTokenBody,
+    status: 201,
+    response: apiTokenSchema,
+  },
+  isAuthenticated,
+  sessionOnly,
+  tokenLimiter,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { name, scopes, expires_in_days } = req.body;
+
+      // SECURITY: A token can't grant more than its owner has
+      if (scopes.includes('admin') && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Only admins can create admin tokens' });
+      }
+
+      if ((await apiTokenQueries.countByUser(user.id)) >= MAX_TOKENS) {
+        return res.status(400).json({ error: `Maximum ${MAX_TOKENS} API tokens allowed` });
+      }
+
+      const id = nanoid();
+      const token = generateApiToken();
+      const grantedScopes = [...new Set(scopes)];
+      const now = Date.now();
+      const expiresAt =
+        expires_in_days === null ? null : now + expires_in_days * 24 * 60 * 60 * 1000;
+
+      await apiTokenQueries.create(
+        id,
+        user.id,
+        name,
+        hashApiToken(token),
+        displayPrefix(token),
+        grantedScopes,
+        now,
+        expiresAt
+      );
+      apiTokenAudit.created(req, id, name, grantedScopes);
+
+      const created = await apiTokenQueries.findById(id);
+      res.status(201).json({ ...toApiTokenResponse(created!), token });
+    } catch (err) {
+      console.error('Error creating API token:', err);
+      res.status(500).json({ error: 'Failed to create API token' });
+    }
+  }
+);
+
+// Revoke one of your API tokens
+router.delete(
+  '/:id',
+  { summary: 'Revoke one of your API tokens', params: apiTokenParams, response: successSchema },
+  isAuthenticated,
+  sessionOnly,
+  tokenLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const token = await apiTokenQueries.findById(id);
+
+      // Other users' tokens look the same as missing ones
+      if (!token || token.user_id !== user.id) {
+        return res.status(404).json({ error: 'API token not found' });
+      }
+
+      await apiTokenQueries.delete(id);
+      apiTokenAudit.revoked(req, id, token.name);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error revoking API token:', err);
+      res.status(500).json({ error: 'Failed to revoke API token' });
+    }
+  }
+);
+
+export default router;
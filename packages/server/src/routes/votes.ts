@@ -1,11 +1,12 @@
-import { Router } from 'express';
 import { nanoid } from 'nanoid';
 import rateLimit from 'express-rate-limit';
+import { memeIdParams, voteBody, voteResponse } from '@possumbly/shared';
 import { memeQueries, voteQueries, User } from '../db/schema.js';
 import { hasInvite } from '../middleware/auth.js';
 import { voteAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
 
-const router = Router();
+const router = createApiRouter('Votes');
 
 // Rate limiting for voting
 const voteLimiter = rateLimit({
@@ -16,124 +17,114 @@ const voteLimiter = rateLimit({
   legacyHeaders: false,
 });
 
-// Validate ID format
-function isValidId(id: string): boolean {
-  return /^[a-zA-Z0-9_-]+$/.test(id);
-}
-
 // Get vote counts and user's vote for a meme
-router.get('/:memeId', hasInvite, (req, res) => {
-  try {
-    const { memeId } = req.params;
-    const user = req.user as User;
-
-    if (!isValidId(memeId)) {
-      return res.status(400).json({ error: 'Invalid meme ID' });
-    }
+router.get(
+  '/:memeId',
+  { summary: "Get a meme's votes and your vote", params: memeIdParams, response: voteResponse },
+  hasInvite,
+  async (req, res) => {
+    try {
+      const { memeId } = req.params;
+      const user = req.user as User;
+
+      const meme = await memeQueries.findById(memeId);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    const meme = memeQueries.findById(memeId);
-    if (!meme) {
-      return res.status(404).json({ error: 'Meme not found' });
-    }
+      // Users can view votes for public memes or their own memes
+      if (!meme.is_public && meme.created_by !== user.id && user.role !== 'admin') {
+        return res.status(403).json({ error: 'Not authorized to view this meme' });
+      }
 
-    // Users can view votes for public memes or their own memes
-    if (!meme.is_public && meme.created_by !== user.id && user.role !== 'admin') {
-      return res.status(403).json({ error: 'Not authorized to view this meme' });
+      const userVote = await voteQueries.findByMemeAndUser(memeId, user.id);
+
+      res.json({
+        upvotes: meme.upvotes,
+        downvotes: meme.downvotes,
+        score: meme.score,
+        userVote: userVote?.vote_type || null,
+      });
+    } catch (err) {
+      console.error('Error getting vote counts:', err);
+      res.status(500).json({ error: 'Failed to get vote counts' });
     }
-
-    const { upvotes, downvotes, score } = voteQueries.getVoteCounts(memeId);
-    const userVote = voteQueries.findByMemeAndUser(memeId, user.id);
-
-    res.json({
-      upvotes,
-      downvotes,
-      score,
-      userVote: userVote?.vote_type || null,
-    });
-  } catch (err) {
-    console.error('Error getting vote counts:', err);
-    res.status(500).json({ error: 'Failed to get vote counts' });
   }
-});
+);
 
 // Cast a vote
-router.post('/:memeId', hasInvite, voteLimiter, (req, res) => {
-  try {
-    const { memeId } = req.params;
-    const user = req.user as User;
-    const { vote } = req.body;
-
-    if (!isValidId(memeId)) {
-      return res.status(400).json({ error: 'Invalid meme ID' });
-    }
-
-    // Validate vote type
-    if (vote !== 1 && vote !== -1) {
-      return res.status(400).json({ error: 'Vote must be 1 (upvote) or -1 (downvote)' });
-    }
-
-    const meme = memeQueries.findById(memeId);
-    if (!meme) {
-      return res.status(404).json({ error: 'Meme not found' });
-    }
-
-    // Users can only vote on public memes
-    if (!meme.is_public) {
-      return res.status(403).json({ error: 'Can only vote on public memes' });
-    }
+router.post(
+  '/:memeId',
+  {
+    summary: 'Vote on a public meme',
+    params: memeIdParams,
+    body: voteBody,
+    response: voteResponse,
+  },
+  hasInvite,
+  voteLimiter,
+  async (req, res) => {
+    try {
+      const { memeId } = req.params;
+      const user = req.user as User;
+      const { vote } = req.body;
+
+      const meme = await memeQueries.findById(memeId);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    // Check if user already voted
-    const existingVote = voteQueries.findByMemeAndUser(memeId, user.id);
+      // Users can only vote on public memes
+      if (!meme.is_public) {
+        return res.status(403).json({ error: 'Can only vote on public memes' });
+      }
 
-    if (existingVote) {
-      // Update existing vote
-      if (existingVote.vote_type === vote) {
-        // Same vote, do nothing
-        const { upvotes, downvotes, score } = voteQueries.getVoteCounts(memeId);
-        return res.json({ upvotes, downvotes, score, userVote: vote });
+      // Insert or flip the vote and update the meme's counters together
+      const { counts, changed } = await voteQueries.cast(
+        nanoid(),
+        memeId,
+        user.id,
+        vote,
+        Date.now()
+      );
+      if (changed) {
+        voteAudit.cast(req, memeId, vote);
       }
-      voteQueries.update(vote, memeId, user.id);
-      voteAudit.cast(req, memeId, vote);
-    } else {
-      // Create new vote
-      const id = nanoid();
-      voteQueries.create(id, memeId, user.id, vote, Date.now());
-      voteAudit.cast(req, memeId, vote);
-    }
 
-    const { upvotes, downvotes, score } = voteQueries.getVoteCounts(memeId);
-    res.json({ upvotes, downvotes, score, userVote: vote });
-  } catch (err) {
-    console.error('Error casting vote:', err);
-    res.status(500).json({ error: 'Failed to cast vote' });
+      res.json({ ...counts, userVote: vote });
+    } catch (err) {
+      console.error('Error casting vote:', err);
+      res.status(500).json({ error: 'Failed to cast vote' });
+    }
   }
-});
+);
 
 // Remove a vote
-router.delete('/:memeId', hasInvite, voteLimiter, (req, res) => {
-  try {
-    const { memeId } = req.params;
-    const user = req.user as User;
+router.delete(
+  '/:memeId',
+  { summary: 'Remove your vote', params: memeIdParams, response: voteResponse },
+  hasInvite,
+  voteLimiter,
+  async (req, res) => {
+    try {
+      const { memeId } = req.params;
+      const user = req.user as User;
+
+      const meme = await memeQueries.findById(memeId);
+      if (!meme) {
+        return res.status(404).json({ error: 'Meme not found' });
+      }
 
-    if (!isValidId(memeId)) {
-      return res.status(400).json({ error: 'Invalid meme ID' });
-    }
+      // Delete the vote if it exists
+      const counts = await voteQueries.remove(memeId, user.id);
+      voteAudit.removed(req, memeId);
 
-    const meme = memeQueries.findById(memeId);
-    if (!meme) {
-      return res.status(404).json({ error: 'Meme not found' });
+      res.json({ ...counts, userVote: null });
+    } catch (err) {
+      console.error('Error removing vote:', err);
+      res.status(500).json({ error: 'Failed to remove vote' });
     }
-
-    // Delete the vote if it exists
-    voteQueries.delete(memeId, user.id);
-    voteAudit.removed(req, memeId);
-
-    const { upvotes, downvotes, score } = voteQueries.getVoteCounts(memeId);
-    res.json({ upvotes, downvotes, score, userVote: null });
-  } catch (err) {
-    console.error('Error removing vote:', err);
-    res.status(500).json({ error: 'Failed to remove vote' });
   }
-});
+);
 
 export default router;
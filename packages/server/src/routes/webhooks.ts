@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import rateLimit from 'express-rate-limit';
+import {
+  createWebhookBody,
+  successSchema,
+  updateWebhookBody,
+  webhookDeliverySchema,
+  webhookParams,
+  webhookSchema,
+} from '@possumbly/shared';
+import {
+  webhookDeliveryQueries,
+  webhookQueries,
+  AUDIT_ACTIONS,
+  User,
+  Webhook,
+} from '../db/schema.js';
+import { isAdmin } from '../middleware/auth.js';
+import { webhookAudit } from '../lib/audit.js';
+import { createApiRouter } from '../lib/openapi.js';
+import {
+  generateWebhookSecret,
+  invalidateWebhookCache,
+  parseEvents,
+  sendTestEvent,
+} from '../lib/webhooks.js';
+
+const router = createApiRouter('Webhooks');
+
+// SECURITY: Rate limiting for test deliveries, which make outgoing requests
+const testLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 test deliveries per 15 minutes per IP
+  message: { error: 'Too many test deliveries. Please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// SECURITY: Limits
+const MAX_WEBHOOKS = 20;
+const DELIVERY_LOG_LIMIT = 50;
+
+function isAuditAction(event: string): boolean {
+  return (AUDIT_ACTIONS as readonly string[]).includes(event);
+}
+
+// Webhooks are listed without their secret, which is only shown when set
+function toWebhookResponse(webhook: Webhook) {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: parseEvents(webhook),
+    is_active: webhook.is_active,
+    created_by: webhook.created_by,
+    created_at: webhook.created_at,
+    updated_at: webhook.updated_at,
+  };
+}
+
+// List the audit actions webhooks can subscribe to
+router.get(
+  '/events',
+  {
+    summary: 'List the audit actions webhooks can subscribe to',
+    access: 'admin',
+    response: z.array(z.string()),
+  },
+  isAdmin,
+  (_req, res) => {
+    res.json(AUDIT_ACTIONS);
+  }
+);
+
+// List webhooks
+router.get(
+  '/',
+  { summary: 'List webhooks', access: 'admin', response: z.array(webhookSchema) },
+  isAdmin,
+  async (_req, res) => {
+    try {
+      const webhooks = await webhookQueries.getAll();
+      res.json(webhooks.map(toWebhookResponse));
+    } catch (err) {
+      console.error('Error listing webhooks:', err);
+      res.status(500).json({ error: 'Failed to list webhooks' });
+    }
+  }
+);
+
+// Create a webhook. A signing secret is generated unless one is given.
+router.post(
+  '/',
+  {
+    summary: 'Create a webhook',
+    access: 'admin',
+    body: createWebhookBody,
+    status: 201,
+    response: webhookSchema,
+  },
+  isAdmin,
+  async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { url, events, secret } = req.body;
+
+      if (!events.every(isAuditAction)) {
+        return res.status(400).json({ error: 'events must be a non-empty list of audit actions' });
+      }
+
+      if ((await webhookQueries.count()) >= MAX_WEBHOOKS) {
+        return res.status(400).json({ error: `Maximum ${MAX_WEBHOOKS} webhooks allowed` });
+      }
+
+      const id = nanoid();
+      const signingSecret = secret ?? generateWebhookSecret();
+      await webhookQueries.create(
+        id,
+        url,
+        signingSecret,
+        [...new Set(events)],
+        user.id,
+        Date.now()
+      );
+      invalidateWebhookCache();
+      webhookAudit.created(req, id, url);
+
+      const webhook = await webhookQueries.findById(id);
+      res.status(201).json({ ...toWebhookResponse(webhook!), secret: signingSecret });
+    } catch (err) {
+      console.error('Error creating webhook:', err);
+      res.status(500).json({ error: 'Failed to create webhook' });
+    }
+  }
+);
+
+// Update a webhook's URL, events or active state. Setting `rotate_secret`
+// generates a new signing secret, returned in the response.
+router.put(
+  '/:id',
+  {
+    summary: "Update a webhook's URL, events or active state",
+    access: 'admin',
+    params: webhookParams,
+    body: updateWebhookBody,
+    response: webhookSchema,
+  },
+  isAdmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const webhook = await webhookQueries.findById(id);
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      const {
+        url = webhook.url,
+        events = parseEvents(webhook),
+        is_active = !!webhook.is_active,
+        rotate_secret,
+      } = req.body;
+
+      if (!events.every(isAuditAction)) {
+        return res.status(400).json({ error: 'events must be a non-empty list of audit actions' });
+      }
+
+      const secret = rotate_secret ? generateWebhookSecret() : webhook.secret;
+      await webhookQueries.update(id, url, secret, [...new Set(events)], is_active, Date.now());
+      invalidateWebhookCache();
+      webhookAudit.updated(req, id, { url, isActive: is_active, secretRotated: rotate_secret });
+
+      const updated = await webhookQueries.findById(id);
+      res.json({ ...toWebhookResponse(updated!), ...(rotate_secret ? { secret } : {}) });
+    } catch (err) {
+      console.error('Error updating webhook:', err);
+      res.status(500).json({ error: 'Failed to update webhook' });
+    }
+  }
+);
+
+// Delete a webhook and its delivery log
+router.delete(
+  '/:id',
+  {
+    summary: 'Delete a webhook and its delivery log',
+    access: 'admin',
+    params: webhookParams,
+    response: successSchema,
+  },
+  isAdmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const webhook = await webhookQueries.findById(id);
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      await webhookQueries.delete(id);
+      invalidateWebhookCache();
+      webhookAudit.deleted(req, id);
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting webhook:', err);
+      res.status(500).json({ error: 'Failed to delete webhook' });
+    }
+  }
+);
+
+// Send a test event now and return the delivery with its outcome
+router.post(
+  '/:id/test',
+  {
+    summary: 'Send a test event now',
+    access: 'admin',
+    params: webhookParams,
+    response: webhookDeliverySchema,
+  },
+  isAdmin,
+  testLimiter,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user as User;
+
+      const webhook = await webhookQueries.findById(id);
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      res.json(await sendTestEvent(webhook, user.id));
+    } catch (err) {
+      console.error('Error sending test webhook:', err);
+      res.status(500).json({ error: 'Failed to send test webhook' });
+    }
+  }
+);
+
+// Recent deliveries, newest first
+router.get(
+  '/:id/deliveries',
+  {
+    summary: 'List recent deliveries, newest first',
+    access: 'admin',
+    params: webhookParams,
+    response: z.array(webhookDeliverySchema),
+  },
+  isAdmin,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const webhook = await webhookQueries.findById(id);
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      res.json(await webhookDeliveryQueries.findByWebhook(id, DELIVERY_LOG_LIMIT));
+    } catch (err) {
+      console.error('Error listing webhook deliveries:', err);
+      res.status(500).json({ error: 'Failed to list webhook deliveries' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,62 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { userQueries } from '../db/schema.js';
+import { apiTokenAuth, csrfProtection } from '../middleware/auth.js';
+import { ApiRouter, buildOpenApiDocument } from '../lib/openapi.js';
+
+// Header naming the user a test request is signed in as, standing in for the
+// session cookie
+export const TEST_USER_HEADER = 'x-test-user';
+
+export interface TestApp {
+  /** Origin the app listens on */
+  url: string;
+  /** fetch against the app, signed in as `user` if given */
+  request: (path: string, init?: RequestInit & { user?: string }) => Promise<Response>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve routers with the middleware index.ts puts in front of them (CSRF
+ * checks, API tokens, the OpenAPI document), on a random local port
+ */
+export async function startTestApp(routes: Record<string, ApiRouter>): Promise<TestApp> {
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+  app.use('/api', csrfProtection);
+
+  app.use(async (req, _res, next) => {
+    const userId = req.get(TEST_USER_HEADER);
+    const user = userId ? await userQueries.findById(userId) : undefined;
+    req.user = user as Express.User | undefined;
+    req.isAuthenticated = (() => req.user !== undefined) as typeof req.isAuthenticated;
+    next();
+  });
+  app.use(['/api', '/uploads'], apiTokenAuth);
+
+  for (const [prefix, routeGroup] of Object.entries(routes)) {
+    app.use(prefix, routeGroup.router);
+  }
+  const openApiDocument = buildOpenApiDocument(routes);
+  app.get('/api/openapi.json', (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    request: (path, { user, ...init } = {}) => {
+      const headers = new Headers(init.headers);
+      if (user) headers.set(TEST_USER_HEADER, user);
+      if (typeof init.body === 'string' && !headers.has('content-type')) {
+        headers.set('content-type', 'application/json');
+      }
+      return fetch(`${url}${path}`, { ...init, headers });
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
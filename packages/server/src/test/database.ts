@@ -0,0 +1,87 @@
+import { newDb, DataType, IMemoryDb } from 'pg-mem';
+import { createPostgresDriver } from '../db/drivers/postgres.js';
+import { initializeDatabase } from '../db/schema.js';
+
+// Search weights, as Postgres ranks them by default
+const WEIGHTS: Record<string, number> = { A: 1, B: 0.4, C: 0.2, D: 0.1 };
+
+// pg-mem has no full-text search, so stand in for the parts db/search.ts uses.
+// A tsvector is stored as text: "A:word B:word " (each entry ends in a space, so
+// vectors joined with || stay separate).
+function registerTextSearch(mem: IMemoryDb) {
+  const tsvector = mem.public.registerEquivalentType({
+    name: 'tsvector',
+    equivalentTo: DataType.text,
+    isValid: () => true,
+  });
+
+  const entries = (vector: string) =>
+    vector
+      .split(' ')
+      .filter(Boolean)
+      .map((entry) => ({ weight: entry[0], word: entry.slice(2) }));
+  // to_tsquery('simple', ...) input is "term:* & term:*"
+  const terms = (query: string) => query.split(' & ').map((term) => term.replace(/:\*$/, ''));
+  const toVector = (words: { weight: string; word: string }[]) =>
+    words.map(({ weight, word }) => `${weight}:${word} `).join('');
+
+  mem.public.registerFunction({
+    name: 'to_tsvector',
+    args: [DataType.text, DataType.text],
+    returns: tsvector,
+    implementation: (_config: string, text: string | null) =>
+      toVector(
+        (text || '')
+          .toLowerCase()
+          .split(/[^a-z0-9]+/)
+          .filter(Boolean)
+          .map((word) => ({ weight: 'D', word }))
+      ),
+  });
+  mem.public.registerFunction({
+    name: 'setweight',
+    args: [tsvector, DataType.text],
+    returns: tsvector,
+    implementation: (vector: string, weight: string) =>
+      toVector(entries(vector).map(({ word }) => ({ weight, word }))),
+  });
+  mem.public.registerFunction({
+    name: 'to_tsquery',
+    args: [DataType.text, DataType.text],
+    returns: DataType.text,
+    implementation: (_config: string, query: string) => query,
+  });
+  mem.public.registerOperator({
+    operator: '@@',
+    left: tsvector,
+    right: DataType.text,
+    returns: DataType.bool,
+    implementation: (vector: string, query: string) =>
+      terms(query).every((term) => entries(vector).some(({ word }) => word.startsWith(term))),
+  });
+  mem.public.registerFunction({
+    name: 'ts_rank',
+    args: [tsvector, DataType.text],
+    returns: DataType.float,
+    implementation: (vector: string, query: string) =>
+      entries(vector)
+        .filter(({ word }) => terms(query).some((term) => word.startsWith(term)))
+        .reduce((rank, { weight }) => rank + WEIGHTS[weight], 0),
+  });
+}
+
+/**
+ * Initialize the database on an in-memory Postgres (pg-mem) through the
+ * Postgres driver, with every migration applied. onQuery sees every statement
+ * pg-mem runs.
+ */
+export async function initializeTestDatabase({
+  onQuery,
+}: { onQuery?: (sql: string) => void } = {}) {
+  const mem = newDb();
+  registerTextSearch(mem);
+  if (onQuery) mem.on('query', onQuery);
+
+  const { Pool } = mem.adapters.createPg();
+  return initializeDatabase(createPostgresDriver(new Pool()));
+}
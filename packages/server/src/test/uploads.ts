@@ -0,0 +1,12 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Modules read UPLOADS_PATH when they load, so route tests import this first to
+// keep their uploads in a temp directory. It is removed when the process exits.
+export const UPLOADS_PATH = fs.mkdtempSync(path.join(os.tmpdir(), 'possumbly-uploads-'));
+process.env.UPLOADS_PATH = UPLOADS_PATH;
+
+process.on('exit', () => {
+  fs.rmSync(UPLOADS_PATH, { recursive: true, force: true });
+});
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { id, successSchema } from './common.js';
+
+export const userParams = z.object({ id: id('user') });
+
+export const roleBody = z.object({
+  role: z.enum(['admin', 'user'], 'Invalid role. Must be "admin" or "user"'),
+});
+
+export const statsSchema = z.object({
+  totalUsers: z.number(),
+  adminUsers: z.number(),
+  activeUsers: z.number(),
+  pendingUsers: z.number(),
+  totalInvites: z.number(),
+  usedInvites: z.number(),
+  availableInvites: z.number(),
+});
+
+export const rerenderResponse = successSchema.extend({ rendered: z.number(), failed: z.number() });
+
+export const recountResponse = successSchema.extend({ checked: z.number(), corrected: z.number() });
+
+export const reindexResponse = successSchema.extend({ indexed: z.number() });
+
+export type Stats = z.infer<typeof statsSchema>;
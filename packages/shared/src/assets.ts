@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+
+const MAX_NAME_LENGTH = 100;
+
+// Stickers are shared with everyone; images are only usable by their uploader
+export const assetKindSchema = z.enum(
+  ['sticker', 'image'],
+  'Invalid kind. Must be sticker or image'
+);
+
+export const assetSchema = z
+  .object({
+    id: z.string(),
+    kind: assetKindSchema,
+    name: z.string(),
+    filename: z.string(),
+    width: z.number(),
+    height: z.number(),
+    uploaded_by: z.string().nullable(),
+    created_at: timestamp,
+  })
+  .meta({ id: 'Asset' });
+
+export const assetParams = z.object({ id: id('asset') });
+
+export const uploadAssetBody = z.object({
+  kind: assetKindSchema.default('image'),
+  name: z
+    .string('Name is required')
+    .trim()
+    .min(1, 'Name is required')
+    .max(MAX_NAME_LENGTH, `Name must be ${MAX_NAME_LENGTH} characters or less`),
+});
+
+export type Asset = z.infer<typeof assetSchema>;
+export type AssetKind = z.infer<typeof assetKindSchema>;
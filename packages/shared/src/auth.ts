@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { timestamp } from './common.js';
+
+export const userSchema = z
+  .object({
+    id: z.string(),
+    email: z.string().nullable(),
+    name: z.string().nullable(),
+    avatar_url: z.string().nullable(),
+    provider: z.enum(['google', 'github', 'discord']),
+    role: z.enum(['admin', 'user']),
+    invite_redeemed: z.boolean(),
+    created_at: timestamp,
+  })
+  .meta({ id: 'User' });
+
+export const authStatusSchema = z.object({
+  authenticated: z.boolean(),
+  inviteRedeemed: z.boolean(),
+});
+
+export type User = z.infer<typeof userSchema>;
+export type AuthStatus = z.infer<typeof authStatusSchema>;
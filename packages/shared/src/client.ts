@@ -0,0 +1,122 @@
+// Fetch client for the HTTP API. Only imports types, so bundling it doesn't pull
+// in zod.
+import type { ApiErrorBody, ErrorCode } from './common.js';
+
+/**
+ * A failed request. `code` is always set: the server's own when it sent one,
+ * otherwise derived from the status.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+
+  constructor(message: string, status: number, code: ErrorCode) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Code for an error response that didn't come with one
+function codeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    case 429:
+      return 'RATE_LIMITED';
+    default:
+      return status >= 500 ? 'SERVER_ERROR' : 'INVALID_REQUEST';
+  }
+}
+
+/** Query string values; undefined, null and empty ones are left out */
+export type Query = Record<string, string | number | boolean | null | undefined>;
+
+export interface RequestOptions {
+  query?: Query;
+  /** Sent as JSON */
+  body?: unknown;
+  /** Sent as multipart/form-data instead of a JSON body */
+  form?: FormData;
+}
+
+export interface ApiClientOptions {
+  /** Origin the API is served from; empty for the page's own */
+  baseUrl?: string;
+  /** Personal API token, sent as `Authorization: Bearer <token>` */
+  token?: string;
+  fetch?: typeof fetch;
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+/**
+ * Client that sends requests with the session cookie (or an API token), parses
+ * JSON responses and throws ApiError for anything other than 2xx.
+ */
+export function createApiClient({
+  baseUrl = '',
+  token,
+  fetch: fetchImpl = fetch,
+}: ApiClientOptions = {}) {
+  const url = (path: string, query?: Query) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query || {})) {
+      if (value !== undefined && value !== null && value !== '') params.set(key, String(value));
+    }
+    const queryString = params.toString();
+    return `${baseUrl}${path}${queryString ? `?${queryString}` : ''}`;
+  };
+
+  async function request<T>(method: string, path: string, options: RequestOptions = {}) {
+    const headers: Record<string, string> = {};
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    let body: BodyInit | undefined;
+    if (options.form) {
+      body = options.form;
+    } else if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.body);
+    }
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url(path, options.query), {
+        method,
+        headers,
+        body,
+        credentials: 'include',
+      });
+    } catch {
+      throw new ApiError('Could not reach the server', 0, 'NETWORK_ERROR');
+    }
+
+    if (!response.ok) {
+      const error: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+      throw new ApiError(
+        error.error || 'Request failed',
+        response.status,
+        error.code || codeForStatus(response.status)
+      );
+    }
+    return response.json() as Promise<T>;
+  }
+
+  return {
+    /** Full URL of a path, for links and image sources */
+    url,
+    get: <T>(path: string, query?: Query) => request<T>('GET', path, { query }),
+    post: <T>(path: string, options?: RequestOptions) => request<T>('POST', path, options),
+    put: <T>(path: string, options?: RequestOptions) => request<T>('PUT', path, options),
+    patch: <T>(path: string, options?: RequestOptions) => request<T>('PATCH', path, options),
+    delete: <T>(path: string, options?: RequestOptions) => request<T>('DELETE', path, options),
+  };
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { id, paginationSchema, timestamp } from './common.js';
+import { galleryMemeSchema } from './gallery.js';
+
+// SECURITY: Limits
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// Collection with its owner, size and its first public meme as a cover
+export const collectionSchema = z
+  .object({
+    id: z.string(),
+    owner_id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    is_public: z.number(),
+    created_at: timestamp,
+    updated_at: timestamp,
+    owner_name: z.string().nullable(),
+    meme_count: z.number(),
+    cover_filename: z.string().nullable(),
+  })
+  .meta({ id: 'Collection' });
+
+export const collectionDetailSchema = collectionSchema
+  .extend({ memes: z.array(galleryMemeSchema) })
+  .meta({ id: 'CollectionDetail' });
+
+export const collectionsResponse = z.object({
+  collections: z.array(collectionSchema),
+  pagination: paginationSchema,
+});
+
+export const collectionParams = z.object({ id: id('collection') });
+
+export const collectionMemeParams = z.object({ id: id(), memeId: id() });
+
+// SECURITY: Validate collection name, description and visibility
+export const collectionBody = z.object({
+  name: z
+    .string('Collection name is required')
+    .trim()
+    .min(1, 'Collection name is required')
+    .max(MAX_NAME_LENGTH, `Name must be ${MAX_NAME_LENGTH} characters or less`),
+  description: z
+    .string(`Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`)
+    .trim()
+    .max(MAX_DESCRIPTION_LENGTH, `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`)
+    .default(''),
+  is_public: z.boolean('is_public must be a boolean').default(false),
+});
+
+export const addMemeBody = z.object({ meme_id: id('meme') });
+
+export const reorderBody = z.object({
+  meme_ids: z.array(id(), 'meme_ids must be an array of meme IDs'),
+});
+
+export type Collection = z.infer<typeof collectionSchema>;
+export type CollectionDetail = z.infer<typeof collectionDetailSchema>;
+export type CollectionInput = z.input<typeof collectionBody>;
+export type CollectionsResponse = z.infer<typeof collectionsResponse>;
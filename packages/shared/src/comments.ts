@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export const commentSchema = z
+  .object({
+    id: z.string(),
+    meme_id: z.string(),
+    user_id: z.string().nullable().describe('Null once the comment is deleted'),
+    parent_id: z.string().nullable(),
+    body: z.string(),
+    created_at: timestamp,
+    updated_at: timestamp.nullable(),
+    deleted_at: timestamp.nullable().describe('Set when a comment with replies was deleted'),
+    author_name: z.string().nullable(),
+    author_avatar: z.string().nullable(),
+  })
+  .meta({ id: 'Comment' });
+
+export const commentParams = z.object({ memeId: id(), commentId: id() });
+
+// SECURITY: Validate comment text
+const commentText = z
+  .string('Comment text is required')
+  .trim()
+  .min(1, 'Comment text is required')
+  .max(MAX_COMMENT_LENGTH, `Comments must be ${MAX_COMMENT_LENGTH} characters or less`);
+
+export const createCommentBody = z.object({
+  parent_id: id('parent comment').nullable().default(null).describe('Comment to reply to'),
+  body: commentText,
+});
+
+export const updateCommentBody = z.object({ body: commentText });
+
+export type Comment = z.infer<typeof commentSchema>;
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+// SECURITY: IDs are nanoids, so anything else is rejected before it reaches a query
+const ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * An ID of some kind of resource. `id('meme')` fails with "Invalid meme ID".
+ */
+export function id(resource?: string) {
+  const message = resource ? `Invalid ${resource} ID` : 'Invalid ID';
+  return z.string(message).regex(ID_PATTERN, message);
+}
+
+// Whole number from a query string, clamped to a range. Missing or unreadable
+// values use the fallback.
+export function queryInt(fallback: number, min: number, max: number) {
+  return z.coerce
+    .number()
+    .int()
+    .catch(fallback)
+    .transform((value) => Math.min(max, Math.max(min, value)));
+}
+
+export const paginationQuery = z.object({
+  page: queryInt(1, 1, Number.MAX_SAFE_INTEGER),
+  limit: queryInt(20, 1, 50),
+});
+
+export const paginationSchema = z
+  .object({
+    page: z.number(),
+    limit: z.number(),
+    total: z.number(),
+    totalPages: z.number(),
+    hasNext: z.boolean(),
+    hasPrev: z.boolean(),
+  })
+  .meta({ id: 'Pagination' });
+
+/**
+ * Machine-readable reason a request failed. The server sets one for auth and
+ * validation failures; clients derive the rest from the status code.
+ */
+export const errorCodeSchema = z.enum([
+  'INVALID_REQUEST',
+  'UNAUTHORIZED',
+  'INVITE_REQUIRED',
+  'ADMIN_REQUIRED',
+  'INVALID_API_TOKEN',
+  'INSUFFICIENT_SCOPE',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'RATE_LIMITED',
+  'SERVER_ERROR',
+  'NETWORK_ERROR',
+]);
+
+export const errorSchema = z
+  .object({
+    error: z.string().describe('What went wrong, fit to show to users'),
+    code: errorCodeSchema.optional(),
+  })
+  .meta({ id: 'Error' });
+
+export const successSchema = z.object({ success: z.boolean() });
+
+export const messageSchema = successSchema.extend({ message: z.string() });
+
+// Timestamps are milliseconds since the epoch
+export const timestamp = z.number();
+
+export type Pagination = z.infer<typeof paginationSchema>;
+export type ErrorCode = z.infer<typeof errorCodeSchema>;
+export type ApiErrorBody = z.infer<typeof errorSchema>;
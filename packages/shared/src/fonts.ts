@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+
+export const fontSchema = z
+  .object({
+    id: z.string(),
+    family: z.string().describe('CSS font-family name text boxes refer to the font by'),
+    filename: z.string(),
+    format: z.enum(['ttf', 'otf', 'woff2']),
+    uploaded_by: z.string().nullable(),
+    created_at: timestamp,
+  })
+  .meta({ id: 'Font' });
+
+export const fontParams = z.object({ id: id('font') });
+
+// The family is checked in the handler, since it defaults to the name inside
+// the font file
+export const uploadFontBody = z.object({
+  family: z
+    .string('Invalid family name')
+    .optional()
+    .describe('Defaults to the family name stored in the font file'),
+});
+
+export type Font = z.infer<typeof fontSchema>;
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { paginationQuery, paginationSchema, timestamp } from './common.js';
+import { reactionSummarySchema } from './reactions.js';
+
+// Public meme joined with its template, creator and the viewer's vote
+export const galleryMemeSchema = z
+  .object({
+    id: z.string(),
+    template_id: z.string(),
+    created_by: z.string().nullable(),
+    output_filename: z.string().nullable(),
+    is_public: z.number(),
+    created_at: timestamp,
+    template_name: z.string().nullable(),
+    template_filename: z.string().nullable(),
+    creator_name: z.string().nullable(),
+    creator_avatar: z.string().nullable(),
+    upvotes: z.number(),
+    downvotes: z.number(),
+    score: z.number(),
+    userVote: z.number().nullable(),
+    favorite_count: z.number(),
+    favorited: z.boolean(),
+    remixed_from: z.string().nullable(),
+    remixed_from_creator: z.string().nullable(),
+    reactions: z.array(reactionSummarySchema),
+  })
+  .meta({ id: 'GalleryMeme' });
+
+export const galleryQuery = paginationQuery.extend({
+  period: z
+    .enum(['7d', '30d', 'year', 'all'], 'Invalid period. Must be 7d, 30d, year, or all')
+    .default('all'),
+  sort: z
+    .enum(['hot', 'top', 'new', 'favorites'], 'Invalid sort. Must be hot, top, new, or favorites')
+    .default('hot'),
+});
+
+export const galleryResponse = z.object({
+  memes: z.array(galleryMemeSchema),
+  pagination: paginationSchema,
+});
+
+export type GalleryMeme = z.infer<typeof galleryMemeSchema>;
+export type GalleryPeriod = z.infer<typeof galleryQuery>['period'];
+export type GallerySort = z.infer<typeof galleryQuery>['sort'];
+export type GalleryResponse = z.infer<typeof galleryResponse>;
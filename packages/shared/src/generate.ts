@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+// SECURITY: Limits
+const MAX_TEXT_LENGTH = 1000;
+const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+// Checked against the template's text zones in the handler
+export const generateBody = z
+  .object({
+    template_id: z
+      .string('Invalid template ID format')
+      .regex(/^[a-zA-Z0-9_-]+$/, 'Invalid template ID format')
+      .optional(),
+    template_name: z
+      .string(`Template name must be 1-${MAX_TEMPLATE_NAME_LENGTH} characters`)
+      .trim()
+      .min(1, `Template name must be 1-${MAX_TEMPLATE_NAME_LENGTH} characters`)
+      .max(
+        MAX_TEMPLATE_NAME_LENGTH,
+        `Template name must be 1-${MAX_TEMPLATE_NAME_LENGTH} characters`
+      )
+      .optional()
+      .describe('Used when template_id is left out; matched case-insensitively'),
+    captions: z
+      .array(
+        z
+          .string('captions must be a non-empty array of strings')
+          .max(MAX_TEXT_LENGTH, `Captions must be ${MAX_TEXT_LENGTH} characters or less`),
+        'captions must be a non-empty array of strings'
+      )
+      .min(1, 'captions must be a non-empty array of strings')
+      .describe("Text for the template's text zones, in order"),
+    is_public: z.boolean('is_public must be a boolean').default(false),
+    output: z
+      .enum(['url', 'image'], 'output must be url or image')
+      .default('url')
+      .describe('`image` responds with the rendered image instead of JSON'),
+  })
+  .refine(
+    (body) => body.template_id !== undefined || body.template_name !== undefined,
+    'template_id or template_name is required'
+  );
+
+export const generateResponse = z.object({
+  id: z.string(),
+  template_id: z.string(),
+  template_name: z.string(),
+  output_filename: z.string(),
+  image_url: z.string().describe('Needs a session or API token to fetch, like every upload'),
+  is_public: z.boolean(),
+});
+
+export type GenerateResponse = z.infer<typeof generateResponse>;
@@ -0,0 +1,22 @@
+// Request and response schemas for the HTTP API. Routes validate requests
+// against them, the OpenAPI document is generated from them, and the web client
+// takes its types from them.
+export * from './common.js';
+export * from './auth.js';
+export * from './admin.js';
+export * from './invites.js';
+export * from './templates.js';
+export * from './tags.js';
+export * from './assets.js';
+export * from './fonts.js';
+export * from './memes.js';
+export * from './votes.js';
+export * from './reactions.js';
+export * from './comments.js';
+export * from './gallery.js';
+export * from './collections.js';
+export * from './search.js';
+export * from './shares.js';
+export * from './webhooks.js';
+export * from './tokens.js';
+export * from './generate.js';
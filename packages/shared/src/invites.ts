@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+
+export const inviteParams = z.object({ id: id('invite') });
+
+// Codes are normalized before lookup; the format is checked in the handler so
+// malformed and unknown codes get the same answer
+export const redeemBody = z.object({
+  code: z.string('Invite code is required').min(1, 'Invite code is required'),
+});
+
+export const inviteCodeSchema = z
+  .object({
+    id: z.string(),
+    code: z.string(),
+    created_by: z.string().nullable(),
+    used_by: z.string().nullable(),
+    created_at: timestamp,
+    used_at: timestamp.nullable(),
+    created_by_name: z.string().nullable().optional(),
+    used_by_name: z.string().nullable().optional(),
+  })
+  .meta({ id: 'InviteCode' });
+
+export const createdInviteSchema = inviteCodeSchema.pick({
+  id: true,
+  code: true,
+  created_at: true,
+});
+
+export type InviteCode = z.infer<typeof inviteCodeSchema>;
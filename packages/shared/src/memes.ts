@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+import { alignSchema } from './templates.js';
+
+// SECURITY: Limits
+const MAX_EDITOR_STATE_SIZE = 100 * 1024; // 100KB max for editor state
+const MAX_TEXT_BOXES = 50;
+const MAX_TEXT_LENGTH = 1000;
+const MAX_IMAGE_LAYERS = 20;
+const MAX_LAYER_SCALE = 20;
+const MAX_SHARE_DAYS = 365;
+
+// SECURITY: Text boxes are rendered on the server, so keep their geometry within
+// sizes an editor can produce. The renderer clamps stored states to the same bounds.
+export const TEXT_BOX_LIMITS = {
+  coordinate: 10000,
+  width: { min: 1, max: 10000 },
+  fontSize: { min: 1, max: 500 },
+  strokeWidth: { min: 0, max: 50 },
+  rotation: 360,
+} as const;
+
+// A finite number between min and max, inclusive
+function bounded(name: string, min: number, max: number) {
+  const message = `${name} must be between ${min} and ${max}`;
+  return z.number(message).min(min, message).max(max, message);
+}
+
+const coordinate = (name: string) =>
+  bounded(name, -TEXT_BOX_LIMITS.coordinate, TEXT_BOX_LIMITS.coordinate);
+const rotation = bounded('rotation', -TEXT_BOX_LIMITS.rotation, TEXT_BOX_LIMITS.rotation);
+
+// Mirrors DEFAULT_TEXT_BOX in the web editor; missing fields are filled in with these
+export const TEXT_BOX_DEFAULTS = {
+  text: '',
+  x: 50,
+  y: 50,
+  width: 300,
+  fontSize: 48,
+  fontFamily: 'Impact',
+  fill: '#ffffff',
+  stroke: '#000000',
+  strokeWidth: 2,
+  align: 'center',
+  rotation: 0,
+} as const;
+
+// First and last frame (0-based, inclusive) an item shows on in animated templates
+const frameRange = {
+  startFrame: z.number().optional(),
+  endFrame: z.number().optional(),
+};
+
+export const textBoxSchema = z
+  .object(
+    {
+      id: z.string().max(100),
+      text: z
+        .string()
+        .max(MAX_TEXT_LENGTH, `Text must be ${MAX_TEXT_LENGTH} characters or less`)
+        .default(TEXT_BOX_DEFAULTS.text),
+      x: coordinate('x').default(TEXT_BOX_DEFAULTS.x),
+      y: coordinate('y').default(TEXT_BOX_DEFAULTS.y),
+      width: bounded('width', TEXT_BOX_LIMITS.width.min, TEXT_BOX_LIMITS.width.max).default(
+        TEXT_BOX_DEFAULTS.width
+      ),
+      fontSize: bounded(
+        'fontSize',
+        TEXT_BOX_LIMITS.fontSize.min,
+        TEXT_BOX_LIMITS.fontSize.max
+      ).default(TEXT_BOX_DEFAULTS.fontSize),
+      fontFamily: z.string().max(100).default(TEXT_BOX_DEFAULTS.fontFamily),
+      fill: z.string().max(100).default(TEXT_BOX_DEFAULTS.fill),
+      stroke: z.string().max(100).default(TEXT_BOX_DEFAULTS.stroke),
+      strokeWidth: bounded(
+        'strokeWidth',
+        TEXT_BOX_LIMITS.strokeWidth.min,
+        TEXT_BOX_LIMITS.strokeWidth.max
+      ).default(TEXT_BOX_DEFAULTS.strokeWidth),
+      align: alignSchema.default(TEXT_BOX_DEFAULTS.align),
+      rotation: rotation.default(TEXT_BOX_DEFAULTS.rotation),
+      ...frameRange,
+    },
+    'Invalid text box format'
+  )
+  .meta({ id: 'TextBox' });
+
+export const imageLayerSchema = z
+  .object(
+    {
+      id: z.string('Image layer id is required').min(1, 'Image layer id is required').max(100),
+      source: z.enum(['asset', 'template'], 'Image layer source must be asset or template'),
+      refId: z
+        .string('Invalid image layer reference')
+        .regex(/^[a-zA-Z0-9_-]+$/, 'Invalid image layer reference')
+        .describe('ID of the asset or template the image comes from'),
+      x: coordinate('x').describe('Center of the image, in template pixels'),
+      y: coordinate('y'),
+      scale: z
+        .number()
+        .gt(0, `scale must be greater than 0 and at most ${MAX_LAYER_SCALE}`)
+        .max(MAX_LAYER_SCALE, `scale must be greater than 0 and at most ${MAX_LAYER_SCALE}`)
+        .describe("Multiplier on the image's natural size"),
+      rotation,
+      opacity: z
+        .number()
+        .min(0, 'opacity must be between 0 and 1')
+        .max(1, 'opacity must be between 0 and 1'),
+      ...frameRange,
+    },
+    'Invalid image layer format'
+  )
+  .meta({ id: 'ImageLayer' });
+
+// Image layers are drawn over the template in list order (the last one on top),
+// and text boxes are drawn over all image layers
+export const editorStateSchema = z
+  .object(
+    {
+      textBoxes: z
+        .array(textBoxSchema, 'Editor state must contain textBoxes array')
+        .max(MAX_TEXT_BOXES, `Maximum ${MAX_TEXT_BOXES} text boxes allowed`),
+      imageLayers: z
+        .array(imageLayerSchema, 'imageLayers must be an array')
+        .max(MAX_IMAGE_LAYERS, `Maximum ${MAX_IMAGE_LAYERS} image layers allowed`)
+        .optional(),
+    },
+    'Editor state must be an object'
+  )
+  .refine(
+    (state) => JSON.stringify(state).length <= MAX_EDITOR_STATE_SIZE,
+    'Editor state too large'
+  )
+  .meta({ id: 'EditorState' });
+
+export const memeSchema = z
+  .object({
+    id: z.string(),
+    template_id: z.string(),
+    created_by: z.string().nullable(),
+    editor_state: editorStateSchema,
+    output_filename: z.string().nullable(),
+    is_public: z.number().describe('1 if the meme is in the public gallery'),
+    created_at: timestamp,
+    upvotes: z.number(),
+    downvotes: z.number(),
+    score: z.number(),
+    favorite_count: z.number(),
+    remixed_from: z.string().nullable().describe('Public meme this one was remixed from'),
+    template_name: z.string().nullable().optional(),
+    template_filename: z.string().nullable().optional(),
+    template_width: z.number().nullable().optional(),
+    template_height: z.number().nullable().optional(),
+  })
+  .meta({ id: 'Meme' });
+
+export const memeRevisionSchema = z
+  .object({
+    id: z.string(),
+    meme_id: z.string(),
+    editor_state: editorStateSchema,
+    output_filename: z
+      .string()
+      .nullable()
+      .describe('Image rendered from this revision, if it was rendered'),
+    created_by: z.string().nullable(),
+    creator_name: z.string().nullable(),
+    restored_from: z.string().nullable().describe('Revision this one was restored from'),
+    created_at: timestamp,
+  })
+  .meta({ id: 'MemeRevision' });
+
+export const memeShareSchema = z
+  .object({
+    id: z.string(),
+    meme_id: z.string(),
+    url: z.string().describe('Public page that shows the meme without signing in'),
+    created_at: timestamp,
+    expires_at: timestamp.nullable(),
+  })
+  .meta({ id: 'MemeShare' });
+
+export const memeParams = z.object({ id: id('meme') });
+
+// Routes nested under a meme: votes, reactions and comments
+export const memeIdParams = z.object({ memeId: id('meme') });
+
+export const revisionParams = z.object({ id: id(), revisionId: id() });
+
+export const shareParams = z.object({ id: id(), shareId: id() });
+
+export const createMemeBody = z.object({
+  template_id: z
+    .string('Template ID is required')
+    .min(1, 'Template ID is required')
+    .regex(/^[a-zA-Z0-9_-]+$/, 'Invalid template ID format'),
+  editor_state: editorStateSchema,
+});
+
+export const updateMemeBody = z.object({ editor_state: editorStateSchema });
+
+export const visibilityBody = z.object({
+  is_public: z.boolean('is_public must be a boolean'),
+});
+
+const EXPIRY_ERROR = `expires_in_days must be between 1 and ${MAX_SHARE_DAYS}, or null`;
+
+export const createShareBody = z.object({
+  expires_in_days: z
+    .number(EXPIRY_ERROR)
+    .int(EXPIRY_ERROR)
+    .min(1, EXPIRY_ERROR)
+    .max(MAX_SHARE_DAYS, EXPIRY_ERROR)
+    .nullable()
+    .default(null)
+    .describe('Days until the link stops working; null never expires'),
+});
+
+export const renderResponse = z.object({ success: z.boolean(), filename: z.string() });
+
+export const favoriteResponse = z.object({ favorited: z.boolean(), favoriteCount: z.number() });
+
+export type TextBox = z.infer<typeof textBoxSchema>;
+export type ImageLayer = z.infer<typeof imageLayerSchema>;
+export type ImageLayerSource = ImageLayer['source'];
+export type EditorState = z.infer<typeof editorStateSchema>;
+export type Meme = z.infer<typeof memeSchema>;
+export type MemeRevision = z.infer<typeof memeRevisionSchema>;
+export type MemeShare = z.infer<typeof memeShareSchema>;
+export type FavoriteResponse = z.infer<typeof favoriteResponse>;
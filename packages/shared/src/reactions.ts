@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const reactionSummarySchema = z
+  .object({
+    emoji: z.string(),
+    count: z.number(),
+    reacted: z.boolean().describe('Whether the current user reacted with this emoji'),
+  })
+  .meta({ id: 'ReactionSummary' });
+
+// The emoji is checked against the instance's configured set in the handler
+export const reactionBody = z.object({ emoji: z.string('Unsupported reaction') });
+
+export const reactionOptionsResponse = z.object({ emoji: z.array(z.string()) });
+
+export const reactionsResponse = z.object({ reactions: z.array(reactionSummarySchema) });
+
+export type ReactionSummary = z.infer<typeof reactionSummarySchema>;
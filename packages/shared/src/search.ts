@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { queryInt } from './common.js';
+import { galleryMemeSchema } from './gallery.js';
+import { templateSchema } from './templates.js';
+
+const MAX_QUERY_LENGTH = 200;
+
+export const searchScopeSchema = z.enum(
+  ['all', 'templates', 'mine', 'public'],
+  'Invalid scope. Must be all, templates, mine, or public'
+);
+
+export const searchQuery = z.object({
+  q: z
+    .string(`Query must be ${MAX_QUERY_LENGTH} characters or less`)
+    .max(MAX_QUERY_LENGTH, `Query must be ${MAX_QUERY_LENGTH} characters or less`)
+    .default(''),
+  scope: searchScopeSchema.default('all'),
+  limit: queryInt(20, 1, 50),
+});
+
+export const searchResponse = z.object({
+  query: z.string(),
+  scope: searchScopeSchema,
+  templates: z.array(templateSchema),
+  memes: z.array(galleryMemeSchema),
+});
+
+export type SearchScope = z.infer<typeof searchScopeSchema>;
+export type SearchResponse = z.infer<typeof searchResponse>;
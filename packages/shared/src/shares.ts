@@ -0,0 +1,4 @@
+import { z } from 'zod';
+
+// Unknown and malformed tokens get the same not-found page
+export const shareTokenParams = z.object({ token: z.string() });
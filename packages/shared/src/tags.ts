@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+
+export const tagSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    created_by: z.string().nullable(),
+    created_at: timestamp,
+  })
+  .meta({ id: 'Tag' });
+
+export const tagWithCountSchema = tagSchema
+  .extend({ template_count: z.number() })
+  .meta({ id: 'TagWithCount' });
+
+export const tagParams = z.object({ id: id('tag') });
+
+// Names are normalized in the handler ("Reaction Images" -> "reaction-images")
+export const renameTagBody = z.object({ name: z.string('Invalid tag name') });
+
+export type Tag = z.infer<typeof tagSchema>;
+export type TagWithCount = z.infer<typeof tagWithCountSchema>;
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+
+// SECURITY: Limits
+const MAX_NAME_LENGTH = 100;
+const MAX_TEXT_ZONES = 20;
+const MAX_SAMPLE_TEXT_LENGTH = 100;
+const MAX_FONT_FAMILY_LENGTH = 100;
+const MIN_FONT_SIZE = 8;
+const MAX_FONT_SIZE = 200;
+
+export const alignSchema = z.enum(
+  ['left', 'center', 'right'],
+  'align must be left, center, or right'
+);
+
+// Default text slot on a template, used to pre-fill new memes. Coordinates are in
+// template pixels; the handler checks they fall inside the template.
+export const textZoneSchema = z
+  .object(
+    {
+      x: z.number(),
+      y: z.number(),
+      width: z.number(),
+      fontSize: z
+        .number()
+        .min(MIN_FONT_SIZE, `fontSize must be between ${MIN_FONT_SIZE} and ${MAX_FONT_SIZE}`)
+        .max(MAX_FONT_SIZE, `fontSize must be between ${MIN_FONT_SIZE} and ${MAX_FONT_SIZE}`),
+      fontFamily: z
+        .string('Invalid font family')
+        .min(1, 'Invalid font family')
+        .max(MAX_FONT_FAMILY_LENGTH, 'Invalid font family'),
+      align: alignSchema,
+      sampleText: z
+        .string()
+        .max(
+          MAX_SAMPLE_TEXT_LENGTH,
+          `Sample text must be ${MAX_SAMPLE_TEXT_LENGTH} characters or less`
+        ),
+    },
+    'Invalid text zone format'
+  )
+  .meta({ id: 'TextZone' });
+
+export const templateSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    filename: z.string(),
+    width: z.number(),
+    height: z.number(),
+    uploaded_by: z.string().nullable(),
+    created_at: timestamp,
+    tags: z.array(z.string()).optional().describe('Tag names; left out of search results'),
+    text_zones: z.array(textZoneSchema).describe('Stored zones, or the default top/bottom ones'),
+    frame_count: z.number().describe('Animation frames in the image; 1 for still images'),
+  })
+  .meta({ id: 'Template' });
+
+export const templateParams = z.object({ id: id('template') });
+
+export const frameParams = templateParams.extend({
+  frame: z.coerce.number<string>().int().min(0).describe('0-based frame index'),
+});
+
+export const templateListQuery = z.object({
+  tag: z.string('Invalid tag').optional().describe('Only templates with this tag'),
+});
+
+// JSON bodies send an array of tag names, multipart forms a comma-separated string
+export const tagListSchema = z
+  .union([z.array(z.string()), z.string()], 'Tags must be a list of strings')
+  .describe('Tag names, as an array or a comma-separated string');
+
+export const uploadTemplateBody = z.object({
+  name: z
+    .string('Template name is required')
+    .trim()
+    .min(1, 'Template name is required')
+    .max(MAX_NAME_LENGTH, `Template name must be ${MAX_NAME_LENGTH} characters or less`),
+  tags: tagListSchema.optional(),
+});
+
+export const templateTagsBody = z.object({ tags: tagListSchema });
+
+export const textZonesBody = z.object({
+  text_zones: z
+    .array(textZoneSchema, 'Text zones must be an array')
+    .max(MAX_TEXT_ZONES, `Maximum ${MAX_TEXT_ZONES} text zones allowed`)
+    .nullable()
+    .describe('Null restores the default top/bottom zones'),
+});
+
+export type TextZone = z.infer<typeof textZoneSchema>;
+export type Template = z.infer<typeof templateSchema>;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+
+// SECURITY: Limits
+const MAX_NAME_LENGTH = 100;
+const MAX_TOKEN_DAYS = 365;
+
+/**
+ * What a token may do: `read` for GET requests, `write` for everything that
+ * changes data, and `admin` for admin-only routes (admins only)
+ */
+export const apiTokenScopeSchema = z.enum(['read', 'write', 'admin']);
+
+const SCOPES_ERROR = `scopes must be a non-empty list of ${apiTokenScopeSchema.options.join(', ')}`;
+const EXPIRY_ERROR = `expires_in_days must be between 1 and ${MAX_TOKEN_DAYS}, or null`;
+
+export const apiTokenSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    prefix: z.string().describe('Start of the token, to tell tokens apart'),
+    scopes: z.array(apiTokenScopeSchema),
+    created_at: timestamp,
+    last_used_at: timestamp.nullable(),
+    expires_at: timestamp.nullable(),
+    token: z.string().optional().describe('The token itself, only returned when it is created'),
+  })
+  .meta({ id: 'ApiToken' });
+
+export const apiTokenParams = z.object({ id: id('token') });
+
+export const createApiTokenBody = z.object({
+  name: z
+    .string(`Name must be 1-${MAX_NAME_LENGTH} characters`)
+    .trim()
+    .min(1, `Name must be 1-${MAX_NAME_LENGTH} characters`)
+    .max(MAX_NAME_LENGTH, `Name must be 1-${MAX_NAME_LENGTH} characters`),
+  scopes: z
+    .array(z.enum(apiTokenScopeSchema.options, SCOPES_ERROR), SCOPES_ERROR)
+    .min(1, SCOPES_ERROR),
+  expires_in_days: z
+    .number(EXPIRY_ERROR)
+    .int(EXPIRY_ERROR)
+    .min(1, EXPIRY_ERROR)
+    .max(MAX_TOKEN_DAYS, EXPIRY_ERROR)
+    .nullable()
+    .default(null)
+    .describe('Days until the token stops working; null never expires'),
+});
+
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+export type ApiTokenInput = z.input<typeof createApiTokenBody>;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const voteBody = z.object({
+  vote: z.union([z.literal(1), z.literal(-1)], 'Vote must be 1 (upvote) or -1 (downvote)'),
+});
+
+export const voteResponse = z.object({
+  upvotes: z.number(),
+  downvotes: z.number(),
+  score: z.number(),
+  userVote: z.number().nullable(),
+});
+
+export type VoteResponse = z.infer<typeof voteResponse>;
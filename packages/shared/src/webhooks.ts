@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { id, timestamp } from './common.js';
+
+// SECURITY: Limits
+const MAX_URL_LENGTH = 2000;
+const MIN_SECRET_LENGTH = 16;
+const MAX_SECRET_LENGTH = 200;
+
+const URL_ERROR = 'URL must be a valid http(s) URL';
+const EVENTS_ERROR = 'events must be a non-empty list of audit actions';
+
+// SECURITY: Only plain http(s) URLs without credentials
+const webhookUrl = z
+  .string(URL_ERROR)
+  .max(MAX_URL_LENGTH, URL_ERROR)
+  .refine((url) => {
+    try {
+      const parsed = new URL(url);
+      return (
+        (parsed.protocol === 'http:' || parsed.protocol === 'https:') &&
+        !parsed.username &&
+        !parsed.password
+      );
+    } catch {
+      return false;
+    }
+  }, URL_ERROR);
+
+// Events are checked against the audit actions in the handler
+const webhookEvents = z
+  .array(z.string(EVENTS_ERROR), EVENTS_ERROR)
+  .min(1, EVENTS_ERROR)
+  .describe('Audit actions to send, from GET /api/webhooks/events');
+
+export const webhookSchema = z
+  .object({
+    id: z.string(),
+    url: z.string(),
+    events: z.array(z.string()).describe('Subscribed audit actions'),
+    is_active: z.number(),
+    created_by: z.string().nullable(),
+    created_at: timestamp,
+    updated_at: timestamp,
+    secret: z
+      .string()
+      .optional()
+      .describe('Signing secret, only returned when it is created or rotated'),
+  })
+  .meta({ id: 'Webhook' });
+
+export const webhookDeliverySchema = z
+  .object({
+    id: z.string(),
+    webhook_id: z.string(),
+    event: z.string(),
+    payload: z.string().describe('JSON body sent on every attempt'),
+    status: z.enum(['pending', 'success', 'failed']),
+    attempts: z.number(),
+    max_attempts: z.number(),
+    response_status: z.number().nullable(),
+    error: z.string().nullable(),
+    created_at: timestamp,
+    next_attempt_at: timestamp.nullable().describe('When a pending delivery is next tried'),
+    delivered_at: timestamp.nullable(),
+  })
+  .meta({ id: 'WebhookDelivery' });
+
+export const webhookParams = z.object({ id: id('webhook') });
+
+export const createWebhookBody = z.object({
+  url: webhookUrl,
+  events: webhookEvents,
+  secret: z
+    .string()
+    .min(MIN_SECRET_LENGTH, `Secret must be ${MIN_SECRET_LENGTH}-${MAX_SECRET_LENGTH} characters`)
+    .max(MAX_SECRET_LENGTH, `Secret must be ${MIN_SECRET_LENGTH}-${MAX_SECRET_LENGTH} characters`)
+    .optional()
+    .describe('Generated unless given'),
+});
+
+// Fields left out keep their current values
+export const updateWebhookBody = z.object({
+  url: webhookUrl.optional(),
+  events: webhookEvents.optional(),
+  is_active: z.boolean('is_active and rotate_secret must be booleans').optional(),
+  rotate_secret: z
+    .boolean('is_active and rotate_secret must be booleans')
+    .default(false)
+    .describe('Generate a new signing secret, returned in the response'),
+});
+
+export type Webhook = z.infer<typeof webhookSchema>;
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+export type WebhookInput = z.input<typeof createWebhookBody>;
+export type WebhookUpdate = z.input<typeof updateWebhookBody>;
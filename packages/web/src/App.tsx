@@ -10,6 +10,10 @@ import Templates from './pages/Templates';
 const Editor = lazy(() => import('./pages/Editor'));
 const MyMemes = lazy(() => import('./pages/MyMemes'));
 const Gallery = lazy(() => import('./pages/Gallery'));
+const Search = lazy(() => import('./pages/Search'));
+const Collections = lazy(() => import('./pages/Collections'));
+const CollectionView = lazy(() => import('./pages/CollectionView'));
+const ApiTokens = lazy(() => import('./pages/ApiTokens'));
 const Admin = lazy(() => import('./pages/Admin'));
 
 function LoadingSpinner() {
@@ -82,9 +86,23 @@ export default function App() {
       >
         <Route index element={<Templates />} />
         <Route path="gallery" element={<Suspense fallback={<PageLoader />}><Gallery /></Suspense>} />
+        <Route path="search" element={<Suspense fallback={<PageLoader />}><Search /></Suspense>} />
         <Route path="editor/:templateId" element={<Suspense fallback={<PageLoader />}><Editor /></Suspense>} />
         <Route path="editor/:templateId/:memeId" element={<Suspense fallback={<PageLoader />}><Editor /></Suspense>} />
+        <Route path="templates/:templateId/setup" element={<Suspense fallback={<PageLoader />}><Editor setupMode /></Suspense>} />
         <Route path="my-memes" element={<Suspense fallback={<PageLoader />}><MyMemes /></Suspense>} />
+        <Route
+          path="collections"
+          element={<Suspense fallback={<PageLoader />}><Collections /></Suspense>}
+        />
+        <Route
+          path="collections/:collectionId"
+          element={<Suspense fallback={<PageLoader />}><CollectionView /></Suspense>}
+        />
+        <Route
+          path="tokens"
+          element={<Suspense fallback={<PageLoader />}><ApiTokens /></Suspense>}
+        />
         <Route
           path="admin"
           element={
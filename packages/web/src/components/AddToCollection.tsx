@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { collections as collectionsApi, Collection } from '../lib/api';
+
+interface AddToCollectionProps {
+  memeId: string;
+  /** Opens the list upwards, for controls near the bottom of a card */
+  dropUp?: boolean;
+}
+
+// Button with a dropdown of the user's collections to add a meme to
+export default function AddToCollection({ memeId, dropUp = false }: AddToCollectionProps) {
+  const [open, setOpen] = useState(false);
+  const [collectionList, setCollectionList] = useState<Collection[] | null>(null);
+  const [added, setAdded] = useState<Set<string>>(new Set());
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleOpen = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+
+    setOpen(true);
+    setError('');
+    try {
+      setCollectionList(await collectionsApi.mine());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collections');
+    }
+  };
+
+  const addTo = async (collectionId: string) => {
+    setBusy(true);
+    setError('');
+    try {
+      const updated = await collectionsApi.addMeme(collectionId, memeId);
+      setCollectionList((prev) =>
+        prev ? prev.map((c) => (c.id === collectionId ? updated : c)) : prev
+      );
+      setAdded((prev) => new Set(prev).add(collectionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add to collection');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      const created = await collectionsApi.create({
+        name: newName.trim(),
+        description: '',
+        is_public: false,
+      });
+      setCollectionList((prev) => [created, ...(prev || [])]);
+      setNewName('');
+      await addTo(created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create collection');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={handleOpen} className="btn btn-secondary text-sm" title="Add to collection">
+        + Collection
+      </button>
+
+      {open && (
+        <div
+          className={`absolute right-0 z-20 w-64 p-3 rounded-lg border border-themed bg-themed-primary shadow-lg ${
+            dropUp ? 'bottom-full mb-1' : 'top-full mt-1'
+          }`}
+        >
+          {error && (
+            <p className="text-xs mb-2" style={{ color: 'var(--color-error)' }}>
+              {error}
+            </p>
+          )}
+
+          {collectionList === null ? (
+            <p className="text-sm text-themed-muted">Loading...</p>
+          ) : collectionList.length === 0 ? (
+            <p className="text-sm text-themed-muted mb-2">No collections yet.</p>
+          ) : (
+            <ul className="max-h-48 overflow-y-auto mb-2 space-y-1">
+              {collectionList.map((collection) => (
+                <li key={collection.id}>
+                  <button
+                    onClick={() => addTo(collection.id)}
+                    disabled={busy || added.has(collection.id)}
+                    className="w-full flex items-center justify-between px-2 py-1 rounded text-sm text-left text-themed-secondary hover:bg-themed-tertiary disabled:cursor-default"
+                  >
+                    <span className="truncate">{collection.name}</span>
+                    <span className="text-xs text-themed-muted ml-2 shrink-0">
+                      {added.has(collection.id) ? 'Added' : collection.meme_count}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="flex gap-1">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New collection"
+              maxLength={100}
+              className="input flex-1 min-w-0 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={busy || !newName.trim()}
+              className="btn btn-primary text-sm"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
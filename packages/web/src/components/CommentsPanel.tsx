@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from 'react';
+import { comments as commentsApi, Comment } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const MAX_COMMENT_LENGTH = 2000;
+// Replies deeper than this line up with their parent instead of indenting further
+const MAX_INDENT_DEPTH = 4;
+
+interface CommentsPanelProps {
+  memeId: string;
+}
+
+interface CommentFormProps {
+  initialBody?: string;
+  submitLabel: string;
+  placeholder?: string;
+  /** Resolves true once saved, which clears the form */
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+function CommentForm({
+  initialBody = '',
+  submitLabel,
+  placeholder,
+  onSubmit,
+  onCancel,
+}: CommentFormProps) {
+  const [body, setBody] = useState(initialBody);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSubmitting(true);
+    try {
+      if (await onSubmit(body)) {
+        setBody('');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={2}
+        className="input w-full resize-y"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={submitting || !body.trim()}
+          className="btn btn-primary text-sm"
+        >
+          {submitting ? 'Posting...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="btn btn-secondary text-sm">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export default function CommentsPanel({ memeId }: CommentsPanelProps) {
+  const { user } = useAuth();
+  const [commentList, setCommentList] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const loadComments = useCallback(async () => {
+    try {
+      setCommentList(await commentsApi.list(memeId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [memeId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setReplyingTo(null);
+    setEditingId(null);
+    loadComments();
+  }, [loadComments]);
+
+  const handleCreate = async (body: string, parentId: string | null = null) => {
+    setError('');
+    try {
+      await commentsApi.create(memeId, body, parentId);
+      setReplyingTo(null);
+      await loadComments();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+      return false;
+    }
+  };
+
+  const handleUpdate = async (commentId: string, body: string) => {
+    setError('');
+    try {
+      const updated = await commentsApi.update(memeId, commentId, body);
+      setCommentList((prev) => prev.map((c) => (c.id === commentId ? updated : c)));
+      setEditingId(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update comment');
+      return false;
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+
+    setError('');
+    try {
+      await commentsApi.delete(memeId, commentId);
+      // Deleting can clear the comment or remove it along with emptied parents
+      await loadComments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  const repliesByParent = new Map<string | null, Comment[]>();
+  for (const comment of commentList) {
+    const siblings = repliesByParent.get(comment.parent_id) || [];
+    siblings.push(comment);
+    repliesByParent.set(comment.parent_id, siblings);
+  }
+
+  const renderThread = (parentId: string | null, depth: number): React.ReactNode => {
+    const replies = repliesByParent.get(parentId);
+    if (!replies) return null;
+
+    return (
+      <ul
+        className={`space-y-3 ${
+          depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-4 pl-3 border-l border-themed mt-3' : ''
+        } ${depth > MAX_INDENT_DEPTH ? 'mt-3' : ''}`}
+      >
+        {replies.map((comment) => (
+          <li key={comment.id}>
+            {comment.deleted_at ? (
+              <p className="text-sm text-themed-muted italic">[deleted]</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  {comment.author_avatar ? (
+                    <img src={comment.author_avatar} alt="" className="w-5 h-5 rounded-full" />
+                  ) : (
+                    <div className="w-5 h-5 rounded-full bg-themed-accent/20 flex items-center justify-center text-xs text-themed-secondary">
+                      {(comment.author_name || '?')[0].toUpperCase()}
+                    </div>
+                  )}
+                  <span className="text-sm font-medium text-themed-primary">
+                    {comment.author_name || 'Anonymous'}
+                  </span>
+                  <span className="text-xs text-themed-muted">
+                    {new Date(comment.created_at).toLocaleString()}
+                    {comment.updated_at && ' (edited)'}
+                  </span>
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className="mt-2">
+                    <CommentForm
+                      initialBody={comment.body}
+                      submitLabel="Save"
+                      onSubmit={(body) => handleUpdate(comment.id, body)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  </div>
+                ) : (
+                  <p className="text-sm text-themed-secondary whitespace-pre-wrap break-words mt-1">
+                    {comment.body}
+                  </p>
+                )}
+
+                <div className="flex gap-3 mt-1">
+                  <button
+                    onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                    className="text-xs text-themed-muted hover:text-themed-primary transition-colors"
+                  >
+                    Reply
+                  </button>
+                  {comment.user_id === user?.id && (
+                    <button
+                      onClick={() => setEditingId(comment.id)}
+                      className="text-xs text-themed-muted hover:text-themed-primary transition-colors"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {(comment.user_id === user?.id || user?.role === 'admin') && (
+                    <button
+                      onClick={() => handleDelete(comment.id)}
+                      className="text-xs text-themed-muted hover:text-red-500 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+
+            {replyingTo === comment.id && (
+              <div className="mt-2">
+                <CommentForm
+                  submitLabel="Reply"
+                  placeholder="Write a reply..."
+                  onSubmit={(body) => handleCreate(body, comment.id)}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              </div>
+            )}
+
+            {renderThread(comment.id, depth + 1)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const visibleCount = commentList.filter((c) => !c.deleted_at).length;
+
+  return (
+    <div className="border-t border-themed pt-4 mt-4">
+      <h3 className="text-lg font-semibold text-themed-primary mb-3">
+        Comments {visibleCount > 0 && `(${visibleCount})`}
+      </h3>
+
+      {error && (
+        <p className="text-sm mb-3" style={{ color: 'var(--color-error)' }}>
+          {error}
+        </p>
+      )}
+
+      <div className="mb-4">
+        <CommentForm
+          submitLabel="Comment"
+          placeholder="Add a comment..."
+          onSubmit={(body) => handleCreate(body)}
+        />
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-themed-muted">Loading comments...</p>
+      ) : commentList.length === 0 ? (
+        <p className="text-sm text-themed-muted">No comments yet.</p>
+      ) : (
+        renderThread(null, 0)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+interface FrameRange {
+  startFrame?: number;
+  endFrame?: number;
+}
+
+interface FrameRangeControlsProps extends FrameRange {
+  frameCount: number;
+  currentFrame: number;
+  onChange: (range: FrameRange) => void;
+}
+
+// Frames are stored 0-based and shown 1-based. A missing bound means the item
+// shows from the first or until the last frame.
+export default function FrameRangeControls({
+  frameCount,
+  currentFrame,
+  startFrame,
+  endFrame,
+  onChange,
+}: FrameRangeControlsProps) {
+  const start = Math.min(startFrame ?? 0, frameCount - 1);
+  const end = Math.min(endFrame ?? frameCount - 1, frameCount - 1);
+
+  const setStart = (frame: number) =>
+    onChange({ startFrame: frame, endFrame: Math.max(frame, end) });
+  const setEnd = (frame: number) =>
+    onChange({ startFrame: Math.min(frame, start), endFrame: frame });
+
+  const parseFrame = (value: string) => Math.min(Math.max(1, parseInt(value) || 1), frameCount) - 1;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-themed-secondary mb-1">
+        Shown on frames {start + 1}&ndash;{end + 1} of {frameCount}
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          min="1"
+          max={frameCount}
+          value={start + 1}
+          onChange={(e) => setStart(parseFrame(e.target.value))}
+          className="input w-full"
+          title="First frame"
+        />
+        <input
+          type="number"
+          min="1"
+          max={frameCount}
+          value={end + 1}
+          onChange={(e) => setEnd(parseFrame(e.target.value))}
+          className="input w-full"
+          title="Last frame"
+        />
+        <button onClick={() => setStart(currentFrame)} className="btn btn-secondary text-sm">
+          Start here
+        </button>
+        <button onClick={() => setEnd(currentFrame)} className="btn btn-secondary text-sm">
+          End here
+        </button>
+      </div>
+      {(startFrame !== undefined || endFrame !== undefined) && (
+        <button
+          onClick={() => onChange({ startFrame: undefined, endFrame: undefined })}
+          className="text-sm text-themed-muted hover:text-themed-primary mt-2"
+        >
+          Show on all frames
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useRef, useState } from 'react';
+import { assets, Asset, ImageLayer, Template } from '../lib/api';
+import FrameRangeControls from './FrameRangeControls';
+
+interface ImageLayersPanelProps {
+  assetList: Asset[];
+  templateList: Template[];
+  imageLayers: ImageLayer[];
+  selectedLayer?: ImageLayer;
+  uploading: boolean;
+  /** Frames in the template being edited; frame ranges are shown for animations */
+  frameCount: number;
+  currentFrame: number;
+  onSelect: (id: string) => void;
+  onAdd: (source: ImageLayer['source'], refId: string) => void;
+  onUpdate: (id: string, updates: Partial<ImageLayer>) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, direction: 1 | -1) => void;
+  onUpload: (file: File, kind: Asset['kind']) => void;
+}
+
+export default function ImageLayersPanel({
+  assetList,
+  templateList,
+  imageLayers,
+  selectedLayer,
+  uploading,
+  frameCount,
+  currentFrame,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onMove,
+  onUpload,
+}: ImageLayersPanelProps) {
+  const [uploadKind, setUploadKind] = useState<Asset['kind']>('sticker');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const layerName = (layer: ImageLayer) =>
+    (layer.source === 'asset'
+      ? assetList.find((asset) => asset.id === layer.refId)?.name
+      : templateList.find((t) => t.id === layer.refId)?.name) || 'Missing image';
+
+  const startUpload = (kind: Asset['kind']) => {
+    setUploadKind(kind);
+    fileInputRef.current?.click();
+  };
+
+  return (
+    <div className="card mt-6">
+      <h2 className="text-lg font-bold text-themed-primary mb-4">Images</h2>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onUpload(file, uploadKind);
+          e.target.value = '';
+        }}
+        className="hidden"
+      />
+
+      {assetList.length > 0 ? (
+        <div className="grid grid-cols-4 gap-2 mb-4 max-h-40 overflow-y-auto">
+          {assetList.map((asset) => (
+            <button
+              key={asset.id}
+              onClick={() => onAdd('asset', asset.id)}
+              className="aspect-square bg-themed-tertiary rounded overflow-hidden hover:opacity-80 transition-opacity"
+              title={`${asset.name}${asset.kind === 'image' ? ' (only you)' : ''}`}
+            >
+              <img
+                src={assets.imageUrl(asset.filename)}
+                alt={asset.name}
+                className="w-full h-full object-contain"
+              />
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-themed-muted text-sm mb-4">No stickers yet. Upload one below.</p>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={() => startUpload('sticker')}
+          className="btn btn-secondary flex-1 text-sm"
+          disabled={uploading}
+          title="Shared with everyone"
+        >
+          {uploading && uploadKind === 'sticker' ? 'Uploading...' : 'Upload Sticker'}
+        </button>
+        <button
+          onClick={() => startUpload('image')}
+          className="btn btn-secondary flex-1 text-sm"
+          disabled={uploading}
+          title="Only you can use it"
+        >
+          {uploading && uploadKind === 'image' ? 'Uploading...' : 'Upload Image'}
+        </button>
+      </div>
+
+      {templateList.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onAdd('template', e.target.value)}
+          className="input w-full mb-4"
+        >
+          <option value="">Add another template...</option>
+          {templateList.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {imageLayers.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {/* Listed front to back */}
+          {[...imageLayers].reverse().map((layer) => (
+            <div
+              key={layer.id}
+              className={`flex items-center justify-between p-2 rounded cursor-pointer transition-colors ${
+                selectedLayer?.id === layer.id ? 'bg-themed-tertiary' : 'hover:bg-themed-secondary'
+              }`}
+              onClick={() => onSelect(layer.id)}
+            >
+              <span className="text-sm truncate flex-1 text-themed-primary">
+                {layerName(layer)}
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(layer.id, 1);
+                }}
+                className="ml-2 text-themed-muted hover:text-themed-primary"
+                title="Bring forward"
+              >
+                &uarr;
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(layer.id, -1);
+                }}
+                className="ml-1 text-themed-muted hover:text-themed-primary"
+                title="Send backward"
+              >
+                &darr;
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(layer.id);
+                }}
+                className="ml-2 hover:opacity-80 transition-opacity"
+                style={{ color: 'var(--color-error)' }}
+              >
+                &times;
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedLayer && (
+        <div className="border-t border-themed pt-4 space-y-4">
+          <h3 className="font-medium text-themed-secondary">Edit Selected Image</h3>
+
+          <div>
+            <label className="block text-sm font-medium text-themed-secondary mb-1">
+              Size: {Math.round(selectedLayer.scale * 100)}%
+            </label>
+            <input
+              type="range"
+              min="5"
+              max="300"
+              value={Math.round(selectedLayer.scale * 100)}
+              onChange={(e) =>
+                onUpdate(selectedLayer.id, { scale: parseInt(e.target.value) / 100 })
+              }
+              className="w-full"
+              style={{ accentColor: 'var(--color-bg-accent)' }}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-themed-secondary mb-1">
+              Rotation: {Math.round(selectedLayer.rotation)}&deg;
+            </label>
+            <input
+              type="range"
+              min="-180"
+              max="180"
+              value={Math.round(selectedLayer.rotation)}
+              onChange={(e) => onUpdate(selectedLayer.id, { rotation: parseInt(e.target.value) })}
+              className="w-full"
+              style={{ accentColor: 'var(--color-bg-accent)' }}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-themed-secondary mb-1">
+              Opacity: {Math.round(selectedLayer.opacity * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(selectedLayer.opacity * 100)}
+              onChange={(e) =>
+                onUpdate(selectedLayer.id, { opacity: parseInt(e.target.value) / 100 })
+              }
+              className="w-full"
+              style={{ accentColor: 'var(--color-bg-accent)' }}
+            />
+          </div>
+
+          {frameCount > 1 && (
+            <FrameRangeControls
+              frameCount={frameCount}
+              currentFrame={currentFrame}
+              startFrame={selectedLayer.startFrame}
+              endFrame={selectedLayer.endFrame}
+              onChange={(range) => onUpdate(selectedLayer.id, range)}
+            />
+          )}
+        </div>
+      )}
+
+      <p className="text-themed-muted text-xs">
+        Images are drawn under text. Stickers are shared with everyone; uploaded images are only
+        available to you.
+      </p>
+    </div>
+  );
+}
@@ -1,13 +1,24 @@
-import { Outlet, Link, useLocation } from 'react-router-dom';
+import { useState } from 'react';
+import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import ThemeSelector from './ThemeSelector';
 
 export default function Layout() {
   const { user, logout, isAdmin } = useAuth();
   const location = useLocation();
+  const navigate = useNavigate();
+  const [searchQuery, setSearchQuery] = useState('');
 
   const isActive = (path: string) => location.pathname === path;
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = searchQuery.trim();
+    if (q) {
+      navigate(`/search?q=${encodeURIComponent(q)}`);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-themed-secondary">
       <header className="bg-themed-header text-themed-header shadow-lg">
@@ -51,6 +62,12 @@ export default function Layout() {
                 >
                   My Memes
                 </Link>
+                <Link
+                  to="/collections"
+                  className={`transition-colors ${isActive('/collections') ? 'text-themed-header font-medium' : 'text-themed-header-muted hover:text-themed-header'}`}
+                >
+                  Collections
+                </Link>
                 {isAdmin && (
                   <Link
                     to="/admin"
@@ -62,6 +79,17 @@ export default function Layout() {
               </nav>
             </div>
             <div className="flex items-center gap-3">
+              <form onSubmit={handleSearch} role="search">
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search..."
+                  aria-label="Search templates and memes"
+                  maxLength={200}
+                  className="w-32 sm:w-48 px-3 py-1.5 rounded-lg text-sm bg-white/10 text-themed-header placeholder-white/50 focus:outline-none focus:bg-white/20 transition-colors"
+                />
+              </form>
               <ThemeSelector />
               <div className="w-px h-6 bg-white/20" />
               {user && (
@@ -77,6 +105,12 @@ export default function Layout() {
                       {(user.name || user.email || '?')[0].toUpperCase()}
                     </div>
                   )}
+                  <Link
+                    to="/tokens"
+                    className="text-sm text-themed-header-muted hover:text-themed-header transition-colors px-2 py-1 rounded hover:bg-white/10"
+                  >
+                    API Tokens
+                  </Link>
                   <button
                     onClick={logout}
                     className="text-sm text-themed-header-muted hover:text-themed-header transition-colors px-2 py-1 rounded hover:bg-white/10"
@@ -123,6 +157,16 @@ export default function Layout() {
           >
             My Memes
           </Link>
+          <Link
+            to="/collections"
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              isActive('/collections')
+                ? 'bg-themed-accent text-themed-inverse'
+                : 'text-themed-secondary hover:bg-themed-secondary'
+            }`}
+          >
+            Collections
+          </Link>
           {isAdmin && (
             <Link
               to="/admin"
@@ -1,15 +1,29 @@
 import { useState } from 'react';
-import { GalleryMeme, memes, templates } from '../lib/api';
+import { GalleryMeme, ReactionSummary, memes, templates } from '../lib/api';
 import VoteButtons from './VoteButtons';
+import ReactionBar from './ReactionBar';
 
 interface MemeCardProps {
   meme: GalleryMeme;
   onVoteChange?: (memeId: string, upvotes: number, downvotes: number, score: number) => void;
+  onReactionsChange?: (memeId: string, reactions: ReactionSummary[]) => void;
+  onFavoriteChange?: (memeId: string, favorited: boolean, favoriteCount: number) => void;
   onClick?: () => void;
+  onRemix?: () => void;
 }
 
-export default function MemeCard({ meme, onVoteChange, onClick }: MemeCardProps) {
+export default function MemeCard({
+  meme,
+  onVoteChange,
+  onReactionsChange,
+  onFavoriteChange,
+  onClick,
+  onRemix,
+}: MemeCardProps) {
   const [imageError, setImageError] = useState(false);
+  const [favorited, setFavorited] = useState(meme.favorited);
+  const [favoriteCount, setFavoriteCount] = useState(meme.favorite_count);
+  const [savingFavorite, setSavingFavorite] = useState(false);
 
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -39,6 +53,22 @@ export default function MemeCard({ meme, onVoteChange, onClick }: MemeCardProps)
     onVoteChange?.(meme.id, upvotes, downvotes, score);
   };
 
+  const handleFavorite = async () => {
+    if (savingFavorite) return;
+
+    setSavingFavorite(true);
+    try {
+      const response = favorited ? await memes.unfavorite(meme.id) : await memes.favorite(meme.id);
+      setFavorited(response.favorited);
+      setFavoriteCount(response.favoriteCount);
+      onFavoriteChange?.(meme.id, response.favorited, response.favoriteCount);
+    } catch (err) {
+      console.error('Favorite failed:', err);
+    } finally {
+      setSavingFavorite(false);
+    }
+  };
+
   const imageUrl = meme.output_filename
     ? memes.imageUrl(meme.output_filename)
     : meme.template_filename
@@ -104,8 +134,14 @@ export default function MemeCard({ meme, onVoteChange, onClick }: MemeCardProps)
         </div>
       )}
 
+      {meme.remixed_from && (
+        <p className="text-xs text-themed-muted truncate mb-3">
+          Remixed from {meme.remixed_from_creator || 'a deleted user'}
+        </p>
+      )}
+
       {/* Vote buttons */}
-      <div className="flex justify-center">
+      <div className="flex items-center justify-between">
         <VoteButtons
           memeId={meme.id}
           initialUpvotes={meme.upvotes}
@@ -114,6 +150,47 @@ export default function MemeCard({ meme, onVoteChange, onClick }: MemeCardProps)
           onVoteChange={handleVoteChange}
           compact
         />
+        <button
+          onClick={handleFavorite}
+          disabled={savingFavorite}
+          className={`flex items-center gap-1 text-sm transition-colors ${
+            favorited ? 'text-yellow-500' : 'text-themed-muted hover:text-yellow-500'
+          }`}
+          title={favorited ? 'Remove from saved' : 'Save'}
+        >
+          <svg
+            className="w-4 h-4"
+            fill={favorited ? 'currentColor' : 'none'}
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+            />
+          </svg>
+          {favoriteCount}
+        </button>
+        {onRemix && (
+          <button
+            onClick={onRemix}
+            className="text-sm text-themed-muted hover:text-themed-primary transition-colors"
+            title="Copy this meme into a new meme of your own"
+          >
+            Remix
+          </button>
+        )}
+      </div>
+
+      {/* Reactions */}
+      <div className="mt-3">
+        <ReactionBar
+          memeId={meme.id}
+          initialReactions={meme.reactions}
+          onReactionsChange={(reactions) => onReactionsChange?.(meme.id, reactions)}
+        />
       </div>
     </div>
   );
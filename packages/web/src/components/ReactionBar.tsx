@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { reactions as reactionsApi, ReactionSummary } from '../lib/api';
+
+// The reaction set only changes when the server restarts, so fetch it once
+let reactionOptions: Promise<string[]> | null = null;
+
+function loadReactionOptions(): Promise<string[]> {
+  if (!reactionOptions) {
+    reactionOptions = reactionsApi
+      .options()
+      .then((response) => response.emoji)
+      .catch((err) => {
+        reactionOptions = null;
+        throw err;
+      });
+  }
+  return reactionOptions;
+}
+
+interface ReactionBarProps {
+  memeId: string;
+  initialReactions: ReactionSummary[];
+  onReactionsChange?: (reactions: ReactionSummary[]) => void;
+  disabled?: boolean;
+}
+
+export default function ReactionBar({
+  memeId,
+  initialReactions,
+  onReactionsChange,
+  disabled = false,
+}: ReactionBarProps) {
+  const [reactions, setReactions] = useState(initialReactions);
+  const [options, setOptions] = useState<string[]>([]);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadReactionOptions()
+      .then(setOptions)
+      .catch((err) => console.error('Failed to load reactions:', err));
+  }, []);
+
+  const handleToggle = async (emoji: string) => {
+    if (disabled || loading) return;
+
+    setLoading(true);
+    setPickerOpen(false);
+    try {
+      const response = await reactionsApi.toggle(memeId, emoji);
+      setReactions(response.reactions);
+      onReactionsChange?.(response.reactions);
+    } catch (err) {
+      console.error('Reaction failed:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-1">
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          onClick={() => handleToggle(reaction.emoji)}
+          disabled={disabled || loading}
+          className={`px-2 py-0.5 rounded-full text-sm border border-themed transition-colors ${
+            reaction.reacted
+              ? 'bg-themed-tertiary text-themed-primary'
+              : 'bg-themed-secondary text-themed-secondary hover:bg-themed-tertiary'
+          } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+          style={reaction.reacted ? { borderColor: 'var(--color-bg-accent)' } : undefined}
+          title={reaction.reacted ? 'Remove your reaction' : 'React'}
+        >
+          {reaction.emoji} {reaction.count}
+        </button>
+      ))}
+
+      {options.length > 0 && (
+        <button
+          onClick={() => setPickerOpen(!pickerOpen)}
+          disabled={disabled || loading}
+          className={`px-2 py-0.5 rounded-full text-sm border border-themed text-themed-muted hover:text-themed-primary transition-colors ${
+            disabled ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+          title="Add reaction"
+        >
+          +
+        </button>
+      )}
+
+      {pickerOpen && (
+        <div className="absolute bottom-full left-0 mb-1 z-10 flex flex-wrap gap-1 p-2 rounded-lg border border-themed bg-themed-primary shadow-lg">
+          {options.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => handleToggle(emoji)}
+              className="w-8 h-8 rounded hover:bg-themed-tertiary text-lg"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { memes, EditorState, MemeRevision } from '../lib/api';
+
+interface RevisionsPanelProps {
+  /** Newest first; the first revision is the meme's current state */
+  revisions: MemeRevision[];
+  restoringId: string | null;
+  onRestore: (revision: MemeRevision) => void;
+}
+
+function quote(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return `"${line.length > 24 ? `${line.slice(0, 24)}...` : line}"`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Summarize what changed between two saved editor states, one line per change
+ */
+function describeChanges(previous: EditorState | undefined, current: EditorState): string[] {
+  if (!previous) return ['Earliest saved version'];
+
+  const changes: string[] = [];
+
+  const previousBoxes = new Map((previous.textBoxes || []).map((box) => [box.id, box]));
+  const currentBoxes = current.textBoxes || [];
+  const currentBoxIds = new Set(currentBoxes.map((box) => box.id));
+  for (const box of currentBoxes) {
+    const old = previousBoxes.get(box.id);
+    if (!old) {
+      changes.push(`+ Text ${quote(box.text)}`);
+    } else if (old.text !== box.text) {
+      changes.push(`~ ${quote(old.text)} → ${quote(box.text)}`);
+    } else if (
+      old.x !== box.x ||
+      old.y !== box.y ||
+      old.width !== box.width ||
+      old.rotation !== box.rotation
+    ) {
+      changes.push(`Moved ${quote(box.text)}`);
+    } else if (JSON.stringify(old) !== JSON.stringify(box)) {
+      changes.push(`Restyled ${quote(box.text)}`);
+    }
+  }
+  for (const box of previousBoxes.values()) {
+    if (!currentBoxIds.has(box.id)) {
+      changes.push(`- Text ${quote(box.text)}`);
+    }
+  }
+
+  const previousLayers = new Map((previous.imageLayers || []).map((layer) => [layer.id, layer]));
+  const currentLayers = current.imageLayers || [];
+  const added = currentLayers.filter((layer) => !previousLayers.has(layer.id)).length;
+  const removed = [...previousLayers.keys()].filter(
+    (id) => !currentLayers.some((layer) => layer.id === id)
+  ).length;
+  const adjusted = currentLayers.filter((layer) => {
+    const old = previousLayers.get(layer.id);
+    return old && JSON.stringify(old) !== JSON.stringify(layer);
+  }).length;
+  if (added > 0) changes.push(`+ ${plural(added, 'image')}`);
+  if (removed > 0) changes.push(`- ${plural(removed, 'image')}`);
+  if (adjusted > 0) changes.push(`Adjusted ${plural(adjusted, 'image')}`);
+
+  return changes.length > 0 ? changes : ['No changes'];
+}
+
+export default function RevisionsPanel({ revisions, restoringId, onRestore }: RevisionsPanelProps) {
+  return (
+    <div className="card mt-6">
+      <h2 className="text-lg font-bold text-themed-primary mb-4">History</h2>
+
+      {revisions.length === 0 ? (
+        <p className="text-themed-muted text-sm">No saved versions yet.</p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {revisions.map((revision, index) => (
+            <div key={revision.id} className="flex gap-3 p-2 rounded bg-themed-secondary">
+              {revision.output_filename && (
+                <img
+                  src={memes.revisionImageUrl(revision.output_filename)}
+                  alt=""
+                  className="w-16 h-16 object-contain rounded bg-themed-tertiary flex-shrink-0"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-themed-primary">
+                    {new Date(revision.created_at).toLocaleString()}
+                  </span>
+                  {index === 0 ? (
+                    <span className="text-xs text-themed-muted">Current</span>
+                  ) : (
+                    <button
+                      onClick={() => onRestore(revision)}
+                      className="text-sm text-themed-muted hover:text-themed-primary transition-colors"
+                      disabled={restoringId !== null}
+                    >
+                      {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+                {revision.creator_name && (
+                  <p className="text-xs text-themed-muted">by {revision.creator_name}</p>
+                )}
+                <ul className="text-xs text-themed-secondary mt-1 font-mono">
+                  {revision.restored_from ? (
+                    <li>Restored an earlier version</li>
+                  ) : (
+                    describeChanges(revisions[index + 1]?.editor_state, revision.editor_state).map(
+                      (change, i) => (
+                        <li key={i} className="truncate">
+                          {change}
+                        </li>
+                      )
+                    )
+                  )}
+                </ul>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { gallery, memes, GalleryMeme, GalleryResponse } from '../lib/api';
+import MemeCard from './MemeCard';
+
+// Public memes the current user saved, shown as a tab of My Memes
+export default function SavedMemes() {
+  const navigate = useNavigate();
+  const [memeList, setMemeList] = useState<GalleryMeme[]>([]);
+  const [pagination, setPagination] = useState<GalleryResponse['pagination'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadSaved = useCallback(async (page = 1) => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await gallery.saved({ page, limit: 20 });
+      setMemeList(response.memes);
+      setPagination(response.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved memes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSaved();
+  }, [loadSaved]);
+
+  // Unsaving a meme takes it off this list
+  const handleFavoriteChange = (memeId: string, favorited: boolean) => {
+    if (!favorited) {
+      setMemeList((prev) => prev.filter((m) => m.id !== memeId));
+    }
+  };
+
+  const handleRemix = async (meme: GalleryMeme) => {
+    setError('');
+    try {
+      const remix = await memes.remix(meme.id);
+      navigate(`/editor/${remix.template_id}/${remix.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remix meme');
+    }
+  };
+
+  const handlePageChange = (newPage: number) => {
+    loadSaved(newPage);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  return (
+    <div>
+      {error && (
+        <div
+          className="px-4 py-3 rounded-lg mb-6 border"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.1)',
+            borderColor: 'var(--color-error)',
+            color: 'var(--color-error)',
+          }}
+        >
+          {error}
+          <button onClick={() => setError('')} className="float-right font-bold">
+            &times;
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div
+            className="animate-spin rounded-full h-12 w-12 border-4 border-themed"
+            style={{ borderTopColor: 'var(--color-bg-accent)' }}
+          ></div>
+        </div>
+      ) : memeList.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-themed-muted text-lg mb-4">You haven't saved any memes yet</p>
+          <button onClick={() => navigate('/gallery')} className="btn btn-primary">
+            Browse the gallery
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {memeList.map((meme) => (
+              <MemeCard
+                key={meme.id}
+                meme={meme}
+                onFavoriteChange={handleFavoriteChange}
+                onRemix={() => handleRemix(meme)}
+              />
+            ))}
+          </div>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-2 mt-8">
+              <button
+                onClick={() => handlePageChange(pagination.page - 1)}
+                disabled={!pagination.hasPrev}
+                className="px-4 py-2 rounded-lg bg-themed-secondary text-themed-secondary border border-themed hover:bg-themed-tertiary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="px-4 py-2 text-themed-muted">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <button
+                onClick={() => handlePageChange(pagination.page + 1)}
+                disabled={!pagination.hasNext}
+                className="px-4 py-2 rounded-lg bg-themed-secondary text-themed-secondary border border-themed hover:bg-themed-tertiary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
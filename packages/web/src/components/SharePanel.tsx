@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from 'react';
+import { memes, MemeShare } from '../lib/api';
+
+// Expiry choices in days; null never expires
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never expires', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+interface SharePanelProps {
+  memeId: string;
+}
+
+// Links that show the meme's rendered image to people without an account
+export default function SharePanel({ memeId }: SharePanelProps) {
+  const [shares, setShares] = useState<MemeShare[]>([]);
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadShares = useCallback(async () => {
+    try {
+      setShares(await memes.shares(memeId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load share links');
+    }
+  }, [memeId]);
+
+  useEffect(() => {
+    loadShares();
+  }, [loadShares]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError('');
+    try {
+      const share = await memes.share(memeId, EXPIRY_OPTIONS[expiryIndex].days);
+      setShares((prev) => [share, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    if (!confirm('Revoke this link? Anyone using it will no longer see the meme.')) return;
+
+    setError('');
+    try {
+      await memes.revokeShare(memeId, shareId);
+      setShares((prev) => prev.filter((s) => s.id !== shareId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke share link');
+    }
+  };
+
+  const handleCopy = async (share: MemeShare) => {
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  return (
+    <div className="card mt-6">
+      <h2 className="text-lg font-bold text-themed-primary mb-1">Share Links</h2>
+      <p className="text-xs text-themed-muted mb-4">
+        Anyone with a link can see the last rendered image, even without an account.
+      </p>
+
+      {error && (
+        <p className="text-sm mb-3" style={{ color: 'var(--color-error)' }}>
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        <select
+          value={expiryIndex}
+          onChange={(e) => setExpiryIndex(Number(e.target.value))}
+          className="input flex-1"
+        >
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleCreate} disabled={creating} className="btn btn-primary">
+          {creating ? 'Creating...' : 'Create link'}
+        </button>
+      </div>
+
+      {shares.length === 0 ? (
+        <p className="text-themed-muted text-sm">No active share links.</p>
+      ) : (
+        <div className="space-y-2">
+          {shares.map((share) => (
+            <div key={share.id} className="p-2 rounded bg-themed-secondary">
+              <p className="text-xs font-mono text-themed-secondary truncate">{share.url}</p>
+              <div className="flex items-center justify-between gap-2 mt-1">
+                <span className="text-xs text-themed-muted">
+                  {share.expires_at
+                    ? `Expires ${new Date(share.expires_at).toLocaleString()}`
+                    : 'Never expires'}
+                </span>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleCopy(share)}
+                    className="text-sm text-themed-muted hover:text-themed-primary transition-colors"
+                  >
+                    {copiedId === share.id ? 'Copied!' : 'Copy'}
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(share.id)}
+                    className="text-sm text-themed-muted hover:text-red-500 transition-colors"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useEffect, useState } from 'react';
+import { webhooks as webhooksApi, Webhook, WebhookDelivery } from '../lib/api';
+
+const STATUS_COLORS: Record<WebhookDelivery['status'], string> = {
+  success: 'var(--color-success)',
+  pending: 'var(--color-warning)',
+  failed: 'var(--color-error)',
+};
+
+interface EventPickerProps {
+  options: string[];
+  selected: string[];
+  onChange: (events: string[]) => void;
+}
+
+// Checkboxes for audit actions, grouped by the part before the dot
+function EventPicker({ options, selected, onChange }: EventPickerProps) {
+  const groups = new Map<string, string[]>();
+  for (const event of options) {
+    const group = event.split('.')[0];
+    groups.set(group, [...(groups.get(group) || []), event]);
+  }
+
+  const toggle = (event: string) => {
+    onChange(selected.includes(event) ? selected.filter((e) => e !== event) : [...selected, event]);
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      {[...groups.entries()].map(([group, events]) => (
+        <div key={group}>
+          <p className="text-sm font-medium text-themed-secondary mb-1 capitalize">{group}</p>
+          {events.map((event) => (
+            <label key={event} className="flex items-center gap-2 text-sm text-themed-muted">
+              <input
+                type="checkbox"
+                checked={selected.includes(event)}
+                onChange={() => toggle(event)}
+              />
+              {event}
+            </label>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function WebhooksPanel() {
+  const [webhookList, setWebhookList] = useState<Webhook[]>([]);
+  const [eventOptions, setEventOptions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  // Secret returned when a webhook is created or rotated, shown once
+  const [revealedSecret, setRevealedSecret] = useState<{ id: string; secret: string } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editEvents, setEditEvents] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([webhooksApi.list(), webhooksApi.events()])
+      .then(([list, options]) => {
+        setWebhookList(list);
+        setEventOptions(options);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load webhooks'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const replaceWebhook = (updated: Webhook) => {
+    setWebhookList((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+  };
+
+  const loadDeliveries = async (id: string) => {
+    try {
+      setDeliveries(await webhooksApi.deliveries(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError('');
+    try {
+      const created = await webhooksApi.create({ url: url.trim(), events });
+      setWebhookList((prev) => [created, ...prev]);
+      setRevealedSecret({ id: created.id, secret: created.secret! });
+      setUrl('');
+      setEvents([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create webhook');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    try {
+      replaceWebhook(await webhooksApi.update(webhook.id, { is_active: !webhook.is_active }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const handleSaveEvents = async (id: string) => {
+    try {
+      replaceWebhook(await webhooksApi.update(id, { events: editEvents }));
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const handleRotateSecret = async (id: string) => {
+    if (!confirm('Rotate the signing secret? Receivers must be updated with the new one.')) return;
+    try {
+      const updated = await webhooksApi.update(id, { rotate_secret: true });
+      replaceWebhook(updated);
+      setRevealedSecret({ id, secret: updated.secret! });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate secret');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this webhook and its delivery log?')) return;
+    try {
+      await webhooksApi.delete(id);
+      setWebhookList((prev) => prev.filter((w) => w.id !== id));
+      if (expandedId === id) setExpandedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook');
+    }
+  };
+
+  const handleTest = async (id: string) => {
+    setTestingId(id);
+    setError('');
+    try {
+      const delivery = await webhooksApi.test(id);
+      if (delivery.status !== 'success') {
+        setError(`Test delivery failed: ${delivery.error || 'unknown error'}`);
+      }
+      setExpandedId(id);
+      await loadDeliveries(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test delivery');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleToggleDeliveries = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setDeliveries([]);
+    await loadDeliveries(id);
+  };
+
+  if (loading) {
+    return <p className="text-center py-8 text-themed-muted">Loading webhooks...</p>;
+  }
+
+  return (
+    <div>
+      {error && (
+        <p className="text-sm mb-4" style={{ color: 'var(--color-error)' }}>
+          {error}
+        </p>
+      )}
+
+      <form onSubmit={handleCreate} className="card mb-4 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-themed-secondary mb-1">
+            Payload URL
+          </label>
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/possumbly"
+            className="input w-full"
+            maxLength={2000}
+            required
+          />
+        </div>
+        <EventPicker options={eventOptions} selected={events} onChange={setEvents} />
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={creating || !url.trim() || events.length === 0}
+        >
+          {creating ? 'Creating...' : 'Add Webhook'}
+        </button>
+      </form>
+
+      {revealedSecret && (
+        <div className="card mb-4">
+          <p className="text-sm text-themed-secondary mb-2">
+            Signing secret for the webhook. Copy it now; it won't be shown again. Deliveries carry
+            an <code>X-Possumbly-Signature</code> header of <code>sha256=</code> and the HMAC-SHA256
+            of <code>{'<X-Possumbly-Timestamp>.<body>'}</code> with this secret.
+          </p>
+          <div className="flex gap-2">
+            <code className="flex-1 p-2 rounded bg-themed-tertiary text-sm break-all">
+              {revealedSecret.secret}
+            </code>
+            <button onClick={() => setRevealedSecret(null)} className="btn btn-secondary">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {webhookList.map((webhook) => (
+          <div key={webhook.id} className="card">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-mono text-sm text-themed-primary break-all">{webhook.url}</p>
+                <p className="text-xs text-themed-muted mt-1">
+                  {webhook.is_active ? 'Active' : 'Disabled'} &middot; {webhook.events.join(', ')}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-3 text-sm">
+                <button
+                  onClick={() => handleTest(webhook.id)}
+                  className="text-themed-muted hover:text-themed-primary transition-colors"
+                  disabled={testingId !== null}
+                >
+                  {testingId === webhook.id ? 'Sending...' : 'Send Test'}
+                </button>
+                <button
+                  onClick={() => handleToggleDeliveries(webhook.id)}
+                  className="text-themed-muted hover:text-themed-primary transition-colors"
+                >
+                  {expandedId === webhook.id ? 'Hide Deliveries' : 'Deliveries'}
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(webhook.id);
+                    setEditEvents(webhook.events);
+                  }}
+                  className="text-themed-muted hover:text-themed-primary transition-colors"
+                >
+                  Edit Events
+                </button>
+                <button
+                  onClick={() => handleToggleActive(webhook)}
+                  className="text-themed-muted hover:text-themed-primary transition-colors"
+                >
+                  {webhook.is_active ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => handleRotateSecret(webhook.id)}
+                  className="text-themed-muted hover:text-themed-primary transition-colors"
+                >
+                  Rotate Secret
+                </button>
+                <button
+                  onClick={() => handleDelete(webhook.id)}
+                  className="hover:opacity-80 transition-opacity"
+                  style={{ color: 'var(--color-error)' }}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {editingId === webhook.id && (
+              <div className="mt-4 pt-4 border-t border-themed space-y-4">
+                <EventPicker
+                  options={eventOptions}
+                  selected={editEvents}
+                  onChange={setEditEvents}
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleSaveEvents(webhook.id)}
+                    className="btn btn-primary"
+                    disabled={editEvents.length === 0}
+                  >
+                    Save
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="btn btn-secondary">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {expandedId === webhook.id && (
+              <div className="mt-4 pt-4 border-t border-themed">
+                {deliveries.length === 0 ? (
+                  <p className="text-sm text-themed-muted">No deliveries yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-themed-secondary">
+                        <th className="py-1 pr-4 font-medium">Event</th>
+                        <th className="py-1 pr-4 font-medium">Status</th>
+                        <th className="py-1 pr-4 font-medium">Attempts</th>
+                        <th className="py-1 pr-4 font-medium">Created</th>
+                        <th className="py-1 font-medium">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-themed">
+                      {deliveries.map((delivery) => (
+                        <tr key={delivery.id}>
+                          <td className="py-1 pr-4 font-mono text-themed-primary">
+                            {delivery.event}
+                          </td>
+                          <td
+                            className="py-1 pr-4"
+                            style={{ color: STATUS_COLORS[delivery.status] }}
+                          >
+                            {delivery.status}
+                          </td>
+                          <td className="py-1 pr-4 text-themed-muted">
+                            {delivery.attempts}/{delivery.max_attempts}
+                          </td>
+                          <td className="py-1 pr-4 text-themed-muted">
+                            {new Date(delivery.created_at).toLocaleString()}
+                          </td>
+                          <td className="py-1 text-themed-muted break-all">
+                            {delivery.error ||
+                              (delivery.response_status && `HTTP ${delivery.response_status}`)}
+                            {delivery.status === 'pending' &&
+                              delivery.next_attempt_at &&
+                              ` (retrying ${new Date(delivery.next_attempt_at).toLocaleTimeString()})`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {webhookList.length === 0 && (
+        <p className="text-center py-8 text-themed-muted">No webhooks yet</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useCallback, useRef, useState } from 'react';
+
+const MAX_HISTORY = 100;
+const COALESCE_MS = 1000;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/**
+ * Undo/redo history for a value. Changes made with the same coalesce key less
+ * than a second apart, like dragging a slider or typing, become one entry.
+ */
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initial,
+    future: [],
+  });
+  const lastChange = useRef<{ key: string; time: number } | null>(null);
+
+  const set = useCallback((update: (present: T) => T, coalesceKey?: string) => {
+    const now = Date.now();
+    const last = lastChange.current;
+    const coalesce =
+      coalesceKey !== undefined && last?.key === coalesceKey && now - last.time < COALESCE_MS;
+    lastChange.current = coalesceKey !== undefined ? { key: coalesceKey, time: now } : null;
+
+    setHistory((prev) => {
+      const present = update(prev.present);
+      if (present === prev.present) return prev;
+
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present,
+        future: [],
+      };
+    });
+  }, []);
+
+  // Replace the value and forget its history, e.g. after loading
+  const reset = useCallback((value: T) => {
+    lastChange.current = null;
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastChange.current = null;
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChange.current = null;
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    present: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
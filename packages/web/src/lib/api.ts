@@ -1,299 +1,366 @@
-const API_BASE = '';
-
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || 'Request failed');
-  }
-  return response.json();
-}
-
-export interface User {
-  id: string;
-  email: string | null;
-  name: string | null;
-  avatar_url: string | null;
-  provider: 'google' | 'github' | 'discord';
-  role: 'admin' | 'user';
-  invite_redeemed: boolean;
-  created_at: number;
-}
-
-export interface AuthStatus {
-  authenticated: boolean;
-  inviteRedeemed: boolean;
-}
-
-export interface Template {
-  id: string;
-  name: string;
-  filename: string;
-  width: number;
-  height: number;
-  uploaded_by: string | null;
-  created_at: number;
-}
-
-export interface TextBox {
-  id: string;
-  text: string;
-  x: number;
-  y: number;
-  width: number;
-  fontSize: number;
-  fontFamily: string;
-  fill: string;
-  stroke: string;
-  strokeWidth: number;
-  align: 'left' | 'center' | 'right';
-  rotation: number;
-}
-
-export interface EditorState {
-  textBoxes: TextBox[];
-}
-
-export interface Meme {
-  id: string;
-  template_id: string;
-  created_by: string | null;
-  editor_state: EditorState;
-  output_filename: string | null;
-  is_public?: number;
-  created_at: number;
-  template_name?: string | null;
-  template_filename?: string | null;
-  template_width?: number | null;
-  template_height?: number | null;
-  upvotes?: number;
-  downvotes?: number;
-  score?: number;
-}
-
-export interface VoteResponse {
-  upvotes: number;
-  downvotes: number;
-  score: number;
-  userVote: number | null;
-}
-
-export interface GalleryMeme {
-  id: string;
-  template_id: string;
-  created_by: string | null;
-  output_filename: string | null;
-  is_public: number;
-  created_at: number;
-  template_name: string | null;
-  template_filename: string | null;
-  creator_name: string | null;
-  creator_avatar: string | null;
-  upvotes: number;
-  downvotes: number;
-  score: number;
-  userVote: number | null;
-}
-
-export interface GalleryResponse {
-  memes: GalleryMeme[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  };
-}
-
-export interface InviteCode {
-  id: string;
-  code: string;
-  created_by: string | null;
-  used_by: string | null;
-  created_at: number;
-  used_at: number | null;
-  created_by_name?: string | null;
-  used_by_name?: string | null;
-}
-
-export interface Stats {
-  totalUsers: number;
-  adminUsers: number;
-  activeUsers: number;
-  pendingUsers: number;
-  totalInvites: number;
-  usedInvites: number;
-  availableInvites: number;
-}
+import { createApiClient } from '@possumbly/shared/client';
+import type {
+  ApiToken,
+  ApiTokenInput,
+  ApiTokenScope,
+  Asset,
+  AuthStatus,
+  Collection,
+  CollectionDetail,
+  CollectionInput,
+  CollectionsResponse,
+  Comment,
+  EditorState,
+  ErrorCode,
+  FavoriteResponse,
+  Font,
+  GalleryMeme,
+  GalleryResponse,
+  ImageLayer,
+  InviteCode,
+  Meme,
+  MemeRevision,
+  MemeShare,
+  ReactionSummary,
+  SearchResponse,
+  SearchScope,
+  Stats,
+  TagWithCount,
+  Template,
+  TextBox,
+  TextZone,
+  User,
+  VoteResponse,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  WebhookUpdate,
+} from '@possumbly/shared';
+
+// Same origin; the dev server proxies API paths to the backend. Failed requests
+// throw ApiError with the status and an error code.
+const client = createApiClient();
+
+export { ApiError } from '@possumbly/shared/client';
+
+// Request and response types come from the schemas the server validates
+// requests with, so the two can't drift apart
+export type {
+  ApiToken,
+  ApiTokenInput,
+  ApiTokenScope,
+  Asset,
+  AuthStatus,
+  Collection,
+  CollectionDetail,
+  CollectionInput,
+  CollectionsResponse,
+  Comment,
+  EditorState,
+  ErrorCode,
+  FavoriteResponse,
+  Font,
+  GalleryMeme,
+  GalleryResponse,
+  ImageLayer,
+  InviteCode,
+  Meme,
+  MemeRevision,
+  MemeShare,
+  ReactionSummary,
+  SearchResponse,
+  SearchScope,
+  Stats,
+  Template,
+  TextBox,
+  TextZone,
+  User,
+  VoteResponse,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  WebhookUpdate,
+};
+
+export type Tag = TagWithCount;
+
+type Success = { success: boolean };
 
 // Auth API
 export const auth = {
-  getStatus: () => fetch(`${API_BASE}/auth/status`, { credentials: 'include' }).then(handleResponse<AuthStatus>),
+  getStatus: () => client.get<AuthStatus>('/auth/status'),
 
-  getMe: () => fetch(`${API_BASE}/auth/me`, { credentials: 'include' }).then(handleResponse<User>),
+  getMe: () => client.get<User>('/auth/me'),
 
-  logout: () => fetch(`${API_BASE}/auth/logout`, { method: 'POST', credentials: 'include' }).then(handleResponse<{ success: boolean }>),
+  logout: () => client.post<Success>('/auth/logout'),
 
-  loginUrl: (provider: 'google' | 'github' | 'discord') => `${API_BASE}/auth/${provider}`,
+  loginUrl: (provider: 'google' | 'github' | 'discord') => client.url(`/auth/${provider}`),
 };
 
 // Invites API
 export const invites = {
   redeem: (code: string) =>
-    fetch(`${API_BASE}/api/invites/redeem`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify({ code }),
-    }).then(handleResponse<{ success: boolean; message: string }>),
-
-  list: () => fetch(`${API_BASE}/api/invites`, { credentials: 'include' }).then(handleResponse<InviteCode[]>),
-
-  create: () =>
-    fetch(`${API_BASE}/api/invites`, {
-      method: 'POST',
-      credentials: 'include',
-    }).then(handleResponse<{ id: string; code: string; created_at: number }>),
-
-  delete: (id: string) =>
-    fetch(`${API_BASE}/api/invites/${id}`, {
-      method: 'DELETE',
-      credentials: 'include',
-    }).then(handleResponse<{ success: boolean }>),
+    client.post<Success & { message: string }>('/api/invites/redeem', { body: { code } }),
+
+  list: () => client.get<InviteCode[]>('/api/invites'),
+
+  create: () => client.post<{ id: string; code: string; created_at: number }>('/api/invites'),
+
+  delete: (id: string) => client.delete<Success>(`/api/invites/${id}`),
 };
 
 // Templates API
 export const templates = {
-  list: () => fetch(`${API_BASE}/api/templates`, { credentials: 'include' }).then(handleResponse<Template[]>),
-
-  get: (id: string) => fetch(`${API_BASE}/api/templates/${id}`, { credentials: 'include' }).then(handleResponse<Template>),
-
-  upload: (file: File, name: string) => {
-    const formData = new FormData();
-    formData.append('image', file);
-    formData.append('name', name);
-    return fetch(`${API_BASE}/api/templates`, {
-      method: 'POST',
-      credentials: 'include',
-      body: formData,
-    }).then(handleResponse<Template>);
+  list: (tag?: string) => client.get<Template[]>('/api/templates', { tag }),
+
+  get: (id: string) => client.get<Template>(`/api/templates/${id}`),
+
+  upload: (file: File, name: string, tags: string[] = []) => {
+    const form = new FormData();
+    form.append('image', file);
+    form.append('name', name);
+    form.append('tags', tags.join(','));
+    return client.post<Template>('/api/templates', { form });
+  },
+
+  setTags: (id: string, tags: string[]) =>
+    client.put<Template>(`/api/templates/${id}/tags`, { body: { tags } }),
+
+  // Pass null to restore the default top/bottom zones
+  setTextZones: (id: string, textZones: TextZone[] | null) =>
+    client.put<Template>(`/api/templates/${id}/text-zones`, { body: { text_zones: textZones } }),
+
+  delete: (id: string) => client.delete<Success>(`/api/templates/${id}`),
+
+  imageUrl: (filename: string) => client.url(`/uploads/templates/${filename}`),
+
+  frameUrl: (id: string, frame: number) => client.url(`/api/templates/${id}/frames/${frame}`),
+};
+
+// Tags API
+export const tags = {
+  list: () => client.get<Tag[]>('/api/tags'),
+
+  rename: (id: string, name: string) =>
+    client.patch<Omit<Tag, 'template_count'>>(`/api/tags/${id}`, { body: { name } }),
+
+  delete: (id: string) => client.delete<Success>(`/api/tags/${id}`),
+};
+
+// Assets API
+export const assets = {
+  list: () => client.get<Asset[]>('/api/assets'),
+
+  upload: (file: File, name: string, kind: Asset['kind']) => {
+    const form = new FormData();
+    form.append('image', file);
+    form.append('name', name);
+    form.append('kind', kind);
+    return client.post<Asset>('/api/assets', { form });
   },
 
-  delete: (id: string) =>
-    fetch(`${API_BASE}/api/templates/${id}`, {
-      method: 'DELETE',
-      credentials: 'include',
-    }).then(handleResponse<{ success: boolean }>),
+  delete: (id: string) => client.delete<Success>(`/api/assets/${id}`),
 
-  imageUrl: (filename: string) => `${API_BASE}/uploads/templates/${filename}`,
+  imageUrl: (filename: string) => client.url(`/uploads/assets/${filename}`),
+};
+
+// Fonts API
+export const fonts = {
+  list: () => client.get<Font[]>('/api/fonts'),
+
+  // Leave family empty to use the name stored in the font file
+  upload: (file: File, family: string) => {
+    const form = new FormData();
+    form.append('font', file);
+    form.append('family', family);
+    return client.post<Font>('/api/fonts', { form });
+  },
+
+  delete: (id: string) => client.delete<Success>(`/api/fonts/${id}`),
+
+  fileUrl: (filename: string) => client.url(`/uploads/fonts/${filename}`),
 };
 
 // Memes API
 export const memes = {
-  list: () => fetch(`${API_BASE}/api/memes`, { credentials: 'include' }).then(handleResponse<Meme[]>),
+  list: () => client.get<Meme[]>('/api/memes'),
 
-  get: (id: string) => fetch(`${API_BASE}/api/memes/${id}`, { credentials: 'include' }).then(handleResponse<Meme>),
+  get: (id: string) => client.get<Meme>(`/api/memes/${id}`),
 
   create: (templateId: string, editorState: EditorState) =>
-    fetch(`${API_BASE}/api/memes`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify({ template_id: templateId, editor_state: editorState }),
-    }).then(handleResponse<Meme>),
+    client.post<Meme>('/api/memes', {
+      body: { template_id: templateId, editor_state: editorState },
+    }),
 
   update: (id: string, editorState: EditorState) =>
-    fetch(`${API_BASE}/api/memes/${id}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify({ editor_state: editorState }),
-    }).then(handleResponse<Meme>),
-
-  render: (id: string, imageData: string) =>
-    fetch(`${API_BASE}/api/memes/${id}/render`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify({ imageData }),
-    }).then(handleResponse<{ success: boolean; filename: string }>),
-
-  delete: (id: string) =>
-    fetch(`${API_BASE}/api/memes/${id}`, {
-      method: 'DELETE',
-      credentials: 'include',
-    }).then(handleResponse<{ success: boolean }>),
+    client.put<Meme>(`/api/memes/${id}`, { body: { editor_state: editorState } }),
+
+  render: (id: string) => client.post<Success & { filename: string }>(`/api/memes/${id}/render`),
+
+  delete: (id: string) => client.delete<Success>(`/api/memes/${id}`),
 
   setVisibility: (id: string, isPublic: boolean) =>
-    fetch(`${API_BASE}/api/memes/${id}/visibility`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify({ is_public: isPublic }),
-    }).then(handleResponse<Meme>),
-
-  imageUrl: (filename: string) => `${API_BASE}/uploads/memes/${filename}`,
+    client.patch<Meme>(`/api/memes/${id}/visibility`, { body: { is_public: isPublic } }),
+
+  // Newest first
+  revisions: (id: string) => client.get<MemeRevision[]>(`/api/memes/${id}/revisions`),
+
+  restoreRevision: (id: string, revisionId: string) =>
+    client.post<Meme>(`/api/memes/${id}/revisions/${revisionId}/restore`),
+
+  // Active share links, newest first
+  shares: (id: string) => client.get<MemeShare[]>(`/api/memes/${id}/shares`),
+
+  share: (id: string, expiresInDays: number | null = null) =>
+    client.post<MemeShare>(`/api/memes/${id}/share`, { body: { expires_in_days: expiresInDays } }),
+
+  revokeShare: (id: string, shareId: string) =>
+    client.delete<Success>(`/api/memes/${id}/share/${shareId}`),
+
+  // Copy a public meme into a new meme owned by the current user
+  remix: (id: string) => client.post<Meme>(`/api/memes/${id}/remix`),
+
+  remixes: (id: string) => client.get<GalleryMeme[]>(`/api/memes/${id}/remixes`),
+
+  favorite: (id: string) => client.post<FavoriteResponse>(`/api/memes/${id}/favorite`),
+
+  unfavorite: (id: string) => client.delete<FavoriteResponse>(`/api/memes/${id}/favorite`),
+
+  imageUrl: (filename: string) => client.url(`/uploads/memes/${filename}`),
+
+  revisionImageUrl: (filename: string) => client.url(`/uploads/memes/revisions/${filename}`),
 };
 
 // Votes API
 export const votes = {
-  get: (memeId: string) =>
-    fetch(`${API_BASE}/api/votes/${memeId}`, { credentials: 'include' }).then(handleResponse<VoteResponse>),
+  get: (memeId: string) => client.get<VoteResponse>(`/api/votes/${memeId}`),
 
   cast: (memeId: string, vote: 1 | -1) =>
-    fetch(`${API_BASE}/api/votes/${memeId}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify({ vote }),
-    }).then(handleResponse<VoteResponse>),
-
-  remove: (memeId: string) =>
-    fetch(`${API_BASE}/api/votes/${memeId}`, {
-      method: 'DELETE',
-      credentials: 'include',
-    }).then(handleResponse<VoteResponse>),
+    client.post<VoteResponse>(`/api/votes/${memeId}`, { body: { vote } }),
+
+  remove: (memeId: string) => client.delete<VoteResponse>(`/api/votes/${memeId}`),
+};
+
+// Reactions API
+export const reactions = {
+  // Emoji this instance offers as reactions
+  options: () => client.get<{ emoji: string[] }>('/api/reactions'),
+
+  get: (memeId: string) => client.get<{ reactions: ReactionSummary[] }>(`/api/reactions/${memeId}`),
+
+  // Add the reaction, or remove it if the user already reacted with this emoji
+  toggle: (memeId: string, emoji: string) =>
+    client.post<{ reactions: ReactionSummary[] }>(`/api/reactions/${memeId}`, { body: { emoji } }),
+};
+
+// Comments API
+export const comments = {
+  // Oldest first; replies carry their parent's ID
+  list: (memeId: string) => client.get<Comment[]>(`/api/comments/${memeId}`),
+
+  create: (memeId: string, body: string, parentId: string | null = null) =>
+    client.post<Comment>(`/api/comments/${memeId}`, { body: { body, parent_id: parentId } }),
+
+  update: (memeId: string, commentId: string, body: string) =>
+    client.put<Comment>(`/api/comments/${memeId}/${commentId}`, { body: { body } }),
+
+  delete: (memeId: string, commentId: string) =>
+    client.delete<Success>(`/api/comments/${memeId}/${commentId}`),
 };
 
 // Gallery API
 export const gallery = {
   list: (params?: {
     period?: '7d' | '30d' | 'year' | 'all';
-    sort?: 'hot' | 'top' | 'new';
+    sort?: 'hot' | 'top' | 'new' | 'favorites';
     page?: number;
     limit?: number;
-  }) => {
-    const searchParams = new URLSearchParams();
-    if (params?.period) searchParams.set('period', params.period);
-    if (params?.sort) searchParams.set('sort', params.sort);
-    if (params?.page) searchParams.set('page', params.page.toString());
-    if (params?.limit) searchParams.set('limit', params.limit.toString());
-    const queryString = searchParams.toString();
-    const url = queryString
-      ? `${API_BASE}/api/gallery?${queryString}`
-      : `${API_BASE}/api/gallery`;
-    return fetch(url, { credentials: 'include' }).then(handleResponse<GalleryResponse>);
-  },
+  }) => client.get<GalleryResponse>('/api/gallery', params),
+
+  // Public memes the current user saved, most recently saved first
+  saved: (params?: { page?: number; limit?: number }) =>
+    client.get<GalleryResponse>('/api/gallery/saved', params),
+};
+
+// Collections API
+export const collections = {
+  // The current user's collections, most recently updated first
+  mine: () => client.get<Collection[]>('/api/collections'),
+
+  public: (params?: { page?: number; limit?: number }) =>
+    client.get<CollectionsResponse>('/api/collections/public', params),
+
+  // A collection with the memes in it the user can see, in order
+  get: (id: string) => client.get<CollectionDetail>(`/api/collections/${id}`),
+
+  create: (data: CollectionInput) => client.post<Collection>('/api/collections', { body: data }),
+
+  update: (id: string, data: CollectionInput) =>
+    client.put<Collection>(`/api/collections/${id}`, { body: data }),
+
+  delete: (id: string) => client.delete<Success>(`/api/collections/${id}`),
+
+  addMeme: (id: string, memeId: string) =>
+    client.post<Collection>(`/api/collections/${id}/memes`, { body: { meme_id: memeId } }),
+
+  removeMeme: (id: string, memeId: string) =>
+    client.delete<Collection>(`/api/collections/${id}/memes/${memeId}`),
+
+  // Memes left out of memeIds move after the listed ones
+  reorder: (id: string, memeIds: string[]) =>
+    client.put<Success>(`/api/collections/${id}/order`, { body: { meme_ids: memeIds } }),
+};
+
+// Search API
+export const search = {
+  query: (q: string, scope: SearchScope = 'all') =>
+    client.get<SearchResponse>('/api/search', { q, scope }),
 };
 
 // Admin API
 export const admin = {
-  getUsers: () => fetch(`${API_BASE}/api/admin/users`, { credentials: 'include' }).then(handleResponse<User[]>),
+  getUsers: () => client.get<User[]>('/api/admin/users'),
 
   setUserRole: (userId: string, role: 'admin' | 'user') =>
-    fetch(`${API_BASE}/api/admin/users/${userId}/role`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify({ role }),
-    }).then(handleResponse<{ success: boolean }>),
-
-  getStats: () => fetch(`${API_BASE}/api/admin/stats`, { credentials: 'include' }).then(handleResponse<Stats>),
-
-  bootstrap: () =>
-    fetch(`${API_BASE}/api/admin/bootstrap`, {
-      method: 'POST',
-      credentials: 'include',
-    }).then(handleResponse<{ success: boolean; message: string }>),
+    client.patch<Success>(`/api/admin/users/${userId}/role`, { body: { role } }),
+
+  getStats: () => client.get<Stats>('/api/admin/stats'),
+
+  rerenderMemes: () =>
+    client.post<Success & { rendered: number; failed: number }>('/api/admin/memes/rerender'),
+
+  recountVotes: () =>
+    client.post<Success & { checked: number; corrected: number }>('/api/admin/votes/recount'),
+
+  reindexSearch: () => client.post<Success & { indexed: number }>('/api/admin/search/reindex'),
+
+  bootstrap: () => client.post<Success & { message: string }>('/api/admin/bootstrap'),
+};
+
+// Webhooks API (admin)
+export const webhooks = {
+  // Audit actions a webhook can subscribe to
+  events: () => client.get<string[]>('/api/webhooks/events'),
+
+  list: () => client.get<Webhook[]>('/api/webhooks'),
+
+  create: (data: WebhookInput) => client.post<Webhook>('/api/webhooks', { body: data }),
+
+  update: (id: string, data: WebhookUpdate) =>
+    client.put<Webhook>(`/api/webhooks/${id}`, { body: data }),
+
+  delete: (id: string) => client.delete<Success>(`/api/webhooks/${id}`),
+
+  // Sends once without retries and resolves with the outcome
+  test: (id: string) => client.post<WebhookDelivery>(`/api/webhooks/${id}/test`),
+
+  deliveries: (id: string) => client.get<WebhookDelivery[]>(`/api/webhooks/${id}/deliveries`),
+};
+
+export const apiTokens = {
+  list: () => client.get<ApiToken[]>('/api/tokens'),
+
+  create: (data: ApiTokenInput) => client.post<ApiToken>('/api/tokens', { body: data }),
+
+  revoke: (id: string) => client.delete<Success>(`/api/tokens/${id}`),
 };
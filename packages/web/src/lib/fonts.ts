@@ -0,0 +1,30 @@
+import { fonts, Font } from './api';
+
+// Font files already registered with the document, by filename
+const registeredFonts = new Set<string>();
+
+/**
+ * Fetch the font library and register each font with the browser so Konva can
+ * draw with it. A font that fails to load is skipped, and text using it falls
+ * back to a system font.
+ */
+export async function loadFontLibrary(): Promise<Font[]> {
+  const library = await fonts.list();
+
+  await Promise.all(
+    library
+      .filter((font) => !registeredFonts.has(font.filename))
+      .map(async (font) => {
+        try {
+          const face = new FontFace(font.family, `url(${fonts.fileUrl(font.filename)})`);
+          await face.load();
+          document.fonts.add(face);
+          registeredFonts.add(font.filename);
+        } catch (err) {
+          console.error(`Failed to load font ${font.family}:`, err);
+        }
+      })
+  );
+
+  return library;
+}
@@ -1,14 +1,27 @@
-import { useState, useEffect } from 'react';
-import { admin, invites, InviteCode, User, Stats } from '../lib/api';
+import { useState, useEffect, useRef } from 'react';
+import { admin, fonts, invites, tags, Font, InviteCode, Tag, User, Stats } from '../lib/api';
+import { loadFontLibrary } from '../lib/fonts';
+import WebhooksPanel from '../components/WebhooksPanel';
 
 export default function Admin() {
-  const [activeTab, setActiveTab] = useState<'invites' | 'users' | 'stats'>('invites');
+  const [activeTab, setActiveTab] = useState<
+    'invites' | 'users' | 'tags' | 'fonts' | 'webhooks' | 'stats'
+  >('invites');
   const [inviteList, setInviteList] = useState<InviteCode[]>([]);
   const [userList, setUserList] = useState<User[]>([]);
+  const [tagList, setTagList] = useState<Tag[]>([]);
+  const [fontList, setFontList] = useState<Font[]>([]);
+  const [fontFamily, setFontFamily] = useState('');
+  const [uploadingFont, setUploadingFont] = useState(false);
   const [stats, setStats] = useState<Stats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [creatingInvite, setCreatingInvite] = useState(false);
+  const [rerendering, setRerendering] = useState(false);
+  const [recounting, setRecounting] = useState(false);
+  const [reindexing, setReindexing] = useState(false);
+  const [maintenanceResult, setMaintenanceResult] = useState('');
+  const fontInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadData();
@@ -24,6 +37,13 @@ export default function Admin() {
       } else if (activeTab === 'users') {
         const data = await admin.getUsers();
         setUserList(data);
+      } else if (activeTab === 'tags') {
+        const data = await tags.list();
+        setTagList(data);
+      } else if (activeTab === 'fonts') {
+        // Registered with the browser so each family previews in its own font
+        const data = await loadFontLibrary();
+        setFontList(data);
       } else if (activeTab === 'stats') {
         const data = await admin.getStats();
         setStats(data);
@@ -73,6 +93,101 @@ export default function Admin() {
     }
   };
 
+  const handleRerender = async () => {
+    if (!confirm('Re-render every meme from its saved editor state?')) return;
+    setRerendering(true);
+    setMaintenanceResult('');
+    try {
+      const result = await admin.rerenderMemes();
+      setMaintenanceResult(`Rendered ${result.rendered} memes (${result.failed} failed)`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to re-render memes');
+    } finally {
+      setRerendering(false);
+    }
+  };
+
+  const handleRecount = async () => {
+    setRecounting(true);
+    setMaintenanceResult('');
+    try {
+      const result = await admin.recountVotes();
+      setMaintenanceResult(`Checked ${result.checked} memes, corrected ${result.corrected}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to recount votes');
+    } finally {
+      setRecounting(false);
+    }
+  };
+
+  const handleReindex = async () => {
+    setReindexing(true);
+    setMaintenanceResult('');
+    try {
+      const result = await admin.reindexSearch();
+      setMaintenanceResult(`Indexed ${result.indexed} templates and memes`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rebuild search index');
+    } finally {
+      setReindexing(false);
+    }
+  };
+
+  const handleRenameTag = async (tag: Tag) => {
+    const name = prompt('Rename tag', tag.name);
+    if (!name || name === tag.name) return;
+    try {
+      const renamed = await tags.rename(tag.id, name);
+      setTagList((prev) =>
+        prev
+          .map((t) => (t.id === tag.id ? { ...t, name: renamed.name } : t))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename tag');
+    }
+  };
+
+  const handleDeleteTag = async (tag: Tag) => {
+    const message = `Delete #${tag.name} and remove it from ${tag.template_count} template(s)?`;
+    if (!confirm(message)) return;
+    try {
+      await tags.delete(tag.id);
+      setTagList((prev) => prev.filter((t) => t.id !== tag.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tag');
+    }
+  };
+
+  const handleUploadFont = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const file = fontInputRef.current?.files?.[0];
+    if (!file) return;
+
+    setUploadingFont(true);
+    try {
+      await fonts.upload(file, fontFamily.trim());
+      setFontFamily('');
+      if (fontInputRef.current) fontInputRef.current.value = '';
+      const data = await loadFontLibrary();
+      setFontList(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload font');
+    } finally {
+      setUploadingFont(false);
+    }
+  };
+
+  const handleDeleteFont = async (font: Font) => {
+    if (!confirm(`Delete ${font.family}? Text using it will fall back to a system font.`)) return;
+    try {
+      await fonts.delete(font.id);
+      setFontList((prev) => prev.filter((f) => f.id !== font.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete font');
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
@@ -106,7 +221,7 @@ export default function Admin() {
       )}
 
       <div className="flex gap-4 mb-6 border-b border-themed">
-        {(['invites', 'users', 'stats'] as const).map((tab) => (
+        {(['invites', 'users', 'tags', 'fonts', 'webhooks', 'stats'] as const).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -218,6 +333,148 @@ export default function Admin() {
             </div>
           )}
 
+          {activeTab === 'tags' && (
+            <div className="card overflow-hidden p-0">
+              <table className="w-full">
+                <thead className="bg-themed-tertiary">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-themed-secondary">
+                      Tag
+                    </th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-themed-secondary">
+                      Templates
+                    </th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-themed-secondary">
+                      Created
+                    </th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-themed-secondary">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-themed">
+                  {tagList.map((tag) => (
+                    <tr key={tag.id}>
+                      <td className="px-4 py-3 font-medium text-themed-primary">#{tag.name}</td>
+                      <td className="px-4 py-3 text-sm text-themed-muted">{tag.template_count}</td>
+                      <td className="px-4 py-3 text-sm text-themed-muted">
+                        {formatDate(tag.created_at)}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => handleRenameTag(tag)}
+                          className="text-themed-muted hover:text-themed-primary mr-2 transition-colors"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          onClick={() => handleDeleteTag(tag)}
+                          className="hover:opacity-80 transition-opacity"
+                          style={{ color: 'var(--color-error)' }}
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {tagList.length === 0 && (
+                <p className="text-center py-8 text-themed-muted">No tags yet</p>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'fonts' && (
+            <div>
+              <form
+                onSubmit={handleUploadFont}
+                className="card mb-4 flex flex-wrap gap-4 items-end"
+              >
+                <div className="flex-1 min-w-48">
+                  <label className="block text-sm font-medium text-themed-secondary mb-1">
+                    Font File (TTF, OTF or WOFF2)
+                  </label>
+                  <input
+                    ref={fontInputRef}
+                    type="file"
+                    accept=".ttf,.otf,.woff2"
+                    className="input w-full"
+                    required
+                  />
+                </div>
+                <div className="flex-1 min-w-48">
+                  <label className="block text-sm font-medium text-themed-secondary mb-1">
+                    Family Name
+                  </label>
+                  <input
+                    type="text"
+                    value={fontFamily}
+                    onChange={(e) => setFontFamily(e.target.value)}
+                    placeholder="Name from the font file"
+                    className="input w-full"
+                    maxLength={100}
+                  />
+                </div>
+                <button type="submit" className="btn btn-primary" disabled={uploadingFont}>
+                  {uploadingFont ? 'Uploading...' : 'Upload Font'}
+                </button>
+              </form>
+              <div className="card overflow-hidden p-0">
+                <table className="w-full">
+                  <thead className="bg-themed-tertiary">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-themed-secondary">
+                        Family
+                      </th>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-themed-secondary">
+                        Format
+                      </th>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-themed-secondary">
+                        Added
+                      </th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-themed-secondary">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-themed">
+                    {fontList.map((font) => (
+                      <tr key={font.id}>
+                        <td
+                          className="px-4 py-3 text-lg text-themed-primary"
+                          style={{ fontFamily: `"${font.family}"` }}
+                        >
+                          {font.family}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-themed-muted uppercase">
+                          {font.format}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-themed-muted">
+                          {formatDate(font.created_at)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <button
+                            onClick={() => handleDeleteFont(font)}
+                            className="hover:opacity-80 transition-opacity"
+                            style={{ color: 'var(--color-error)' }}
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {fontList.length === 0 && (
+                  <p className="text-center py-8 text-themed-muted">
+                    No fonts yet. Text uses the viewer's system fonts.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
           {activeTab === 'users' && (
             <div className="card overflow-hidden p-0">
               <table className="w-full">
@@ -305,43 +562,66 @@ export default function Admin() {
             </div>
           )}
 
+          {/* Loads its own data */}
+          {activeTab === 'webhooks' && <WebhooksPanel />}
+
           {activeTab === 'stats' && stats && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              <div className="card">
-                <p className="text-themed-muted text-sm mb-1">Total Users</p>
-                <p className="text-3xl font-bold text-themed-primary">{stats.totalUsers}</p>
-              </div>
-              <div className="card">
-                <p className="text-themed-muted text-sm mb-1">Active Users</p>
-                <p className="text-3xl font-bold" style={{ color: 'var(--color-success)' }}>
-                  {stats.activeUsers}
-                </p>
-              </div>
-              <div className="card">
-                <p className="text-themed-muted text-sm mb-1">Pending Users</p>
-                <p className="text-3xl font-bold" style={{ color: 'var(--color-warning)' }}>
-                  {stats.pendingUsers}
-                </p>
-              </div>
-              <div className="card">
-                <p className="text-themed-muted text-sm mb-1">Admin Users</p>
-                <p className="text-3xl font-bold text-purple-600">{stats.adminUsers}</p>
-              </div>
-              <div className="card">
-                <p className="text-themed-muted text-sm mb-1">Total Invites</p>
-                <p className="text-3xl font-bold text-themed-primary">{stats.totalInvites}</p>
-              </div>
-              <div className="card">
-                <p className="text-themed-muted text-sm mb-1">Used Invites</p>
-                <p className="text-3xl font-bold" style={{ color: 'var(--color-success)' }}>
-                  {stats.usedInvites}
-                </p>
+            <div>
+              <div className="flex items-center justify-end gap-4 mb-4">
+                {maintenanceResult && (
+                  <span className="text-sm text-themed-muted">{maintenanceResult}</span>
+                )}
+                <button
+                  onClick={handleRerender}
+                  className="btn btn-secondary"
+                  disabled={rerendering}
+                >
+                  {rerendering ? 'Re-rendering...' : 'Re-render All Memes'}
+                </button>
+                <button onClick={handleRecount} className="btn btn-secondary" disabled={recounting}>
+                  {recounting ? 'Recounting...' : 'Recount Votes'}
+                </button>
+                <button onClick={handleReindex} className="btn btn-secondary" disabled={reindexing}>
+                  {reindexing ? 'Reindexing...' : 'Rebuild Search Index'}
+                </button>
               </div>
-              <div className="card">
-                <p className="text-themed-muted text-sm mb-1">Available Invites</p>
-                <p className="text-3xl font-bold" style={{ color: 'var(--color-warning)' }}>
-                  {stats.availableInvites}
-                </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                <div className="card">
+                  <p className="text-themed-muted text-sm mb-1">Total Users</p>
+                  <p className="text-3xl font-bold text-themed-primary">{stats.totalUsers}</p>
+                </div>
+                <div className="card">
+                  <p className="text-themed-muted text-sm mb-1">Active Users</p>
+                  <p className="text-3xl font-bold" style={{ color: 'var(--color-success)' }}>
+                    {stats.activeUsers}
+                  </p>
+                </div>
+                <div className="card">
+                  <p className="text-themed-muted text-sm mb-1">Pending Users</p>
+                  <p className="text-3xl font-bold" style={{ color: 'var(--color-warning)' }}>
+                    {stats.pendingUsers}
+                  </p>
+                </div>
+                <div className="card">
+                  <p className="text-themed-muted text-sm mb-1">Admin Users</p>
+                  <p className="text-3xl font-bold text-purple-600">{stats.adminUsers}</p>
+                </div>
+                <div className="card">
+                  <p className="text-themed-muted text-sm mb-1">Total Invites</p>
+                  <p className="text-3xl font-bold text-themed-primary">{stats.totalInvites}</p>
+                </div>
+                <div className="card">
+                  <p className="text-themed-muted text-sm mb-1">Used Invites</p>
+                  <p className="text-3xl font-bold" style={{ color: 'var(--color-success)' }}>
+                    {stats.usedInvites}
+                  </p>
+                </div>
+                <div className="card">
+                  <p className="text-themed-muted text-sm mb-1">Available Invites</p>
+                  <p className="text-3xl font-bold" style={{ color: 'var(--color-warning)' }}>
+                    {stats.availableInvites}
+                  </p>
+                </div>
               </div>
             </div>
           )}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiTokens, ApiToken, ApiTokenScope } from '../lib/api';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: 'Read',
+  write: 'Write',
+  admin: 'Admin',
+};
+
+const SCOPE_HINTS: Record<ApiTokenScope, string> = {
+  read: 'View templates, memes and collections',
+  write: 'Create, change and delete',
+  admin: 'Use admin-only endpoints',
+};
+
+// Expiry choices in days; null never expires
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never expires', days: null },
+];
+
+function formatDate(timestamp: number | null, fallback: string) {
+  return timestamp ? new Date(timestamp).toLocaleString() : fallback;
+}
+
+// Personal tokens for calling the API from scripts and bots
+export default function ApiTokens() {
+  const { isAdmin } = useAuth();
+  const [tokenList, setTokenList] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read']);
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [creating, setCreating] = useState(false);
+  // Token returned on creation, shown once
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    apiTokens
+      .list()
+      .then(setTokenList)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load API tokens'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const availableScopes = (Object.keys(SCOPE_LABELS) as ApiTokenScope[]).filter(
+    (scope) => scope !== 'admin' || isAdmin
+  );
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError('');
+    try {
+      const created = await apiTokens.create({
+        name: name.trim(),
+        scopes,
+        expires_in_days: EXPIRY_OPTIONS[expiryIndex].days,
+      });
+      setTokenList((prev) => [created, ...prev]);
+      setNewToken(created.token!);
+      setCopied(false);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API token');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+
+    setError('');
+    try {
+      await apiTokens.revoke(token.id);
+      setTokenList((prev) => prev.filter((t) => t.id !== token.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API token');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      setCopied(true);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h1 className="text-3xl font-bold text-themed-primary mb-2">API Tokens</h1>
+      <p className="text-themed-muted mb-6">
+        Tokens let scripts and bots use the API as you. Send one as{' '}
+        <code>Authorization: Bearer &lt;token&gt;</code>.
+      </p>
+
+      {error && (
+        <div
+          className="px-4 py-3 rounded-lg mb-6 border"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.1)',
+            borderColor: 'var(--color-error)',
+            color: 'var(--color-error)',
+          }}
+        >
+          {error}
+          <button onClick={() => setError('')} className="float-right font-bold">
+            &times;
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="card mb-6 space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Token name, e.g. CI bot"
+            maxLength={100}
+            className="input flex-1"
+          />
+          <select
+            value={expiryIndex}
+            onChange={(e) => setExpiryIndex(Number(e.target.value))}
+            className="input"
+          >
+            {EXPIRY_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {availableScopes.map((scope) => (
+            <label key={scope} className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+                className="mt-1"
+              />
+              <span>
+                <span className="text-themed-primary font-medium">{SCOPE_LABELS[scope]}</span>
+                <span className="block text-xs text-themed-muted">{SCOPE_HINTS[scope]}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={creating || !name.trim() || scopes.length === 0}
+          className="btn btn-primary"
+        >
+          {creating ? 'Creating...' : 'Create Token'}
+        </button>
+      </form>
+
+      {newToken && (
+        <div className="card mb-6" style={{ borderColor: 'var(--color-bg-accent)' }}>
+          <p className="text-sm text-themed-secondary mb-2">
+            Copy your new token now. It won't be shown again.
+          </p>
+          <div className="flex gap-2">
+            <code className="flex-1 p-2 rounded bg-themed-tertiary text-sm break-all">
+              {newToken}
+            </code>
+            <button onClick={handleCopy} className="btn btn-secondary">
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+            <button onClick={() => setNewToken(null)} className="btn btn-secondary">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div
+            className="animate-spin rounded-full h-12 w-12 border-4 border-themed"
+            style={{ borderTopColor: 'var(--color-bg-accent)' }}
+          ></div>
+        </div>
+      ) : tokenList.length === 0 ? (
+        <p className="text-center py-8 text-themed-muted">You don't have any API tokens</p>
+      ) : (
+        <div className="space-y-3">
+          {tokenList.map((token) => {
+            const expired = token.expires_at !== null && token.expires_at <= Date.now();
+            return (
+              <div key={token.id} className="card flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-themed-primary truncate">
+                    {token.name}
+                    {expired && (
+                      <span className="ml-2 text-xs" style={{ color: 'var(--color-error)' }}>
+                        Expired
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs font-mono text-themed-secondary">{token.prefix}...</p>
+                  <p className="text-xs text-themed-muted mt-1">
+                    {token.scopes.map((scope) => SCOPE_LABELS[scope]).join(', ')} &middot; Last used{' '}
+                    {formatDate(token.last_used_at, 'never')} &middot;{' '}
+                    {token.expires_at
+                      ? `${expired ? 'Expired' : 'Expires'} ${formatDate(token.expires_at, '')}`
+                      : 'Never expires'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(token)}
+                  className="text-sm text-themed-muted hover:text-red-500 transition-colors"
+                >
+                  Revoke
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
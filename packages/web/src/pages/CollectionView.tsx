@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  collections as collectionsApi,
+  memes,
+  CollectionDetail,
+  GalleryMeme,
+  ReactionSummary,
+} from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import MemeCard from '../components/MemeCard';
+
+export default function CollectionView() {
+  const { collectionId } = useParams<{ collectionId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [collection, setCollection] = useState<CollectionDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const loadCollection = useCallback(async () => {
+    if (!collectionId) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      setCollection(await collectionsApi.get(collectionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collection');
+    } finally {
+      setLoading(false);
+    }
+  }, [collectionId]);
+
+  useEffect(() => {
+    loadCollection();
+  }, [loadCollection]);
+
+  const isOwner = !!collection && collection.owner_id === user?.id;
+  const canDelete = isOwner || user?.role === 'admin';
+
+  const updateMeme = (memeId: string, changes: Partial<GalleryMeme>) => {
+    setCollection((prev) =>
+      prev
+        ? { ...prev, memes: prev.memes.map((m) => (m.id === memeId ? { ...m, ...changes } : m)) }
+        : prev
+    );
+  };
+
+  const startEditing = () => {
+    if (!collection) return;
+    setName(collection.name);
+    setDescription(collection.description);
+    setIsPublic(!!collection.is_public);
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collection || !name.trim()) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const updated = await collectionsApi.update(collection.id, {
+        name: name.trim(),
+        description: description.trim(),
+        is_public: isPublic,
+      });
+      setCollection((prev) => (prev ? { ...prev, ...updated } : prev));
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update collection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!collection) return;
+    if (!confirm('Delete this collection? The memes in it are kept.')) return;
+
+    try {
+      await collectionsApi.delete(collection.id);
+      navigate('/collections');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete collection');
+    }
+  };
+
+  const handleRemove = async (memeId: string) => {
+    if (!collection) return;
+
+    setError('');
+    try {
+      const updated = await collectionsApi.removeMeme(collection.id, memeId);
+      setCollection((prev) =>
+        prev ? { ...prev, ...updated, memes: prev.memes.filter((m) => m.id !== memeId) } : prev
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove meme');
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    if (!collection) return;
+
+    const reordered = [...collection.memes];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    const previous = collection.memes;
+    setCollection({ ...collection, memes: reordered });
+    setError('');
+    try {
+      await collectionsApi.reorder(
+        collection.id,
+        reordered.map((m) => m.id)
+      );
+    } catch (err) {
+      setCollection((prev) => (prev ? { ...prev, memes: previous } : prev));
+      setError(err instanceof Error ? err.message : 'Failed to reorder collection');
+    }
+  };
+
+  const handleRemix = async (meme: GalleryMeme) => {
+    setError('');
+    try {
+      const remix = await memes.remix(meme.id);
+      navigate(`/editor/${remix.template_id}/${remix.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remix meme');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div
+          className="animate-spin rounded-full h-12 w-12 border-4 border-themed"
+          style={{ borderTopColor: 'var(--color-bg-accent)' }}
+        ></div>
+      </div>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-themed-muted text-lg mb-4">{error || 'Collection not found'}</p>
+        <button onClick={() => navigate('/collections')} className="btn btn-primary">
+          Back to collections
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {editing ? (
+        <form onSubmit={handleSave} className="card p-4 mb-6 space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Collection name"
+            maxLength={100}
+            className="input w-full"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description"
+            maxLength={1000}
+            rows={3}
+            className="input w-full resize-y"
+          />
+          <label className="flex items-center gap-2 text-sm text-themed-secondary">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(e) => setIsPublic(e.target.checked)}
+            />
+            Public (anyone on this instance can view it)
+          </label>
+          <div className="flex gap-2">
+            <button type="submit" disabled={saving || !name.trim()} className="btn btn-primary">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button type="button" onClick={() => setEditing(false)} className="btn btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-themed-primary">{collection.name}</h1>
+            <p className="text-sm text-themed-muted mt-1">
+              {collection.is_public ? 'Public' : 'Private'} collection by{' '}
+              {collection.owner_name || 'Anonymous'} &middot; {collection.meme_count}{' '}
+              {collection.meme_count === 1 ? 'meme' : 'memes'}
+            </p>
+            {collection.description && (
+              <p className="text-themed-secondary mt-3 whitespace-pre-wrap">
+                {collection.description}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            {!!collection.is_public && (
+              <button onClick={handleCopyLink} className="btn btn-secondary">
+                {copied ? 'Copied!' : 'Copy link'}
+              </button>
+            )}
+            {isOwner && (
+              <button onClick={startEditing} className="btn btn-secondary">
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={handleDelete}
+                className="btn text-white"
+                style={{ backgroundColor: 'var(--color-error)' }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div
+          className="px-4 py-3 rounded-lg mb-6 border"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.1)',
+            borderColor: 'var(--color-error)',
+            color: 'var(--color-error)',
+          }}
+        >
+          {error}
+          <button onClick={() => setError('')} className="float-right font-bold">
+            &times;
+          </button>
+        </div>
+      )}
+
+      {collection.memes.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-themed-muted text-lg mb-4">This collection is empty</p>
+          {isOwner && (
+            <button onClick={() => navigate('/gallery')} className="btn btn-primary">
+              Find memes in the gallery
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+          {collection.memes.map((meme, index) => (
+            <div key={meme.id}>
+              <MemeCard
+                meme={meme}
+                onVoteChange={(memeId, upvotes, downvotes, score) =>
+                  updateMeme(memeId, { upvotes, downvotes, score })
+                }
+                onReactionsChange={(memeId, reactions: ReactionSummary[]) =>
+                  updateMeme(memeId, { reactions })
+                }
+                onFavoriteChange={(memeId, favorited, favorite_count) =>
+                  updateMeme(memeId, { favorited, favorite_count })
+                }
+                onRemix={() => handleRemix(meme)}
+              />
+              {isOwner && (
+                <div className="flex items-center justify-between mt-2 text-sm">
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 py-1 rounded border border-themed text-themed-secondary hover:bg-themed-tertiary disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Move earlier"
+                    >
+                      &larr;
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === collection.memes.length - 1}
+                      className="px-2 py-1 rounded border border-themed text-themed-secondary hover:bg-themed-tertiary disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Move later"
+                    >
+                      &rarr;
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(meme.id)}
+                    className="text-themed-muted hover:text-red-500 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { collections as collectionsApi, memes, Collection, CollectionsResponse } from '../lib/api';
+
+type Tab = 'mine' | 'public';
+
+const TAB_LABELS: Record<Tab, string> = {
+  mine: 'My Collections',
+  public: 'Public',
+};
+
+function CollectionCard({ collection }: { collection: Collection }) {
+  return (
+    <Link to={`/collections/${collection.id}`} className="card p-4 group block">
+      <div className="aspect-video bg-themed-tertiary rounded-lg mb-3 overflow-hidden">
+        {collection.cover_filename ? (
+          <img
+            src={memes.imageUrl(collection.cover_filename)}
+            alt=""
+            className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-themed-muted">
+            No preview
+          </div>
+        )}
+      </div>
+      <p className="font-medium text-themed-primary truncate">{collection.name}</p>
+      <p className="text-xs text-themed-muted">
+        {collection.meme_count} {collection.meme_count === 1 ? 'meme' : 'memes'} &middot;{' '}
+        {collection.is_public ? `by ${collection.owner_name || 'Anonymous'}` : 'Private'}
+      </p>
+    </Link>
+  );
+}
+
+export default function Collections() {
+  const navigate = useNavigate();
+  const [tab, setTab] = useState<Tab>('mine');
+  const [collectionList, setCollectionList] = useState<Collection[]>([]);
+  const [pagination, setPagination] = useState<CollectionsResponse['pagination'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const loadCollections = useCallback(
+    async (page = 1) => {
+      setLoading(true);
+      setError('');
+      try {
+        if (tab === 'mine') {
+          setCollectionList(await collectionsApi.mine());
+          setPagination(null);
+        } else {
+          const response = await collectionsApi.public({ page, limit: 20 });
+          setCollectionList(response.collections);
+          setPagination(response.pagination);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load collections');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [tab]
+  );
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    setCreating(true);
+    setError('');
+    try {
+      const created = await collectionsApi.create({
+        name: newName.trim(),
+        description: '',
+        is_public: false,
+      });
+      navigate(`/collections/${created.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create collection');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handlePageChange = (newPage: number) => {
+    loadCollections(newPage);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-themed-primary">Collections</h1>
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection name"
+            maxLength={100}
+            className="input"
+          />
+          <button type="submit" disabled={creating || !newName.trim()} className="btn btn-primary">
+            {creating ? 'Creating...' : 'Create'}
+          </button>
+        </form>
+      </div>
+
+      <div className="flex rounded-lg overflow-hidden border border-themed w-fit mb-6">
+        {(Object.keys(TAB_LABELS) as Tab[]).map((t) => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`px-4 py-1.5 text-sm transition-colors ${
+              tab === t
+                ? 'bg-themed-accent text-themed-inverse'
+                : 'bg-themed-secondary text-themed-secondary hover:bg-themed-tertiary'
+            }`}
+          >
+            {TAB_LABELS[t]}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div
+          className="px-4 py-3 rounded-lg mb-6 border"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.1)',
+            borderColor: 'var(--color-error)',
+            color: 'var(--color-error)',
+          }}
+        >
+          {error}
+          <button onClick={() => setError('')} className="float-right font-bold">
+            &times;
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div
+            className="animate-spin rounded-full h-12 w-12 border-4 border-themed"
+            style={{ borderTopColor: 'var(--color-bg-accent)' }}
+          ></div>
+        </div>
+      ) : collectionList.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-themed-muted text-lg">
+            {tab === 'mine' ? "You haven't made any collections yet" : 'No public collections yet'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {collectionList.map((collection) => (
+              <CollectionCard key={collection.id} collection={collection} />
+            ))}
+          </div>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-2 mt-8">
+              <button
+                onClick={() => handlePageChange(pagination.page - 1)}
+                disabled={!pagination.hasPrev}
+                className="px-4 py-2 rounded-lg bg-themed-secondary text-themed-secondary border border-themed hover:bg-themed-tertiary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="px-4 py-2 text-themed-muted">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <button
+                onClick={() => handlePageChange(pagination.page + 1)}
+                disabled={!pagination.hasNext}
+                className="px-4 py-2 rounded-lg bg-themed-secondary text-themed-secondary border border-themed hover:bg-themed-tertiary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
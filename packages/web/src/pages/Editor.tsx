@@ -2,8 +2,26 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Stage, Layer, Image as KonvaImage, Text, Transformer } from 'react-konva';
 import Konva from 'konva';
-import { templates, memes, Template, TextBox, EditorState } from '../lib/api';
-
+import {
+  assets,
+  templates,
+  memes,
+  Asset,
+  Template,
+  TextBox,
+  TextZone,
+  EditorState,
+  ImageLayer,
+  MemeRevision,
+} from '../lib/api';
+import ImageLayersPanel from '../components/ImageLayersPanel';
+import RevisionsPanel from '../components/RevisionsPanel';
+import SharePanel from '../components/SharePanel';
+import FrameRangeControls from '../components/FrameRangeControls';
+import { loadFontLibrary } from '../lib/fonts';
+import { useHistory } from '../hooks/useHistory';
+
+// System fonts; fonts from the font library are added after these
 const FONTS = [
   'Impact',
   'Arial',
@@ -29,17 +47,84 @@ const DEFAULT_TEXT_BOX: Omit<TextBox, 'id'> = {
   rotation: 0,
 };
 
-export default function Editor() {
+// Text boxes a new meme starts with, one per template text zone
+function textBoxesFromZones(zones: TextZone[]): TextBox[] {
+  const now = Date.now();
+  return zones.map((zone, index) => ({
+    ...DEFAULT_TEXT_BOX,
+    id: `text-${now}-${index}`,
+    text: zone.sampleText,
+    x: zone.x,
+    y: zone.y,
+    width: zone.width,
+    fontSize: zone.fontSize,
+    fontFamily: zone.fontFamily,
+    align: zone.align,
+  }));
+}
+
+// Text zone for a box placed in template setup, kept inside the template bounds
+function textZoneFromBox(box: TextBox, template: Template): TextZone {
+  const x = Math.min(Math.max(0, Math.round(box.x)), template.width - 1);
+  return {
+    x,
+    y: Math.min(Math.max(0, Math.round(box.y)), template.height - 1),
+    width: Math.min(Math.max(1, Math.round(box.width)), template.width - x),
+    fontSize: box.fontSize,
+    fontFamily: box.fontFamily,
+    align: box.align,
+    sampleText: box.text,
+  };
+}
+
+function layerImageKey(layer: Pick<ImageLayer, 'source' | 'refId'>): string {
+  return `${layer.source}:${layer.refId}`;
+}
+
+// Matches the server renderer: a missing bound leaves the frame range open
+function isVisibleInFrame(item: TextBox | ImageLayer, frame: number): boolean {
+  return (item.startFrame ?? 0) <= frame && frame <= (item.endFrame ?? Infinity);
+}
+
+// The part of the editor covered by undo/redo
+interface EditorDocument {
+  textBoxes: TextBox[];
+  imageLayers: ImageLayer[];
+}
+
+// Coalesce key for an update, so repeated changes to the same fields of one item
+// (slider drags, typing) undo together
+function updateKey(id: string, updates: object): string {
+  return `${id}:${Object.keys(updates).sort().join(',')}`;
+}
+
+interface EditorProps {
+  /** Edit the template's default text zones instead of making a meme */
+  setupMode?: boolean;
+}
+
+export default function Editor({ setupMode = false }: EditorProps) {
   const { templateId, memeId } = useParams<{ templateId: string; memeId?: string }>();
   const navigate = useNavigate();
 
   const [template, setTemplate] = useState<Template | null>(null);
   const [templateImage, setTemplateImage] = useState<HTMLImageElement | null>(null);
-  const [textBoxes, setTextBoxes] = useState<TextBox[]>([]);
+  const [frameImages, setFrameImages] = useState<Record<number, HTMLImageElement>>({});
+  const [currentFrame, setCurrentFrame] = useState(0);
+  const history = useHistory<EditorDocument>({ textBoxes: [], imageLayers: [] });
+  const { textBoxes, imageLayers } = history.present;
+  const [assetList, setAssetList] = useState<Asset[]>([]);
+  const [templateList, setTemplateList] = useState<Template[]>([]);
+  const [fontFamilies, setFontFamilies] = useState<string[]>(FONTS);
+  const [layerImages, setLayerImages] = useState<Record<string, HTMLImageElement>>({});
+  const [uploadingAsset, setUploadingAsset] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [currentMemeId, setCurrentMemeId] = useState<string | null>(memeId || null);
+  const [revisions, setRevisions] = useState<MemeRevision[]>([]);
+  const [restoringRevision, setRestoringRevision] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [setupMessage, setSetupMessage] = useState('');
   const [error, setError] = useState('');
   const [stageSize, setStageSize] = useState({ width: 800, height: 600 });
 
@@ -56,6 +141,10 @@ export default function Editor() {
         const templateData = await templates.get(templateId);
         setTemplate(templateData);
 
+        // Library fonts have to be registered before Konva first measures text
+        const library = await loadFontLibrary();
+        setFontFamilies(Array.from(new Set([...FONTS, ...library.map((font) => font.family)])));
+
         // Load template image
         const img = new window.Image();
         img.crossOrigin = 'anonymous';
@@ -65,11 +154,26 @@ export default function Editor() {
           updateStageSize(templateData.width, templateData.height);
         };
 
-        // Load existing meme if editing
-        if (memeId) {
+        // Load existing meme if editing, otherwise start from the template's text zones
+        if (memeId && !setupMode) {
           const memeData = await memes.get(memeId);
-          setTextBoxes(memeData.editor_state.textBoxes || []);
+          history.reset({
+            textBoxes: memeData.editor_state.textBoxes || [],
+            imageLayers: memeData.editor_state.imageLayers || [],
+          });
           setCurrentMemeId(memeId);
+        } else {
+          history.reset({
+            textBoxes: textBoxesFromZones(templateData.text_zones || []),
+            imageLayers: [],
+          });
+        }
+
+        // Images that can be layered onto the meme
+        if (!setupMode) {
+          const [assetData, templateData] = await Promise.all([assets.list(), templates.list()]);
+          setAssetList(assetData);
+          setTemplateList(templateData);
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load data');
@@ -79,7 +183,7 @@ export default function Editor() {
     };
 
     loadData();
-  }, [templateId, memeId]);
+  }, [templateId, memeId, setupMode, history.reset]);
 
   // Update stage size based on container
   const updateStageSize = useCallback((templateWidth: number, templateHeight: number) => {
@@ -133,6 +237,92 @@ export default function Editor() {
     }
   }, [selectedId]);
 
+  // Load the saved versions of the meme being edited
+  useEffect(() => {
+    if (!currentMemeId || setupMode) return;
+
+    memes
+      .revisions(currentMemeId)
+      .then(setRevisions)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history'));
+  }, [currentMemeId, setupMode]);
+
+  // Drop the selection when undo/redo removes the selected item
+  useEffect(() => {
+    if (
+      selectedId &&
+      !textBoxes.some((box) => box.id === selectedId) &&
+      !imageLayers.some((layer) => layer.id === selectedId)
+    ) {
+      setSelectedId(null);
+    }
+  }, [selectedId, textBoxes, imageLayers]);
+
+  // Ctrl+Z to undo, Ctrl+Shift+Z or Ctrl+Y to redo. Text fields keep their own undo.
+  const { undo, redo } = history;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const setTextBoxes = (update: (boxes: TextBox[]) => TextBox[], coalesceKey?: string) => {
+    history.set((doc) => {
+      const next = update(doc.textBoxes);
+      return next === doc.textBoxes ? doc : { ...doc, textBoxes: next };
+    }, coalesceKey);
+  };
+
+  const setImageLayers = (update: (layers: ImageLayer[]) => ImageLayer[], coalesceKey?: string) => {
+    history.set((doc) => {
+      const next = update(doc.imageLayers);
+      return next === doc.imageLayers ? doc : { ...doc, imageLayers: next };
+    }, coalesceKey);
+  };
+
+  // Load the image for every layer source that isn't loaded yet
+  useEffect(() => {
+    for (const layer of imageLayers) {
+      const key = layerImageKey(layer);
+      if (layerImages[key]) continue;
+
+      const filename =
+        layer.source === 'asset'
+          ? assetList.find((asset) => asset.id === layer.refId)?.filename
+          : templateList.find((t) => t.id === layer.refId)?.filename;
+      if (!filename) continue;
+
+      const img = new window.Image();
+      img.crossOrigin = 'anonymous';
+      img.src = layer.source === 'asset' ? assets.imageUrl(filename) : templates.imageUrl(filename);
+      img.onload = () => setLayerImages((prev) => ({ ...prev, [key]: img }));
+    }
+  }, [imageLayers, assetList, templateList, layerImages]);
+
+  // Animated templates are previewed one still frame at a time
+  const frameCount = setupMode ? 1 : template?.frame_count || 1;
+  useEffect(() => {
+    if (!templateId || frameCount <= 1 || frameImages[currentFrame]) return;
+
+    const img = new window.Image();
+    img.crossOrigin = 'anonymous';
+    img.src = templates.frameUrl(templateId, currentFrame);
+    img.onload = () => setFrameImages((prev) => ({ ...prev, [currentFrame]: img }));
+  }, [templateId, frameCount, currentFrame, frameImages]);
+
   const addTextBox = () => {
     const id = `text-${Date.now()}`;
     const newBox: TextBox = {
@@ -140,12 +330,16 @@ export default function Editor() {
       id,
       y: 50 + textBoxes.length * 60,
     };
-    setTextBoxes([...textBoxes, newBox]);
+    setTextBoxes((boxes) => [...boxes, newBox]);
     setSelectedId(id);
   };
 
-  const updateTextBox = (id: string, updates: Partial<TextBox>) => {
-    setTextBoxes((boxes) => boxes.map((box) => (box.id === id ? { ...box, ...updates } : box)));
+  // Pass coalesce = false for one-off changes like drags that each deserve an undo step
+  const updateTextBox = (id: string, updates: Partial<TextBox>, coalesce = true) => {
+    setTextBoxes(
+      (boxes) => boxes.map((box) => (box.id === id ? { ...box, ...updates } : box)),
+      coalesce ? updateKey(id, updates) : undefined
+    );
   };
 
   const deleteTextBox = (id: string) => {
@@ -155,6 +349,71 @@ export default function Editor() {
     }
   };
 
+  const addImageLayer = (source: ImageLayer['source'], refId: string) => {
+    if (!template) return;
+
+    const sourceImage =
+      source === 'asset'
+        ? assetList.find((asset) => asset.id === refId)
+        : templateList.find((t) => t.id === refId);
+    if (!sourceImage) return;
+
+    // Start at a third of the template's width, centered
+    const id = `image-${Date.now()}`;
+    const newLayer: ImageLayer = {
+      id,
+      source,
+      refId,
+      x: template.width / 2,
+      y: template.height / 2,
+      scale: Math.min(1, template.width / 3 / sourceImage.width),
+      rotation: 0,
+      opacity: 1,
+    };
+    setImageLayers((layers) => [...layers, newLayer]);
+    setSelectedId(id);
+  };
+
+  const updateImageLayer = (id: string, updates: Partial<ImageLayer>, coalesce = true) => {
+    setImageLayers(
+      (layers) => layers.map((layer) => (layer.id === id ? { ...layer, ...updates } : layer)),
+      coalesce ? updateKey(id, updates) : undefined
+    );
+  };
+
+  const deleteImageLayer = (id: string) => {
+    setImageLayers((layers) => layers.filter((layer) => layer.id !== id));
+    if (selectedId === id) {
+      setSelectedId(null);
+    }
+  };
+
+  // Move a layer one step up (towards the front) or down the stacking order
+  const moveImageLayer = (id: string, direction: 1 | -1) => {
+    setImageLayers((layers) => {
+      const index = layers.findIndex((layer) => layer.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= layers.length) return layers;
+
+      const reordered = [...layers];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const uploadAsset = async (file: File, kind: Asset['kind']) => {
+    setUploadingAsset(true);
+    setError('');
+    try {
+      const asset = await assets.upload(file, file.name.replace(/\.[^/.]+$/, ''), kind);
+      setAssetList((prev) => [asset, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload image');
+    } finally {
+      setUploadingAsset(false);
+    }
+  };
+
   const handleStageClick = (e: Konva.KonvaEventObject<MouseEvent>) => {
     if (e.target === e.target.getStage()) {
       setSelectedId(null);
@@ -163,21 +422,49 @@ export default function Editor() {
 
   const handleTextDragEnd = (id: string, e: Konva.KonvaEventObject<DragEvent>) => {
     const scale = getScale();
-    updateTextBox(id, {
-      x: e.target.x() / scale,
-      y: e.target.y() / scale,
-    });
+    updateTextBox(
+      id,
+      {
+        x: e.target.x() / scale,
+        y: e.target.y() / scale,
+      },
+      false
+    );
   };
 
   const handleTransformEnd = (id: string, e: Konva.KonvaEventObject<Event>) => {
     const node = e.target as Konva.Text;
     const scale = getScale();
-    updateTextBox(id, {
-      x: node.x() / scale,
-      y: node.y() / scale,
-      width: (node.width() * node.scaleX()) / scale,
-      rotation: node.rotation(),
-    });
+    updateTextBox(
+      id,
+      {
+        x: node.x() / scale,
+        y: node.y() / scale,
+        width: (node.width() * node.scaleX()) / scale,
+        rotation: node.rotation(),
+      },
+      false
+    );
+    node.scaleX(1);
+    node.scaleY(1);
+  };
+
+  const handleImageLayerTransformEnd = (id: string, e: Konva.KonvaEventObject<Event>) => {
+    const node = e.target as Konva.Image;
+    const layer = imageLayers.find((l) => l.id === id);
+    if (!layer) return;
+
+    const scale = getScale();
+    updateImageLayer(
+      id,
+      {
+        x: node.x() / scale,
+        y: node.y() / scale,
+        scale: layer.scale * node.scaleX(),
+        rotation: node.rotation(),
+      },
+      false
+    );
     node.scaleX(1);
     node.scaleY(1);
   };
@@ -194,21 +481,21 @@ export default function Editor() {
     setError('');
 
     try {
-      const editorState: EditorState = { textBoxes };
+      const editorState: EditorState = { textBoxes, imageLayers };
+      let savedId = currentMemeId;
 
-      if (currentMemeId) {
-        await memes.update(currentMemeId, editorState);
+      if (savedId) {
+        await memes.update(savedId, editorState);
       } else {
         const newMeme = await memes.create(templateId, editorState);
-        setCurrentMemeId(newMeme.id);
-        navigate(`/editor/${templateId}/${newMeme.id}`, { replace: true });
+        savedId = newMeme.id;
+        setCurrentMemeId(savedId);
+        navigate(`/editor/${templateId}/${savedId}`, { replace: true });
       }
 
-      // Also render and save the image
-      if (stageRef.current && currentMemeId) {
-        const dataUrl = stageRef.current.toDataURL({ pixelRatio: 1 / getScale() });
-        await memes.render(currentMemeId, dataUrl);
-      }
+      // Have the server render the image from the saved editor state
+      await memes.render(savedId);
+      setRevisions(await memes.revisions(savedId));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save meme');
     } finally {
@@ -216,6 +503,49 @@ export default function Editor() {
     }
   };
 
+  // Restoring replaces the editor contents, which can still be undone until saved
+  const restoreRevision = async (revision: MemeRevision) => {
+    if (!currentMemeId) return;
+    if (!confirm('Restore this version? The restore is saved as a new version.')) return;
+
+    setRestoringRevision(revision.id);
+    setError('');
+
+    try {
+      const meme = await memes.restoreRevision(currentMemeId, revision.id);
+      history.set(() => ({
+        textBoxes: meme.editor_state.textBoxes || [],
+        imageLayers: meme.editor_state.imageLayers || [],
+      }));
+      setRevisions(await memes.revisions(currentMemeId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoringRevision(null);
+    }
+  };
+
+  const saveTextZones = async (reset = false) => {
+    if (!templateId || !template) return;
+
+    setSaving(true);
+    setError('');
+    setSetupMessage('');
+
+    try {
+      const zones = reset ? null : textBoxes.map((box) => textZoneFromBox(box, template));
+      const updated = await templates.setTextZones(templateId, zones);
+      setTemplate(updated);
+      history.reset({ textBoxes: textBoxesFromZones(updated.text_zones || []), imageLayers: [] });
+      setSelectedId(null);
+      setSetupMessage(reset ? 'Restored default text zones' : 'Text zones saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save text zones');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const downloadMeme = () => {
     if (!stageRef.current || !template) return;
 
@@ -227,6 +557,7 @@ export default function Editor() {
   };
 
   const selectedBox = textBoxes.find((box) => box.id === selectedId);
+  const selectedLayer = imageLayers.find((layer) => layer.id === selectedId);
 
   if (loading) {
     return (
@@ -268,7 +599,46 @@ export default function Editor() {
             style={{ background: 'var(--color-bg-tertiary)' }}
           >
             <Layer>
-              <KonvaImage image={templateImage} width={stageSize.width} height={stageSize.height} />
+              <KonvaImage
+                image={frameImages[currentFrame] || templateImage}
+                width={stageSize.width}
+                height={stageSize.height}
+              />
+              {imageLayers.map((layer) => {
+                const image = layerImages[layerImageKey(layer)];
+                if (!image) return null;
+
+                const width = image.naturalWidth * layer.scale * scale;
+                const height = image.naturalHeight * layer.scale * scale;
+                return (
+                  <KonvaImage
+                    key={layer.id}
+                    id={layer.id}
+                    image={image}
+                    x={layer.x * scale}
+                    y={layer.y * scale}
+                    width={width}
+                    height={height}
+                    offsetX={width / 2}
+                    offsetY={height / 2}
+                    rotation={layer.rotation}
+                    opacity={
+                      isVisibleInFrame(layer, currentFrame) ? layer.opacity : layer.opacity * 0.3
+                    }
+                    draggable
+                    onClick={() => setSelectedId(layer.id)}
+                    onTap={() => setSelectedId(layer.id)}
+                    onDragEnd={(e) =>
+                      updateImageLayer(
+                        layer.id,
+                        { x: e.target.x() / scale, y: e.target.y() / scale },
+                        false
+                      )
+                    }
+                    onTransformEnd={(e) => handleImageLayerTransformEnd(layer.id, e)}
+                  />
+                );
+              })}
               {textBoxes.map((box) => (
                 <Text
                   key={box.id}
@@ -284,6 +654,7 @@ export default function Editor() {
                   strokeWidth={box.strokeWidth * scale}
                   align={box.align}
                   rotation={box.rotation}
+                  opacity={isVisibleInFrame(box, currentFrame) ? 1 : 0.3}
                   draggable
                   onClick={() => setSelectedId(box.id)}
                   onTap={() => setSelectedId(box.id)}
@@ -310,6 +681,34 @@ export default function Editor() {
           </Stage>
         </div>
 
+        {frameCount > 1 && (
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-themed-secondary mb-1">
+              Frame {currentFrame + 1} of {frameCount}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max={frameCount - 1}
+              value={currentFrame}
+              onChange={(e) => setCurrentFrame(parseInt(e.target.value))}
+              className="w-full"
+              style={{ accentColor: 'var(--color-bg-accent)' }}
+            />
+            <p className="text-sm text-themed-muted">
+              Faded items don't show on this frame. Save to render the animation; Download only
+              exports the current frame.
+            </p>
+          </div>
+        )}
+
+        {setupMode && (
+          <p className="text-sm text-themed-muted mt-4">
+            {setupMessage ||
+              'Position the text zones new memes from this template start with. The text is used as sample text.'}
+          </p>
+        )}
+
         {error && (
           <div
             className="px-4 py-3 rounded-lg mt-4 border"
@@ -323,30 +722,67 @@ export default function Editor() {
           </div>
         )}
 
-        <div className="flex gap-4 mt-4">
+        <div className="flex flex-wrap gap-4 mt-4">
           <button onClick={() => navigate('/')} className="btn btn-secondary">
             Back
           </button>
           <button onClick={addTextBox} className="btn btn-secondary">
-            Add Text
+            {setupMode ? 'Add Zone' : 'Add Text'}
           </button>
-          <button onClick={saveToServer} className="btn btn-primary" disabled={saving}>
-            {saving ? 'Saving...' : 'Save'}
+          <button
+            onClick={undo}
+            className="btn btn-secondary"
+            disabled={!history.canUndo}
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
           </button>
-          <button onClick={downloadMeme} className="btn btn-primary">
-            Download
+          <button
+            onClick={redo}
+            className="btn btn-secondary"
+            disabled={!history.canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
           </button>
+          {setupMode ? (
+            <>
+              <button
+                onClick={() => saveTextZones(true)}
+                className="btn btn-secondary"
+                disabled={saving}
+              >
+                Reset to Default
+              </button>
+              <button onClick={() => saveTextZones()} className="btn btn-primary" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Zones'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={saveToServer} className="btn btn-primary" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              <button onClick={downloadMeme} className="btn btn-primary">
+                Download
+              </button>
+            </>
+          )}
         </div>
       </div>
 
       {/* Controls Panel */}
       <div className="w-full lg:w-80">
         <div className="card">
-          <h2 className="text-lg font-bold text-themed-primary mb-4">Text Boxes</h2>
+          <h2 className="text-lg font-bold text-themed-primary mb-4">
+            {setupMode ? 'Text Zones' : 'Text Boxes'}
+          </h2>
 
           {textBoxes.length === 0 ? (
             <p className="text-themed-muted text-sm mb-4">
-              No text boxes yet. Click "Add Text" to get started.
+              {setupMode
+                ? 'No text zones. New memes will start empty.'
+                : 'No text boxes yet. Click "Add Text" to get started.'}
             </p>
           ) : (
             <div className="space-y-2 mb-4">
@@ -359,7 +795,7 @@ export default function Editor() {
                   onClick={() => setSelectedId(box.id)}
                 >
                   <span className="text-sm truncate flex-1 text-themed-primary">
-                    Text {index + 1}: {box.text.substring(0, 20)}
+                    {setupMode ? 'Zone' : 'Text'} {index + 1}: {box.text.substring(0, 20)}
                     {box.text.length > 20 && '...'}
                   </span>
                   <button
@@ -379,10 +815,14 @@ export default function Editor() {
 
           {selectedBox && (
             <div className="border-t border-themed pt-4 space-y-4">
-              <h3 className="font-medium text-themed-secondary">Edit Selected Text</h3>
+              <h3 className="font-medium text-themed-secondary">
+                {setupMode ? 'Edit Selected Zone' : 'Edit Selected Text'}
+              </h3>
 
               <div>
-                <label className="block text-sm font-medium text-themed-secondary mb-1">Text</label>
+                <label className="block text-sm font-medium text-themed-secondary mb-1">
+                  {setupMode ? 'Sample Text' : 'Text'}
+                </label>
                 <textarea
                   value={selectedBox.text}
                   onChange={(e) => updateTextBox(selectedBox.id, { text: e.target.value })}
@@ -397,7 +837,7 @@ export default function Editor() {
                   onChange={(e) => updateTextBox(selectedBox.id, { fontFamily: e.target.value })}
                   className="input w-full"
                 >
-                  {FONTS.map((font) => (
+                  {fontFamilies.map((font) => (
                     <option key={font} value={font}>
                       {font}
                     </option>
@@ -422,47 +862,51 @@ export default function Editor() {
                 />
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-themed-secondary mb-1">
-                    Text Color
-                  </label>
-                  <input
-                    type="color"
-                    value={selectedBox.fill}
-                    onChange={(e) => updateTextBox(selectedBox.id, { fill: e.target.value })}
-                    className="w-full h-10 rounded cursor-pointer"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-themed-secondary mb-1">
-                    Stroke Color
-                  </label>
-                  <input
-                    type="color"
-                    value={selectedBox.stroke}
-                    onChange={(e) => updateTextBox(selectedBox.id, { stroke: e.target.value })}
-                    className="w-full h-10 rounded cursor-pointer"
-                  />
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-themed-secondary mb-1">
-                  Stroke Width: {selectedBox.strokeWidth}px
-                </label>
-                <input
-                  type="range"
-                  min="0"
-                  max="10"
-                  value={selectedBox.strokeWidth}
-                  onChange={(e) =>
-                    updateTextBox(selectedBox.id, { strokeWidth: parseInt(e.target.value) })
-                  }
-                  className="w-full"
-                  style={{ accentColor: 'var(--color-bg-accent)' }}
-                />
-              </div>
+              {!setupMode && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-themed-secondary mb-1">
+                        Text Color
+                      </label>
+                      <input
+                        type="color"
+                        value={selectedBox.fill}
+                        onChange={(e) => updateTextBox(selectedBox.id, { fill: e.target.value })}
+                        className="w-full h-10 rounded cursor-pointer"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-themed-secondary mb-1">
+                        Stroke Color
+                      </label>
+                      <input
+                        type="color"
+                        value={selectedBox.stroke}
+                        onChange={(e) => updateTextBox(selectedBox.id, { stroke: e.target.value })}
+                        className="w-full h-10 rounded cursor-pointer"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-themed-secondary mb-1">
+                      Stroke Width: {selectedBox.strokeWidth}px
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="10"
+                      value={selectedBox.strokeWidth}
+                      onChange={(e) =>
+                        updateTextBox(selectedBox.id, { strokeWidth: parseInt(e.target.value) })
+                      }
+                      className="w-full"
+                      style={{ accentColor: 'var(--color-bg-accent)' }}
+                    />
+                  </div>
+                </>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-themed-secondary mb-1">
@@ -489,9 +933,47 @@ export default function Editor() {
                   ))}
                 </div>
               </div>
+
+              {frameCount > 1 && (
+                <FrameRangeControls
+                  frameCount={frameCount}
+                  currentFrame={currentFrame}
+                  startFrame={selectedBox.startFrame}
+                  endFrame={selectedBox.endFrame}
+                  onChange={(range) => updateTextBox(selectedBox.id, range)}
+                />
+              )}
             </div>
           )}
         </div>
+
+        {!setupMode && (
+          <ImageLayersPanel
+            assetList={assetList}
+            templateList={templateList}
+            imageLayers={imageLayers}
+            selectedLayer={selectedLayer}
+            uploading={uploadingAsset}
+            frameCount={frameCount}
+            currentFrame={currentFrame}
+            onSelect={setSelectedId}
+            onAdd={addImageLayer}
+            onUpdate={updateImageLayer}
+            onDelete={deleteImageLayer}
+            onMove={moveImageLayer}
+            onUpload={uploadAsset}
+          />
+        )}
+
+        {!setupMode && currentMemeId && (
+          <RevisionsPanel
+            revisions={revisions}
+            restoringId={restoringRevision}
+            onRestore={restoreRevision}
+          />
+        )}
+
+        {!setupMode && currentMemeId && <SharePanel memeId={currentMemeId} />}
       </div>
     </div>
   );
@@ -1,9 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
-import { gallery, GalleryMeme, GalleryResponse, memes } from '../lib/api';
+import { useNavigate } from 'react-router-dom';
+import { gallery, GalleryMeme, GalleryResponse, ReactionSummary, memes } from '../lib/api';
 import MemeCard from '../components/MemeCard';
+import CommentsPanel from '../components/CommentsPanel';
+import AddToCollection from '../components/AddToCollection';
 
 type Period = '7d' | '30d' | 'year' | 'all';
-type Sort = 'hot' | 'top' | 'new';
+type Sort = 'hot' | 'top' | 'new' | 'favorites';
 
 const PERIOD_LABELS: Record<Period, string> = {
   '7d': '7 Days',
@@ -16,9 +19,11 @@ const SORT_LABELS: Record<Sort, string> = {
   hot: 'Hot',
   top: 'Top',
   new: 'New',
+  favorites: 'Most Saved',
 };
 
 export default function Gallery() {
+  const navigate = useNavigate();
   const [memeList, setMemeList] = useState<GalleryMeme[]>([]);
   const [pagination, setPagination] = useState<GalleryResponse['pagination'] | null>(null);
   const [period, setPeriod] = useState<Period>('all');
@@ -54,6 +59,22 @@ export default function Gallery() {
     }
   };
 
+  const handleReactionsChange = (memeId: string, memeReactions: ReactionSummary[]) => {
+    setMemeList((prev) =>
+      prev.map((m) => (m.id === memeId ? { ...m, reactions: memeReactions } : m))
+    );
+  };
+
+  const handleRemix = async (meme: GalleryMeme) => {
+    setError('');
+    try {
+      const remix = await memes.remix(meme.id);
+      navigate(`/editor/${remix.template_id}/${remix.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remix meme');
+    }
+  };
+
   const handlePageChange = (newPage: number) => {
     loadGallery(newPage);
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -144,7 +165,9 @@ export default function Gallery() {
                 key={meme.id}
                 meme={meme}
                 onVoteChange={handleVoteChange}
+                onReactionsChange={handleReactionsChange}
                 onClick={() => setSelectedMeme(meme)}
+                onRemix={() => handleRemix(meme)}
               />
             ))}
           </div>
@@ -219,13 +242,24 @@ export default function Gallery() {
                   <span className="text-sm text-themed-secondary">
                     {selectedMeme.creator_name || 'Anonymous'}
                   </span>
+                  {selectedMeme.remixed_from && (
+                    <span className="text-sm text-themed-muted">
+                      &middot; remixed from {selectedMeme.remixed_from_creator || 'a deleted user'}
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center gap-4">
                   <span className="text-sm text-themed-muted">
                     {new Date(selectedMeme.created_at).toLocaleDateString()}
                   </span>
+                  <AddToCollection memeId={selectedMeme.id} />
+                  <button onClick={() => handleRemix(selectedMeme)} className="btn btn-primary">
+                    Remix
+                  </button>
                 </div>
               </div>
+
+              <CommentsPanel memeId={selectedMeme.id} />
             </div>
           </div>
         </div>
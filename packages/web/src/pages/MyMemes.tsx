@@ -1,12 +1,22 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { memes, templates, Meme } from '../lib/api';
+import SavedMemes from '../components/SavedMemes';
+import AddToCollection from '../components/AddToCollection';
+
+type Tab = 'created' | 'saved';
+
+const TAB_LABELS: Record<Tab, string> = {
+  created: 'Created',
+  saved: 'Saved',
+};
 
 export default function MyMemes() {
   const navigate = useNavigate();
   const [memeList, setMemeList] = useState<Meme[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [tab, setTab] = useState<Tab>('created');
 
   useEffect(() => {
     loadMemes();
@@ -68,7 +78,23 @@ export default function MyMemes() {
 
   return (
     <div>
-      <h1 className="text-3xl font-bold text-themed-primary mb-8">My Memes</h1>
+      <h1 className="text-3xl font-bold text-themed-primary mb-6">My Memes</h1>
+
+      <div className="flex rounded-lg overflow-hidden border border-themed w-fit mb-6">
+        {(Object.keys(TAB_LABELS) as Tab[]).map((t) => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`px-4 py-1.5 text-sm transition-colors ${
+              tab === t
+                ? 'bg-themed-accent text-themed-inverse'
+                : 'bg-themed-secondary text-themed-secondary hover:bg-themed-tertiary'
+            }`}
+          >
+            {TAB_LABELS[t]}
+          </button>
+        ))}
+      </div>
 
       {error && (
         <div
@@ -86,7 +112,9 @@ export default function MyMemes() {
         </div>
       )}
 
-      {memeList.length === 0 ? (
+      {tab === 'saved' ? (
+        <SavedMemes />
+      ) : memeList.length === 0 ? (
         <div className="text-center py-16">
           <p className="text-themed-muted text-lg mb-4">You haven't created any memes yet</p>
           <button onClick={() => navigate('/')} className="btn btn-primary">
@@ -188,6 +216,10 @@ export default function MyMemes() {
                 )}
               </div>
 
+              <div className="mt-2">
+                <AddToCollection memeId={meme.id} dropUp />
+              </div>
+
               <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                 <button
                   onClick={() => navigate(`/editor/${meme.template_id}/${meme.id}`)}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  memes,
+  search,
+  templates,
+  GalleryMeme,
+  ReactionSummary,
+  SearchScope,
+  Template,
+} from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import MemeCard from '../components/MemeCard';
+
+const SCOPE_LABELS: Record<SearchScope, string> = {
+  all: 'Everything',
+  templates: 'Templates',
+  mine: 'My Memes',
+  public: 'Public Memes',
+};
+
+export default function Search() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const scopeParam = searchParams.get('scope') as SearchScope | null;
+  const scope: SearchScope = scopeParam && scopeParam in SCOPE_LABELS ? scopeParam : 'all';
+
+  const [templateResults, setTemplateResults] = useState<Template[]>([]);
+  const [memeResults, setMemeResults] = useState<GalleryMeme[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setTemplateResults([]);
+      setMemeResults([]);
+      return;
+    }
+
+    const runSearch = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await search.query(query, scope);
+        setTemplateResults(response.templates);
+        setMemeResults(response.memes);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    runSearch();
+  }, [query, scope]);
+
+  const handleScopeChange = (newScope: SearchScope) => {
+    setSearchParams({ q: query, scope: newScope });
+  };
+
+  const handleVoteChange = (memeId: string, upvotes: number, downvotes: number, score: number) => {
+    setMemeResults((prev) =>
+      prev.map((m) => (m.id === memeId ? { ...m, upvotes, downvotes, score } : m))
+    );
+  };
+
+  const handleReactionsChange = (memeId: string, memeReactions: ReactionSummary[]) => {
+    setMemeResults((prev) =>
+      prev.map((m) => (m.id === memeId ? { ...m, reactions: memeReactions } : m))
+    );
+  };
+
+  const handleRemix = async (meme: GalleryMeme) => {
+    setError('');
+    try {
+      const remix = await memes.remix(meme.id);
+      navigate(`/editor/${remix.template_id}/${remix.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remix meme');
+    }
+  };
+
+  const hasResults = templateResults.length > 0 || memeResults.length > 0;
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-themed-primary mb-2">Search</h1>
+      {query && <p className="text-themed-muted mb-6">Results for &ldquo;{query}&rdquo;</p>}
+
+      {/* Scope filter */}
+      <div className="flex items-center gap-2 mb-6">
+        <span className="text-sm text-themed-muted">Search in:</span>
+        <div className="flex rounded-lg overflow-hidden border border-themed">
+          {(Object.keys(SCOPE_LABELS) as SearchScope[]).map((s) => (
+            <button
+              key={s}
+              onClick={() => handleScopeChange(s)}
+              className={`px-3 py-1.5 text-sm transition-colors ${
+                scope === s
+                  ? 'bg-themed-accent text-themed-inverse'
+                  : 'bg-themed-secondary text-themed-secondary hover:bg-themed-tertiary'
+              }`}
+            >
+              {SCOPE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div
+          className="px-4 py-3 rounded-lg mb-6 border"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.1)',
+            borderColor: 'var(--color-error)',
+            color: 'var(--color-error)',
+          }}
+        >
+          {error}
+          <button onClick={() => setError('')} className="float-right font-bold">
+            &times;
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div
+            className="animate-spin rounded-full h-12 w-12 border-4 border-themed"
+            style={{ borderTopColor: 'var(--color-bg-accent)' }}
+          ></div>
+        </div>
+      ) : !query.trim() ? (
+        <div className="text-center py-16">
+          <p className="text-themed-muted text-lg">Search templates and memes by name or text</p>
+        </div>
+      ) : !hasResults && !error ? (
+        <div className="text-center py-16">
+          <p className="text-themed-muted text-lg">No results found</p>
+        </div>
+      ) : (
+        <>
+          {templateResults.length > 0 && (
+            <section className="mb-10">
+              <h2 className="text-xl font-semibold text-themed-primary mb-4">Templates</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                {templateResults.map((template) => (
+                  <div key={template.id} className="card p-4 group">
+                    <div
+                      className="aspect-square bg-themed-tertiary rounded-lg mb-3 overflow-hidden cursor-pointer relative"
+                      onClick={() => navigate(`/editor/${template.id}`)}
+                    >
+                      <img
+                        src={templates.imageUrl(template.filename)}
+                        alt={template.name}
+                        className="relative w-full h-full object-contain group-hover:scale-105 transition-transform"
+                      />
+                    </div>
+                    <h3 className="font-medium text-themed-primary truncate">{template.name}</h3>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {memeResults.length > 0 && (
+            <section>
+              <h2 className="text-xl font-semibold text-themed-primary mb-4">Memes</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                {memeResults.map((meme) => (
+                  <MemeCard
+                    key={meme.id}
+                    meme={meme}
+                    onVoteChange={handleVoteChange}
+                    onReactionsChange={handleReactionsChange}
+                    onClick={
+                      meme.created_by === user?.id
+                        ? () => navigate(`/editor/${meme.template_id}/${meme.id}`)
+                        : undefined
+                    }
+                    onRemix={meme.is_public ? () => handleRemix(meme) : undefined}
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
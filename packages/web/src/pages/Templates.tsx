@@ -1,27 +1,47 @@
 import { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { templates, Template } from '../lib/api';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { templates, tags, Tag, Template } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+
+function splitTags(input: string): string[] {
+  return input
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
 
 export default function Templates() {
   const navigate = useNavigate();
+  const { user, isAdmin } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTag = searchParams.get('tag') || '';
   const [templateList, setTemplateList] = useState<Template[]>([]);
+  const [tagList, setTagList] = useState<Tag[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [showUpload, setShowUpload] = useState(false);
   const [uploadName, setUploadName] = useState('');
+  const [uploadTags, setUploadTags] = useState('');
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [dragOver, setDragOver] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
+  const [editTags, setEditTags] = useState('');
+  const [savingTags, setSavingTags] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadTemplates();
-  }, []);
+  }, [activeTag]);
 
   const loadTemplates = async () => {
     try {
-      const data = await templates.list();
-      setTemplateList(data);
+      const [templateData, tagData] = await Promise.all([
+        templates.list(activeTag || undefined),
+        tags.list(),
+      ]);
+      setTemplateList(templateData);
+      setTagList(tagData.filter((tag) => tag.template_count > 0));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load templates');
     } finally {
@@ -52,11 +72,12 @@ export default function Templates() {
 
     setUploading(true);
     try {
-      await templates.upload(uploadFile, uploadName.trim());
+      await templates.upload(uploadFile, uploadName.trim(), splitTags(uploadTags));
       await loadTemplates();
       setShowUpload(false);
       setUploadFile(null);
       setUploadName('');
+      setUploadTags('');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to upload template');
     } finally {
@@ -75,6 +96,33 @@ export default function Templates() {
     }
   };
 
+  const handleTagFilter = (tag: string) => {
+    setSearchParams(tag ? { tag } : {});
+  };
+
+  const openTagEditor = (template: Template) => {
+    setEditingTemplate(template);
+    setEditTags((template.tags || []).join(', '));
+  };
+
+  const handleSaveTags = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTemplate) return;
+
+    setSavingTags(true);
+    try {
+      await templates.setTags(editingTemplate.id, splitTags(editTags));
+      await loadTemplates();
+      setEditingTemplate(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tags');
+    } finally {
+      setSavingTags(false);
+    }
+  };
+
+  const canEditTemplate = (template: Template) => isAdmin || template.uploaded_by === user?.id;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -111,6 +159,35 @@ export default function Templates() {
         </div>
       )}
 
+      {/* Tag filter */}
+      {tagList.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <button
+            onClick={() => handleTagFilter('')}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${
+              !activeTag
+                ? 'bg-themed-accent text-themed-inverse'
+                : 'bg-themed-secondary text-themed-secondary hover:bg-themed-tertiary'
+            }`}
+          >
+            All
+          </button>
+          {tagList.map((tag) => (
+            <button
+              key={tag.id}
+              onClick={() => handleTagFilter(tag.name)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                activeTag === tag.name
+                  ? 'bg-themed-accent text-themed-inverse'
+                  : 'bg-themed-secondary text-themed-secondary hover:bg-themed-tertiary'
+              }`}
+            >
+              #{tag.name} <span className="opacity-70">{tag.template_count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {showUpload && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="card max-w-lg w-full">
@@ -174,6 +251,23 @@ export default function Templates() {
                 />
               </div>
 
+              <div className="mb-4">
+                <label
+                  htmlFor="tags"
+                  className="block text-sm font-medium text-themed-secondary mb-1"
+                >
+                  Tags
+                </label>
+                <input
+                  type="text"
+                  id="tags"
+                  value={uploadTags}
+                  onChange={(e) => setUploadTags(e.target.value)}
+                  className="input w-full"
+                  placeholder="e.g. reaction, classic, animals"
+                />
+              </div>
+
               <div className="flex gap-4">
                 <button
                   type="button"
@@ -181,6 +275,7 @@ export default function Templates() {
                     setShowUpload(false);
                     setUploadFile(null);
                     setUploadName('');
+                    setUploadTags('');
                   }}
                   className="btn btn-secondary flex-1"
                 >
@@ -199,7 +294,52 @@ export default function Templates() {
         </div>
       )}
 
-      {templateList.length === 0 ? (
+      {editingTemplate && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="card max-w-lg w-full">
+            <h2 className="text-xl font-bold text-themed-primary mb-4">
+              Edit Tags: {editingTemplate.name}
+            </h2>
+            <form onSubmit={handleSaveTags}>
+              <div className="mb-4">
+                <input
+                  type="text"
+                  value={editTags}
+                  onChange={(e) => setEditTags(e.target.value)}
+                  className="input w-full"
+                  placeholder="Comma-separated tags"
+                  autoFocus
+                />
+                <p className="text-themed-muted text-sm mt-1">
+                  Letters, numbers and hyphens. Up to 10 tags.
+                </p>
+              </div>
+
+              <div className="flex gap-4">
+                <button
+                  type="button"
+                  onClick={() => setEditingTemplate(null)}
+                  className="btn btn-secondary flex-1"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="btn btn-primary flex-1" disabled={savingTags}>
+                  {savingTags ? 'Saving...' : 'Save Tags'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {templateList.length === 0 && activeTag ? (
+        <div className="text-center py-16">
+          <p className="text-themed-muted text-lg mb-4">No templates tagged #{activeTag}</p>
+          <button onClick={() => handleTagFilter('')} className="btn btn-secondary">
+            Show all templates
+          </button>
+        </div>
+      ) : templateList.length === 0 ? (
         <div className="text-center py-16">
           <p className="text-themed-muted text-lg mb-4">No templates yet</p>
           <button onClick={() => setShowUpload(true)} className="btn btn-primary">
@@ -232,6 +372,35 @@ export default function Templates() {
               <p className="text-sm text-themed-muted">
                 {template.width} x {template.height}
               </p>
+              {((template.tags && template.tags.length > 0) || canEditTemplate(template)) && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {template.tags?.map((tag) => (
+                    <button
+                      key={tag}
+                      onClick={() => handleTagFilter(tag)}
+                      className="px-2 py-0.5 rounded-full text-xs bg-themed-tertiary text-themed-secondary hover:text-themed-primary"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                  {canEditTemplate(template) && (
+                    <>
+                      <button
+                        onClick={() => openTagEditor(template)}
+                        className="px-2 py-0.5 rounded-full text-xs border border-themed text-themed-muted hover:text-themed-primary"
+                      >
+                        Edit tags
+                      </button>
+                      <button
+                        onClick={() => navigate(`/templates/${template.id}/setup`)}
+                        className="px-2 py-0.5 rounded-full text-xs border border-themed text-themed-muted hover:text-themed-primary"
+                      >
+                        Text zones
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
               <button
                 onClick={() => handleDelete(template.id)}
                 className="absolute top-2 right-2 w-8 h-8 rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center text-white"
@@ -34,6 +34,11 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
       },
+      // Public share pages; a bare '/s' prefix would also catch '/search'
+      '^/s/': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
     },
   },
 });
@@ -28,6 +28,7 @@ docker run --rm --entrypoint ls possumbly:latest /app/node_modules > /dev/null &
 
 # Check dist exists
 echo "Checking build artifacts..."
+docker run --rm --entrypoint ls possumbly:latest /app/packages/shared/dist > /dev/null && echo "✓ Shared build present" || echo "✗ Shared build missing"
 docker run --rm --entrypoint ls possumbly:latest /app/packages/server/dist > /dev/null && echo "✓ Server build present" || echo "✗ Server build missing"
 docker run --rm --entrypoint ls possumbly:latest /app/packages/web/dist > /dev/null && echo "✓ Web build present" || echo "✗ Web build missing"
 